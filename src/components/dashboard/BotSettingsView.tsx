@@ -1,20 +1,31 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { formatDistanceToNow, format } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowLeft, Server, ScrollText, KeyRound, Webhook,
-  AlertTriangle, GitBranch, Copy, Eye, EyeOff, Plus,
+  AlertTriangle, GitBranch, Copy, Plus,
   Trash2, RefreshCw, RotateCcw, Play, Pause, Globe,
   CheckCircle2, XCircle, Clock, ChevronRight, Terminal,
   Loader2, Bell, BellOff, Filter, Download, UploadCloud,
-  Radio, Hammer, WifiOff, Shield, Save, LayoutDashboard,
+  Radio, Hammer, WifiOff, Shield, LayoutDashboard,
   Pencil, MessageSquare, Zap, Coins, Calendar, User,
   Hash, ToggleLeft, Copy as CopyIcon, Trash2 as DeleteIcon,
 } from 'lucide-react';
 import { useProject, useProjects } from '@/hooks/useProjects';
 import { useAuth } from '@/hooks/useAuth';
+import { useWorkspace } from '@/hooks/useWorkspace';
+import { useBotLogs } from '@/hooks/useBotLogs';
+import { useBotDeployments } from '@/hooks/useBotDeployments';
+import { useBotErrors } from '@/hooks/useBotErrors';
+import { useBotMetrics } from '@/hooks/useBotMetrics';
+import { useProjectEnvVars } from '@/hooks/useProjectEnvVars';
 import { db } from '@/lib/firebase';
+import { formatLogEntries, type LogFilter } from '@/lib/botLogs';
+import { computeContentHash, describeTrigger, type BotDeployment } from '@/lib/botDeployments';
+import type { BotErrorGroup, ErrorGroupStatus } from '@/lib/botErrors';
+import { ENV_SCOPES, validateEnvVar, type EnvScope } from '@/lib/envVars';
+import { METRICS_RANGES, toPct, cpuPct, formatBytes, memoryTrend, type MetricsRange } from '@/lib/botMetrics';
 import { doc, getDoc, setDoc, deleteDoc, serverTimestamp, collection, query, where, onSnapshot } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
 
@@ -22,70 +33,6 @@ import { useToast } from '@/hooks/use-toast';
 
 type Tab = 'overview' | 'hosting' | 'logs' | 'env' | 'callbacks' | 'errors' | 'deployments';
 
-interface EnvVar { key: string; value: string; revealed: boolean }
-
-interface LogEntry {
-  id: string; ts: string; level: 'INFO' | 'WARN' | 'ERROR'; source: 'internal' | 'external'; msg: string;
-}
-
-interface Deployment {
-  id: string; version: string; ts: string;
-  status: 'active' | 'rolled-back' | 'failed';
-  trigger: string; sha: string;
-}
-
-interface ErrorEntry {
-  id: string; ts: string; type: string; msg: string; trace: string; count: number; resolved: boolean;
-}
-
-// ── Firestore env var helpers ──────────────────────────────────────────────────
-async function loadEnvVars(projectId: string): Promise<Omit<EnvVar, 'revealed'>[]> {
-  const snap = await getDoc(doc(db, 'projectEnvVars', projectId));
-  if (!snap.exists()) return [];
-  return (snap.data().vars ?? []) as Omit<EnvVar, 'revealed'>[];
-}
-
-async function saveEnvVars(projectId: string, vars: EnvVar[]) {
-  await setDoc(doc(db, 'projectEnvVars', projectId), {
-    vars: vars.map(({ key, value }) => ({ key, value })),
-    updatedAt: serverTimestamp(),
-  }, { merge: true });
-}
-
-// ── Placeholder data ───────────────────────────────────────────────────────────
-
-const MOCK_LOGS: LogEntry[] = [
-  { id: '1', ts: new Date(Date.now() - 12000).toISOString(),   level: 'INFO',  source: 'internal', msg: 'Bot connected to Discord gateway (shard 0/1)' },
-  { id: '2', ts: new Date(Date.now() - 35000).toISOString(),   level: 'INFO',  source: 'internal', msg: '!play invoked by user sarah_m in #music-bot-test' },
-  { id: '3', ts: new Date(Date.now() - 60000).toISOString(),   level: 'WARN',  source: 'internal', msg: 'Spotify API rate limit approaching (88%)' },
-  { id: '4', ts: new Date(Date.now() - 90000).toISOString(),   level: 'ERROR', source: 'internal', msg: 'YTDLError: Unable to extract video info' },
-  { id: '5', ts: new Date(Date.now() - 120000).toISOString(),  level: 'INFO',  source: 'external', msg: 'INTERACTION_CREATE: /help (guild 8821…)' },
-  { id: '6', ts: new Date(Date.now() - 200000).toISOString(),  level: 'INFO',  source: 'external', msg: 'GUILD_MEMBER_ADD: user joined server' },
-  { id: '7', ts: new Date(Date.now() - 400000).toISOString(),  level: 'WARN',  source: 'external', msg: 'RESUMED: gateway reconnect after network blip' },
-];
-
-const MOCK_DEPLOYMENTS: Deployment[] = [
-  { id: 'd1', version: 'v0.4.2', ts: new Date(Date.now() - 3600000).toISOString(),    status: 'active',      trigger: 'AI Build',    sha: 'a1b2c3d' },
-  { id: 'd2', version: 'v0.4.1', ts: new Date(Date.now() - 86400000).toISOString(),   status: 'rolled-back', trigger: 'AI Build',    sha: 'e4f5a6b' },
-  { id: 'd3', version: 'v0.4.0', ts: new Date(Date.now() - 172800000).toISOString(),  status: 'rolled-back', trigger: 'AI Build',    sha: 'c7d8e9f' },
-  { id: 'd4', version: 'v0.3.1', ts: new Date(Date.now() - 259200000).toISOString(),  status: 'rolled-back', trigger: 'Manual push', sha: '0a1b2c3' },
-];
-
-const MOCK_ERRORS: ErrorEntry[] = [
-  {
-    id: 'e1', ts: new Date(Date.now() - 90000).toISOString(), count: 3, resolved: false,
-    type: 'YTDLError',
-    msg: 'Unable to extract video info from provided URL',
-    trace: `Traceback (most recent call last):\n  File "bot.py", line 142, in play_cmd\n    info = await loop.run_in_executor(None, ytdl.extract_info, url)\n  File "/usr/lib/python3.11/concurrent/futures/thread.py", line 58, in run\n    result = self.fn(*self.args, **self.kwargs)\nytdl.utils.DownloadError: ERROR: Unable to extract info`,
-  },
-  {
-    id: 'e2', ts: new Date(Date.now() - 3600000).toISOString(), count: 1, resolved: true,
-    type: 'CommandInvokeError',
-    msg: 'Missing required argument: query',
-    trace: `discord.ext.commands.errors.MissingRequiredArgument: query is a required argument that is missing.\n  In command "play"`,
-  },
-];
-
 // ── Constants ──────────────────────────────────────────────────────────────────
 
 const FONT = "'Geist', 'DM Sans', sans-serif";
@@ -111,6 +58,7 @@ export default function BotSettingsView() {
   const { data: project, isLoading } = useProject(projectId);
   const { user, profile } = useAuth();
   const { toast } = useToast();
+  const { workspaceId, files: workspaceFiles } = useWorkspace(projectId);
 
   const activeTab = (searchParams.get('tab') as Tab) || 'overview';
   const setActiveTab = (id: Tab) => setSearchParams({ tab: id }, { replace: true });
@@ -129,20 +77,12 @@ export default function BotSettingsView() {
   const [confirmDelete, setConfirmDelete] = useState(false);
 
   // ENV state
-  const [envVars, setEnvVars] = useState<EnvVar[]>([]);
-  const [envLoading, setEnvLoading] = useState(false);
+  const { vars: allEnvVars, isLoading: envLoading, setVars: saveEnvVars, removeVar: removeEnvVar } = useProjectEnvVars(projectId);
+  const [envScope, setEnvScope] = useState<EnvScope>('shared');
   const [envSaving, setEnvSaving] = useState(false);
   const [newKey, setNewKey] = useState('');
   const [newVal, setNewVal] = useState('');
-
-  useEffect(() => {
-    if (!projectId) return;
-    setEnvLoading(true);
-    loadEnvVars(projectId)
-      .then(vars => setEnvVars(vars.map(v => ({ ...v, revealed: false }))))
-      .catch(() => {})
-      .finally(() => setEnvLoading(false));
-  }, [projectId]);
+  const envVars = allEnvVars.filter(v => v.scope === envScope);
 
   // Fetch overview data with real-time listeners (survives restarts/refreshes)
   useEffect(() => {
@@ -215,40 +155,115 @@ export default function BotSettingsView() {
     await setDoc(doc(db, 'projects', projectId), { isPublic: next, updatedAt: serverTimestamp() }, { merge: true }).catch(() => {});
   };
 
-  const handleSaveEnv = async () => {
-    if (!projectId) return;
+  const handleAddEnvVar = async () => {
+    const key = newKey.trim();
+    if (!projectId || !key) return;
+    const problem = validateEnvVar(key, newVal);
+    if (problem) {
+      toast({ title: `Invalid ${key}`, description: problem, variant: 'destructive' });
+      return;
+    }
     setEnvSaving(true);
-    await saveEnvVars(projectId, envVars).catch(() => {});
+    try {
+      await saveEnvVars(envScope, { [key]: newVal });
+      setNewKey(''); setNewVal('');
+    } catch (err) {
+      toast({ title: 'Could not save variable', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
     setEnvSaving(false);
   };
 
-  const handleAddEnvVar = async () => {
-    if (!newKey.trim()) return;
-    const updated = [...envVars, { key: newKey.trim(), value: newVal, revealed: false }];
-    setEnvVars(updated);
-    setNewKey(''); setNewVal('');
-    if (projectId) await saveEnvVars(projectId, updated).catch(() => {});
+  const handleDeleteEnvVar = async (key: string) => {
+    try {
+      await removeEnvVar(key, envScope);
+    } catch (err) {
+      toast({ title: 'Could not delete variable', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
   };
 
-  const handleDeleteEnvVar = async (i: number) => {
-    const updated = envVars.filter((_, j) => j !== i);
-    setEnvVars(updated);
-    if (projectId) await saveEnvVars(projectId, updated).catch(() => {});
+  // Logs state
+  const [logFilter, setLogFilter] = useState<LogFilter['level']>('all');
+  const [logSource, setLogSource] = useState<LogFilter['source']>('all');
+  const [logSearchInput, setLogSearchInput] = useState('');
+  const [logSearch, setLogSearch] = useState('');
+  const [logFollow, setLogFollow] = useState(true);
+  const logScrollRef = useRef<HTMLDivElement>(null);
+  const {
+    entries: filteredLogs,
+    isConnected: logsConnected,
+    isLoadingHistory: logsLoading,
+    hasMore: logsHasMore,
+    loadOlder: loadOlderLogs,
+    error: logsError,
+  } = useBotLogs(workspaceId, {
+    filter: { level: logFilter, source: logSource, search: logSearch },
+    enabled: activeTab === 'logs',
+  });
+
+  // Debounce search so each keystroke doesn't reopen the stream
+  useEffect(() => {
+    const t = setTimeout(() => setLogSearch(logSearchInput), 300);
+    return () => clearTimeout(t);
+  }, [logSearchInput]);
+
+  // Tail-follow: keep the newest entry in view while following
+  useEffect(() => {
+    if (logFollow && logScrollRef.current) logScrollRef.current.scrollTop = logScrollRef.current.scrollHeight;
+  }, [filteredLogs, logFollow]);
+
+  const handleExportLogs = () => {
+    const blob = new Blob([formatLogEntries(filteredLogs)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${projectId ?? 'bot'}-logs.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
-  // Logs state
-  const [logFilter, setLogFilter] = useState<'all' | 'INFO' | 'WARN' | 'ERROR'>('all');
-  const [logSource, setLogSource] = useState<'all' | 'internal' | 'external'>('all');
-  const filteredLogs = MOCK_LOGS.filter(l =>
-    (logFilter === 'all' || l.level === logFilter) &&
-    (logSource === 'all' || l.source === logSource)
-  );
+  // Deployments state
+  const { deployments, activeDeployment, isLoading: deploymentsLoading, rollback, rollingBackId } = useBotDeployments(workspaceId);
+  const [workspaceHash, setWorkspaceHash] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (activeTab !== 'deployments' || workspaceFiles.length === 0) return;
+    let cancelled = false;
+    computeContentHash(workspaceFiles.map(f => ({ path: f.file_path, content: f.content })))
+      .then(h => { if (!cancelled) setWorkspaceHash(h); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [activeTab, workspaceFiles]);
+
+  const handleRollback = async (dep: BotDeployment) => {
+    try {
+      await rollback(dep.id);
+      toast({ title: `Rolling back to v${dep.number}`, description: 'The previous build is being redeployed.' });
+    } catch (err) {
+      toast({ title: 'Rollback failed', description: err instanceof Error ? err.message : String(err), variant: 'destructive' });
+    }
+  };
 
   // Errors state
   const [expandedError, setExpandedError] = useState<string | null>(null);
+  const [errorView, setErrorView] = useState<ErrorGroupStatus>('open');
+  const { groups: errorGroups, openCount: openErrorCount, isLoading: errorsLoading, setStatus: setErrorStatus } = useBotErrors(workspaceId);
+  const visibleErrors = errorGroups.filter(g => g.status === errorView);
+
+  const handleErrorStatus = async (group: BotErrorGroup, status: ErrorGroupStatus) => {
+    try {
+      await setErrorStatus(group.id, status);
+    } catch {
+      toast({ title: 'Could not update error', variant: 'destructive' });
+    }
+  };
 
   // Hosting
   const [botRunning, setBotRunning] = useState(true);
+  const [metricsRange, setMetricsRange] = useState<MetricsRange>('1h');
+  const { metrics, isLoading: metricsLoading } = useBotMetrics(workspaceId, metricsRange, { enabled: activeTab === 'hosting' });
+  const metricsNow = metrics?.current ?? null;
+  const metricsSeries = metrics?.series ?? [];
+  const memTrend = metrics ? memoryTrend(metricsSeries, metrics.limits.mem_bytes) : null;
 
   // Callbacks
   const [callbacks, setCallbacks] = useState([
@@ -559,24 +574,61 @@ export default function BotSettingsView() {
 
                 {/* Resource usage */}
                 <div className="pb-7 mb-7" style={ROW_DIVIDER}>
-                  <p className="text-[15px] font-semibold mb-1" style={{ color: 'rgb(252,251,248)', fontFamily: FONT }}>Resource usage</p>
-                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>Live utilisation metrics for your bot container.</p>
-                  <div className="grid grid-cols-2 gap-x-10 gap-y-4 max-w-lg">
-                    <ResourceBar label="CPU"       pct={18} color="#60a5fa" />
-                    <ResourceBar label="Memory"    pct={42} color="#a78bfa" />
-                    <ResourceBar label="Disk"      pct={11} color="#34d399" />
-                    <ResourceBar label="Bandwidth" pct={6}  color="#fbbf24" />
+                  <div className="flex items-start justify-between max-w-lg mb-5">
+                    <div>
+                      <p className="text-[15px] font-semibold mb-1" style={{ color: 'rgb(252,251,248)', fontFamily: FONT }}>Resource usage</p>
+                      <p className="text-[13px]" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                        {metricsNow ? 'Live utilisation metrics for your bot container.' : metricsLoading ? 'Loading metrics…' : 'No samples yet — metrics appear once your bot is running.'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {METRICS_RANGES.map(r => (
+                        <button key={r} onClick={() => setMetricsRange(r)}
+                          className="text-xs px-2.5 py-1 rounded-md transition-colors"
+                          style={{ background: metricsRange === r ? 'rgba(255,255,255,0.08)' : 'transparent', color: metricsRange === r ? 'rgb(220,218,214)' : 'rgb(120,116,110)', fontFamily: FONT }}>
+                          {r}
+                        </button>
+                      ))}
+                    </div>
                   </div>
+                  <div className="grid grid-cols-2 gap-x-10 gap-y-5 max-w-lg">
+                    <ResourceBar label="CPU" color="#60a5fa"
+                      pct={cpuPct(metricsNow?.cpu_pct, metrics?.limits)}
+                      detail={metricsNow && (metrics.limits.cpus ?? 1) > 1 ? `${metrics.limits.cpus} cores` : undefined}
+                      series={metricsSeries.map(m => m.cpu_pct)} />
+                    <ResourceBar label="Memory" color="#a78bfa"
+                      pct={toPct(metricsNow?.mem_bytes, metrics?.limits.mem_bytes)}
+                      detail={metricsNow ? `${formatBytes(metricsNow.mem_bytes)} / ${formatBytes(metrics.limits.mem_bytes)}` : undefined}
+                      series={metricsSeries.map(m => m.mem_bytes)} />
+                    <ResourceBar label="Disk" color="#34d399"
+                      pct={toPct(metricsNow?.disk_bytes, metrics?.limits.disk_bytes)}
+                      detail={metricsNow ? `${formatBytes(metricsNow.disk_bytes)} / ${formatBytes(metrics.limits.disk_bytes)}` : undefined}
+                      series={metricsSeries.map(m => m.disk_bytes)} />
+                    <ResourceBar label="Bandwidth" color="#fbbf24"
+                      pct={toPct(metricsNow?.net_bytes_per_s, metrics?.limits.net_bytes_per_s)}
+                      detail={metricsNow ? `${formatBytes(metricsNow.net_bytes_per_s)}/s` : undefined}
+                      series={metricsSeries.map(m => m.net_bytes_per_s)} />
+                  </div>
+                  {memTrend && memTrend.hoursToLimit !== null && memTrend.hoursToLimit < 72 && (
+                    <div className="flex items-start gap-2.5 mt-5 p-3 rounded-lg max-w-lg" style={{ background: 'rgba(251,191,36,0.06)', border: '1px solid rgba(251,191,36,0.2)' }}>
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color: '#fbbf24' }} />
+                      <p className="text-[12.5px]" style={{ color: 'rgb(197,193,186)', fontFamily: FONT }}>
+                        Memory is growing by {formatBytes(memTrend.bytesPerHour)}/h over the last {metricsRange}. At this rate the container hits its limit in about {memTrend.hoursToLimit < 1 ? `${Math.round(memTrend.hoursToLimit * 60)} min` : `${Math.round(memTrend.hoursToLimit)} h`}.
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 {/* Network */}
                 <div>
                   <p className="text-[15px] font-semibold mb-1" style={{ color: 'rgb(252,251,248)', fontFamily: FONT }}>Network</p>
-                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>Connection endpoints and outbound IPs for firewall rules.</p>
+                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>Gateway health, connection endpoints and outbound IPs for firewall rules.</p>
                   <div className="space-y-0 max-w-lg rounded-xl overflow-hidden" style={{ border: BORDER }}>
-                    <NetRow label="Internal endpoint" value="bot-svc-internal:8000" />
-                    <NetRow label="Discord gateway"   value="gateway.discord.gg (WSS)" />
-                    <NetRow label="Outbound IPs"      value="104.21.0.0/16" />
+                    <NetRow label="Gateway latency"   value={metricsNow?.gateway_latency_ms != null ? `${Math.round(metricsNow.gateway_latency_ms)} ms` : '—'} />
+                    <NetRow label="Guilds"            value={metricsNow?.guild_count != null ? metricsNow.guild_count.toLocaleString() : '—'} />
+                    <NetRow label="Internal endpoint" value={metrics?.network.internal_endpoint ?? '—'} />
+                    <NetRow label="Discord gateway"   value={metrics?.network.gateway_url ?? 'gateway.discord.gg (WSS)'} />
+                    <NetRow label="Outbound IPs"      value={metrics?.network.outbound_ips.length ? metrics.network.outbound_ips.join(', ') : '—'} />
                   </div>
                 </div>
               </motion.div>
@@ -622,7 +674,17 @@ export default function BotSettingsView() {
                       >{s === 'all' ? 'All sources' : s}</button>
                     ))}
                   </div>
-                  <button className="ml-auto flex items-center gap-1.5 text-xs" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                  <div className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg" style={{ border: BORDER }}>
+                    <Filter className="w-3 h-3 flex-shrink-0" style={{ color: 'rgb(120,116,110)' }} />
+                    <input value={logSearchInput} onChange={e => setLogSearchInput(e.target.value)} placeholder="Search logs"
+                      className="w-40 bg-transparent text-xs outline-none"
+                      style={{ color: 'rgb(220,218,214)', fontFamily: FONT }} />
+                  </div>
+                  <button onClick={() => setLogFollow(v => !v)} className="ml-auto flex items-center gap-1.5 text-xs"
+                    style={{ color: logFollow ? 'rgb(220,218,214)' : 'rgb(120,116,110)', fontFamily: FONT }}>
+                    {logFollow ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />} {logFollow ? 'Following' : 'Follow'}
+                  </button>
+                  <button onClick={handleExportLogs} disabled={filteredLogs.length === 0} className="flex items-center gap-1.5 text-xs" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
                     <Download className="w-3.5 h-3.5" /> Export
                   </button>
                 </div>
@@ -634,21 +696,43 @@ export default function BotSettingsView() {
                       <Terminal className="w-3 h-3 inline mr-1.5" />
                       {filteredLogs.length} entries
                     </span>
-                    <span className="flex items-center gap-1.5 text-xs" style={{ color: '#22c55e', fontFamily: FONT }}>
-                      <span className="relative flex w-1.5 h-1.5"><span className="animate-ping absolute w-full h-full rounded-full opacity-60 bg-green-500" /><span className="relative w-1.5 h-1.5 rounded-full bg-green-500" /></span>
-                      Live
-                    </span>
+                    {logsConnected ? (
+                      <span className="flex items-center gap-1.5 text-xs" style={{ color: '#22c55e', fontFamily: FONT }}>
+                        <span className="relative flex w-1.5 h-1.5"><span className="animate-ping absolute w-full h-full rounded-full opacity-60 bg-green-500" /><span className="relative w-1.5 h-1.5 rounded-full bg-green-500" /></span>
+                        Live
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1.5 text-xs" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                        <WifiOff className="w-3 h-3" /> {logsError ? 'Disconnected' : 'Connecting…'}
+                      </span>
+                    )}
+                  </div>
+                  <div ref={logScrollRef} className="overflow-y-auto" style={{ maxHeight: 520 }}
+                    onScroll={e => {
+                      const el = e.currentTarget;
+                      const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+                      if (!atBottom && logFollow) setLogFollow(false);
+                    }}>
+                    {logsHasMore && (
+                      <button onClick={loadOlderLogs} disabled={logsLoading}
+                        className="w-full flex items-center justify-center gap-1.5 px-4 py-2 text-xs"
+                        style={{ color: 'rgb(120,116,110)', borderBottom: '1px solid rgba(255,255,255,0.03)', fontFamily: FONT }}>
+                        {logsLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Clock className="w-3 h-3" />} Load older entries
+                      </button>
+                    )}
+                    {filteredLogs.length === 0 ? (
+                      <p className="px-4 py-8 text-center" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                        {logsError && !logsLoading ? logsError : logsLoading ? 'Loading logs…' : 'No matching log entries.'}
+                      </p>
+                    ) : filteredLogs.map(l => (
+                      <div key={l.id} className="flex gap-3 px-4 py-2.5" style={{ borderBottom: '1px solid rgba(255,255,255,0.03)' }}>
+                        <span className="flex-shrink-0 w-[130px] tabular-nums" style={{ color: 'rgb(120,116,110)' }}>{format(new Date(l.ts), 'HH:mm:ss.SSS')}</span>
+                        <span className="flex-shrink-0 w-12 font-bold" style={{ color: l.level === 'ERROR' ? '#f87171' : l.level === 'WARN' ? '#fbbf24' : '#60a5fa' }}>{l.level}</span>
+                        <span className="flex-shrink-0 w-16" style={{ color: 'rgb(100,97,92)' }}>[{l.source}]</span>
+                        <span className="flex-1 break-all" style={{ color: 'rgb(197,193,186)' }}>{l.msg}</span>
+                      </div>
+                    ))}
                   </div>
-                  {filteredLogs.length === 0 ? (
-                    <p className="px-4 py-8 text-center" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>No matching log entries.</p>
-                  ) : filteredLogs.map(l => (
-                    <div key={l.id} className="flex gap-3 px-4 py-2.5" style={{ borderBottom: '1px solid rgba(255,255,255,0.03)' }}>
-                      <span className="flex-shrink-0 w-[130px] tabular-nums" style={{ color: 'rgb(120,116,110)' }}>{format(new Date(l.ts), 'HH:mm:ss.SSS')}</span>
-                      <span className="flex-shrink-0 w-12 font-bold" style={{ color: l.level === 'ERROR' ? '#f87171' : l.level === 'WARN' ? '#fbbf24' : '#60a5fa' }}>{l.level}</span>
-                      <span className="flex-shrink-0 w-16" style={{ color: 'rgb(100,97,92)' }}>[{l.source}]</span>
-                      <span className="flex-1 break-all" style={{ color: 'rgb(197,193,186)' }}>{l.msg}</span>
-                    </div>
-                  ))}
                 </div>
               </motion.div>
             )}
@@ -663,7 +747,18 @@ export default function BotSettingsView() {
                 <div className="flex items-center gap-2.5 px-4 py-3 rounded-xl mb-6 text-[12.5px]"
                   style={{ background: 'rgba(251,191,36,0.06)', border: '1px solid rgba(251,191,36,0.18)', color: '#fbbf24', fontFamily: FONT }}>
                   <Shield className="w-3.5 h-3.5 flex-shrink-0" />
-                  Variables are only accessible to you and encrypted in storage. Never share your tokens.
+                  Values are encrypted in storage and never sent back to the browser — only masked previews are shown. Never share your tokens.
+                </div>
+
+                {/* Scope */}
+                <div className="flex items-center gap-1 mb-6">
+                  {ENV_SCOPES.map(sc => (
+                    <button key={sc} onClick={() => setEnvScope(sc)}
+                      className="text-xs px-3 py-1.5 rounded-md capitalize transition-colors"
+                      style={{ background: envScope === sc ? 'rgba(255,255,255,0.08)' : 'transparent', color: envScope === sc ? 'rgb(220,218,214)' : 'rgb(120,116,110)', fontFamily: FONT }}>
+                      {sc === 'shared' ? 'All environments' : sc} <span style={{ color: 'rgb(100,97,92)' }}>{allEnvVars.filter(v => v.scope === sc).length}</span>
+                    </button>
+                  ))}
                 </div>
 
                 {/* Existing vars */}
@@ -674,19 +769,18 @@ export default function BotSettingsView() {
                 ) : (
                   <div className="pb-7 mb-7" style={ROW_DIVIDER}>
                     <p className="text-[15px] font-semibold mb-1" style={{ color: 'rgb(252,251,248)', fontFamily: FONT }}>Variables</p>
-                    <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>{envVars.length} variable{envVars.length !== 1 ? 's' : ''} configured.</p>
+                    <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>{envVars.length} variable{envVars.length !== 1 ? 's' : ''} configured{envScope === 'shared' ? ' for all environments' : ` for ${envScope} — these override shared values with the same name`}.</p>
                     <div className="space-y-2 max-w-2xl">
-                      {envVars.map((v, i) => (
-                        <div key={i} className="flex items-center gap-2">
+                      {envVars.map(v => (
+                        <div key={v.key} className="flex items-center gap-2">
                           <div className="flex-shrink-0 px-3 py-2 rounded-lg text-xs font-mono w-44 truncate"
                             style={{ background: 'rgba(255,255,255,0.04)', color: 'rgb(197,193,186)', border: BORDER }}>{v.key}</div>
                           <div className="flex-1 flex items-center rounded-lg px-3 py-2 text-xs font-mono"
                             style={{ background: 'rgba(255,255,255,0.04)', border: BORDER, color: 'rgb(120,116,110)' }}>
-                            <span className="flex-1 truncate">{v.revealed ? v.value : '•'.repeat(Math.min(v.value.length, 20))}</span>
+                            <span className="flex-1 truncate">{v.preview}</span>
+                            <span className="flex-shrink-0 ml-3" style={{ color: 'rgb(80,78,74)', fontFamily: FONT }}>updated {formatDistanceToNow(new Date(v.updated_at), { addSuffix: true })}</span>
                           </div>
-                          <IconBtn icon={v.revealed ? EyeOff : Eye} onClick={() => setEnvVars(vars => vars.map((x, j) => j === i ? { ...x, revealed: !x.revealed } : x))} title={v.revealed ? 'Hide' : 'Reveal'} />
-                          <IconBtn icon={Copy} onClick={() => navigator.clipboard.writeText(v.value)} title="Copy value" />
-                          <IconBtn icon={Trash2} onClick={() => handleDeleteEnvVar(i)} title="Delete" danger />
+                          <IconBtn icon={Trash2} onClick={() => handleDeleteEnvVar(v.key)} title="Delete" danger />
                         </div>
                       ))}
                     </div>
@@ -696,7 +790,7 @@ export default function BotSettingsView() {
                 {/* Add new */}
                 <div>
                   <p className="text-[15px] font-semibold mb-1" style={{ color: 'rgb(252,251,248)', fontFamily: FONT }}>Add variable</p>
-                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>New variables are available to your bot on next deploy.</p>
+                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>New variables are available to your bot on next deploy. Values are write-only — re-enter a key to replace it.</p>
                   <div className="flex items-center gap-2 max-w-2xl">
                     <input value={newKey} onChange={e => setNewKey(e.target.value)} placeholder="VARIABLE_NAME"
                       className="flex-shrink-0 w-44 px-3 py-2 rounded-lg text-xs font-mono outline-none"
@@ -704,15 +798,11 @@ export default function BotSettingsView() {
                     <input value={newVal} onChange={e => setNewVal(e.target.value)} placeholder="value" type="password"
                       className="flex-1 px-3 py-2 rounded-lg text-xs font-mono outline-none"
                       style={{ background: 'rgba(255,255,255,0.05)', border: BORDER, color: 'rgb(220,218,214)', fontFamily: 'monospace' }} />
-                    <button onClick={handleAddEnvVar} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs transition-colors"
+                    <button onClick={handleAddEnvVar} disabled={envSaving} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs transition-colors"
                       style={{ background: 'rgba(255,255,255,0.07)', color: 'rgb(220,218,214)', border: BORDER, fontFamily: FONT }}
                       onMouseEnter={e => (e.currentTarget.style.background = 'rgba(255,255,255,0.12)')}
                       onMouseLeave={e => (e.currentTarget.style.background = 'rgba(255,255,255,0.07)')}>
-                      <Plus className="w-3.5 h-3.5" /> Add
-                    </button>
-                    <button onClick={handleSaveEnv} disabled={envSaving} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs transition-colors ml-auto"
-                      style={{ background: 'rgba(255,255,255,0.05)', color: 'rgb(120,116,110)', border: BORDER, fontFamily: FONT }}>
-                      {envSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} Save
+                      {envSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />} Add
                     </button>
                   </div>
                 </div>
@@ -792,39 +882,86 @@ export default function BotSettingsView() {
 
                 <div>
                   <p className="text-[15px] font-semibold mb-1" style={{ color: 'rgb(252,251,248)', fontFamily: FONT }}>Captured errors</p>
-                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>{MOCK_ERRORS.filter(e => !e.resolved).length} unresolved error{MOCK_ERRORS.filter(e => !e.resolved).length !== 1 ? 's' : ''}.</p>
+                  <p className="text-[13px] mb-4" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                    {openErrorCount} open error{openErrorCount !== 1 ? 's' : ''}. Errors are grouped by exception type and the first frame in your code; resolved errors reopen if they happen again.
+                  </p>
+                  <div className="flex items-center gap-1 mb-5">
+                    {(['open', 'resolved', 'ignored'] as const).map(v => (
+                      <button key={v} onClick={() => setErrorView(v)}
+                        className="text-xs px-3 py-1.5 rounded-md capitalize transition-colors"
+                        style={{ background: errorView === v ? 'rgba(255,255,255,0.08)' : 'transparent', color: errorView === v ? 'rgb(220,218,214)' : 'rgb(120,116,110)', fontFamily: FONT }}>
+                        {v} <span style={{ color: 'rgb(100,97,92)' }}>{errorGroups.filter(g => g.status === v).length}</span>
+                      </button>
+                    ))}
+                  </div>
                   <div className="space-y-3 max-w-2xl">
-                    {MOCK_ERRORS.map(err => (
+                    {errorsLoading && (
+                      <div className="flex items-center gap-2 text-[13px]" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading errors…
+                      </div>
+                    )}
+                    {!errorsLoading && visibleErrors.length === 0 && (
+                      <div className="p-6 rounded-xl text-center" style={{ border: BORDER }}>
+                        <CheckCircle2 className="w-5 h-5 mx-auto mb-2" style={{ color: 'rgb(80,78,74)' }} />
+                        <p className="text-[13px]" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>No {errorView} errors.</p>
+                      </div>
+                    )}
+                    {visibleErrors.map(err => {
+                      const isOpen = err.status === 'open';
+                      return (
                       <div key={err.id} className="rounded-xl overflow-hidden"
-                        style={{ border: `1px solid ${err.resolved ? 'rgb(39,39,37)' : 'rgba(248,113,113,0.25)'}`, background: err.resolved ? 'rgba(255,255,255,0.02)' : 'rgba(239,68,68,0.04)' }}>
+                        style={{ border: `1px solid ${isOpen ? 'rgba(248,113,113,0.25)' : 'rgb(39,39,37)'}`, background: isOpen ? 'rgba(239,68,68,0.04)' : 'rgba(255,255,255,0.02)' }}>
                         <button className="w-full flex items-center gap-3 px-4 py-3 text-left"
                           onClick={() => setExpandedError(expandedError === err.id ? null : err.id)}>
-                          <XCircle className="w-4 h-4 flex-shrink-0" style={{ color: err.resolved ? 'rgb(100,97,92)' : '#f87171' }} />
+                          <XCircle className="w-4 h-4 flex-shrink-0" style={{ color: isOpen ? '#f87171' : 'rgb(100,97,92)' }} />
                           <div className="flex-1 min-w-0">
-                            <p className="text-xs font-semibold font-mono" style={{ color: err.resolved ? 'rgb(120,116,110)' : '#f87171' }}>{err.type}</p>
-                            <p className="text-xs mt-0.5 truncate" style={{ color: 'rgb(120,116,110)' }}>{err.msg}</p>
+                            <p className="text-xs font-semibold font-mono" style={{ color: isOpen ? '#f87171' : 'rgb(120,116,110)' }}>
+                              {err.type}
+                              {err.top_frame && <span className="font-normal" style={{ color: 'rgb(100,97,92)' }}> in {err.top_frame.fn} ({err.top_frame.file.split('/').pop()}:{err.top_frame.line})</span>}
+                            </p>
+                            <p className="text-xs mt-0.5 truncate" style={{ color: 'rgb(120,116,110)' }}>{err.message || 'No message'}</p>
                           </div>
                           <div className="flex items-center gap-3 flex-shrink-0">
+                            {err.reopened_at && isOpen && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(251,191,36,0.1)', color: '#fbbf24', fontFamily: FONT }}>Reopened</span>}
                             {err.count > 1 && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(248,113,113,0.1)', color: '#f87171' }}>×{err.count}</span>}
-                            {err.resolved && <span className="text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>Resolved</span>}
-                            <span className="text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>{formatDistanceToNow(new Date(err.ts), { addSuffix: true })}</span>
+                            <span className="text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>{formatDistanceToNow(new Date(err.last_seen), { addSuffix: true })}</span>
                             <ChevronRight className="w-3.5 h-3.5 transition-transform" style={{ color: 'rgb(100,97,92)', transform: expandedError === err.id ? 'rotate(90deg)' : 'none' }} />
                           </div>
                         </button>
                         {expandedError === err.id && (
                           <div className="px-4 pb-4" style={{ borderTop: '1px solid rgb(39,39,37)' }}>
+                            <div className="flex items-center gap-4 mt-3 text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>
+                              <span>First seen {format(new Date(err.first_seen), 'MMM d, HH:mm')}</span>
+                              <span>Last seen {format(new Date(err.last_seen), 'MMM d, HH:mm')}</span>
+                              <span className="font-mono">{err.fingerprint}</span>
+                            </div>
                             <pre className="mt-3 p-3 rounded-lg text-xs overflow-x-auto"
                               style={{ background: 'rgba(0,0,0,0.3)', color: '#f87171', fontFamily: 'monospace', lineHeight: '1.6' }}>{err.trace}</pre>
-                            {!err.resolved && (
-                              <button className="mt-3 flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg"
-                                style={{ background: 'rgba(34,197,94,0.08)', color: '#22c55e', border: '1px solid rgba(34,197,94,0.2)', fontFamily: FONT }}>
-                                <CheckCircle2 className="w-3.5 h-3.5" /> Mark as resolved
-                              </button>
-                            )}
+                            <div className="flex items-center gap-2 mt-3">
+                              {err.status !== 'resolved' && (
+                                <button onClick={() => handleErrorStatus(err, 'resolved')} className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg"
+                                  style={{ background: 'rgba(34,197,94,0.08)', color: '#22c55e', border: '1px solid rgba(34,197,94,0.2)', fontFamily: FONT }}>
+                                  <CheckCircle2 className="w-3.5 h-3.5" /> Mark as resolved
+                                </button>
+                              )}
+                              {err.status !== 'ignored' && (
+                                <button onClick={() => handleErrorStatus(err, 'ignored')} className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg"
+                                  style={{ background: 'rgba(255,255,255,0.05)', color: 'rgb(120,116,110)', border: BORDER, fontFamily: FONT }}>
+                                  <BellOff className="w-3.5 h-3.5" /> Ignore
+                                </button>
+                              )}
+                              {err.status !== 'open' && (
+                                <button onClick={() => handleErrorStatus(err, 'open')} className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg"
+                                  style={{ background: 'rgba(255,255,255,0.05)', color: 'rgb(120,116,110)', border: BORDER, fontFamily: FONT }}>
+                                  <RotateCcw className="w-3.5 h-3.5" /> Reopen
+                                </button>
+                              )}
+                            </div>
                           </div>
                         )}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               </motion.div>
@@ -838,48 +975,97 @@ export default function BotSettingsView() {
 
                 <div>
                   <p className="text-[15px] font-semibold mb-1" style={{ color: 'rgb(252,251,248)', fontFamily: FONT }}>Versions</p>
-                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>{MOCK_DEPLOYMENTS.length} deployments · 1 active.</p>
+                  <p className="text-[13px] mb-5" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                    {deployments.length} deployment{deployments.length !== 1 ? 's' : ''} · {activeDeployment ? `v${activeDeployment.number} active` : 'none active'}.
+                  </p>
 
+                  {deploymentsLoading ? (
+                    <div className="flex items-center gap-2 text-[13px]" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading deployments…
+                    </div>
+                  ) : deployments.length === 0 ? (
+                    <div className="max-w-2xl p-6 rounded-xl text-center" style={{ border: BORDER }}>
+                      <GitBranch className="w-5 h-5 mx-auto mb-2" style={{ color: 'rgb(80,78,74)' }} />
+                      <p className="text-[13px]" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>No deployments yet. Deploy your bot from the workspace to start a history.</p>
+                    </div>
+                  ) : (
                   <div className="relative max-w-2xl">
                     <div className="absolute left-[19px] top-4 bottom-4 w-px" style={{ background: 'rgb(39,39,37)' }} />
                     <div className="space-y-3">
-                      {MOCK_DEPLOYMENTS.map(dep => (
+                      {deployments.map(dep => {
+                        const isActive = dep.status === 'active';
+                        const isFailed = dep.status === 'failed';
+                        const rollbackTarget = dep.trigger.type === 'rollback'
+                          ? deployments.find(d => d.id === (dep.trigger as { from_deployment_id: string }).from_deployment_id)
+                          : null;
+                        return (
                         <div key={dep.id} className="flex gap-4">
                           <div className="flex-shrink-0 flex items-start pt-3">
                             <div className="w-[10px] h-[10px] rounded-full border-2 flex-shrink-0 relative z-10" style={{
-                              background: dep.status === 'active' ? '#22c55e' : dep.status === 'failed' ? '#f87171' : 'rgb(39,39,37)',
-                              borderColor: dep.status === 'active' ? '#22c55e' : dep.status === 'failed' ? '#f87171' : 'rgb(80,78,74)',
+                              background: isActive ? '#22c55e' : isFailed ? '#f87171' : 'rgb(39,39,37)',
+                              borderColor: isActive ? '#22c55e' : isFailed ? '#f87171' : 'rgb(80,78,74)',
                             }} />
                           </div>
                           <div className="flex-1 p-4 rounded-xl" style={{
-                            background: dep.status === 'active' ? 'rgba(34,197,94,0.04)' : 'rgba(255,255,255,0.02)',
-                            border: `1px solid ${dep.status === 'active' ? 'rgba(34,197,94,0.18)' : 'rgb(39,39,37)'}`,
+                            background: isActive ? 'rgba(34,197,94,0.04)' : 'rgba(255,255,255,0.02)',
+                            border: `1px solid ${isActive ? 'rgba(34,197,94,0.18)' : 'rgb(39,39,37)'}`,
                           }}>
                             <div className="flex items-center justify-between gap-2">
                               <div className="flex items-center gap-2">
-                                <span className="text-sm font-semibold font-mono" style={{ color: dep.status === 'active' ? '#22c55e' : 'rgb(197,193,186)' }}>{dep.version}</span>
-                                {dep.status === 'active' && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(34,197,94,0.1)', color: '#22c55e', fontFamily: FONT }}>Active</span>}
-                                {dep.status === 'failed' && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(248,113,113,0.1)', color: '#f87171', fontFamily: FONT }}>Failed</span>}
+                                <span className="text-sm font-semibold font-mono" style={{ color: isActive ? '#22c55e' : 'rgb(197,193,186)' }}>v{dep.number}</span>
+                                {isActive && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(34,197,94,0.1)', color: '#22c55e', fontFamily: FONT }}>Active</span>}
+                                {isFailed && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(248,113,113,0.1)', color: '#f87171', fontFamily: FONT }}>Failed</span>}
+                                {dep.status === 'deploying' && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(251,191,36,0.1)', color: '#fbbf24', fontFamily: FONT }}>Deploying</span>}
+                                {dep.status === 'superseded' && <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(255,255,255,0.05)', color: 'rgb(120,116,110)', fontFamily: FONT }}>Superseded</span>}
+                                {workspaceHash && dep.content_hash === workspaceHash && (
+                                  <span className="text-xs px-2 py-0.5 rounded-full" style={{ background: 'rgba(96,165,250,0.1)', color: '#60a5fa', fontFamily: FONT }}>Matches workspace</span>
+                                )}
                               </div>
-                              {dep.status !== 'active' && (
-                                <button className="flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg transition-colors"
+                              {dep.status === 'superseded' && (
+                                <button
+                                  onClick={() => handleRollback(dep)}
+                                  disabled={!!rollingBackId}
+                                  className="flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg transition-colors disabled:opacity-50"
                                   style={{ background: 'rgba(255,255,255,0.05)', color: 'rgb(120,116,110)', border: BORDER, fontFamily: FONT }}
                                   onMouseEnter={e => (e.currentTarget.style.background = 'rgba(255,255,255,0.09)')}
                                   onMouseLeave={e => (e.currentTarget.style.background = 'rgba(255,255,255,0.05)')}>
-                                  <RotateCcw className="w-3 h-3" /> Rollback
+                                  {rollingBackId === dep.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />} Roll back to this deployment
                                 </button>
                               )}
                             </div>
-                            <div className="flex items-center gap-4 mt-2">
-                              <span className="text-xs" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>{format(new Date(dep.ts), 'MMM d, yyyy HH:mm')}</span>
-                              <span className="text-xs font-mono" style={{ color: 'rgb(100,97,92)' }}>{dep.sha}</span>
-                              <span className="text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>{dep.trigger}</span>
+                            <div className="flex items-center gap-4 mt-2 flex-wrap">
+                              <span className="text-xs" style={{ color: 'rgb(120,116,110)', fontFamily: FONT }}>{format(new Date(dep.created_at), 'MMM d, yyyy HH:mm')}</span>
+                              <span className="text-xs font-mono" title={dep.content_hash} style={{ color: 'rgb(100,97,92)' }}>{dep.content_hash.slice(0, 7)}</span>
+                              <span className="text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>
+                                {describeTrigger(dep.trigger)}{rollbackTarget ? ` of v${rollbackTarget.number}` : ''}
+                              </span>
+                              {dep.branch && dep.branch.id !== null && (
+                                <span className="flex items-center gap-1 text-xs font-mono" title="Deployed from this branch" style={{ color: 'rgb(100,97,92)' }}>
+                                  <GitBranch className="w-3 h-3" />{dep.branch.name}
+                                </span>
+                              )}
+                              <span className="text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>{dep.file_count} file{dep.file_count !== 1 ? 's' : ''}</span>
+                              {dep.superseded_at && (
+                                <span className="text-xs" style={{ color: 'rgb(100,97,92)', fontFamily: FONT }}>superseded {formatDistanceToNow(new Date(dep.superseded_at), { addSuffix: true })}</span>
+                              )}
                             </div>
+                            {dep.env_keys.length > 0 && (
+                              <div className="flex flex-wrap gap-1.5 mt-2.5">
+                                {dep.env_keys.map(k => (
+                                  <span key={k} className="text-[11px] font-mono px-1.5 py-0.5 rounded" style={{ background: 'rgba(255,255,255,0.04)', color: 'rgb(120,116,110)' }}>{k}</span>
+                                ))}
+                              </div>
+                            )}
+                            {dep.error && (
+                              <p className="text-xs font-mono mt-2.5" style={{ color: '#f87171' }}>{dep.error}</p>
+                            )}
                           </div>
                         </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   </div>
+                  )}
                 </div>
               </motion.div>
             )}
@@ -948,20 +1134,40 @@ function RowBtn({ label, onClick, danger }: { label: string; onClick: () => void
   );
 }
 
-function ResourceBar({ label, pct, color }: { label: string; pct: number; color: string }) {
+function ResourceBar({ label, pct, color, detail, series }: {
+  label: string; pct: number; color: string; detail?: string; series?: number[];
+}) {
   return (
     <div>
       <div className="flex justify-between mb-1.5">
         <span className="text-[12.5px]" style={{ color: 'rgb(120,116,110)', fontFamily: "'Geist', 'DM Sans', sans-serif" }}>{label}</span>
-        <span className="text-[12.5px] font-medium" style={{ color: 'rgb(197,193,186)', fontFamily: "'Geist', 'DM Sans', sans-serif" }}>{pct}%</span>
+        <span className="text-[12.5px] font-medium" style={{ color: 'rgb(197,193,186)', fontFamily: "'Geist', 'DM Sans', sans-serif" }}>
+          {detail && <span className="font-normal mr-1.5" style={{ color: 'rgb(100,97,92)' }}>{detail}</span>}{pct}%
+        </span>
       </div>
       <div className="h-1.5 rounded-full overflow-hidden" style={{ background: 'rgb(39,39,37)' }}>
-        <div className="h-full rounded-full" style={{ width: `${pct}%`, background: color }} />
+        <div className="h-full rounded-full transition-all" style={{ width: `${pct}%`, background: color }} />
       </div>
+      {series && series.length > 1 && <Sparkline values={series} color={color} />}
     </div>
   );
 }
 
+function Sparkline({ values, color }: { values: number[]; color: string }) {
+  const W = 200, H = 28;
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const span = max - min || 1;
+  const points = values
+    .map((v, i) => `${((i / (values.length - 1)) * W).toFixed(1)},${(H - 2 - ((v - min) / span) * (H - 4)).toFixed(1)}`)
+    .join(' ');
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className="w-full mt-2" style={{ height: H }}>
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} strokeOpacity={0.7} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
 function NetRow({ label, value }: { label: string; value: string }) {
   return (
     <div className="flex items-center justify-between px-4 py-3" style={{ borderBottom: '1px solid rgb(39,39,37)' }}>
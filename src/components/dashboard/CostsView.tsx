@@ -65,6 +65,15 @@ const STAGE_META: Record<string, { icon: React.ComponentType<{ className?: strin
   architect: { icon: Database,     label: 'Architect', color: '#818cf8' },
   coder:     { icon: Code2,        label: 'Coder',     color: '#34d399' },
   validator: { icon: CheckCircle2, label: 'Validator', color: '#fbbf24' },
+  // Model-router tasks (buildable-generate pipeline)
+  intent:     { icon: Zap,          label: 'Intent',     color: '#a78bfa' },
+  decompose:  { icon: Layers,       label: 'Decompose',  color: '#818cf8' },
+  planning:   { icon: Database,     label: 'Planning',   color: '#818cf8' },
+  coding:     { icon: Code2,        label: 'Coding',     color: '#34d399' },
+  repair:     { icon: TrendingDown, label: 'Repair',     color: '#f87171' },
+  root_cause: { icon: TrendingDown, label: 'Root cause', color: '#f87171' },
+  validation: { icon: CheckCircle2, label: 'Validation', color: '#fbbf24' },
+  persona:    { icon: FileCode,     label: 'Persona',    color: '#60a5fa' },
 };
 
 function modelShortName(m: string): string {
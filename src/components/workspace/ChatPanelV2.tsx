@@ -1,11 +1,13 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Loader2, CheckCircle2, XCircle, FileCode2, ThumbsUp, ThumbsDown, Copy, Check, MoreHorizontal } from 'lucide-react';
+import { Loader2, CheckCircle2, XCircle, FileCode2, ThumbsUp, ThumbsDown, Copy, Check, MoreHorizontal, ChevronRight, MinusCircle, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ProjectMessage } from '@/hooks/useProjectMessages';
 import MarkdownRenderer from './MarkdownRenderer';
 import ChatInputV2, { type WorkspaceMode } from './ChatInputV2';
 import type { GenerationPhase } from '@/hooks/useBuildableAI';
+import type { QualityReport, ScenarioSuiteReport } from '@/lib/syncEngine';
+import { regressionRepairPrompt } from '@/lib/scenarios';
 
 const F = "'Geist', 'DM Sans', sans-serif";
 
@@ -46,6 +48,104 @@ function MetaTooltip({ message }: { message: ProjectMessage }) {
   );
 }
 
+// ─── Quality score (file summary) ─────────────────────────────────────────────
+const QUALITY_STATUS = {
+  pass: { Icon: CheckCircle2, color: '#22c55e' },
+  fail: { Icon: XCircle, color: '#f59e0b' },
+  skip: { Icon: MinusCircle, color: 'rgba(255,255,255,0.25)' },
+} as const;
+
+function QualitySummary({ quality }: { quality: QualityReport }) {
+  const [open, setOpen] = useState(false);
+  const scoreColor = quality.score >= 80 ? '#22c55e' : quality.score >= 50 ? '#f59e0b' : '#ef4444';
+  return (
+    <div style={{ paddingLeft: 22, marginTop: 2 }}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        style={{ display: 'flex', alignItems: 'center', gap: 5, background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontFamily: F }}
+      >
+        <ChevronRight style={{ width: 12, height: 12, color: 'rgba(255,255,255,0.35)', transform: open ? 'rotate(90deg)' : 'none', transition: 'transform 0.12s' }} />
+        <span style={{ fontSize: 11.5, color: 'rgba(255,255,255,0.5)' }}>
+          Quality <span style={{ color: scoreColor, fontWeight: 600 }}>{quality.score}/100</span>
+          {' · '}{quality.projectType === 'bot' ? 'Bot rubric' : 'Web rubric'}
+        </span>
+      </button>
+      {open && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 3, marginTop: 5, paddingLeft: 17 }}>
+          {quality.breakdown.map(c => {
+            const { Icon, color } = QUALITY_STATUS[c.status];
+            return (
+              <div key={c.id} style={{ display: 'flex', alignItems: 'flex-start', gap: 5 }} title={c.detail}>
+                <Icon style={{ width: 12, height: 12, color, flexShrink: 0, marginTop: 1.5 }} />
+                <span style={{ fontSize: 11.5, color: c.status === 'skip' ? 'rgba(255,255,255,0.3)' : 'rgba(255,255,255,0.6)', fontFamily: F }}>
+                  {c.label}
+                  <span style={{ color: 'rgba(255,255,255,0.25)' }}> · {c.weight}</span>
+                  {c.detail && c.status !== 'pass' && (
+                    <span style={{ display: 'block', fontSize: 11, color: 'rgba(255,255,255,0.35)' }}>{c.detail}</span>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Scenario tests (file summary) ────────────────────────────────────────────
+function ScenarioSummary({ report, onFix }: { report: ScenarioSuiteReport; onFix: () => void }) {
+  const failing = report.results.filter(r => !r.passed);
+  const regressions = failing.filter(r => r.regression).length;
+  const [open, setOpen] = useState(failing.length > 0);
+  if (report.status === 'skipped') return null;
+  const color = failing.length === 0 ? '#22c55e' : regressions > 0 ? '#ef4444' : '#f59e0b';
+  return (
+    <div style={{ paddingLeft: 22, marginTop: 2 }}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        style={{ display: 'flex', alignItems: 'center', gap: 5, background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontFamily: F }}
+      >
+        <ChevronRight style={{ width: 12, height: 12, color: 'rgba(255,255,255,0.35)', transform: open ? 'rotate(90deg)' : 'none', transition: 'transform 0.12s' }} />
+        <span style={{ fontSize: 11.5, color: 'rgba(255,255,255,0.5)' }}>
+          Tests <span style={{ color, fontWeight: 600 }}>{report.results.length - failing.length}/{report.results.length} passed</span>
+          {regressions > 0 && <span style={{ color: '#ef4444' }}> · {regressions} regression{regressions !== 1 ? 's' : ''}</span>}
+        </span>
+      </button>
+      {open && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 3, marginTop: 5, paddingLeft: 17 }}>
+          {report.results.map(r => {
+            const { Icon, color: iconColor } = QUALITY_STATUS[r.passed ? 'pass' : 'fail'];
+            return (
+              <div key={r.file} style={{ display: 'flex', alignItems: 'flex-start', gap: 5 }} title={r.file}>
+                <Icon style={{ width: 12, height: 12, color: r.regression ? '#ef4444' : iconColor, flexShrink: 0, marginTop: 1.5 }} />
+                <span style={{ fontSize: 11.5, color: 'rgba(255,255,255,0.6)', fontFamily: F }}>
+                  {r.name}
+                  {r.regression && <span style={{ color: '#ef4444' }}> · regression</span>}
+                  {r.failure && <span style={{ display: 'block', fontSize: 11, color: 'rgba(255,255,255,0.35)' }}>{r.failure}</span>}
+                </span>
+              </div>
+            );
+          })}
+          {failing.length > 0 && (
+            <button
+              onClick={onFix}
+              style={{
+                display: 'flex', alignItems: 'center', gap: 5, alignSelf: 'flex-start', marginTop: 4,
+                padding: '4px 9px', borderRadius: 6, cursor: 'pointer', fontFamily: F, fontSize: 11.5,
+                background: 'rgba(255,255,255,0.06)', border: '1px solid rgba(255,255,255,0.1)', color: 'rgba(255,255,255,0.75)',
+              }}
+            >
+              <Wrench style={{ width: 11, height: 11 }} />
+              Fix with AI
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Action button ────────────────────────────────────────────────────────────
 function ActionBtn({
   icon: Icon,
@@ -200,6 +300,13 @@ export default function ChatPanelV2({
                           </div>
                         ))}
                       </div>
+                      {message.metadata.quality && <QualitySummary quality={message.metadata.quality as QualityReport} />}
+                      {message.metadata.scenarios && (
+                        <ScenarioSummary
+                          report={message.metadata.scenarios as ScenarioSuiteReport}
+                          onFix={() => onSendMessage(regressionRepairPrompt(message.metadata.scenarios as ScenarioSuiteReport), 'build')}
+                        />
+                      )}
                     </div>
                   ) : message.role === 'assistant' && message.metadata?.status === 'error' ? (
                     <div style={{ display: 'flex', alignItems: 'flex-start', gap: 7 }}>
@@ -1,11 +1,15 @@
 // =============================================================================
 // CodeEditorTab — Monaco-powered code editor with file tree + save support
 // Free users: buildable_core.py is always present and locked
+// Saves carry the revision the edit started from; if the file moved on since
+// (an AI generation, another tab) the save is refused and a merge dialog opens.
 // =============================================================================
 
 import { useState, useMemo, useRef, useCallback } from 'react';
 import Editor, { OnMount } from '@monaco-editor/react';
 import { Lock, FileCode2, FileText, File, Braces, KeyRound, ChevronRight, Save, Check } from 'lucide-react';
+import type { FileWriteResult } from '@/lib/workspaceFiles';
+import FileConflictDialog, { type FileConflict } from './FileConflictDialog';
 
 // =============================================================================
 // CONSTANTS
@@ -93,6 +97,7 @@ function FileIcon({ path, size = 13 }: { path: string; size?: number }) {
 interface FileEntry {
   path: string;
   content: string;
+  revision?: number;
   locked?: boolean;
 }
 
@@ -211,9 +216,10 @@ function TreeEntry({
 // =============================================================================
 
 interface CodeEditorTabProps {
-  workspaceFiles: Array<{ file_path: string; content: string }>;
+  workspaceFiles: Array<{ file_path: string; content: string; revision?: number }>;
   isFree: boolean;
-  onSave?: (newCode: string, filePath: string) => Promise<void>;
+  /** Null when nothing was written (e.g. the request failed and was already reported) */
+  onSave?: (newCode: string, filePath: string, baseRevision?: number) => Promise<FileWriteResult | null>;
 }
 
 export default function CodeEditorTab({ workspaceFiles, isFree, onSave }: CodeEditorTabProps) {
@@ -222,6 +228,7 @@ export default function CodeEditorTab({ workspaceFiles, isFree, onSave }: CodeEd
     const files: FileEntry[] = workspaceFiles.map(f => ({
       path: f.file_path,
       content: f.content,
+      revision: f.revision,
       locked: false,
     }));
 
@@ -240,6 +247,9 @@ export default function CodeEditorTab({ workspaceFiles, isFree, onSave }: CodeEd
   const [editedContent, setEditedContent] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
   const [savedFlash, setSavedFlash] = useState(false);
+  // Revision and content each file had when its unsaved edits began
+  const [editBase, setEditBase] = useState<Record<string, { revision?: number; content: string }>>({});
+  const [conflict, setConflict] = useState<FileConflict | null>(null);
   const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
 
   const tree = useMemo(() => buildTree(allFiles), [allFiles]);
@@ -265,27 +275,60 @@ export default function CodeEditorTab({ workspaceFiles, isFree, onSave }: CodeEd
 
   const handleEditorChange = useCallback((value: string | undefined) => {
     if (!currentFile || currentFile.locked) return;
+    setEditBase(prev => (prev[currentFile.path]
+      ? prev
+      : { ...prev, [currentFile.path]: { revision: currentFile.revision, content: currentFile.content } }));
     setEditedContent(prev => ({ ...prev, [currentFile.path]: value ?? '' }));
   }, [currentFile]);
 
-  const handleSave = useCallback(async () => {
-    if (!currentFile || !onSave || saving) return;
-    const content = editedContent[currentFile.path] ?? currentFile.content;
+  const clearEdits = useCallback((path: string) => {
+    const drop = <T,>(prev: Record<string, T>) => {
+      const next = { ...prev };
+      delete next[path];
+      return next;
+    };
+    setEditedContent(drop);
+    setEditBase(drop);
+  }, []);
+
+  /** Write `content` over `baseRevision`; a refused write opens the conflict dialog */
+  const save = useCallback(async (path: string, content: string, baseRevision: number | undefined, baseContent: string | null) => {
+    if (!onSave) return;
     setSaving(true);
     try {
-      await onSave(content, currentFile.path);
-      // Clear the unsaved state for this file
-      setEditedContent(prev => {
-        const next = { ...prev };
-        delete next[currentFile.path];
-        return next;
-      });
+      const result = await onSave(content, path, baseRevision);
+      if (result?.status === 'conflict') {
+        setConflict({ path, base: baseContent, mine: content, current: result.current });
+        return;
+      }
+      if (!result) return;
+      setConflict(null);
+      clearEdits(path);
       setSavedFlash(true);
       setTimeout(() => setSavedFlash(false), 1500);
     } finally {
       setSaving(false);
     }
-  }, [currentFile, editedContent, onSave, saving]);
+  }, [onSave, clearEdits]);
+
+  const handleSave = useCallback(async () => {
+    if (!currentFile || !onSave || saving) return;
+    const content = editedContent[currentFile.path] ?? currentFile.content;
+    const base = editBase[currentFile.path] ?? { revision: currentFile.revision, content: currentFile.content };
+    await save(currentFile.path, content, base.revision, base.content);
+  }, [currentFile, editedContent, editBase, onSave, saving, save]);
+
+  const handleResolveConflict = useCallback((content: string) => {
+    if (!conflict) return;
+    // Resolved against what's there now — a deleted file is recreated
+    save(conflict.path, content, conflict.current?.revision ?? 0, conflict.current?.content ?? null);
+  }, [conflict, save]);
+
+  const handleDiscardMine = useCallback(() => {
+    if (!conflict) return;
+    clearEdits(conflict.path);
+    setConflict(null);
+  }, [conflict, clearEdits]);
 
   const handleEditorMount: OnMount = useCallback((editor, monaco) => {
     editorRef.current = editor;
@@ -446,6 +489,14 @@ export default function CodeEditorTab({ workspaceFiles, isFree, onSave }: CodeEd
           </div>
         )}
       </div>
+
+      <FileConflictDialog
+        conflict={conflict}
+        onClose={() => setConflict(null)}
+        onResolve={handleResolveConflict}
+        onDiscard={handleDiscardMine}
+        isSaving={saving}
+      />
     </div>
   );
 }
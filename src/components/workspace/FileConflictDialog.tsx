@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DiffEditor, type DiffOnMount } from '@monaco-editor/react';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { mergeText } from '@/lib/versionDiff';
+import type { ServerFile } from '@/lib/workspaceFiles';
+import { monacoLanguage } from './monacoLanguage';
+
+export interface FileConflict {
+  path: string;
+  /** What the editor started from; null if unknown */
+  base: string | null;
+  mine: string;
+  /** The file as it is on the server now; null if it was deleted */
+  current: ServerFile | null;
+}
+
+interface FileConflictDialogProps {
+  conflict: FileConflict | null;
+  onClose: () => void;
+  /** Save the resolved content over the current revision */
+  onResolve: (content: string) => void;
+  /** Drop the local edits and keep what's on the server */
+  onDiscard: () => void;
+  isSaving?: boolean;
+}
+
+export default function FileConflictDialog({ conflict, onClose, onResolve, onDiscard, isSaving = false }: FileConflictDialogProps) {
+  const editorRef = useRef<Parameters<DiffOnMount>[0] | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  // Non-overlapping edits merge on their own; otherwise start from the local version
+  const merged = useMemo(
+    () => (conflict?.current && conflict.base !== null ? mergeText(conflict.base, conflict.mine, conflict.current.content) : null),
+    [conflict],
+  );
+
+  useEffect(() => { setDirty(false); }, [conflict]);
+
+  if (!conflict) return null;
+  const theirs = conflict.current?.content ?? '';
+  const who = conflict.current?.is_generated ? 'An AI generation' : 'Another edit';
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-6xl w-[95vw] h-[85vh] p-0 gap-0 flex flex-col overflow-hidden">
+        <DialogHeader className="px-4 py-3 border-b border-border space-y-1">
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            {conflict.path} changed while you were editing
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            {conflict.current
+              ? `${who} saved revision ${conflict.current.revision}. `
+              : 'The file was deleted. '}
+            {merged !== null
+              ? 'Your changes touch different lines, so they were merged on the right — check it, then save.'
+              : 'Left is the saved file, right is yours. Edit the right side into the version you want, then save.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0">
+          <DiffEditor
+            key={`${conflict.path}:${conflict.current?.revision ?? 'deleted'}`}
+            original={theirs}
+            modified={merged ?? conflict.mine}
+            language={monacoLanguage(conflict.path)}
+            theme="vs-dark"
+            onMount={(editor) => {
+              editorRef.current = editor;
+              editor.getModifiedEditor().onDidChangeModelContent(() => setDirty(true));
+            }}
+            options={{
+              originalEditable: false,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              fontSize: 12,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+            }}
+          />
+        </div>
+
+        <DialogFooter className="px-4 py-3 border-t border-border">
+          {merged !== null && !dirty && (
+            <span className="text-xs text-emerald-400 mr-auto self-center flex items-center gap-1">
+              <GitMerge className="h-3 w-3" /> Merged automatically
+            </span>
+          )}
+          <Button variant="outline" size="sm" onClick={onDiscard} disabled={isSaving}>
+            {conflict.current ? 'Discard mine' : 'Discard mine (keep deleted)'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={onClose} disabled={isSaving}>
+            Keep editing
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onResolve(editorRef.current?.getModifiedEditor().getValue() ?? merged ?? conflict.mine)}
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { GitMerge, AlertTriangle, FileCheck2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { mergeSnapshots, type MergeConflict } from '@/lib/branches';
+import type { SnapshotFile } from '@/lib/versionDiff';
+import type { FileRestore } from './VersionDiffDialog';
+import { monacoLanguage } from './monacoLanguage';
+
+type Resolution = 'ours' | 'theirs';
+
+interface MergeBranchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Branch the workspace holds — the merge lands here */
+  ourName: string;
+  theirName: string;
+  /** Nearest common ancestor; null when the histories never met (every difference conflicts) */
+  baseFiles: SnapshotFile[] | null;
+  currentFiles: SnapshotFile[];
+  theirFiles: SnapshotFile[];
+  /** Writes to apply to the workspace; empty when the merge changes nothing */
+  onMerge: (files: FileRestore[]) => void;
+  isMerging?: boolean;
+}
+
+const describeSide = (content: string | null) => (content === null ? 'deleted' : 'changed');
+
+export default function MergeBranchDialog({
+  open,
+  onOpenChange,
+  ourName,
+  theirName,
+  baseFiles,
+  currentFiles,
+  theirFiles,
+  onMerge,
+  isMerging = false,
+}: MergeBranchDialogProps) {
+  const result = useMemo(
+    () => mergeSnapshots(baseFiles ?? [], currentFiles, theirFiles),
+    [baseFiles, currentFiles, theirFiles],
+  );
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setResolutions({});
+    setSelectedPath(null);
+  }, [open]);
+
+  const selected: MergeConflict | null = result.conflicts.find(c => c.path === selectedPath) ?? result.conflicts[0] ?? null;
+  const unresolved = result.conflicts.filter(c => !resolutions[c.path]).length;
+
+  const handleMerge = () => {
+    const merged = new Map(result.files.map(f => [f.path, f.content]));
+    for (const conflict of result.conflicts) {
+      const content = resolutions[conflict.path] === 'theirs' ? conflict.theirs : conflict.ours;
+      if (content === null) merged.delete(conflict.path);
+      else merged.set(conflict.path, content);
+    }
+    const current = new Map(currentFiles.map(f => [f.path.replace(/^\/+/, ''), f.content]));
+    const writes: FileRestore[] = [];
+    for (const [path, content] of merged) {
+      if (current.get(path) !== content) writes.push({ path, content });
+    }
+    for (const path of current.keys()) {
+      if (!merged.has(path)) writes.push({ path, content: null });
+    }
+    onMerge(writes);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl w-[95vw] h-[85vh] p-0 gap-0 flex flex-col overflow-hidden">
+        <DialogHeader className="px-4 py-3 border-b border-border space-y-1">
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            <GitMerge className="h-4 w-4 text-primary" />
+            Merge {theirName} into {ourName}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            {result.incoming.length} file{result.incoming.length !== 1 ? 's' : ''} come over from {theirName} cleanly
+            {result.conflicts.length > 0
+              ? ` · ${result.conflicts.length} changed on both branches — pick a side for each.`
+              : '.'}
+            {!baseFiles && ' The branches share no history, so every difference is treated as a conflict.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-1 min-h-0">
+          <ScrollArea className="w-72 border-r border-border flex-shrink-0">
+            <div className="p-2 space-y-0.5">
+              {result.conflicts.map(conflict => (
+                <button
+                  key={conflict.path}
+                  onClick={() => setSelectedPath(conflict.path)}
+                  className={cn(
+                    'w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs transition-colors',
+                    selected?.path === conflict.path ? 'bg-muted' : 'hover:bg-muted/50',
+                  )}
+                  title={conflict.path}
+                >
+                  {resolutions[conflict.path]
+                    ? <FileCheck2 className="h-3 w-3 flex-shrink-0 text-emerald-400" />
+                    : <AlertTriangle className="h-3 w-3 flex-shrink-0 text-amber-400" />}
+                  <span className="flex-1 min-w-0 truncate font-mono">{conflict.path}</span>
+                  {resolutions[conflict.path] && (
+                    <span className="flex-shrink-0 text-[10px] text-muted-foreground">
+                      {resolutions[conflict.path] === 'ours' ? ourName : theirName}
+                    </span>
+                  )}
+                </button>
+              ))}
+              {result.incoming.length > 0 && (
+                <p className="px-2 pt-3 pb-1 text-[10px] uppercase tracking-wide text-muted-foreground">
+                  From {theirName}
+                </p>
+              )}
+              {result.incoming.map(path => (
+                <div key={path} className="flex items-center gap-2 px-2 py-1 text-xs text-muted-foreground" title={path}>
+                  <GitMerge className="h-3 w-3 flex-shrink-0" />
+                  <span className="flex-1 min-w-0 truncate font-mono">{path}</span>
+                </div>
+              ))}
+              {result.conflicts.length === 0 && result.incoming.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-8">
+                  {ourName} already has everything from {theirName}
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+                  <span className="text-xs font-mono truncate flex-1">{selected.path}</span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {describeSide(selected.ours)} on {ourName} ← → {describeSide(selected.theirs)} on {theirName}
+                  </span>
+                  <Button
+                    variant={resolutions[selected.path] === 'ours' ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setResolutions(r => ({ ...r, [selected.path]: 'ours' }))}
+                  >
+                    Keep {ourName}
+                  </Button>
+                  <Button
+                    variant={resolutions[selected.path] === 'theirs' ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setResolutions(r => ({ ...r, [selected.path]: 'theirs' }))}
+                  >
+                    Take {theirName}
+                  </Button>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <DiffEditor
+                    key={selected.path}
+                    original={selected.ours ?? ''}
+                    modified={selected.theirs ?? ''}
+                    language={monacoLanguage(selected.path)}
+                    theme="vs-dark"
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      minimap: { enabled: false },
+                      fontSize: 12,
+                      scrollBeyondLastLine: false,
+                      automaticLayout: true,
+                    }}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-xs text-muted-foreground">
+                No conflicts
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="px-4 py-3 border-t border-border">
+          {unresolved > 0 && (
+            <span className="text-xs text-amber-400 mr-auto self-center">
+              {unresolved} conflict{unresolved !== 1 ? 's' : ''} left to resolve
+            </span>
+          )}
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleMerge} disabled={unresolved > 0 || isMerging}>
+            {isMerging ? 'Merging...' : 'Merge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
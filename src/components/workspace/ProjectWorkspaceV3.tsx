@@ -1,7 +1,7 @@
 import { useState, useRef, useCallback, useEffect, useMemo, type ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import { Loader2, Cloud, BarChart2, Shield, Server, Music, UserPlus, Zap, Bot, Ticket, Gift, LayoutGrid, Code2, MessageSquare, History, Github, ChevronDown, ChevronRight, Globe, FileText, MoreHorizontal, Monitor, ExternalLink, RefreshCw, PanelLeft, KeyRound, Square, Terminal, RotateCw, Copy, LayoutDashboard, Settings, Trash2, Check, Lock, ScrollText } from 'lucide-react';
+import { Loader2, Cloud, BarChart2, Shield, Server, Music, UserPlus, Zap, Bot, Ticket, Gift, LayoutGrid, Code2, MessageSquare, History, Github, ChevronDown, ChevronRight, Globe, FileText, MoreHorizontal, Monitor, ExternalLink, RefreshCw, PanelLeft, KeyRound, Square, Terminal, RotateCw, Copy, LayoutDashboard, Settings, Trash2, Check, Lock, ScrollText, AlertTriangle, Play, Send, Circle, FlaskConical, Sparkles, Wrench, CheckCircle2, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useProject, useUpdateProject } from '@/hooks/useProjects';
 import { useProjectMessages } from '@/hooks/useProjectMessages';
@@ -10,6 +10,29 @@ import { useCredits } from '@/hooks/useCredits';
 import { useBuildableAI } from '@/hooks/useBuildableAI';
 import { useWorkspace, type WorkspaceFile, type GenerationSession } from '@/hooks/useWorkspace';
 import { useFileVersions } from '@/hooks/useFileVersions';
+import { useBranches } from '@/hooks/useBranches';
+import { useBotLogs } from '@/hooks/useBotLogs';
+import { useProjectEnvVars } from '@/hooks/useProjectEnvVars';
+import { useBotIdentity } from '@/hooks/useBotIdentity';
+import { useCommandSync } from '@/hooks/useCommandSync';
+import { usePlayground, type PlaygroundStatus } from '@/hooks/usePlayground';
+import { formatLogEntries, type LogFilter } from '@/lib/botLogs';
+import type { DeployRequest } from '@/lib/botDeployments';
+import { MAIN_BRANCH_NAME, branchHead, mergeBase } from '@/lib/branches';
+import { diffSnapshots } from '@/lib/versionDiff';
+import { writeWorkspaceFile, type FileWriteResult } from '@/lib/workspaceFiles';
+import type { StoredVersion } from '@/lib/versionStore';
+import { ENV_SCOPES, CREDENTIAL_KEYS, validateEnvVar, type EnvScope } from '@/lib/envVars';
+import {
+  INTENT_LABELS, botAvatarUrl, requestedPrivilegedIntents, disallowedIntents, verifyBotToken,
+  type BotIdentity, type PrivilegedIntent,
+} from '@/lib/botIdentity';
+import { extractCommandManifest, commandRows, type CommandManifest, type CommandOption } from '@/lib/commandManifest';
+import { buttonsOf, slashLeaves, slashOptionValues, type PlaygroundAction } from '@/lib/playground';
+import { draftScenariosPrompt, regressionRepairPrompt, runScenarioSuite, scenarioName, scenarioPath, suiteFiles } from '@/lib/scenarios';
+import type { ScenarioSuiteReport } from '@/lib/syncEngine';
+import { diffIsEmpty, type SyncScope } from '@/lib/commandSync';
+import { analyzeBotCode, permissionBitfield, PERMISSIONS, PERMISSION_BY_KEY, type PermissionKey } from '@/lib/botPermissions';
 import {
   useProjectFilesStore,
   generatePreviewHtml,
@@ -26,6 +49,8 @@ import FileExplorer from './FileExplorer';
 import CodeViewer from './CodeViewer';
 import VersionHistoryPanel from './VersionHistoryPanel';
 import VersionHistoryView from './VersionHistoryView';
+import type { FileRestore } from './VersionDiffDialog';
+import MergeBranchDialog from './MergeBranchDialog';
 import GitHubExportDialog from './GitHubExportDialog';
 import BorderGlow from './BorderGlow';
 import CodeEditorTab from './CodeEditorTab';
@@ -34,7 +59,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { db, auth } from '@/lib/firebase';
 import { API_BASE } from '@/lib/urls';
 import {
-  collection, query, where, orderBy, limit, getDocs, getDoc, doc, setDoc, updateDoc, addDoc, serverTimestamp,
+  collection, query, where, orderBy, limit, getDocs, getDoc, doc, updateDoc, addDoc, serverTimestamp,
 } from 'firebase/firestore';
 
 const BG = '#0e0d12';
@@ -68,12 +93,25 @@ export default function ProjectWorkspaceV3() {
     sessions,
   } = useWorkspace(projectId);
 
+  const { hasVar: hasEnvVar } = useProjectEnvVars(projectId);
+  const { identity: botIdentity } = useBotIdentity(projectId, 'production');
+
+  // Branches — the workspace, chat thread and new versions all follow the active one
+  const {
+    branches,
+    activeBranchId,
+    activeBranch,
+    createBranch,
+    setActiveBranch,
+    deleteBranch,
+  } = useBranches(projectId);
+
   // Messages
   const {
     messages,
     isLoading: isMessagesLoading,
     sendMessage,
-  } = useProjectMessages(projectId);
+  } = useProjectMessages(projectId, activeBranchId);
 
   // Buildable AI - streaming generation with file persistence
   const {
@@ -91,10 +129,20 @@ export default function ProjectWorkspaceV3() {
   // Version history
   const {
     versions,
-    latestVersion,
     createVersion,
-    getVersionByNumber
-  } = useFileVersions(projectId);
+    getVersion,
+  } = useFileVersions(projectId, activeBranchId);
+  const branchVersions = useMemo(
+    () => versions.filter(v => v.branch_id === activeBranchId),
+    [versions, activeBranchId],
+  );
+  const headVersionNumber = useMemo(
+    () => branchHead(versions, activeBranch)?.version_number ?? 0,
+    [versions, activeBranch],
+  );
+  const branchName = useCallback((branchId: string | null) =>
+    branchId === null ? MAIN_BRANCH_NAME : branches.find(b => b.id === branchId)?.name ?? 'deleted branch',
+  [branches]);
 
   // Update project mutation
   const updateProject = useUpdateProject();
@@ -151,6 +199,9 @@ export default function ProjectWorkspaceV3() {
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [currentVersionNumber, setCurrentVersionNumber] = useState(0);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [isBranching, setIsBranching] = useState(false);
+  // Branch being merged into the active one, with its head and the common ancestor
+  const [mergeSource, setMergeSource] = useState<{ name: string; head: StoredVersion; base: StoredVersion | null } | null>(null);
   const [sandboxStatus, setSandboxStatus] = useState<string>('idle');
   const [deviceSize, setDeviceSize] = useState<'desktop' | 'tablet' | 'mobile'>('desktop');
   const [currentActions, setCurrentActions] = useState<string[]>([]);
@@ -159,6 +210,9 @@ export default function ProjectWorkspaceV3() {
   const [isChatting, setIsChatting] = useState(false);
   const [deployStatus, setDeployStatus] = useState<'idle' | 'deploying' | 'running' | 'stopped' | 'error'>('idle');
   const deployPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Scenario tests run before deploy; a failing report holds the deploy until the user decides
+  const [isTestingDeploy, setIsTestingDeploy] = useState(false);
+  const [deployTestReport, setDeployTestReport] = useState<ScenarioSuiteReport | null>(null);
   // Track the placeholder message ID so we can update it on completion
   const [pendingAssistantMsgId, setPendingAssistantMsgId] = useState<string | null>(null);
   // Project name dropdown
@@ -372,12 +426,12 @@ export default function ProjectWorkspaceV3() {
     }
   }, [workspaceFiles, addFile, setPreviewHtml, pickPreviewEntryFile]);
 
-  // Update current version when versions change
+  // Update current version when the active branch moves
   useEffect(() => {
-    if (latestVersion > 0) {
-      setCurrentVersionNumber(latestVersion);
+    if (headVersionNumber > 0) {
+      setCurrentVersionNumber(headVersionNumber);
     }
-  }, [latestVersion]);
+  }, [headVersionNumber]);
 
   // Recompile preview when Zustand store files change during SSE delivery
   const storeFileCount = files.size;
@@ -488,7 +542,7 @@ export default function ProjectWorkspaceV3() {
               ? `Bot generated successfully — ${totalFiles} file${totalFiles === 1 ? '' : 's'} ready.`
               : 'Build complete. Check the Files tab to review your bot.',
             role: 'assistant',
-            metadata: { type: 'file_summary', filesCreated: fileNames, sessionId: metadata?.sessionId, status: 'success', durationMs, creditsUsed: 2 },
+            metadata: { type: 'file_summary', filesCreated: fileNames, sessionId: metadata?.sessionId, status: 'success', durationMs, creditsUsed: 2, quality: metadata?.quality ?? null, scenarios: metadata?.scenarios ?? null },
           });
           // Re-select the entry file so Monaco refreshes with new content
           const allPaths = (metadata?.filePaths as string[] | undefined) ?? files.map(f => f.path);
@@ -554,8 +608,7 @@ export default function ProjectWorkspaceV3() {
       if (chatData.intent === 'ready_to_build' && chatData.buildPrompt) {
         if (projectId && !cloudEnabledOverride) {
           try {
-            const envSnap = await getDoc(doc(db, 'projectEnvVars', projectId));
-            const hasToken = envSnap.exists() && !!(envSnap.data() as Record<string, string>).BOT_TOKEN;
+            const hasToken = await hasEnvVar('BOT_TOKEN', 'production');
             if (!hasToken) {
               await sendMessage.mutateAsync({
                 content: `I'm ready to build! Before I start, I'll need your Discord Application credentials so I can deploy the bot when the code is done.\n\nHead to the **Cloud** tab and click **Enable Cloud** to add your Bot Token and Guild ID — it only takes a moment. Come back here once you're done.`,
@@ -565,7 +618,7 @@ export default function ProjectWorkspaceV3() {
               setActiveMode('cloud');
               return;
             }
-          } catch { /* Firestore unreachable — let through */ }
+          } catch { /* Secret store unreachable — let through */ }
         }
         await runGenerate(chatData.buildPrompt);
       }
@@ -575,7 +628,7 @@ export default function ProjectWorkspaceV3() {
       // Fallback: go straight to generation if chat layer fails
       await runGenerate(content);
     }
-  }, [workspaceId, isLoadingWorkspace, messages, workspaceFiles, generate, sendMessage, refetchFiles, createVersion, previewHtml, projectId, updateProject, setSelectedFile, toast]);
+  }, [workspaceId, isLoadingWorkspace, messages, workspaceFiles, generate, sendMessage, refetchFiles, createVersion, previewHtml, projectId, updateProject, setSelectedFile, toast, hasEnvVar]);
 
 
   // =========================================================================
@@ -611,29 +664,26 @@ export default function ProjectWorkspaceV3() {
     setSelectedFile(entryFile.file_path);
   }, [isGenerating, workspaceFiles, setSelectedFile]);
 
-  const handleDeploy = useCallback(async () => {
+  /** Send the files to the host and poll until the bot is up (gates already passed) */
+  const startDeploy = useCallback(async () => {
     if (!workspaceId) return;
-    if (deployStatus === 'deploying') return;
-
-    // Token gate — only enforced at deploy time, not during chat/generation
-    if (projectId && !cloudEnabledOverride) {
-      try {
-        const envSnap = await getDoc(doc(db, 'projectEnvVars', projectId));
-        const hasToken = envSnap.exists() && !!(envSnap.data() as Record<string, string>).BOT_TOKEN;
-        if (!hasToken) {
-          toast({ title: 'Cloud not enabled', description: 'Add your Bot Token in the Cloud tab before deploying.', variant: 'destructive' });
-          setActiveMode('cloud');
-          return;
-        }
-      } catch { /* unreachable — let deploy attempt fail naturally */ }
-    }
+    // Attribute the deployment to the last completed AI build unless files were
+    // edited by hand after it finished — the backend records this on the deployment.
+    const lastBuild = sessions.find(s => s.status === 'completed');
+    const editedSinceBuild = !lastBuild?.completed_at || (workspaceFiles ?? []).some(f => f.updated_at > lastBuild.completed_at);
+    const deployBody: DeployRequest = {
+      trigger: lastBuild && !editedSinceBuild ? { type: 'session', session_id: lastBuild.id } : { type: 'manual' },
+      env_target: 'production',
+      branch: { id: activeBranchId, name: branchName(activeBranchId) },
+    };
 
     setDeployStatus('deploying');
     try {
       const token = await auth.currentUser?.getIdToken();
       await fetch(`${API_BASE}/api/deploy/${workspaceId}`, {
         method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(deployBody),
       });
       // Poll status until running or error
       if (deployPollRef.current) clearInterval(deployPollRef.current);
@@ -661,7 +711,63 @@ export default function ProjectWorkspaceV3() {
       setDeployStatus('error');
       toast({ title: 'Deploy failed', description: 'Could not reach deploy service.', variant: 'destructive' });
     }
-  }, [workspaceId, deployStatus, toast, setActiveMode]);
+  }, [workspaceId, sessions, workspaceFiles, activeBranchId, branchName, toast, setActiveMode]);
+
+  const handleDeploy = useCallback(async () => {
+    if (!workspaceId) return;
+    if (deployStatus === 'deploying' || isTestingDeploy) return;
+
+    // Token gate — only enforced at deploy time, not during chat/generation
+    if (projectId && !cloudEnabledOverride) {
+      try {
+        const hasToken = await hasEnvVar('BOT_TOKEN', 'production');
+        if (!hasToken) {
+          toast({ title: 'Cloud not enabled', description: 'Add your Bot Token in the Cloud tab before deploying.', variant: 'destructive' });
+          setActiveMode('cloud');
+          return;
+        }
+      } catch { /* unreachable — let deploy attempt fail naturally */ }
+    }
+
+    // Verified credentials — a rejected token can't deploy; missing intents only warn
+    if (botIdentity && !botIdentity.valid) {
+      toast({ title: 'Bot token rejected', description: 'Discord no longer accepts the saved token. Paste a new one in the Cloud tab.', variant: 'destructive' });
+      setActiveMode('cloud');
+      return;
+    }
+    const missingIntents = disallowedIntents(botIdentity, requestedPrivilegedIntents(workspaceFiles ?? []));
+    if (missingIntents.length > 0) {
+      toast({
+        title: 'Privileged intents disabled',
+        description: `Enable ${missingIntents.map(i => INTENT_LABELS[i]).join(', ')} in the Discord Developer Portal or the bot will fail to connect.`,
+        variant: 'destructive',
+      });
+    }
+
+    // Behavioural tests (tests/scenarios/) gate the deploy; failures open the review dialog.
+    // A skipped run (simulator not configured or unreachable) only warns — nothing failed
+    if (projectId && suiteFiles(workspaceFiles ?? []).length > 0) {
+      setIsTestingDeploy(true);
+      let report: ScenarioSuiteReport;
+      try {
+        const previous = sessions.find(s => s.status === 'completed')?.metadata?.scenarios;
+        report = await runScenarioSuite(projectId, workspaceFiles ?? [], previous);
+      } catch (e) {
+        report = { status: 'skipped', reason: e instanceof Error ? e.message : String(e), results: [], durationMs: 0 };
+      } finally {
+        setIsTestingDeploy(false);
+      }
+      if (report.status === 'failed' || report.results.some(r => r.regression)) {
+        setDeployTestReport(report);
+        return;
+      }
+      if (report.status === 'skipped') {
+        toast({ title: 'Tests skipped', description: `Deploying without running tests: ${report.reason ?? 'the test runner is unavailable'}` });
+      }
+    }
+
+    await startDeploy();
+  }, [workspaceId, projectId, deployStatus, isTestingDeploy, sessions, workspaceFiles, hasEnvVar, botIdentity, toast, setActiveMode, startDeploy]);
 
   // Close project dropdown on outside click
   useEffect(() => {
@@ -732,11 +838,30 @@ export default function ProjectWorkspaceV3() {
     setActiveMode('code');
   }, [setSelectedFile]);
 
-  const handleFileSave = useCallback(async (newCode: string, filePath?: string) => {
+  /**
+   * Save a hand edit through the workspace file API. With `baseRevision` the
+   * write is refused if the file changed since — the conflict is returned for
+   * the editor to resolve and nothing is applied locally.
+   */
+  const handleFileSave = useCallback(async (newCode: string, filePath?: string, baseRevision?: number): Promise<FileWriteResult | null> => {
     const targetFile = filePath ?? selectedFile;
-    if (!targetFile) return;
+    if (!targetFile) return null;
+
+    // 1. Persist first so a refused write doesn't touch the in-memory copy
+    let result: FileWriteResult | null = null;
+    if (workspaceId) {
+      try {
+        result = await writeWorkspaceFile(workspaceId, targetFile, newCode, baseRevision);
+      } catch (e) {
+        console.error('[FileSave] Failed to persist edit:', e);
+        toast({ title: 'Save Failed', description: e instanceof Error ? e.message : 'Could not save the file', variant: 'destructive' });
+        return null;
+      }
+      if (result.status === 'conflict') return result;
+      await refetchFiles();
+    }
 
-    // 1. Update in-memory Zustand store immediately
+    // 2. Update in-memory Zustand store
     const { updateFile, setPreviewHtml: storeSetPreviewHtml } = useProjectFilesStore.getState();
     updateFile(targetFile, newCode);
 
@@ -747,61 +872,34 @@ export default function ProjectWorkspaceV3() {
       handleRefreshPreview();
     }
 
-    // 2. Persist to Firestore workspaceFiles so edits survive page refresh
-    if (workspaceId) {
-      try {
-        const q = query(
-          collection(db, 'workspaceFiles'),
-          where('workspace_id', '==', workspaceId),
-          where('file_path', '==', targetFile),
-          limit(1)
-        );
-        const snap = await getDocs(q);
-        if (!snap.empty) {
-          await updateDoc(doc(db, 'workspaceFiles', snap.docs[0].id), {
-            content: newCode,
-            updated_at: serverTimestamp(),
-          });
-        } else {
-          await addDoc(collection(db, 'workspaceFiles'), {
-            workspace_id: workspaceId,
-            file_path: targetFile,
-            content: newCode,
-            file_type: targetFile.split('.').pop() ?? null,
-            is_generated: false,
-            updated_at: serverTimestamp(),
-          });
-        }
-      } catch (e) {
-        console.error('[FileSave] Failed to persist edit:', e);
-      }
-    }
-
     toast({
       title: 'File Saved',
       description: `${targetFile} has been updated`,
     });
-  }, [selectedFile, workspaceId, handleRefreshPreview, toast]);
+    return result;
+  }, [selectedFile, workspaceId, refetchFiles, handleRefreshPreview, toast]);
 
+  // Undo/redo step through the active branch's versions (newest first)
   const handleUndo = useCallback(() => {
-    if (currentVersionNumber > 1) {
-      const prevVersion = getVersionByNumber(currentVersionNumber - 1);
-      if (prevVersion) handleRestoreVersion(prevVersion);
-    }
-  }, [currentVersionNumber, getVersionByNumber]);
+    const prevVersion = branchVersions.find(v => v.version_number < currentVersionNumber);
+    if (prevVersion) handleRestoreVersion(prevVersion);
+  }, [currentVersionNumber, branchVersions]);
 
   const handleRedo = useCallback(() => {
-    const nextVersion = getVersionByNumber(currentVersionNumber + 1);
+    const nextVersion = [...branchVersions].reverse().find(v => v.version_number > currentVersionNumber);
     if (nextVersion) handleRestoreVersion(nextVersion);
-  }, [currentVersionNumber, getVersionByNumber]);
+  }, [currentVersionNumber, branchVersions]);
 
-  const handleRestoreVersion = useCallback(async (version: {
+  const handleRestoreVersion = useCallback(async (listed: {
+    id?: string;
     version_number: number;
     files: Array<{ path: string; content: string }>;
     preview_html: string | null;
   }) => {
     setIsRestoring(true);
     try {
+      // Re-read the whole version before touching the workspace — a missing blob aborts the restore
+      const version = (listed.id ? await getVersion(listed.id) : null) ?? listed;
       clearFiles();
       version.files.forEach(file => addFile(file.path, file.content));
 
@@ -826,13 +924,204 @@ export default function ProjectWorkspaceV3() {
     } catch (error) {
       toast({
         title: 'Restore Failed',
-        description: 'Could not restore the selected version',
+        description: error instanceof Error ? error.message : 'Could not restore the selected version',
         variant: 'destructive',
       });
     } finally {
       setIsRestoring(false);
     }
-  }, [clearFiles, addFile, setPreviewHtml, projectId, updateProject, handleRefreshPreview, toast]);
+  }, [getVersion, clearFiles, addFile, setPreviewHtml, projectId, updateProject, handleRefreshPreview, toast]);
+
+  /** Write files into the store and the persisted workspace; `content: null` deletes */
+  const writeWorkspaceFiles = useCallback(async (writes: FileRestore[]) => {
+    const { updateFile, removeFile, persistFile, unpersistFile } = useProjectFilesStore.getState();
+    writes.forEach(({ path, content }) => (content === null ? removeFile(path) : updateFile(path, content)));
+    if (workspaceId) {
+      await Promise.all(writes.map(({ path, content }) =>
+        content === null ? unpersistFile(path, workspaceId) : persistFile(path, workspaceId)));
+    }
+    return Array.from(useProjectFilesStore.getState().files.values()).map(f => ({ path: f.path, content: f.content }));
+  }, [workspaceId]);
+
+  // Selective restore from the diff view — the result becomes a new version
+  const handleRestoreFiles = useCallback(async (restores: FileRestore[], label: string) => {
+    setIsRestoring(true);
+    try {
+      const snapshot = await writeWorkspaceFiles(restores);
+      const version = await createVersion.mutateAsync({ files: snapshot, label });
+      setCurrentVersionNumber(version.version_number);
+      handleRefreshPreview();
+
+      toast({ title: '✅ Restored', description: label });
+    } catch (error) {
+      toast({
+        title: 'Restore Failed',
+        description: error instanceof Error ? error.message : 'Could not restore the selected changes',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [writeWorkspaceFiles, createVersion, handleRefreshPreview, toast]);
+
+  // =========================================================================
+  // BRANCHES: the workspace holds one branch at a time. Leaving a branch saves
+  // its unsaved work there first; entering one loads its head into the workspace.
+  // =========================================================================
+  /** Save the workspace on the active branch unless its head already matches */
+  const saveBeforeLeaving = useCallback(async (reason: string) => {
+    const snapshot = Array.from(useProjectFilesStore.getState().files.values()).map(f => ({ path: f.path, content: f.content }));
+    const head = branchHead(versions, activeBranch);
+    if (snapshot.length === 0 || (head && diffSnapshots(head.files, snapshot).length === 0)) return;
+    await createVersion.mutateAsync({ files: snapshot, previewHtml: previewHtml || undefined, label: reason });
+  }, [versions, activeBranch, createVersion, previewHtml]);
+
+  /** Replace the workspace with a version's files (read transactionally) */
+  const loadIntoWorkspace = useCallback(async (versionId: string) => {
+    const version = await getVersion(versionId);
+    if (!version) throw new Error('That version no longer exists');
+    const target = new Map(version.files.map(f => [f.path, f.content]));
+    const current = useProjectFilesStore.getState().files;
+    const writes: FileRestore[] = [
+      ...version.files.filter(f => current.get(f.path)?.content !== f.content),
+      ...Array.from(current.keys()).filter(path => !target.has(path)).map(path => ({ path, content: null })),
+    ];
+    await writeWorkspaceFiles(writes);
+    if (version.preview_html) setPreviewHtml(version.preview_html);
+    setCurrentVersionNumber(version.version_number);
+    handleRefreshPreview();
+    return version;
+  }, [getVersion, writeWorkspaceFiles, setPreviewHtml, handleRefreshPreview]);
+
+  const handleSwitchBranch = useCallback(async (branchId: string | null) => {
+    if (branchId === activeBranchId || isGenerating) return;
+    setIsBranching(true);
+    try {
+      const target = branchId === null ? null : branches.find(b => b.id === branchId) ?? null;
+      const head = branchHead(versions, target);
+      await saveBeforeLeaving(`Auto-save before switching to ${branchName(branchId)}`);
+      if (head) await loadIntoWorkspace(head.id);
+      await setActiveBranch.mutateAsync(branchId);
+      toast({ title: `Switched to ${branchName(branchId)}`, description: head ? `Loaded v${head.version_number}` : undefined });
+    } catch (error) {
+      toast({
+        title: 'Switch Failed',
+        description: error instanceof Error ? error.message : 'Could not switch branches',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBranching(false);
+    }
+  }, [activeBranchId, isGenerating, branches, versions, saveBeforeLeaving, loadIntoWorkspace, setActiveBranch, branchName, toast]);
+
+  const handleCreateBranch = useCallback(async (base: { id: string; version_number: number; label: string | null }, name: string) => {
+    if (isGenerating) return;
+    setIsBranching(true);
+    try {
+      await saveBeforeLeaving(`Auto-save before branching to ${name}`);
+      const branch = await createBranch.mutateAsync({ name, base });
+      await loadIntoWorkspace(base.id);
+      await setActiveBranch.mutateAsync(branch.id);
+      await sendMessage.mutateAsync({
+        content: `Branched **${name}** from v${base.version_number}${base.label ? ` (${base.label})` : ''} on ${branchName(activeBranchId)}. Changes here stay on this branch until you merge it back.`,
+        role: 'assistant',
+        metadata: { type: 'system', source: 'branch', baseVersionId: base.id },
+        branchId: branch.id,
+      });
+      setIsHistoryOpen(false);
+      toast({ title: `Created ${name}`, description: `Branched from v${base.version_number}` });
+    } catch (error) {
+      toast({
+        title: 'Branch Failed',
+        description: error instanceof Error ? error.message : 'Could not create the branch',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBranching(false);
+    }
+  }, [isGenerating, saveBeforeLeaving, createBranch, loadIntoWorkspace, setActiveBranch, sendMessage, branchName, activeBranchId, toast]);
+
+  const handleDeleteBranch = useCallback(async (branchId: string) => {
+    try {
+      await deleteBranch.mutateAsync(branchId);
+      toast({ title: `Deleted ${branchName(branchId)}`, description: 'Its versions stay in the history.' });
+    } catch (error) {
+      toast({
+        title: 'Delete Failed',
+        description: error instanceof Error ? error.message : 'Could not delete the branch',
+        variant: 'destructive',
+      });
+    }
+  }, [deleteBranch, branchName, toast]);
+
+  const handleCreateCheckpoint = useCallback(async (name: string) => {
+    setIsBranching(true);
+    try {
+      const snapshot = Array.from(useProjectFilesStore.getState().files.values()).map(f => ({ path: f.path, content: f.content }));
+      const version = await createVersion.mutateAsync({ files: snapshot, previewHtml: previewHtml || undefined, label: name, checkpoint: true });
+      setCurrentVersionNumber(version.version_number);
+      toast({ title: '🚩 Checkpoint saved', description: `${name} (v${version.version_number})` });
+    } catch (error) {
+      toast({
+        title: 'Checkpoint Failed',
+        description: error instanceof Error ? error.message : 'Could not save the checkpoint',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBranching(false);
+    }
+  }, [createVersion, previewHtml, toast]);
+
+  /** Find what to merge and open the merge dialog */
+  const handleOpenMerge = useCallback(async (branchId: string | null) => {
+    const theirs = branchHead(versions, branchId === null ? null : branches.find(b => b.id === branchId) ?? null);
+    const ours = branchHead(versions, activeBranch);
+    if (!theirs) return;
+    const base = ours ? mergeBase(versions, ours.id, theirs.id) : null;
+    if (base?.id === theirs.id) {
+      toast({ title: 'Already up to date', description: `${branchName(activeBranchId)} has everything from ${branchName(branchId)}` });
+      return;
+    }
+    try {
+      const [head, baseVersion] = await Promise.all([getVersion(theirs.id), base ? getVersion(base.id) : null]);
+      if (!head) throw new Error(`The head of ${branchName(branchId)} no longer exists`);
+      setMergeSource({ name: branchName(branchId), head, base: baseVersion });
+    } catch (error) {
+      toast({
+        title: 'Merge Failed',
+        description: error instanceof Error ? error.message : 'Could not read the branch',
+        variant: 'destructive',
+      });
+    }
+  }, [versions, branches, activeBranch, activeBranchId, branchName, getVersion, toast]);
+
+  const handleMerge = useCallback(async (writes: FileRestore[]) => {
+    if (!mergeSource) return;
+    setIsBranching(true);
+    try {
+      const label = `Merge ${mergeSource.name} into ${branchName(activeBranchId)}`;
+      const snapshot = await writeWorkspaceFiles(writes);
+      // Recorded even when nothing changed, so the next merge starts from here
+      const version = await createVersion.mutateAsync({ files: snapshot, label, mergedFrom: mergeSource.head.id });
+      setCurrentVersionNumber(version.version_number);
+      handleRefreshPreview();
+      await sendMessage.mutateAsync({
+        content: `Merged **${mergeSource.name}** (v${mergeSource.head.version_number}) — ${writes.length} file${writes.length !== 1 ? 's' : ''} updated.`,
+        role: 'assistant',
+        metadata: { type: 'system', source: 'merge', mergedFrom: mergeSource.head.id },
+      });
+      setMergeSource(null);
+      toast({ title: '✅ Merged', description: label });
+    } catch (error) {
+      toast({
+        title: 'Merge Failed',
+        description: error instanceof Error ? error.message : 'Could not merge the branch',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBranching(false);
+    }
+  }, [mergeSource, branchName, activeBranchId, writeWorkspaceFiles, createVersion, handleRefreshPreview, sendMessage, toast]);
 
   // Prepare files for WebContainer
   const sandboxFiles = useMemo(() =>
@@ -914,7 +1203,7 @@ export default function ProjectWorkspaceV3() {
   );
 
   const TABS: { id: InterfaceMode | 'files'; label: string; Icon: React.ElementType }[] = [
-    { id: 'preview',   label: 'Simulator', Icon: DiscordTabIcon },
+    { id: 'preview',   label: 'Playground', Icon: DiscordTabIcon },
     { id: 'code',      label: 'Code',      Icon: Code2 },
     { id: 'files',     label: 'Files',     Icon: FileText },
     { id: 'cloud',     label: 'Cloud',     Icon: Cloud },
@@ -1058,7 +1347,7 @@ export default function ProjectWorkspaceV3() {
           {/* Launch / status */}
           <button
             onClick={handleDeploy}
-            disabled={deployStatus === 'deploying'}
+            disabled={deployStatus === 'deploying' || isTestingDeploy}
             style={{
               display: 'flex', alignItems: 'center', gap: 6,
               padding: '5px 13px', borderRadius: 6, fontSize: 13, fontWeight: 500,
@@ -1070,8 +1359,8 @@ export default function ProjectWorkspaceV3() {
             onMouseEnter={e => { if (deployStatus !== 'deploying') e.currentTarget.style.background = deployStatus === 'running' ? '#15803d' : deployStatus === 'error' ? '#b91c1c' : '#1d4ed8'; }}
             onMouseLeave={e => { if (deployStatus !== 'deploying') e.currentTarget.style.background = deployStatus === 'running' ? '#16a34a' : deployStatus === 'error' ? '#dc2626' : '#2563eb'; }}
           >
-            {deployStatus === 'deploying' && <Loader2 style={{ width: 12, height: 12, animation: 'spin 1s linear infinite' }} />}
-            {deployStatus === 'running' ? 'Live' : deployStatus === 'error' ? 'Failed' : deployStatus === 'deploying' ? 'Deploying…' : 'Launch'}
+            {(deployStatus === 'deploying' || isTestingDeploy) && <Loader2 style={{ width: 12, height: 12, animation: 'spin 1s linear infinite' }} />}
+            {isTestingDeploy ? 'Testing…' : deployStatus === 'running' ? 'Live' : deployStatus === 'error' ? 'Failed' : deployStatus === 'deploying' ? 'Deploying…' : 'Launch'}
           </button>
         </div>
       </div>
@@ -1122,7 +1411,7 @@ export default function ProjectWorkspaceV3() {
               >
                 {activeMode === 'code' && (
                   <CodeEditorTab
-                    workspaceFiles={workspaceFiles?.map(f => ({ file_path: f.file_path, content: f.content })) ?? []}
+                    workspaceFiles={workspaceFiles?.map(f => ({ file_path: f.file_path, content: f.content, revision: f.revision })) ?? []}
                     isFree={isFree}
                     onSave={handleFileSave}
                   />
@@ -1156,13 +1445,57 @@ export default function ProjectWorkspaceV3() {
                   <PlaceholderPanel icon={FileText} label="Files" description="File manager coming soon." />
                 )}
                 {activeMode === 'preview' && (
-                  <PlaceholderPanel icon={DiscordTabIcon} label="Discord Simulator" description="Live Discord simulator coming soon." />
+                  <BotPlaygroundPanel
+                    projectId={projectId}
+                    workspaceFiles={workspaceFiles}
+                    previousScenarios={sessions.find(s => s.status === 'completed')?.metadata?.scenarios}
+                    onSaveFile={async (content, path) => { await handleFileSave(content, path); }}
+                    onAskAI={prompt => handleSendMessage(prompt, 'build')}
+                  />
                 )}
               </motion.div>
             </AnimatePresence>
           </div>
         </div>
       </div>
+      <VersionHistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        versions={versions}
+        currentVersion={currentVersionNumber}
+        onPreviewVersion={(version) => { if (version.preview_html) setPreviewHtml(version.preview_html); }}
+        onRestoreVersion={handleRestoreVersion}
+        isRestoring={isRestoring}
+        currentFiles={sandboxFiles}
+        onRestoreFiles={handleRestoreFiles}
+        branches={branches}
+        activeBranchId={activeBranchId}
+        onCreateBranch={handleCreateBranch}
+        onSwitchBranch={handleSwitchBranch}
+        onMergeBranch={handleOpenMerge}
+        onDeleteBranch={handleDeleteBranch}
+        onCreateCheckpoint={handleCreateCheckpoint}
+        isBranching={isBranching}
+      />
+      <MergeBranchDialog
+        open={!!mergeSource}
+        onOpenChange={(open) => { if (!open) setMergeSource(null); }}
+        ourName={branchName(activeBranchId)}
+        theirName={mergeSource?.name ?? ''}
+        baseFiles={mergeSource?.base?.files ?? null}
+        currentFiles={sandboxFiles}
+        theirFiles={mergeSource?.head.files ?? []}
+        onMerge={handleMerge}
+        isMerging={isBranching}
+      />
+      {deployTestReport && (
+        <DeployTestsModal
+          report={deployTestReport}
+          onClose={() => setDeployTestReport(null)}
+          onFix={() => { handleSendMessage(regressionRepairPrompt(deployTestReport), 'build'); setDeployTestReport(null); }}
+          onDeployAnyway={() => { setDeployTestReport(null); startDeploy(); }}
+        />
+      )}
       {showCloudModal && (
         <CloudEnableModal
           projectId={projectId}
@@ -1185,6 +1518,65 @@ function PlaceholderPanel({ icon: Icon, label, description }: { icon: React.Elem
   );
 }
 
+// ─── DeployTestsModal ─────────────────────────────────────────────────────────
+function DeployTestsModal({ report, onClose, onFix, onDeployAnyway }: {
+  report: ScenarioSuiteReport;
+  onClose: () => void;
+  onFix: () => void;
+  onDeployAnyway: () => void;
+}) {
+  const failing = report.results.filter(r => !r.passed);
+  const modalBtn = (primary: boolean): React.CSSProperties => ({
+    padding: '7px 14px', borderRadius: 7, fontSize: 12.5, fontWeight: 500, cursor: 'pointer', fontFamily: "'Geist','DM Sans',sans-serif",
+    background: primary ? '#2563eb' : 'rgba(255,255,255,0.05)', border: primary ? 'none' : '1px solid rgba(255,255,255,0.1)',
+    color: primary ? '#fff' : 'rgba(255,255,255,0.7)', display: 'flex', alignItems: 'center', gap: 6,
+  });
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 9999, display: 'flex', alignItems: 'center', justifyContent: 'center', background: 'rgba(0,0,0,0.55)', backdropFilter: 'blur(4px)' }}
+      onClick={e => { if (e.target === e.currentTarget) onClose(); }}>
+      <div style={{ width: '100%', maxWidth: '480px', margin: '0 16px', background: '#1c1c1e', border: '1px solid rgba(255,255,255,0.1)', borderRadius: '14px', boxShadow: '0 24px 64px rgba(0,0,0,0.6)', overflow: 'hidden', fontFamily: "'Geist','DM Sans',sans-serif" }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', padding: '18px 20px 0' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+            <AlertTriangle style={{ width: 18, height: 18, color: '#f59e0b' }} />
+            <span style={{ fontSize: '15px', fontWeight: 600, color: 'rgba(255,255,255,0.9)' }}>
+              {failing.length > 0 ? `${failing.length} of ${report.results.length} tests failed` : "Tests couldn't run"}
+            </span>
+          </div>
+          <button onClick={onClose} style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.35)', cursor: 'pointer', fontSize: 18, lineHeight: 1, padding: '2px 4px' }}>×</button>
+        </div>
+
+        <div style={{ padding: '14px 20px 20px' }}>
+          <p style={{ fontSize: '13px', color: 'rgba(255,255,255,0.45)', margin: '0 0 14px', lineHeight: 1.6 }}>
+            {failing.length > 0
+              ? 'Your bot no longer behaves the way its tests describe. Deploying now ships that behaviour to your server.'
+              : `The test run didn't finish: ${report.reason ?? 'unknown error'}`}
+          </p>
+          {failing.length > 0 && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8, maxHeight: 260, overflowY: 'auto', marginBottom: 16 }}>
+              {failing.map(r => (
+                <div key={r.file} style={{ padding: '8px 10px', borderRadius: 8, background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.07)' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12.5, color: 'rgba(255,255,255,0.8)' }}>
+                    <XCircle style={{ width: 13, height: 13, color: r.regression ? '#ef4444' : '#f59e0b', flexShrink: 0 }} />
+                    {r.name}
+                    {r.regression && <span style={{ fontSize: 10.5, color: '#ef4444' }}>regression</span>}
+                  </div>
+                  {r.failure && <p style={{ margin: '4px 0 0 19px', fontSize: 11.5, color: 'rgba(255,255,255,0.4)', lineHeight: 1.5 }}>{r.failure}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+            <button onClick={onClose} style={modalBtn(false)}>Cancel</button>
+            <button onClick={onDeployAnyway} style={modalBtn(false)}>Deploy anyway</button>
+            {failing.length > 0 && <button onClick={onFix} style={modalBtn(true)}><Wrench style={{ width: 12, height: 12 }} />Fix with AI</button>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ─── CloudEnableModal ─────────────────────────────────────────────────────────
 function CloudEnableModal({ projectId, onClose, onEnabled }: {
   projectId?: string;
@@ -1192,6 +1584,7 @@ function CloudEnableModal({ projectId, onClose, onEnabled }: {
   onEnabled: () => void;
 }) {
   const { user } = useAuth();
+  const { setVars: setEnvVars } = useProjectEnvVars(projectId);
   const [botToken, setBotToken] = useState('');
   const [clientId, setClientId] = useState('');
   const [guildId, setGuildId] = useState('');
@@ -1202,23 +1595,23 @@ function CloudEnableModal({ projectId, onClose, onEnabled }: {
 
   const handleAllow = async () => {
     if (!projectId || !botToken.trim()) return;
-    if (guildId.trim() && !/^\d{17,19}$/.test(guildId.trim())) {
-      setSaveError('Guild ID must be a 17–19 digit number. Right-click your server in Discord → Copy Server ID.');
-      return;
+    const values: Record<string, string> = { BOT_TOKEN: botToken };
+    if (clientId.trim()) values.CLIENT_ID = clientId;
+    if (guildId.trim()) values.GUILD_ID = guildId;
+    for (const [key, value] of Object.entries(values)) {
+      const problem = validateEnvVar(key, value);
+      if (problem) { setSaveError(problem); return; }
     }
     setSaving(true);
     setSaveError('');
     try {
-      const ref = doc(db, 'projectEnvVars', projectId);
-      const payload: Record<string, string> = { BOT_TOKEN: botToken, CLIENT_ID: clientId, updated_at: new Date().toISOString() };
-      if (guildId.trim()) payload.GUILD_ID = guildId.trim();
-      await setDoc(ref, payload, { merge: true });
+      await setEnvVars('shared', values);
       setSaving(false);
       onEnabled();
     } catch (e: unknown) {
       console.error('Failed to save credentials:', e);
       const msg = e instanceof Error ? e.message : String(e);
-      setSaveError(msg.includes('permission') ? 'Permission denied — check Firestore rules.' : `Save failed: ${msg}`);
+      setSaveError(`Save failed: ${msg}`);
       setSaving(false);
     }
   };
@@ -1349,7 +1742,11 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
   cloudEnabledOverride?: boolean;
 }) {
   const { toast } = useToast();
-  const [envVars, setEnvVars] = useState<{ key: string; value: string }[]>([]);
+  const { vars: allEnvVars, setVars: setEnvVars, find: findEnvVar, resolved: resolvedEnvVars, error: envError } = useProjectEnvVars(projectId);
+  const [credScope, setCredScope] = useState<EnvScope>('shared');
+  const { identity, isVerifying, verify: verifyIdentity } = useBotIdentity(projectId, 'production');
+  const requestedIntents = useMemo(() => requestedPrivilegedIntents(workspaceFiles ?? []), [workspaceFiles]);
+  const missingIntents = disallowedIntents(identity, requestedIntents);
   const [clientId, setClientId] = useState('');
   const [botToken, setBotToken] = useState('');
   const [guildId, setGuildId] = useState('');
@@ -1358,65 +1755,71 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
   const [cloudEnabled, setCloudEnabled] = useState(false);
   const [saving, setSaving] = useState(false);
   const [subTab, setSubTab] = useState<CloudSubTab>('overview');
-  const [permissions, setPermissions] = useState<Record<number, boolean>>({
-    1024: true, 2048: true, 16384: true, 32768: true, 65536: true, 64: true, 8192: false,
-  });
-
-  const PERM_LABELS: Record<number, string> = {
-    1024: 'Read Messages', 2048: 'Send Messages', 16384: 'Embed Links',
-    32768: 'Attach Files', 65536: 'Read History', 64: 'Add Reactions', 8192: 'Manage Messages',
-  };
-
-  const permBitmask = Object.entries(permissions).filter(([, v]) => v).reduce((acc, [k]) => acc | Number(k), 0);
-  const inviteUrl = clientId.trim()
-    ? `https://discord.com/api/oauth2/authorize?client_id=${clientId.trim()}&permissions=${permBitmask}&scope=bot%20applications.commands`
+  const permissionAnalysis = useMemo(() => analyzeBotCode(workspaceFiles ?? []), [workspaceFiles]);
+  // Only explicit toggles are stored; everything else follows what the code needs
+  const [permOverrides, setPermOverrides] = useState<Partial<Record<PermissionKey, boolean>>>({});
+  const [showAllPerms, setShowAllPerms] = useState(false);
+  const inferredPerms = useMemo(() => new Map(permissionAnalysis.permissions.map(x => [x.key, x.reasons])), [permissionAnalysis]);
+  const isPermSelected = (key: PermissionKey) => permOverrides[key] ?? inferredPerms.has(key);
+  const permBitmask = permissionBitfield(PERMISSIONS.filter(x => isPermSelected(x.key)).map(x => x.key));
+  // The invite link targets the application production runs as
+  const inviteClientId = findEnvVar('CLIENT_ID', 'production')?.preview ?? '';
+  const inviteUrl = inviteClientId
+    ? `https://discord.com/api/oauth2/authorize?client_id=${inviteClientId}&permissions=${permBitmask}&scope=bot%20applications.commands`
     : '';
 
-  const commands = useMemo(() => {
-    const found: string[] = [];
-    for (const f of workspaceFiles ?? []) {
-      if (!f.file_path.endsWith('.py')) continue;
-      const m1 = [...f.content.matchAll(/@(?:bot|client)\.command\([^)]*\)\s*\nasync def (\w+)/g)];
-      for (const m of m1) if (m[1]) found.push('!' + m[1]);
-      const m2 = [...f.content.matchAll(/name=["'](\w+)["']/g)];
-      for (const m of m2) if (m[1]) found.push('/' + m[1]);
-    }
-    return [...new Set(found)];
-  }, [workspaceFiles]);
+  const commandManifest = useMemo(
+    () => extractCommandManifest((workspaceFiles ?? []).map(f => ({ path: f.file_path, content: f.content }))),
+    [workspaceFiles],
+  );
+  const commands = commandManifest.commands;
+  const commandTableRows = useMemo(() => commandRows(commandManifest), [commandManifest]);
 
   // Reset token visibility when switching away from the token sub-tab
   useEffect(() => { setTokenVisible(false); }, [subTab]);
 
+  // Credentials are edited one scope at a time; IDs are public, so their preview is the full value
+  const scopedCred = (key: string) => allEnvVars.find(v => v.key === key && v.scope === credScope);
+  const tokenMeta = scopedCred('BOT_TOKEN');
+  const savedClientId = scopedCred('CLIENT_ID')?.preview ?? '';
+  const savedGuildId = scopedCred('GUILD_ID')?.preview ?? '';
+
   useEffect(() => {
-    if (!projectId) return;
-    getDoc(doc(db, 'projectEnvVars', projectId)).then(snap => {
-      if (snap.exists()) {
-        const data = snap.data() as Record<string, string>;
-        if (data.BOT_TOKEN) { setBotToken(data.BOT_TOKEN); setCloudEnabled(true); }
-        if (data.CLIENT_ID) setClientId(data.CLIENT_ID);
-        if (data.GUILD_ID) setGuildId(data.GUILD_ID);
-        setEnvVars(
-          Object.entries(data)
-            .filter(([k]) => k !== 'updated_at' && k !== 'BOT_TOKEN' && k !== 'CLIENT_ID' && k !== 'GUILD_ID')
-            .map(([key, value]) => ({ key, value: String(value) }))
-        );
-      }
-    }).catch(() => {
-      toast({ title: 'Failed to load credentials', description: 'Could not read saved credentials. Check your connection and try refreshing.', variant: 'destructive' });
-    });
-  }, [projectId, cloudEnabledOverride]);
+    setClientId(savedClientId);
+    setGuildId(savedGuildId);
+    setBotToken('');
+  }, [savedClientId, savedGuildId]);
+
+  useEffect(() => {
+    if (allEnvVars.some(v => v.key === 'BOT_TOKEN')) setCloudEnabled(true);
+  }, [allEnvVars]);
+
+  useEffect(() => {
+    if (envError) toast({ title: 'Failed to load credentials', description: 'Could not read saved credentials. Check your connection and try refreshing.', variant: 'destructive' });
+  }, [envError, toast]);
+
+  // Runtime variables as the production deployment will see them
+  const envVars = resolvedEnvVars('production').filter(v => !CREDENTIAL_KEYS.includes(v.key));
 
   const saveToken = async () => {
-    if (!projectId || !botToken.trim()) return;
-    if (guildId.trim() && !/^\d{17,19}$/.test(guildId.trim())) {
-      toast({ title: 'Invalid Guild ID', description: 'Guild ID must be a 17–19 digit number. Right-click your server in Discord → Copy Server ID.', variant: 'destructive' });
-      return;
+    if (!projectId) return;
+    // Values are write-only: only send what the user actually typed or changed
+    const values: Record<string, string> = {};
+    if (botToken.trim()) values.BOT_TOKEN = botToken;
+    if (clientId.trim() && clientId.trim() !== savedClientId) values.CLIENT_ID = clientId;
+    if (guildId.trim() && guildId.trim() !== savedGuildId) values.GUILD_ID = guildId;
+    if (Object.keys(values).length === 0) return;
+    for (const [key, value] of Object.entries(values)) {
+      const problem = validateEnvVar(key, value);
+      if (problem) {
+        toast({ title: `Invalid ${key}`, description: problem, variant: 'destructive' });
+        return;
+      }
     }
     setSaving(true);
     try {
-      const payload: Record<string, string> = { BOT_TOKEN: botToken, CLIENT_ID: clientId, updated_at: new Date().toISOString() };
-      if (guildId.trim()) payload.GUILD_ID = guildId.trim();
-      await setDoc(doc(db, 'projectEnvVars', projectId), payload, { merge: true });
+      await setEnvVars(credScope, values);
+      setBotToken('');
       setTokenSaved(true);
       setCloudEnabled(true);
       setTimeout(() => setTokenSaved(false), 2000);
@@ -1424,8 +1827,32 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
       console.error('saveToken failed:', e);
       const msg = e instanceof Error ? e.message : String(e);
       toast({ title: 'Save failed', description: `Failed to save credentials: ${msg}`, variant: 'destructive' });
+      setSaving(false);
+      return;
     }
     setSaving(false);
+
+    // Check the new credentials against Discord right away instead of at deploy time
+    if (values.BOT_TOKEN || values.CLIENT_ID) {
+      try {
+        const result = credScope === 'development'
+          ? await verifyBotToken(projectId, 'development')
+          : await verifyIdentity();
+        reportIdentity(result);
+      } catch (e: unknown) {
+        toast({ title: 'Could not verify token', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+      }
+    }
+  };
+
+  const reportIdentity = (result: BotIdentity) => {
+    if (!result.valid) {
+      toast({ title: 'Discord rejected this token', description: result.error ?? 'Reset the token in the Developer Portal and paste the new one.', variant: 'destructive' });
+    } else if (result.client_id_matches === false) {
+      toast({ title: 'Client ID mismatch', description: `This token belongs to application ${result.application?.id}, not the saved Client ID.`, variant: 'destructive' });
+    } else {
+      toast({ title: `Verified as ${result.bot?.username}`, description: `Token works for ${result.application?.name}.` });
+    }
   };
 
   // ── Enable Cloud gate ─────────────────────────────────────────────────────
@@ -1479,7 +1906,7 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
   ];
 
   const OVERVIEW_ROWS: { id: CloudSubTab; label: string; desc: string; stat?: string }[] = [
-    { id: 'token',       label: 'Bot Token',       desc: 'Manage your Discord bot credentials',         stat: botToken ? 'Connected' : 'Not set' },
+    { id: 'token',       label: 'Bot Token',       desc: 'Manage your Discord bot credentials',         stat: tokenMeta ? 'Connected' : 'Not set' },
     { id: 'env',         label: 'Env Variables',   desc: 'Configure runtime environment variables',     stat: envVars.length > 0 ? `${envVars.length} Variables` : '0 Variables' },
     { id: 'commands',    label: 'Commands',        desc: 'Slash commands and prefix commands detected', stat: commands.length > 0 ? `${commands.length} Commands` : '0 Commands' },
     { id: 'permissions', label: 'Permissions',     desc: 'Configure bot permissions and invite URL' },
@@ -1517,10 +1944,12 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
                 <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.35)', margin: '2px 0 0' }}>Bot cloud configuration</p>
               </div>
               <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
-                <div style={{ width: 7, height: 7, borderRadius: '50%', background: '#22c55e', boxShadow: '0 0 5px rgba(34,197,94,0.5)' }} />
-                <span style={{ fontSize: 11, color: '#4ade80' }}>Connected</span>
+                <div style={{ width: 7, height: 7, borderRadius: '50%', background: identity && !identity.valid ? '#ef4444' : '#22c55e', boxShadow: identity && !identity.valid ? '0 0 5px rgba(239,68,68,0.5)' : '0 0 5px rgba(34,197,94,0.5)' }} />
+                <span style={{ fontSize: 11, color: identity && !identity.valid ? '#f87171' : '#4ade80' }}>{identity && !identity.valid ? 'Token invalid' : 'Connected'}</span>
               </div>
             </div>
+            <BotIdentityCard identity={identity} missingIntents={missingIntents} isVerifying={isVerifying}
+              onVerify={() => verifyIdentity().then(reportIdentity).catch((e: unknown) => toast({ title: 'Could not verify token', description: e instanceof Error ? e.message : String(e), variant: 'destructive' }))} />
             <div>
               {OVERVIEW_ROWS.map((row, i) => (
                 <button key={row.id} onClick={() => setSubTab(row.id)} style={{ display: 'flex', alignItems: 'center', width: '100%', padding: '18px 24px', borderBottom: '1px solid rgba(255,255,255,0.05)', background: 'transparent', border: 'none', borderBottomWidth: i < OVERVIEW_ROWS.length - 1 ? 1 : 0, borderBottomColor: 'rgba(255,255,255,0.05)', borderBottomStyle: 'solid', cursor: 'pointer', textAlign: 'left' }}
@@ -1542,12 +1971,24 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
         {subTab === 'token' && (
           <div style={{ padding: '20px 24px' }}>
             <h2 style={{ fontSize: 15, fontWeight: 600, color: 'rgba(255,255,255,0.88)', margin: '0 0 4px' }}>Bot Token</h2>
-            <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.38)', margin: '0 0 24px' }}>Manage your Discord application credentials. Stored encrypted — never exposed.</p>
+            <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.38)', margin: '0 0 18px' }}>Manage your Discord application credentials. Stored encrypted — never exposed.</p>
+            <div style={{ display: 'flex', gap: 4, marginBottom: 18 }}>
+              {ENV_SCOPES.map(sc => (
+                <button key={sc} onClick={() => setCredScope(sc)} style={{ padding: '5px 10px', borderRadius: 6, fontSize: 11, cursor: 'pointer', fontFamily: PANEL_FONT, textTransform: 'capitalize', background: credScope === sc ? 'rgba(255,255,255,0.08)' : 'transparent', border: '1px solid rgba(255,255,255,0.07)', color: credScope === sc ? 'rgba(255,255,255,0.8)' : 'rgba(255,255,255,0.38)' }}>
+                  {sc === 'shared' ? 'All environments' : sc}
+                </button>
+              ))}
+            </div>
+            {credScope !== 'shared' && (
+              <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.3)', margin: '-8px 0 16px', maxWidth: 520 }}>
+                Values set here override the shared ones when running in {credScope === 'development' ? 'the playground' : 'hosting'} — e.g. a test server's Guild ID.
+              </p>
+            )}
             <div style={{ display: 'flex', flexDirection: 'column', gap: 14, maxWidth: 520 }}>
               <div>
                 <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginBottom: 6 }}>Discord Bot Token <span style={{ color: '#ef4444' }}>*</span></p>
                 <div style={{ display: 'flex', gap: 6 }}>
-                  <input type={tokenVisible ? 'text' : 'password'} value={botToken} onChange={e => setBotToken(e.target.value)} placeholder="Paste your bot token" style={{ flex: 1, padding: '8px 12px', borderRadius: 8, background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.1)', color: 'rgba(255,255,255,0.8)', fontSize: 12, fontFamily: 'monospace', outline: 'none' }} />
+                  <input type={tokenVisible ? 'text' : 'password'} value={botToken} onChange={e => setBotToken(e.target.value)} placeholder={tokenMeta ? `${tokenMeta.preview} — paste a new token to replace` : 'Paste your bot token'} style={{ flex: 1, padding: '8px 12px', borderRadius: 8, background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.1)', color: 'rgba(255,255,255,0.8)', fontSize: 12, fontFamily: 'monospace', outline: 'none' }} />
                   <button onClick={() => setTokenVisible(v => !v)} style={{ padding: '8px 12px', borderRadius: 8, background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.45)', fontSize: 12, cursor: 'pointer', fontFamily: PANEL_FONT }}>{tokenVisible ? 'Hide' : 'Show'}</button>
                 </div>
               </div>
@@ -1561,11 +2002,11 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
                   <span style={{ marginLeft: 6, fontSize: 10, color: '#22c55e', background: 'rgba(34,197,94,0.1)', border: '1px solid rgba(34,197,94,0.2)', borderRadius: 4, padding: '1px 5px' }}>instant slash command sync</span>
                 </p>
                 <input value={guildId} onChange={e => setGuildId(e.target.value)} placeholder="Right-click your server → Copy Server ID" style={{ width: '100%', padding: '8px 12px', borderRadius: 8, background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.1)', color: 'rgba(255,255,255,0.8)', fontSize: 12, fontFamily: 'monospace', outline: 'none', boxSizing: 'border-box' }} />
-                <p style={{ fontSize: 10, color: 'rgba(255,255,255,0.22)', marginTop: 5 }}>Without a Guild ID, slash commands use global sync and can take up to 1 hour to appear.</p>
+                <p style={{ fontSize: 10, color: 'rgba(255,255,255,0.22)', marginTop: 5 }}>The development Guild ID is your test server — Commands → Sync commands registers there instantly. Global registration can take a few minutes to propagate.</p>
               </div>
               <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', paddingTop: 4 }}>
                 <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.25)', margin: 0 }}>Find these at <a href="https://discord.com/developers/applications" target="_blank" rel="noopener noreferrer" style={{ color: 'rgba(255,255,255,0.4)', textDecoration: 'underline' }}>discord.com/developers</a></p>
-                <button onClick={saveToken} disabled={saving || !botToken.trim()} style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '7px 16px', borderRadius: 8, background: tokenSaved ? 'rgba(34,197,94,0.15)' : '#2563eb', border: tokenSaved ? '1px solid rgba(34,197,94,0.3)' : 'none', color: tokenSaved ? '#4ade80' : '#fff', fontSize: 12, fontWeight: 500, cursor: 'pointer', fontFamily: PANEL_FONT, transition: 'all 0.2s' }}>
+                <button onClick={saveToken} disabled={saving || (!botToken.trim() && !tokenMeta)} style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '7px 16px', borderRadius: 8, background: tokenSaved ? 'rgba(34,197,94,0.15)' : '#2563eb', border: tokenSaved ? '1px solid rgba(34,197,94,0.3)' : 'none', color: tokenSaved ? '#4ade80' : '#fff', fontSize: 12, fontWeight: 500, cursor: 'pointer', fontFamily: PANEL_FONT, transition: 'all 0.2s' }}>
                   {saving ? <RotateCw style={{ width: 12, height: 12 }} className="animate-spin" /> : tokenSaved ? <><Check style={{ width: 12, height: 12 }} /> Saved</> : 'Save'}
                 </button>
               </div>
@@ -1583,7 +2024,8 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
                 {envVars.map(v => (
                   <div key={v.key} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '8px 12px', borderRadius: 8, background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.06)' }}>
                     <code style={{ fontSize: 12, color: 'rgba(255,255,255,0.7)', fontFamily: 'monospace', flex: 1 }}>{v.key}</code>
-                    <code style={{ fontSize: 12, color: 'rgba(255,255,255,0.25)', fontFamily: 'monospace' }}>{'•'.repeat(Math.min(v.value.length, 10))}</code>
+                    {v.scope !== 'shared' && <span style={{ fontSize: 10, color: 'rgba(255,255,255,0.35)', background: 'rgba(255,255,255,0.06)', borderRadius: 4, padding: '1px 5px' }}>{v.scope}</span>}
+                    <code style={{ fontSize: 12, color: 'rgba(255,255,255,0.25)', fontFamily: 'monospace' }}>{v.preview}</code>
                   </div>
                 ))}
               </div>
@@ -1591,7 +2033,7 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
               <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.25)', fontSize: 13 }}>
                 <Lock style={{ width: 28, height: 28, margin: '0 auto 10px', opacity: 0.3 }} />
                 <p style={{ margin: 0 }}>No environment variables configured.</p>
-                <p style={{ fontSize: 11, margin: '6px 0 0', opacity: 0.7 }}>Variables saved via Firestore will appear here.</p>
+                <p style={{ fontSize: 11, margin: '6px 0 0', opacity: 0.7 }}>Variables added in bot settings will appear here.</p>
               </div>
             )}
           </div>
@@ -1601,12 +2043,58 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
         {subTab === 'commands' && (
           <div style={{ padding: '20px 24px' }}>
             <h2 style={{ fontSize: 15, fontWeight: 600, color: 'rgba(255,255,255,0.88)', margin: '0 0 4px' }}>Commands</h2>
-            <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.38)', margin: '0 0 20px' }}>Commands detected in your bot's Python files. Generate your bot first to see them here.</p>
-            {commands.length > 0 ? (
-              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, maxWidth: 520 }}>
-                {commands.map(cmd => (
-                  <span key={cmd} style={{ padding: '4px 10px', borderRadius: 6, background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.09)', fontSize: 12, color: 'rgba(255,255,255,0.65)', fontFamily: 'monospace' }}>{cmd}</span>
-                ))}
+            <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.38)', margin: '0 0 20px' }}>Prefix, slash and context menu commands defined in your bot's code, with their options and required permissions.</p>
+            <CommandSyncCard
+              projectId={projectId}
+              manifest={commandManifest}
+              hasGuild={!!findEnvVar('GUILD_ID', 'development') && !!findEnvVar('CLIENT_ID', 'development')}
+              hasGlobalApp={!!findEnvVar('CLIENT_ID', 'production')}
+            />
+            {commandTableRows.length > 0 ? (
+              <div style={{ border: '1px solid rgba(255,255,255,0.08)', borderRadius: 10, overflow: 'hidden' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                  <thead>
+                    <tr style={{ background: 'rgba(255,255,255,0.03)', color: 'rgba(255,255,255,0.35)', fontSize: 10, textTransform: 'uppercase', letterSpacing: '0.06em' }}>
+                      {['Command', 'Type', 'Options', 'Permissions', 'Source'].map(h => (
+                        <th key={h} style={{ textAlign: 'left', fontWeight: 500, padding: '8px 12px' }}>{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {commandTableRows.map(row => (
+                      <tr key={`${row.command.kind}:${row.command.target ?? ''}:${row.label}`} style={{ borderTop: '1px solid rgba(255,255,255,0.05)', verticalAlign: 'top' }}>
+                        <td style={{ padding: '8px 12px', paddingLeft: 12 + row.depth * 16 }}>
+                          <code style={{ color: 'rgba(255,255,255,0.8)', fontFamily: 'monospace' }}>{row.label}</code>
+                          {row.description && <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.35)', marginTop: 2 }}>{row.description}</div>}
+                        </td>
+                        <td style={{ padding: '8px 12px', color: 'rgba(255,255,255,0.5)', whiteSpace: 'nowrap' }}>
+                          {row.depth > 0 ? 'subcommand' : row.command.kind === 'context_menu' ? `${row.command.target} menu` : row.command.kind}
+                        </td>
+                        <td style={{ padding: '8px 12px' }}>
+                          {row.options.length === 0 ? (
+                            <span style={{ color: 'rgba(255,255,255,0.2)' }}>—</span>
+                          ) : (
+                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+                              {row.options.map(o => (
+                                <span key={o.name} title={[o.description, o.choices?.length ? `Choices: ${o.choices.join(', ')}` : ''].filter(Boolean).join('\n') || undefined} style={{ padding: '1px 6px', borderRadius: 4, background: 'rgba(255,255,255,0.05)', fontFamily: 'monospace', fontSize: 11, color: 'rgba(255,255,255,0.6)' }}>
+                                  {o.name}{o.required ? '' : '?'}<span style={{ color: 'rgba(255,255,255,0.3)' }}>: {o.type}</span>
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                        <td style={{ padding: '8px 12px', fontSize: 11, color: row.depth === 0 && row.command.permissions.length ? '#fbbf24' : 'rgba(255,255,255,0.2)' }}>
+                          {row.depth === 0 && row.command.permissions.length
+                            ? row.command.permissions.map(k => PERMISSION_BY_KEY[k as PermissionKey]?.label ?? k).join(', ')
+                            : '—'}
+                        </td>
+                        <td style={{ padding: '8px 12px', fontSize: 11, color: 'rgba(255,255,255,0.3)', fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+                          {row.depth === 0 ? `${row.command.file}:${row.command.line}` : ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
             ) : (
               <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.25)', fontSize: 13 }}>
@@ -1622,16 +2110,83 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
         {subTab === 'permissions' && (
           <div style={{ padding: '20px 24px' }}>
             <h2 style={{ fontSize: 15, fontWeight: 600, color: 'rgba(255,255,255,0.88)', margin: '0 0 4px' }}>Permissions & Invite</h2>
-            <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.38)', margin: '0 0 20px' }}>Select what your bot needs access to, then copy the invite URL to add it to your server.</p>
-            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))', gap: 8, marginBottom: 20, maxWidth: 520 }}>
-              {Object.entries(PERM_LABELS).map(([bit, label]) => (
-                <label key={bit} style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer', fontSize: 12, color: 'rgba(255,255,255,0.6)', padding: '6px 10px', borderRadius: 7, background: permissions[Number(bit)] ? 'rgba(37,99,235,0.1)' : 'rgba(255,255,255,0.03)', border: `1px solid ${permissions[Number(bit)] ? 'rgba(37,99,235,0.25)' : 'rgba(255,255,255,0.07)'}`, transition: 'all 0.15s' }}>
-                  <input type="checkbox" checked={permissions[Number(bit)] ?? false} onChange={e => setPermissions(p => ({ ...p, [Number(bit)]: e.target.checked }))} style={{ accentColor: '#3b82f6', cursor: 'pointer' }} />
-                  {label}
-                </label>
-              ))}
+            <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.38)', margin: '0 0 20px' }}>Permissions are pre-selected from what your bot's code actually does. Adjust them if needed, then copy the invite URL to add it to your server.</p>
+
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', maxWidth: 620, marginBottom: 8 }}>
+              <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.3)', margin: 0, textTransform: 'uppercase', letterSpacing: '0.06em' }}>Required by your code</p>
+              {Object.keys(permOverrides).length > 0 && (
+                <button onClick={() => setPermOverrides({})} style={{ background: 'none', border: 'none', color: '#60a5fa', fontSize: 11, cursor: 'pointer', fontFamily: PANEL_FONT }}>Reset to suggested</button>
+              )}
             </div>
-            <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.3)', marginBottom: 10 }}>Invite URL (generated from your Client ID)</p>
+            {permissionAnalysis.permissions.length === 0 ? (
+              <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.25)', marginBottom: 20 }}>No Discord API calls that need permissions were found yet.</p>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 20, maxWidth: 620 }}>
+                {permissionAnalysis.permissions.map(({ key, reasons }) => {
+                  const first = reasons[0];
+                  return (
+                    <label key={key} style={{ display: 'flex', alignItems: 'flex-start', gap: 10, cursor: 'pointer', padding: '8px 10px', borderRadius: 7, background: isPermSelected(key) ? 'rgba(37,99,235,0.08)' : 'rgba(255,255,255,0.03)', border: `1px solid ${isPermSelected(key) ? 'rgba(37,99,235,0.22)' : 'rgba(255,255,255,0.07)'}` }}>
+                      <input type="checkbox" checked={isPermSelected(key)} onChange={e => setPermOverrides(p => ({ ...p, [key]: e.target.checked }))} style={{ accentColor: '#3b82f6', cursor: 'pointer', marginTop: 2 }} />
+                      <div style={{ minWidth: 0, flex: 1 }}>
+                        <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.75)' }}>
+                          {PERMISSION_BY_KEY[key].label}
+                          <span style={{ color: 'rgba(255,255,255,0.3)', marginLeft: 6 }}>— {first.why}</span>
+                        </div>
+                        <div style={{ display: 'flex', gap: 8, marginTop: 4, fontSize: 11, fontFamily: 'monospace', minWidth: 0 }}>
+                          <span style={{ color: 'rgba(255,255,255,0.3)', flexShrink: 0 }}>{first.file}:{first.line}</span>
+                          <code style={{ color: 'rgba(255,255,255,0.5)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{first.code}</code>
+                        </div>
+                        {reasons.length > 1 && (
+                          <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.25)', marginTop: 2 }}>+{reasons.length - 1} more use{reasons.length > 2 ? 's' : ''}</div>
+                        )}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {permissionAnalysis.intents.length > 0 && (
+              <>
+                <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.3)', margin: '0 0 8px', textTransform: 'uppercase', letterSpacing: '0.06em' }}>Gateway intents</p>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginBottom: 20, maxWidth: 620 }}>
+                  {permissionAnalysis.intents.map(({ intent, privileged, reasons }) => (
+                    <div key={intent} style={{ display: 'flex', alignItems: 'baseline', gap: 8, fontSize: 12, padding: '4px 0', borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+                      <code style={{ color: 'rgba(255,255,255,0.7)', fontSize: 11 }}>{intent}</code>
+                      {privileged && <span style={{ fontSize: 9, padding: '1px 6px', borderRadius: 4, background: 'rgba(234,179,8,0.12)', color: '#fbbf24' }}>privileged</span>}
+                      {reasons[0] && (
+                        <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.3)', fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{reasons[0].file}:{reasons[0].line} · {reasons[0].why}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {missingIntents.length > 0 && (
+                  <p style={{ fontSize: 11, color: '#fbbf24', margin: '-12px 0 20px' }}>
+                    Enable {missingIntents.map(i => INTENT_LABELS[i]).join(', ')} in Developer Portal → Bot → Privileged Gateway Intents, or the bot will be disconnected on startup.
+                  </p>
+                )}
+              </>
+            )}
+
+            <button onClick={() => setShowAllPerms(v => !v)} style={{ display: 'flex', alignItems: 'center', gap: 4, background: 'none', border: 'none', padding: 0, color: 'rgba(255,255,255,0.45)', fontSize: 12, cursor: 'pointer', marginBottom: 12, fontFamily: PANEL_FONT }}>
+              {showAllPerms ? <ChevronDown size={13} /> : <ChevronRight size={13} />} All permissions
+            </button>
+            {showAllPerms && (['General', 'Membership', 'Text', 'Voice', 'Advanced'] as const).map(group => (
+              <div key={group} style={{ marginBottom: 14, maxWidth: 620 }}>
+                <p style={{ fontSize: 10, color: 'rgba(255,255,255,0.28)', margin: '0 0 6px' }}>{group}</p>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: 6 }}>
+                  {PERMISSIONS.filter(x => x.group === group).map(({ key, label }) => (
+                    <label key={key} title={inferredPerms.has(key) ? 'Used by your code' : undefined} style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer', fontSize: 12, color: key === 'ADMINISTRATOR' ? '#f87171' : 'rgba(255,255,255,0.6)', padding: '6px 10px', borderRadius: 7, background: isPermSelected(key) ? 'rgba(37,99,235,0.1)' : 'rgba(255,255,255,0.03)', border: `1px solid ${isPermSelected(key) ? 'rgba(37,99,235,0.25)' : 'rgba(255,255,255,0.07)'}`, transition: 'all 0.15s' }}>
+                      <input type="checkbox" checked={isPermSelected(key)} onChange={e => setPermOverrides(p => ({ ...p, [key]: e.target.checked }))} style={{ accentColor: '#3b82f6', cursor: 'pointer' }} />
+                      {label}
+                      {inferredPerms.has(key) && <span style={{ marginLeft: 'auto', width: 5, height: 5, borderRadius: '50%', background: '#60a5fa', flexShrink: 0 }} />}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.3)', margin: '8px 0 10px' }}>Invite URL (generated from your Client ID · permissions={permBitmask.toString()})</p>
             {inviteUrl ? (
               <div style={{ display: 'flex', gap: 8, alignItems: 'center', maxWidth: 520 }}>
                 <code style={{ flex: 1, fontSize: 11, color: 'rgba(255,255,255,0.45)', background: 'rgba(255,255,255,0.04)', padding: '8px 10px', borderRadius: 7, fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', border: '1px solid rgba(255,255,255,0.08)' }}>{inviteUrl}</code>
@@ -1648,11 +2203,7 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
           <div style={{ padding: '20px 24px' }}>
             <h2 style={{ fontSize: 15, fontWeight: 600, color: 'rgba(255,255,255,0.88)', margin: '0 0 4px' }}>Logs</h2>
             <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.38)', margin: '0 0 20px' }}>Deployment and runtime logs for your bot. Deploy your bot from the Hosting tab to see logs.</p>
-            <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.25)', fontSize: 13 }}>
-              <ScrollText style={{ width: 28, height: 28, margin: '0 auto 10px', opacity: 0.3 }} />
-              <p style={{ margin: 0 }}>No logs yet.</p>
-              <p style={{ fontSize: 11, margin: '6px 0 0', opacity: 0.7 }}>Logs appear once your bot is deployed.</p>
-            </div>
+            <CloudLogsView workspaceId={workspaceId} />
           </div>
         )}
       </div>
@@ -1660,6 +2211,246 @@ function BotCloudPanel({ workspaceId, projectId, workspaceFiles, projectName, on
   );
 }
 
+// ─── CommandSyncCard ─────────────────────────────────────────────────────────
+function CommandSyncCard({ projectId, manifest, hasGuild, hasGlobalApp }: {
+  projectId?: string;
+  manifest: CommandManifest;
+  /** Development GUILD_ID + CLIENT_ID are set */
+  hasGuild: boolean;
+  /** Production CLIENT_ID is set */
+  hasGlobalApp: boolean;
+}) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<SyncScope>('guild');
+  const [reviewing, setReviewing] = useState(false);
+  const { diff, registered, isLoading, isSyncing, error, refetch, sync } = useCommandSync(projectId, manifest, scope, reviewing);
+  const ready = scope === 'guild' ? hasGuild : hasGlobalApp;
+
+  const apply = async () => {
+    try {
+      const result = await sync();
+      toast({ title: 'Commands synced', description: `${result.length} command${result.length === 1 ? '' : 's'} registered ${scope === 'guild' ? 'in your test server' : 'globally'}.` });
+      setReviewing(false);
+    } catch (e) {
+      toast({ title: 'Sync failed', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  };
+
+  const row = (sign: string, color: string, name: string, detail: string, key: string) => (
+    <div key={key} style={{ display: 'flex', gap: 8, fontSize: 12, padding: '4px 0', fontFamily: 'monospace' }}>
+      <span style={{ color, width: 10 }}>{sign}</span>
+      <span style={{ color: 'rgba(255,255,255,0.75)' }}>{name}</span>
+      <span style={{ color: 'rgba(255,255,255,0.3)', fontFamily: PANEL_FONT }}>{detail}</span>
+    </div>
+  );
+  const commandLabel = (c: { type: number; name: string }) => (c.type === 1 ? `/${c.name}` : c.name);
+  const typeLabel = (t: number) => (t === 1 ? '' : t === 2 ? 'user menu' : 'message menu');
+
+  return (
+    <div style={{ ...CARD_STYLE, padding: '14px 16px', marginBottom: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' }}>
+        <div style={{ flex: 1, minWidth: 200 }}>
+          <p style={{ fontSize: 13, fontWeight: 600, color: 'rgba(255,255,255,0.85)', margin: 0 }}>Registration</p>
+          <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.35)', margin: '2px 0 0' }}>
+            {scope === 'guild'
+              ? 'Test server — changes appear instantly. Uses the development Guild ID.'
+              : 'Global — every server the bot is in. Use when promoting to production.'}
+          </p>
+        </div>
+        <div style={{ display: 'flex', borderRadius: 6, border: '1px solid rgba(255,255,255,0.08)', overflow: 'hidden' }}>
+          {(['guild', 'global'] as SyncScope[]).map(s => (
+            <button key={s} onClick={() => setScope(s)} style={{ padding: '5px 10px', fontSize: 11, background: scope === s ? 'rgba(37,99,235,0.18)' : 'transparent', color: scope === s ? '#60a5fa' : 'rgba(255,255,255,0.45)', border: 'none', cursor: 'pointer', fontFamily: PANEL_FONT }}>
+              {s === 'guild' ? 'Test server' : 'Global'}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => (reviewing ? refetch() : setReviewing(true))}
+          disabled={!ready}
+          style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '5px 12px', borderRadius: 6, background: 'rgba(37,99,235,0.15)', border: '1px solid rgba(37,99,235,0.3)', color: '#60a5fa', fontSize: 11, cursor: ready ? 'pointer' : 'not-allowed', opacity: ready ? 1 : 0.5, fontFamily: PANEL_FONT }}
+        >
+          <RefreshCw style={{ width: 11, height: 11 }} className={isLoading && reviewing ? 'animate-spin' : undefined} /> {reviewing ? 'Refresh diff' : 'Sync commands'}
+        </button>
+      </div>
+
+      {!ready && (
+        <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.3)', margin: '10px 0 0' }}>
+          {scope === 'guild'
+            ? 'Add a Guild ID and Client ID for the development scope in Bot Token to sync to a test server.'
+            : 'Add a production Client ID in Bot Token to register commands globally.'}
+        </p>
+      )}
+
+      {reviewing && ready && (
+        <div style={{ marginTop: 12, paddingTop: 12, borderTop: '1px solid rgba(255,255,255,0.06)' }}>
+          {error ? (
+            <p style={{ fontSize: 12, color: '#f87171', margin: 0 }}>{error.message}</p>
+          ) : !diff ? (
+            <p style={{ fontSize: 12, color: 'rgba(255,255,255,0.35)', margin: 0 }}>Loading registered commands…</p>
+          ) : (
+            <>
+              <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.35)', margin: '0 0 8px' }}>
+                Discord has {registered?.length ?? 0} registered · {diff.unchanged} unchanged
+              </p>
+              {diff.added.map(c => row('+', '#4ade80', commandLabel(c), typeLabel(c.type) || 'new', `a:${c.type}:${c.name}`))}
+              {diff.changed.map(c => row('~', '#fbbf24', commandLabel(c), c.fields.map(f => (f === 'default_member_permissions' ? 'permissions' : f)).join(', ') + ' changed', `c:${c.key}`))}
+              {diff.removed.map(c => row('−', '#f87171', commandLabel(c), 'not in your code — will be removed', `r:${c.id}`))}
+              {diffIsEmpty(diff) && <p style={{ fontSize: 12, color: '#4ade80', margin: 0 }}>Discord is up to date with your code.</p>}
+              <div style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+                <button onClick={apply} disabled={isSyncing || diffIsEmpty(diff)} style={{ padding: '6px 14px', borderRadius: 6, background: diffIsEmpty(diff) ? 'rgba(255,255,255,0.04)' : 'rgba(37,99,235,0.85)', border: 'none', color: diffIsEmpty(diff) ? 'rgba(255,255,255,0.3)' : '#fff', fontSize: 12, cursor: diffIsEmpty(diff) ? 'default' : 'pointer', fontFamily: PANEL_FONT }}>
+                  {isSyncing ? 'Applying…' : scope === 'guild' ? 'Apply to test server' : 'Apply globally'}
+                </button>
+                <button onClick={() => setReviewing(false)} style={{ padding: '6px 12px', borderRadius: 6, background: 'transparent', border: '1px solid rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.5)', fontSize: 12, cursor: 'pointer', fontFamily: PANEL_FONT }}>Cancel</button>
+              </div>
+              {scope === 'global' && !diffIsEmpty(diff) && (
+                <p style={{ fontSize: 10.5, color: 'rgba(255,255,255,0.28)', margin: '8px 0 0' }}>Global changes can take a few minutes to reach every server.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── BotIdentityCard ─────────────────────────────────────────────────────────
+function BotIdentityCard({ identity, missingIntents, isVerifying, onVerify }: {
+  identity: BotIdentity | null;
+  missingIntents: PrivilegedIntent[];
+  isVerifying: boolean;
+  onVerify: () => void;
+}) {
+  const INTENT_COLOR = { enabled: '#4ade80', limited: '#fbbf24', disabled: 'rgba(255,255,255,0.3)' };
+  return (
+    <div style={{ padding: '16px 24px', borderBottom: '1px solid rgba(255,255,255,0.06)' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+        {identity?.bot
+          ? <img src={botAvatarUrl(identity.bot)} style={{ width: 34, height: 34, borderRadius: '50%' }} />
+          : <div style={{ width: 34, height: 34, borderRadius: '50%', background: 'rgba(255,255,255,0.06)' }} />}
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <p style={{ fontSize: 13, fontWeight: 600, color: 'rgba(255,255,255,0.85)', margin: 0 }}>
+            {identity?.bot ? identity.bot.username : identity ? 'Token not accepted by Discord' : 'Token not verified yet'}
+          </p>
+          <p style={{ fontSize: 11, color: 'rgba(255,255,255,0.35)', margin: '2px 0 0' }}>
+            {identity?.valid
+              ? `${identity.application?.name} · ${identity.application?.id} · checked ${new Date(identity.verified_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+              : identity?.error ?? 'Verify to confirm the token and Client ID belong to the same application.'}
+          </p>
+        </div>
+        <button onClick={onVerify} disabled={isVerifying} style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '5px 10px', borderRadius: 6, background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.55)', fontSize: 11, cursor: 'pointer', fontFamily: PANEL_FONT }}>
+          <RotateCw style={{ width: 11, height: 11 }} className={isVerifying ? 'animate-spin' : undefined} /> {identity ? 'Re-verify' : 'Verify'}
+        </button>
+      </div>
+      {identity?.valid && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 12 }}>
+          {(Object.keys(INTENT_LABELS) as PrivilegedIntent[]).map(i => (
+            <span key={i} style={{ fontSize: 10.5, padding: '2px 7px', borderRadius: 4, background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.07)', color: INTENT_COLOR[identity.intents[i]] }}>
+              {INTENT_LABELS[i]}: {identity.intents[i]}
+            </span>
+          ))}
+          {identity.client_id_matches === false && (
+            <span style={{ fontSize: 10.5, padding: '2px 7px', borderRadius: 4, background: 'rgba(239,68,68,0.08)', border: '1px solid rgba(239,68,68,0.2)', color: '#f87171' }}>Client ID does not match this token</span>
+          )}
+        </div>
+      )}
+      {missingIntents.length > 0 && (
+        <div style={{ display: 'flex', gap: 8, marginTop: 12, padding: '9px 11px', borderRadius: 8, background: 'rgba(251,191,36,0.06)', border: '1px solid rgba(251,191,36,0.2)' }}>
+          <AlertTriangle style={{ width: 13, height: 13, color: '#fbbf24', flexShrink: 0, marginTop: 1 }} />
+          <p style={{ fontSize: 11.5, color: 'rgba(255,255,255,0.6)', margin: 0, lineHeight: 1.5 }}>
+            Your code requests {missingIntents.map(i => INTENT_LABELS[i]).join(', ')} but {missingIntents.length > 1 ? 'they are' : 'it is'} disabled for this application.
+            The bot will fail to connect with "disallowed intents" — enable {missingIntents.length > 1 ? 'them' : 'it'} under Developer Portal → Bot → Privileged Gateway Intents.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── CloudLogsView ───────────────────────────────────────────────────────────
+function CloudLogsView({ workspaceId }: { workspaceId?: string | null }) {
+  const [level, setLevel] = useState<LogFilter['level']>('all');
+  const [source, setSource] = useState<LogFilter['source']>('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [follow, setFollow] = useState(true);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { entries, isConnected, isLoadingHistory, hasMore, loadOlder, error } = useBotLogs(workspaceId, {
+    filter: { level, source, search },
+  });
+
+  useEffect(() => {
+    const t = setTimeout(() => setSearch(searchInput), 300);
+    return () => clearTimeout(t);
+  }, [searchInput]);
+
+  useEffect(() => {
+    if (follow && scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [entries, follow]);
+
+  const LEVEL_COLOR = { INFO: '#60a5fa', WARN: '#fbbf24', ERROR: '#f87171' };
+  const chip = (active: boolean): React.CSSProperties => ({
+    padding: '4px 9px', borderRadius: 6, fontSize: 11, cursor: 'pointer', fontFamily: PANEL_FONT,
+    background: active ? 'rgba(255,255,255,0.08)' : 'transparent',
+    border: '1px solid rgba(255,255,255,0.07)',
+    color: active ? 'rgba(255,255,255,0.8)' : 'rgba(255,255,255,0.38)',
+  });
+
+  if (!workspaceId) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px 0', color: 'rgba(255,255,255,0.25)', fontSize: 13 }}>
+        <ScrollText style={{ width: 28, height: 28, margin: '0 auto 10px', opacity: 0.3 }} />
+        <p style={{ margin: 0 }}>No logs yet.</p>
+        <p style={{ fontSize: 11, margin: '6px 0 0', opacity: 0.7 }}>Logs appear once your bot is deployed.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 720 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap', marginBottom: 10 }}>
+        {(['all', 'INFO', 'WARN', 'ERROR'] as const).map(l => (
+          <button key={l} onClick={() => setLevel(l)} style={chip(level === l)}>{l === 'all' ? 'All' : l}</button>
+        ))}
+        <span style={{ width: 1, height: 16, background: 'rgba(255,255,255,0.08)', margin: '0 2px' }} />
+        {(['all', 'internal', 'external'] as const).map(src => (
+          <button key={src} onClick={() => setSource(src)} style={{ ...chip(source === src), textTransform: 'capitalize' }}>{src === 'all' ? 'All sources' : src}</button>
+        ))}
+        <input value={searchInput} onChange={e => setSearchInput(e.target.value)} placeholder="Search…"
+          style={{ flex: 1, minWidth: 120, padding: '4px 9px', borderRadius: 6, background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.08)', color: 'rgba(255,255,255,0.8)', fontSize: 11, outline: 'none', fontFamily: PANEL_FONT }} />
+        <button onClick={() => setFollow(v => !v)} style={chip(follow)}>{follow ? 'Following' : 'Follow'}</button>
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={e => {
+          const el = e.currentTarget;
+          if (follow && el.scrollHeight - el.scrollTop - el.clientHeight > 24) setFollow(false);
+        }}
+        style={{ background: '#0a0a0a', border: '1px solid rgba(255,255,255,0.06)', borderRadius: 6, fontFamily: 'monospace', fontSize: 11, lineHeight: 1.6, minHeight: 220, maxHeight: 420, overflowY: 'auto' }}
+      >
+        {hasMore && (
+          <button onClick={loadOlder} disabled={isLoadingHistory} style={{ width: '100%', padding: '6px 0', background: 'transparent', border: 'none', borderBottom: '1px solid rgba(255,255,255,0.04)', color: 'rgba(255,255,255,0.35)', fontSize: 11, cursor: 'pointer', fontFamily: PANEL_FONT }}>
+            {isLoadingHistory ? 'Loading…' : 'Load older entries'}
+          </button>
+        )}
+        {entries.length === 0 ? (
+          <p style={{ padding: '24px 12px', margin: 0, textAlign: 'center', color: 'rgba(255,255,255,0.25)', fontFamily: PANEL_FONT }}>
+            {error && !isLoadingHistory ? error : isLoadingHistory ? 'Loading logs…' : 'No matching log entries.'}
+          </p>
+        ) : entries.map(l => (
+          <div key={l.id} style={{ display: 'flex', gap: 10, padding: '3px 12px' }}>
+            <span style={{ flexShrink: 0, color: 'rgba(255,255,255,0.3)' }}>{new Date(l.ts).toLocaleTimeString([], { hour12: false })}</span>
+            <span style={{ flexShrink: 0, width: 40, fontWeight: 700, color: LEVEL_COLOR[l.level] }}>{l.level}</span>
+            <span style={{ flex: 1, color: 'rgba(255,255,255,0.6)', wordBreak: 'break-all' }}>{l.msg}</span>
+          </div>
+        ))}
+      </div>
+      <p style={{ fontSize: 10, color: isConnected ? '#4ade80' : 'rgba(255,255,255,0.25)', marginTop: 6 }}>
+        {isConnected ? '● Live' : 'Reconnecting…'} · {entries.length} entries
+      </p>
+    </div>
+  );
+}
+
 // ─── BotAnalyticsPanel ───────────────────────────────────────────────────────
 function BotAnalyticsPanel({ sessions, files }: { sessions?: GenerationSession[]; files?: WorkspaceFile[] }) {
   const totalSessions = sessions?.length ?? 0;
@@ -1816,11 +2607,11 @@ function BotHostingPanel({
   onStop: () => void;
   onRestart: () => void;
 }) {
-  const [logs, setLogs] = useState<string>('');
   const [logsCopied, setLogsCopied] = useState(false);
   const [deployError, setDeployError] = useState<string | null>(null);
   const logsRef = useRef<HTMLPreElement>(null);
-  const logPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const { entries: logEntries } = useBotLogs(workspaceId, { enabled: deployStatus === 'running' });
+  const logs = useMemo(() => formatLogEntries(logEntries), [logEntries]);
 
   // Fetch full status (with error message) when in error state
   useEffect(() => {
@@ -1833,28 +2624,10 @@ function BotHostingPanel({
     );
   }, [deployStatus, workspaceId]);
 
-  // Fetch logs when running
+  // Keep the newest log line in view
   useEffect(() => {
-    if (deployStatus !== 'running' || !workspaceId) {
-      if (logPollRef.current) clearInterval(logPollRef.current);
-      return;
-    }
-    const fetchLogs = async () => {
-      try {
-        const token = await auth.currentUser?.getIdToken();
-        const res = await fetch(`${API_BASE}/api/deploy/${workspaceId}/logs?lines=80`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = await res.json() as { logs: string };
-        setLogs(data.logs ?? '');
-        // Auto-scroll to bottom
-        if (logsRef.current) logsRef.current.scrollTop = logsRef.current.scrollHeight;
-      } catch { /* ignore */ }
-    };
-    fetchLogs();
-    logPollRef.current = setInterval(fetchLogs, 3000);
-    return () => { if (logPollRef.current) clearInterval(logPollRef.current); };
-  }, [deployStatus, workspaceId]);
+    if (logsRef.current) logsRef.current.scrollTop = logsRef.current.scrollHeight;
+  }, [logs]);
 
   const statusDot = deployStatus === 'running' ? '#22c55e'
     : deployStatus === 'deploying' ? '#f59e0b'
@@ -1969,6 +2742,448 @@ function BotHostingPanel({
   );
 }
 
+// ─── BotPlaygroundPanel ──────────────────────────────────────────────────────
+const PLAYGROUND_STATUS: Record<PlaygroundStatus, { label: string; color: string }> = {
+  idle: { label: 'Not running', color: 'rgba(255,255,255,0.3)' },
+  starting: { label: 'Starting…', color: '#fbbf24' },
+  connecting: { label: 'Installing & connecting…', color: '#fbbf24' },
+  online: { label: 'Online', color: '#4ade80' },
+  stopped: { label: 'Stopped', color: '#f87171' },
+};
+
+// https://discord.com/developers/docs/interactions/message-components#button-object-button-styles
+const BUTTON_STYLE_COLOR: Record<number, string> = { 1: '#5865f2', 2: '#4e5058', 3: '#248046', 4: '#da373c', 5: '#4e5058' };
+const EPHEMERAL_FLAG = 64;
+
+function BotPlaygroundPanel({ projectId, workspaceFiles, previousScenarios, onSaveFile, onAskAI }: {
+  projectId?: string;
+  workspaceFiles?: WorkspaceFile[];
+  /** Last generation's suite run — tests that passed there and fail now are regressions */
+  previousScenarios?: ScenarioSuiteReport | null;
+  onSaveFile: (content: string, path: string) => Promise<void>;
+  onAskAI: (prompt: string) => void;
+}) {
+  const files = useMemo(() => (workspaceFiles ?? []).map(f => ({ file_path: f.file_path, content: f.content })), [workspaceFiles]);
+  const manifest = useMemo(() => extractCommandManifest(files.map(f => ({ path: f.file_path, content: f.content }))), [files]);
+  const leaves = useMemo(() => manifest.commands.filter(c => c.kind === 'slash').flatMap(slashLeaves), [manifest]);
+  const suite = useMemo(() => suiteFiles(files), [files]);
+  const {
+    status, run, snapshot, timeline, logs, error, start, stop, reset, act,
+    recording, recordedSteps, startRecording, cancelRecording, finishRecording,
+  } = usePlayground(projectId, files);
+
+  const [sidePane, setSidePane] = useState<'logs' | 'tests'>('logs');
+  const [testName, setTestName] = useState('');
+  const [suiteReport, setSuiteReport] = useState<ScenarioSuiteReport | null>(null);
+  const [suiteRunning, setSuiteRunning] = useState(false);
+  const [suiteError, setSuiteError] = useState<string | null>(null);
+
+  const [channelId, setChannelId] = useState<string | null>(null);
+  const [actingAs, setActingAs] = useState('tester');
+  const [input, setInput] = useState('');
+  const [slashPath, setSlashPath] = useState<string | null>(null);
+  const [slashForm, setSlashForm] = useState<Record<string, string>>({});
+  const [joinName, setJoinName] = useState('');
+  const [joinAsMod, setJoinAsMod] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const logsRef = useRef<HTMLDivElement>(null);
+
+  const channels = snapshot?.channels ?? [{ id: 'general', name: 'general' }];
+  const channel = channels.find(c => c.id === channelId) ?? channels[0];
+  const humans = (snapshot?.members ?? []).filter(m => !m.bot);
+  const visible = timeline.filter(item => item.channelId === null || item.channelId === channel.id);
+  const leaf = leaves.find(l => l.path === slashPath) ?? null;
+  const running = status === 'connecting' || status === 'online';
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [visible.length]);
+
+  useEffect(() => {
+    if (logsRef.current) logsRef.current.scrollTop = logsRef.current.scrollHeight;
+  }, [logs.length]);
+
+  const perform = async (step: PlaygroundAction) => {
+    setActionError(null);
+    try {
+      await act(step);
+      return true;
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : String(e));
+      return false;
+    }
+  };
+
+  const sendMessage = async () => {
+    const content = input.trim();
+    if (!content) return;
+    if (await perform({ type: 'message', user: actingAs, content, channel: channel.id })) setInput('');
+  };
+
+  const sendSlash = async () => {
+    if (!leaf) return;
+    let options: Record<string, string | number | boolean>;
+    try {
+      options = slashOptionValues(leaf.options, slashForm);
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    if (await perform({ type: 'slash', user: actingAs, command: leaf.path, options, channel: channel.id })) {
+      setSlashPath(null);
+      setSlashForm({});
+    }
+  };
+
+  const saveRecording = async () => {
+    const name = testName.trim() || 'Recorded scenario';
+    const scenario = finishRecording(name);
+    setTestName('');
+    if (!scenario) return;
+    await onSaveFile(scenario, scenarioPath(name));
+    setSidePane('tests');
+  };
+
+  const runSuite = async () => {
+    if (!projectId) return;
+    setSuiteRunning(true);
+    setSuiteError(null);
+    try {
+      setSuiteReport(await runScenarioSuite(projectId, files, previousScenarios));
+    } catch (e) {
+      setSuiteError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSuiteRunning(false);
+    }
+  };
+
+  const join = async () => {
+    const name = joinName.trim().replace(/^@/, '');
+    if (!name) return;
+    if (await perform({ type: 'join', user: name, ...(joinAsMod ? { role: 'Moderator' } : {}) })) {
+      setJoinName('');
+      setActingAs(name);
+    }
+  };
+
+  /** `<@id>` / `<#id>` / `<@&id>` → readable names from the snapshot */
+  const renderText = (text: string) => text
+    .replace(/<@!?(\d+)>/g, (all, id) => `@${snapshot?.members.find(m => m.id === id)?.username ?? id}`)
+    .replace(/<#(\d+)>/g, (all, id) => `#${snapshot?.channels.find(c => c.id === id)?.name ?? id}`)
+    .replace(/<@&(\d+)>/g, (all, id) => `@${snapshot?.roles.find(r => r.id === id)?.name ?? id}`);
+
+  const field: React.CSSProperties = {
+    padding: '6px 9px', borderRadius: 6, background: 'rgba(0,0,0,0.25)', border: '1px solid rgba(255,255,255,0.08)',
+    color: _D.text, fontSize: 12, outline: 'none', fontFamily: PANEL_FONT,
+  };
+  const btn = (primary = false): React.CSSProperties => ({
+    display: 'flex', alignItems: 'center', gap: 5, padding: '5px 10px', borderRadius: 6, fontSize: 11, fontWeight: 600, cursor: 'pointer', fontFamily: PANEL_FONT,
+    background: primary ? _D.blurple : 'rgba(255,255,255,0.05)', border: primary ? 'none' : '1px solid rgba(255,255,255,0.08)',
+    color: primary ? '#fff' : 'rgba(255,255,255,0.65)',
+  });
+
+  const optionInput = (o: CommandOption) => {
+    const value = slashForm[o.name] ?? '';
+    const set = (v: string) => setSlashForm(prev => ({ ...prev, [o.name]: v }));
+    const select = (choices: string[]) => (
+      <select value={value} onChange={e => set(e.target.value)} style={{ ...field, width: '100%' }}>
+        <option value="">{o.required ? 'Choose…' : '(none)'}</option>
+        {choices.map(c => <option key={c} value={c}>{c}</option>)}
+      </select>
+    );
+    if (o.choices?.length) return select(o.choices);
+    switch (o.type) {
+      case 'boolean': return select(['true', 'false']);
+      case 'user': return select(humans.map(m => m.username));
+      case 'mentionable': return select([...humans.map(m => m.username), ...(snapshot?.roles ?? []).map(r => r.name)]);
+      case 'channel': return select(channels.map(c => c.name));
+      case 'role': return select((snapshot?.roles ?? []).map(r => r.name));
+      case 'attachment': return <span style={{ fontSize: 11, color: _D.muted }}>Attachments can't be simulated</span>;
+      default: return <input value={value} onChange={e => set(e.target.value)} type={o.type === 'string' ? 'text' : 'number'} style={{ ...field, width: '100%' }} />;
+    }
+  };
+
+  if (files.length === 0) {
+    return <PlaceholderPanel icon={MessageSquare} label="Playground" description="Generate a bot first — then run it here against a simulated Discord server." />;
+  }
+
+  const statusInfo = PLAYGROUND_STATUS[status];
+  const LEVEL_COLOR = { INFO: '#60a5fa', WARN: '#fbbf24', ERROR: '#f87171' };
+
+  return (
+    <div style={{ flex: 1, display: 'flex', minHeight: 0, fontFamily: PANEL_FONT }}>
+      {/* Channel view */}
+      <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', background: _D.bg }}>
+        <div style={{ height: 44, flexShrink: 0, background: _D.head, display: 'flex', alignItems: 'center', gap: 8, padding: '0 12px', borderBottom: '1px solid rgba(0,0,0,0.3)' }}>
+          {channels.map(c => (
+            <button key={c.id} onClick={() => setChannelId(c.id)} style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '4px 8px', borderRadius: 4, border: 'none', cursor: 'pointer', background: c.id === channel.id ? 'rgba(255,255,255,0.08)' : 'transparent', color: c.id === channel.id ? '#f2f3f5' : _D.muted, fontSize: 12, fontWeight: 600, fontFamily: PANEL_FONT }}>
+              <span style={{ fontSize: 14, lineHeight: 1 }}>#</span>{c.name}
+            </button>
+          ))}
+          <div style={{ flex: 1 }} />
+          <span style={{ display: 'flex', alignItems: 'center', gap: 5, fontSize: 11, color: statusInfo.color }}>
+            <span style={{ width: 7, height: 7, borderRadius: '50%', background: statusInfo.color }} />
+            {statusInfo.label}{run && running ? ` · ${run.entry}` : ''}
+          </span>
+          {running ? (
+            <>
+              <button onClick={start} style={btn()} title="Restart with the current files"><RotateCw style={{ width: 12, height: 12 }} />Restart</button>
+              <button onClick={stop} style={btn()}><Square style={{ width: 11, height: 11 }} />Stop</button>
+            </>
+          ) : (
+            <button onClick={start} disabled={status === 'starting'} style={btn(true)}>
+              {status === 'starting' ? <Loader2 style={{ width: 12, height: 12 }} className="animate-spin" /> : <Play style={{ width: 12, height: 12 }} />}
+              {status === 'stopped' ? 'Run again' : 'Run bot'}
+            </button>
+          )}
+          {running && !recording && (
+            <button onClick={startRecording} style={btn()} title="Record what you do here as a test"><Circle style={{ width: 10, height: 10, color: '#f87171', fill: '#f87171' }} />Record</button>
+          )}
+          {snapshot && <button onClick={reset} style={btn()} title="Fresh server: clears messages and members"><Trash2 style={{ width: 12, height: 12 }} /></button>}
+        </div>
+
+        <div ref={scrollRef} style={{ flex: 1, overflowY: 'auto', padding: '12px 16px', display: 'flex', flexDirection: 'column', gap: 10 }}>
+          {visible.length === 0 && (
+            <div style={{ margin: 'auto', textAlign: 'center', color: _D.muted, fontSize: 12, maxWidth: 340, lineHeight: 1.6 }}>
+              {status === 'idle'
+                ? 'Run your bot to try it in a simulated server. It gets a test token and never touches your real Discord server.'
+                : `Say something in #${channel.name}${run ? ` — try ${run.prefix}help` : ''} or use a slash command below.`}
+            </div>
+          )}
+          {visible.map(item => {
+            if (item.kind === 'system') {
+              return (
+                <div key={item.key} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 11, color: item.tone === 'moderation' ? '#f0b232' : _D.muted, paddingLeft: 34 }}>
+                  {item.tone === 'moderation' ? <Shield style={{ width: 12, height: 12 }} /> : <UserPlus style={{ width: 12, height: 12 }} />}
+                  {item.text}
+                </div>
+              );
+            }
+            if (item.kind === 'error') {
+              return (
+                <div key={item.key} style={{ marginLeft: 34, padding: '8px 10px', borderRadius: 6, background: 'rgba(218,55,60,0.1)', border: '1px solid rgba(218,55,60,0.35)' }}>
+                  <div style={{ display: 'flex', alignItems: 'flex-start', gap: 6, fontSize: 12, color: '#fca5a5' }}>
+                    <AlertTriangle style={{ width: 13, height: 13, flexShrink: 0, marginTop: 2 }} />
+                    <span style={{ wordBreak: 'break-word' }}>{item.title}</span>
+                  </div>
+                  {item.detail && (item.detail.includes('\n') ? (
+                    <details style={{ marginTop: 4 }}>
+                      <summary style={{ fontSize: 11, color: _D.muted, cursor: 'pointer' }}>Traceback</summary>
+                      <pre style={{ margin: '4px 0 0', fontSize: 10, color: 'rgba(255,255,255,0.55)', fontFamily: _MO, whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>{item.detail}</pre>
+                    </details>
+                  ) : <div style={{ marginTop: 3, fontSize: 11, color: _D.muted }}>{item.detail}</div>)}
+                </div>
+              );
+            }
+            const { message, fromBot, reactions } = item;
+            const name = message.author.global_name ?? message.author.username;
+            return (
+              <div key={item.key} style={{ display: 'flex', gap: 10, alignItems: 'flex-start' }}>
+                {_ava(name[0]?.toUpperCase() ?? '?', fromBot ? _D.blurple : '#4e5058')}
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 2 }}>
+                    <span style={{ fontSize: 13, fontWeight: 600, color: fromBot ? '#c9cdfb' : '#f2f3f5' }}>{name}</span>
+                    {fromBot && <span style={{ fontSize: 8, padding: '1px 4px', background: _D.blurple, borderRadius: 3, color: '#fff', fontWeight: 700, letterSpacing: '0.4px' }}>APP</span>}
+                    <span style={{ fontSize: 10, color: _D.time }}>{new Date(message.timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</span>
+                  </div>
+                  {message.content && (
+                    <div style={{ fontSize: 13, color: _D.text, lineHeight: 1.45, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                      {renderText(message.content)}
+                      {message.edited_timestamp && <span style={{ fontSize: 10, color: _D.time }}> (edited)</span>}
+                    </div>
+                  )}
+                  {message.embeds.map((embed, i) => (
+                    <div key={i} style={{ marginTop: 4, maxWidth: 460, borderLeft: `4px solid ${embed.color !== undefined ? `#${embed.color.toString(16).padStart(6, '0')}` : '#1e1f22'}`, background: _D.head, borderRadius: 4, padding: '8px 12px' }}>
+                      {embed.author?.name && <div style={{ fontSize: 11, fontWeight: 600, color: '#f2f3f5', marginBottom: 4 }}>{embed.author.name}</div>}
+                      {embed.title && <div style={{ fontSize: 13, fontWeight: 700, color: embed.url ? '#00a8fc' : '#f2f3f5', marginBottom: 4 }}>{renderText(embed.title)}</div>}
+                      {embed.description && <div style={{ fontSize: 12, color: _D.text, lineHeight: 1.45, whiteSpace: 'pre-wrap' }}>{renderText(embed.description)}</div>}
+                      {embed.fields && embed.fields.length > 0 && (
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px 16px', marginTop: 6 }}>
+                          {embed.fields.map((f, j) => (
+                            <div key={j} style={{ flex: f.inline ? '1 1 30%' : '1 1 100%', minWidth: 0 }}>
+                              <div style={{ fontSize: 11, fontWeight: 700, color: '#f2f3f5' }}>{renderText(f.name)}</div>
+                              <div style={{ fontSize: 12, color: _D.text, whiteSpace: 'pre-wrap' }}>{renderText(f.value)}</div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {embed.footer?.text && <div style={{ fontSize: 10, color: _D.muted, marginTop: 6 }}>{embed.footer.text}</div>}
+                    </div>
+                  ))}
+                  {message.attachments.map(a => (
+                    <div key={a.id} style={{ marginTop: 4, display: 'inline-flex', alignItems: 'center', gap: 5, padding: '5px 9px', borderRadius: 4, background: _D.head, fontSize: 11, color: '#00a8fc' }}>
+                      <FileText style={{ width: 12, height: 12 }} />{a.filename}
+                    </div>
+                  ))}
+                  {buttonsOf(message).length > 0 && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 6 }}>
+                      {buttonsOf(message).map((b, j) => (
+                        <button
+                          key={b.custom_id ?? b.url ?? j}
+                          disabled={b.disabled || (!b.custom_id && !b.url) || !running}
+                          onClick={() => (b.url ? window.open(b.url, '_blank', 'noopener') : perform({ type: 'click', user: actingAs, customId: b.custom_id! }))}
+                          style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '5px 12px', borderRadius: 4, border: 'none', fontSize: 12, fontWeight: 500, fontFamily: PANEL_FONT, color: '#fff', background: BUTTON_STYLE_COLOR[b.style ?? 2] ?? '#4e5058', opacity: b.disabled ? 0.5 : 1, cursor: b.disabled ? 'not-allowed' : 'pointer' }}
+                        >
+                          {b.emoji?.name && <span>{b.emoji.name}</span>}{b.label}
+                          {b.url && <ExternalLink style={{ width: 11, height: 11 }} />}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {message.components.some(row => row.components?.some(c => c.type !== 2)) && (
+                    <div style={{ marginTop: 4, fontSize: 10, color: _D.muted }}>Select menus aren't interactive in the playground yet.</div>
+                  )}
+                  {reactions.length > 0 && (
+                    <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+                      {reactions.map(r => <span key={r} style={{ padding: '1px 6px', borderRadius: 8, background: 'rgba(88,101,242,0.15)', border: `1px solid ${_D.blurple}`, fontSize: 12 }}>{r} 1</span>)}
+                    </div>
+                  )}
+                  {(message.flags & EPHEMERAL_FLAG) !== 0 && <div style={{ marginTop: 3, fontSize: 10, color: _D.muted }}>Only you can see this</div>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Composer */}
+        <div style={{ flexShrink: 0, padding: '8px 16px 14px', display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {recording && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 10px', borderRadius: 8, background: 'rgba(218,55,60,0.08)', border: '1px solid rgba(218,55,60,0.3)' }}>
+              <Circle style={{ width: 9, height: 9, color: '#f87171', fill: '#f87171' }} className="animate-pulse" />
+              <span style={{ fontSize: 11, color: '#fca5a5', whiteSpace: 'nowrap' }}>Recording · {recordedSteps} step{recordedSteps !== 1 ? 's' : ''}</span>
+              <input
+                value={testName}
+                onChange={e => setTestName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter' && recordedSteps > 0) saveRecording(); }}
+                placeholder="Test name, e.g. ban removes the member"
+                style={{ ...field, flex: 1 }}
+              />
+              <button onClick={cancelRecording} style={btn()}>Discard</button>
+              <button onClick={saveRecording} disabled={recordedSteps === 0} style={{ ...btn(true), opacity: recordedSteps === 0 ? 0.5 : 1 }}>Save as test</button>
+            </div>
+          )}
+          {(actionError || error) && (
+            <div style={{ fontSize: 11, color: '#fca5a5', display: 'flex', alignItems: 'center', gap: 5 }}>
+              <AlertTriangle style={{ width: 12, height: 12 }} />{actionError || error}
+            </div>
+          )}
+          {leaf && (
+            <div style={{ padding: 10, borderRadius: 8, background: _D.head, border: '1px solid rgba(255,255,255,0.06)' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: leaf.options.length ? 8 : 0 }}>
+                <span style={{ fontSize: 12, fontWeight: 700, color: '#c9cdfb', fontFamily: _MO }}>/{leaf.path}</span>
+                <div style={{ flex: 1 }} />
+                <button onClick={() => { setSlashPath(null); setSlashForm({}); }} style={btn()}>Cancel</button>
+                <button onClick={sendSlash} disabled={!running} style={btn(true)}><Send style={{ width: 11, height: 11 }} />Send</button>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: 8 }}>
+                {leaf.options.map(o => (
+                  <label key={o.name} style={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+                    <span style={{ fontSize: 10, color: _D.muted }}>{o.name}{o.required && <span style={{ color: '#f87171' }}> *</span>} <span style={{ opacity: 0.7 }}>· {o.type}</span></span>
+                    {optionInput(o)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <select value={actingAs} onChange={e => setActingAs(e.target.value)} title="Who is talking" style={{ ...field, maxWidth: 120 }}>
+              {(humans.length ? humans.map(m => m.username) : ['tester']).map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+            {leaves.length > 0 && (
+              <select value="" onChange={e => { setSlashPath(e.target.value || null); setSlashForm({}); }} title="Slash commands from your bot's code" style={{ ...field, maxWidth: 140 }}>
+                <option value="">/ commands</option>
+                {leaves.map(l => <option key={l.path} value={l.path}>/{l.path}</option>)}
+              </select>
+            )}
+            <input
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') sendMessage(); }}
+              disabled={!running}
+              placeholder={running ? `Message #${channel.name}${run ? ` — prefix commands start with ${run.prefix}` : ''}` : 'Run the bot to start chatting'}
+              style={{ ...field, flex: 1, padding: '9px 12px', background: '#383a40', border: 'none', fontSize: 13 }}
+            />
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <UserPlus style={{ width: 13, height: 13, color: _D.muted }} />
+            <input value={joinName} onChange={e => setJoinName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') join(); }} placeholder="New member name" disabled={!running} style={{ ...field, width: 160 }} />
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 11, color: _D.muted }}>
+              <input type="checkbox" checked={joinAsMod} onChange={e => setJoinAsMod(e.target.checked)} />as Moderator
+            </label>
+            <button onClick={join} disabled={!running || !joinName.trim()} style={btn()}>Join server</button>
+          </div>
+        </div>
+      </div>
+
+      {/* Bot logs */}
+      <div style={{ width: 320, flexShrink: 0, display: 'flex', flexDirection: 'column', background: '#0a0a0a', borderLeft: `1px solid ${BORDER}` }}>
+        <div style={{ height: 44, flexShrink: 0, display: 'flex', alignItems: 'center', gap: 4, padding: '0 8px', borderBottom: `1px solid ${BORDER}` }}>
+          {([['logs', Terminal, 'Bot logs'], ['tests', FlaskConical, `Tests${suite.length ? ` (${suite.length})` : ''}`]] as const).map(([id, Icon, label]) => (
+            <button
+              key={id}
+              onClick={() => setSidePane(id)}
+              style={{ display: 'flex', alignItems: 'center', gap: 5, padding: '5px 8px', borderRadius: 5, border: 'none', cursor: 'pointer', fontFamily: PANEL_FONT, fontSize: 12, fontWeight: 600, background: sidePane === id ? 'rgba(255,255,255,0.07)' : 'transparent', color: sidePane === id ? 'rgba(255,255,255,0.75)' : 'rgba(255,255,255,0.4)' }}
+            >
+              <Icon style={{ width: 13, height: 13 }} />{label}
+            </button>
+          ))}
+          {sidePane === 'logs' && <span style={{ marginLeft: 'auto', paddingRight: 4, fontSize: 10, color: 'rgba(255,255,255,0.3)' }}>{logs.length} lines</span>}
+        </div>
+        {sidePane === 'tests' ? (
+          <div style={{ flex: 1, overflowY: 'auto', padding: 10, display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <div style={{ display: 'flex', gap: 6 }}>
+              <button onClick={runSuite} disabled={suite.length === 0 || suiteRunning} style={{ ...btn(true), opacity: suite.length === 0 ? 0.5 : 1 }}>
+                {suiteRunning ? <Loader2 style={{ width: 12, height: 12 }} className="animate-spin" /> : <Play style={{ width: 12, height: 12 }} />}
+                {suiteRunning ? 'Running…' : 'Run all'}
+              </button>
+              <button onClick={() => onAskAI(draftScenariosPrompt(manifest, suite, run?.prefix))} disabled={manifest.commands.length === 0} style={btn()} title="Ask the AI to write a test per command">
+                <Sparkles style={{ width: 12, height: 12 }} />Draft with AI
+              </button>
+            </div>
+            {suiteError && <div style={{ fontSize: 11, color: '#fca5a5' }}>{suiteError}</div>}
+            {suiteReport && suiteReport.results.some(r => !r.passed) && (
+              <button onClick={() => onAskAI(regressionRepairPrompt(suiteReport))} style={{ ...btn(), alignSelf: 'flex-start' }}>
+                <Wrench style={{ width: 12, height: 12 }} />Fix failing tests with AI
+              </button>
+            )}
+            {suite.length === 0 ? (
+              <p style={{ margin: '12px 0', textAlign: 'center', color: 'rgba(255,255,255,0.3)', fontSize: 11, lineHeight: 1.6 }}>
+                No tests yet. Press Record, use your bot, then save it as a test — or let the AI draft one per command. Tests run after every change and before deploy.
+              </p>
+            ) : suite.map(entry => {
+              const result = suiteReport?.results.find(r => r.file === entry.file);
+              return (
+                <div key={entry.file} title={entry.file} style={{ padding: '7px 9px', borderRadius: 6, background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.06)' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: 'rgba(255,255,255,0.7)' }}>
+                    {!result ? <FlaskConical style={{ width: 12, height: 12, color: 'rgba(255,255,255,0.3)', flexShrink: 0 }} />
+                      : result.passed ? <CheckCircle2 style={{ width: 12, height: 12, color: '#4ade80', flexShrink: 0 }} />
+                      : <XCircle style={{ width: 12, height: 12, color: result.regression ? '#f87171' : '#fbbf24', flexShrink: 0 }} />}
+                    <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{scenarioName(entry)}</span>
+                    {result?.regression && <span style={{ fontSize: 10, color: '#f87171' }}>regression</span>}
+                  </div>
+                  {result?.failure && <div style={{ marginTop: 3, paddingLeft: 18, fontSize: 10.5, color: 'rgba(255,255,255,0.4)', lineHeight: 1.5 }}>{result.failure}</div>}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div ref={logsRef} style={{ flex: 1, overflowY: 'auto', fontFamily: _MO, fontSize: 10.5, lineHeight: 1.55, padding: '6px 0' }}>
+            {logs.length === 0 ? (
+              <p style={{ padding: '20px 12px', margin: 0, textAlign: 'center', color: 'rgba(255,255,255,0.25)', fontFamily: PANEL_FONT, fontSize: 11 }}>Output from your bot shows up here.</p>
+            ) : logs.map(l => (
+              <div key={l.id} style={{ display: 'flex', gap: 8, padding: '1px 10px' }}>
+                <span style={{ flexShrink: 0, color: 'rgba(255,255,255,0.25)' }}>{new Date(l.ts).toLocaleTimeString([], { hour12: false })}</span>
+                <span style={{ flex: 1, color: l.level === 'INFO' ? 'rgba(255,255,255,0.6)' : LEVEL_COLOR[l.level], wordBreak: 'break-all', whiteSpace: 'pre-wrap' }}>{l.msg}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ─── Bot template data for empty state cards ─────────────────────────────────
 const BOT_TEMPLATES = [
   {
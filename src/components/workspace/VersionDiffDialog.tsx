@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { DiffEditor, type DiffOnMount } from '@monaco-editor/react';
+import { GitCompare, RotateCcw, FilePlus, FileMinus, FileDiff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { monacoLanguage } from './monacoLanguage';
+import {
+  diffHunks,
+  diffSnapshots,
+  hunkRange,
+  revertHunk,
+  type FileChange,
+  type SnapshotFile,
+} from '@/lib/versionDiff';
+
+export const CURRENT_SNAPSHOT = 'current';
+
+interface DiffableVersion {
+  id: string;
+  version_number: number;
+  label: string | null;
+  files: SnapshotFile[];
+}
+
+/** A file to write back into the workspace; `content: null` deletes it */
+export interface FileRestore {
+  path: string;
+  content: string | null;
+}
+
+interface VersionDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: DiffableVersion[];
+  currentFiles: SnapshotFile[];
+  /** Version id shown on the left */
+  initialFrom: string | null;
+  /** Version id or CURRENT_SNAPSHOT shown on the right */
+  initialTo?: string;
+  onRestoreFiles?: (files: FileRestore[], label: string) => void;
+  isRestoring?: boolean;
+}
+
+const STATUS_META: Record<FileChange['status'], { icon: typeof FileDiff; letter: string; className: string }> = {
+  added:    { icon: FilePlus,  letter: 'A', className: 'text-emerald-400' },
+  removed:  { icon: FileMinus, letter: 'D', className: 'text-red-400' },
+  modified: { icon: FileDiff,  letter: 'M', className: 'text-amber-400' },
+};
+
+export default function VersionDiffDialog({
+  open,
+  onOpenChange,
+  versions,
+  currentFiles,
+  initialFrom,
+  initialTo = CURRENT_SNAPSHOT,
+  onRestoreFiles,
+  isRestoring = false,
+}: VersionDiffDialogProps) {
+  const [fromId, setFromId] = useState<string | null>(initialFrom);
+  const [toId, setToId] = useState(initialTo);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const diffEditorRef = useRef<Parameters<DiffOnMount>[0] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFromId(initialFrom);
+    setToId(initialTo);
+    setSelectedPath(null);
+  }, [open, initialFrom, initialTo]);
+
+  const fromVersion = versions.find(v => v.id === fromId) ?? null;
+  const toVersion = toId === CURRENT_SNAPSHOT ? null : versions.find(v => v.id === toId) ?? null;
+  // Hunks are positioned in the right-hand content, so only they can be patched into the workspace
+  const againstWorkspace = toId === CURRENT_SNAPSHOT;
+
+  const changes = useMemo(
+    () => (fromVersion ? diffSnapshots(fromVersion.files, againstWorkspace ? currentFiles : toVersion?.files ?? []) : []),
+    [fromVersion, toVersion, againstWorkspace, currentFiles],
+  );
+  const selected = changes.find(c => c.path === selectedPath) ?? changes[0] ?? null;
+  const hunks = useMemo(
+    () => (selected?.status === 'modified' ? diffHunks(selected.before!, selected.after!) : []),
+    [selected],
+  );
+
+  const snapshotName = (id: string | null) =>
+    id === CURRENT_SNAPSHOT ? 'current workspace' : `v${versions.find(v => v.id === id)?.version_number ?? '?'}`;
+
+  const restoreFile = (change: FileChange) => {
+    if (!fromVersion || !onRestoreFiles) return;
+    onRestoreFiles(
+      [{ path: change.path, content: change.before }],
+      `Restored ${change.path} from v${fromVersion.version_number}`,
+    );
+  };
+
+  const restoreAll = () => {
+    if (!fromVersion || !onRestoreFiles || changes.length === 0) return;
+    onRestoreFiles(
+      changes.map(c => ({ path: c.path, content: c.before })),
+      `Restored ${changes.length} file${changes.length !== 1 ? 's' : ''} from v${fromVersion.version_number}`,
+    );
+  };
+
+  const restoreHunk = (index: number) => {
+    const hunk = hunks[index];
+    if (!selected?.after || !hunk || !fromVersion || !onRestoreFiles) return;
+    onRestoreFiles(
+      [{ path: selected.path, content: revertHunk(selected.after, hunk) }],
+      `Restored ${hunkRange(hunk).toLowerCase()} of ${selected.path} from v${fromVersion.version_number}`,
+    );
+  };
+
+  const revealHunk = (index: number) => {
+    const hunk = hunks[index];
+    const editor = diffEditorRef.current;
+    if (!hunk || !editor) return;
+    editor.getModifiedEditor().revealLineInCenter(hunk.start + 1);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl w-[95vw] h-[85vh] p-0 gap-0 flex flex-col overflow-hidden">
+        <DialogHeader className="px-4 py-3 border-b border-border space-y-1">
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            <GitCompare className="h-4 w-4 text-primary" />
+            Compare versions
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Restore single files or single changes from the older snapshot — everything else stays as it is.
+          </DialogDescription>
+          <div className="flex items-center gap-2 pt-2">
+            <Select value={fromId ?? undefined} onValueChange={setFromId}>
+              <SelectTrigger className="w-52 h-7 text-xs">
+                <SelectValue placeholder="Pick a version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(v => (
+                  <SelectItem key={v.id} value={v.id} className="text-xs">
+                    v{v.version_number} · {v.label || `Version ${v.version_number}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground">→</span>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger className="w-52 h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT_SNAPSHOT} className="text-xs">Current workspace</SelectItem>
+                {versions.filter(v => v.id !== fromId).map(v => (
+                  <SelectItem key={v.id} value={v.id} className="text-xs">
+                    v{v.version_number} · {v.label || `Version ${v.version_number}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground ml-auto">
+              {changes.length} file{changes.length !== 1 ? 's' : ''} changed
+            </span>
+            {onRestoreFiles && changes.length > 0 && (
+              <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={restoreAll} disabled={isRestoring}>
+                <RotateCcw className="h-3 w-3" />
+                Restore all
+              </Button>
+            )}
+          </div>
+        </DialogHeader>
+
+        <div className="flex flex-1 min-h-0">
+          {/* File list */}
+          <ScrollArea className="w-64 border-r border-border flex-shrink-0">
+            <div className="p-2 space-y-0.5">
+              {changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-8">
+                  {fromVersion ? `No differences from ${snapshotName(toId)}` : 'Pick a version to compare'}
+                </p>
+              ) : (
+                changes.map(change => {
+                  const meta = STATUS_META[change.status];
+                  return (
+                    <button
+                      key={change.path}
+                      onClick={() => setSelectedPath(change.path)}
+                      className={cn(
+                        'w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs transition-colors',
+                        selected?.path === change.path ? 'bg-muted' : 'hover:bg-muted/50',
+                      )}
+                      title={change.path}
+                    >
+                      <span className={cn('font-mono text-[10px] w-3 flex-shrink-0', meta.className)}>{meta.letter}</span>
+                      <span className="flex-1 min-w-0 truncate font-mono">{change.path}</span>
+                      <span className="flex-shrink-0 font-mono text-[10px]">
+                        {change.additions > 0 && <span className="text-emerald-400">+{change.additions}</span>}
+                        {change.additions > 0 && change.deletions > 0 && ' '}
+                        {change.deletions > 0 && <span className="text-red-400">−{change.deletions}</span>}
+                      </span>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </ScrollArea>
+
+          {/* Diff */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected && (
+              <>
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+                  {(() => { const Icon = STATUS_META[selected.status].icon; return <Icon className={cn('h-3.5 w-3.5', STATUS_META[selected.status].className)} />; })()}
+                  <span className="text-xs font-mono truncate flex-1">{selected.path}</span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {snapshotName(fromId)} ← → {snapshotName(toId)}
+                  </span>
+                  {onRestoreFiles && (
+                    <Button size="sm" className="h-7 text-xs gap-1" onClick={() => restoreFile(selected)} disabled={isRestoring}>
+                      <RotateCcw className="h-3 w-3" />
+                      {selected.status === 'added' ? 'Remove file' : `Restore from ${snapshotName(fromId)}`}
+                    </Button>
+                  )}
+                </div>
+                <div className="flex-1 min-h-0">
+                  <DiffEditor
+                    key={`${fromId}:${toId}:${selected.path}`}
+                    original={selected.before ?? ''}
+                    modified={selected.after ?? ''}
+                    language={monacoLanguage(selected.path)}
+                    theme="vs-dark"
+                    onMount={editor => { diffEditorRef.current = editor; }}
+                    options={{
+                      readOnly: true,
+                      renderSideBySide: true,
+                      minimap: { enabled: false },
+                      fontSize: 12,
+                      scrollBeyondLastLine: false,
+                      automaticLayout: true,
+                    }}
+                  />
+                </div>
+                {againstWorkspace && onRestoreFiles && hunks.length > 1 && (
+                  <div className="border-t border-border max-h-40 overflow-y-auto">
+                    <p className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wide text-muted-foreground">
+                      {hunks.length} changes
+                    </p>
+                    {hunks.map(hunk => (
+                      <div
+                        key={hunk.index}
+                        className="flex items-center gap-2 px-3 py-1 text-xs hover:bg-muted/50 cursor-pointer"
+                        onClick={() => revealHunk(hunk.index)}
+                      >
+                        <span className="font-mono text-muted-foreground w-28 flex-shrink-0">{hunkRange(hunk)}</span>
+                        <span className="font-mono text-[10px]">
+                          {hunk.added.length > 0 && <span className="text-emerald-400">+{hunk.added.length} </span>}
+                          {hunk.removed.length > 0 && <span className="text-red-400">−{hunk.removed.length}</span>}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate font-mono text-muted-foreground">
+                          {(hunk.added[0] ?? hunk.removed[0] ?? '').trim()}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 text-[11px] gap-1"
+                          onClick={(e) => { e.stopPropagation(); restoreHunk(hunk.index); }}
+                          disabled={isRestoring}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Revert
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,9 +8,16 @@ import {
   Clock,
   FileCode,
   ChevronRight,
-  AlertTriangle
+  AlertTriangle,
+  GitCompare,
+  GitBranch,
+  GitBranchPlus,
+  GitMerge,
+  Flag,
+  Trash2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   Dialog,
@@ -22,6 +29,8 @@ import {
 } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
+import { MAIN_BRANCH_NAME, validateBranchName, type FileBranch } from '@/lib/branches';
+import VersionDiffDialog, { type FileRestore } from './VersionDiffDialog';
 
 interface FileVersion {
   id: string;
@@ -30,8 +39,12 @@ interface FileVersion {
   files: Array<{ path: string; content: string }>;
   preview_html: string | null;
   created_at: string;
+  branch_id?: string | null;
+  checkpoint?: boolean;
 }
 
+type NamePrompt = { kind: 'branch'; version: FileVersion } | { kind: 'checkpoint' };
+
 interface VersionHistoryPanelProps {
   isOpen: boolean;
   onClose: () => void;
@@ -40,6 +53,21 @@ interface VersionHistoryPanelProps {
   onPreviewVersion: (version: FileVersion) => void;
   onRestoreVersion: (version: FileVersion) => void;
   isRestoring?: boolean;
+  /** The workspace as it is now, for comparing against a version */
+  currentFiles?: Array<{ path: string; content: string }>;
+  /** Restore single files or hunks; without it the diff view is read-only */
+  onRestoreFiles?: (files: FileRestore[], label: string) => void;
+  /** Branches of the project; without them the panel shows one linear history */
+  branches?: FileBranch[];
+  /** Branch the workspace holds; null for main */
+  activeBranchId?: string | null;
+  onCreateBranch?: (version: FileVersion, name: string) => void;
+  onSwitchBranch?: (branchId: string | null) => void;
+  /** Merge a branch (null for main) into the active one */
+  onMergeBranch?: (branchId: string | null) => void;
+  onDeleteBranch?: (branchId: string) => void;
+  onCreateCheckpoint?: (name: string) => void;
+  isBranching?: boolean;
 }
 
 export default function VersionHistoryPanel({
@@ -50,10 +78,45 @@ export default function VersionHistoryPanel({
   onPreviewVersion,
   onRestoreVersion,
   isRestoring = false,
+  currentFiles = [],
+  onRestoreFiles,
+  branches,
+  activeBranchId = null,
+  onCreateBranch,
+  onSwitchBranch,
+  onMergeBranch,
+  onDeleteBranch,
+  onCreateCheckpoint,
+  isBranching = false,
 }: VersionHistoryPanelProps) {
   const [selectedVersion, setSelectedVersion] = useState<FileVersion | null>(null);
+  const [comparing, setComparing] = useState<FileVersion | null>(null);
   const [confirmRestore, setConfirmRestore] = useState<FileVersion | null>(null);
   const [previewingVersion, setPreviewingVersion] = useState<FileVersion | null>(null);
+  const [namePrompt, setNamePrompt] = useState<NamePrompt | null>(null);
+  const [name, setName] = useState('');
+
+  const branchName = (branchId: string | null) =>
+    branchId === null ? MAIN_BRANCH_NAME : branches?.find(b => b.id === branchId)?.name ?? 'deleted branch';
+  const branchHead = (branchId: string | null) =>
+    branchId === null
+      ? versions.filter(v => !v.branch_id).sort((a, b) => b.version_number - a.version_number)[0]
+      : versions.find(v => v.id === branches?.find(b => b.id === branchId)?.head_version_id);
+  const activeBranch = branches?.find(b => b.id === activeBranchId) ?? null;
+  const listed = branches ? versions.filter(v => (v.branch_id ?? null) === activeBranchId) : versions;
+  const nameError = namePrompt?.kind === 'branch' && name ? validateBranchName(name, branches ?? []) : null;
+
+  const openNamePrompt = (prompt: NamePrompt) => {
+    setName('');
+    setNamePrompt(prompt);
+  };
+
+  const handleConfirmName = () => {
+    if (!namePrompt || !name.trim() || nameError) return;
+    if (namePrompt.kind === 'branch') onCreateBranch?.(namePrompt.version, name.trim());
+    else onCreateCheckpoint?.(name.trim());
+    setNamePrompt(null);
+  };
 
   const handlePreview = (version: FileVersion) => {
     setPreviewingVersion(version);
@@ -88,20 +151,84 @@ export default function VersionHistoryPanel({
                 <History className="h-4 w-4 text-primary" />
                 <span className="font-medium text-sm">Version History</span>
               </div>
-              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
-                <X className="h-4 w-4" />
-              </Button>
+              <div className="flex items-center gap-1">
+                {onCreateCheckpoint && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs gap-1"
+                    onClick={() => openNamePrompt({ kind: 'checkpoint' })}
+                    disabled={isBranching}
+                    title="Save the workspace as a named checkpoint"
+                  >
+                    <Flag className="h-3 w-3" />
+                    Checkpoint
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
 
+            {/* Branches */}
+            {branches && (
+              <div className="px-2 py-2 border-b border-border space-y-0.5">
+                {[null, ...branches.map(b => b.id)].map((branchId) => {
+                  const isActive = branchId === activeBranchId;
+                  const head = branchHead(branchId);
+                  return (
+                    <div
+                      key={branchId ?? MAIN_BRANCH_NAME}
+                      className={cn(
+                        'group flex items-center gap-2 px-2 py-1 rounded text-xs',
+                        isActive ? 'bg-primary/10' : 'hover:bg-muted/50'
+                      )}
+                    >
+                      <GitBranch className={cn('h-3 w-3 flex-shrink-0', isActive ? 'text-primary' : 'text-muted-foreground')} />
+                      <span className="font-mono truncate flex-1 min-w-0">{branchName(branchId)}</span>
+                      {head && <span className="text-[10px] font-mono text-muted-foreground">v{head.version_number}</span>}
+                      {isActive ? (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded bg-primary/20 text-primary">Current</span>
+                      ) : (
+                        <div className="hidden group-hover:flex items-center gap-0.5">
+                          {onSwitchBranch && (
+                            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-[10px]" disabled={isBranching} onClick={() => onSwitchBranch(branchId)}>
+                              Switch
+                            </Button>
+                          )}
+                          {head && (
+                            <Button variant="ghost" size="icon" className="h-5 w-5" title={`Compare ${branchName(branchId)} with the workspace`} onClick={() => setComparing(head)}>
+                              <GitCompare className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {onMergeBranch && head && (
+                            <Button variant="ghost" size="icon" className="h-5 w-5" disabled={isBranching} title={`Merge ${branchName(branchId)} into ${branchName(activeBranchId)}`} onClick={() => onMergeBranch(branchId)}>
+                              <GitMerge className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {onDeleteBranch && branchId !== null && (
+                            <Button variant="ghost" size="icon" className="h-5 w-5" disabled={isBranching} title="Delete branch (its versions stay in history)" onClick={() => onDeleteBranch(branchId)}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Version List */}
             <ScrollArea className="flex-1">
               <div className="p-2 space-y-1">
-                {versions.length === 0 ? (
+                {listed.length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground text-sm">
-                    No versions saved yet
+                    {activeBranch ? `No versions on ${activeBranch.name} yet` : 'No versions saved yet'}
                   </div>
                 ) : (
-                  versions.map((version) => (
+                  listed.map((version) => (
                     <motion.div
                       key={version.id}
                       initial={{ opacity: 0, y: 10 }}
@@ -127,6 +254,9 @@ export default function VersionHistoryPanel({
                                 Current
                               </span>
                             )}
+                            {version.checkpoint && (
+                              <Flag className="h-3 w-3 text-amber-500" aria-label="Checkpoint" />
+                            )}
                           </div>
                           <p className="text-sm font-medium mt-1 truncate">
                             {version.label || `Version ${version.version_number}`}
@@ -185,6 +315,33 @@ export default function VersionHistoryPanel({
                                   <Eye className="h-3 w-3" />
                                   Preview
                                 </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-7 text-xs gap-1 flex-1"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setComparing(version);
+                                  }}
+                                >
+                                  <GitCompare className="h-3 w-3" />
+                                  Changes
+                                </Button>
+                                {onCreateBranch && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 w-7 p-0 flex-shrink-0"
+                                    title={`Branch from v${version.version_number}`}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      openNamePrompt({ kind: 'branch', version });
+                                    }}
+                                    disabled={isBranching}
+                                  >
+                                    <GitBranchPlus className="h-3 w-3" />
+                                  </Button>
+                                )}
                                 {version.version_number !== currentVersion && (
                                   <Button
                                     variant="default"
@@ -208,6 +365,12 @@ export default function VersionHistoryPanel({
                     </motion.div>
                   ))
                 )}
+                {activeBranch && (
+                  <p className="px-3 py-2 text-[11px] text-muted-foreground flex items-center gap-1">
+                    <GitBranch className="h-3 w-3" />
+                    Branched from v{activeBranch.base_version_number}
+                  </p>
+                )}
               </div>
             </ScrollArea>
 
@@ -243,6 +406,52 @@ export default function VersionHistoryPanel({
         )}
       </AnimatePresence>
 
+      <VersionDiffDialog
+        open={!!comparing}
+        onOpenChange={(open) => { if (!open) setComparing(null); }}
+        versions={versions}
+        currentFiles={currentFiles}
+        initialFrom={comparing?.id ?? null}
+        onRestoreFiles={onRestoreFiles}
+        isRestoring={isRestoring}
+      />
+
+      {/* Branch / checkpoint name */}
+      <Dialog open={!!namePrompt} onOpenChange={() => setNamePrompt(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {namePrompt?.kind === 'branch'
+                ? <><GitBranchPlus className="h-5 w-5 text-primary" /> Branch from v{namePrompt.version.version_number}</>
+                : <><Flag className="h-5 w-5 text-amber-500" /> Save checkpoint</>}
+            </DialogTitle>
+            <DialogDescription>
+              {namePrompt?.kind === 'branch'
+                ? 'The workspace switches to the new branch, with its own chat thread. Your current work is saved first.'
+                : `Saves the workspace on ${branchName(activeBranchId)} under a name you can find again.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleConfirmName(); }}
+              placeholder={namePrompt?.kind === 'branch' ? 'lavalink-music' : 'Before the music rewrite'}
+            />
+            {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNamePrompt(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmName} disabled={!name.trim() || !!nameError || isBranching}>
+              {namePrompt?.kind === 'branch' ? 'Create branch' : 'Save checkpoint'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Restore Confirmation Dialog */}
       <Dialog open={!!confirmRestore} onOpenChange={() => setConfirmRestore(null)}>
         <DialogContent>
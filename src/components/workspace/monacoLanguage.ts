@@ -0,0 +1,23 @@
+// Map file extensions to Monaco language IDs
+export function monacoLanguage(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase() ?? '';
+  const languageMap: Record<string, string> = {
+    ts: 'typescript',
+    tsx: 'typescript',
+    js: 'javascript',
+    jsx: 'javascript',
+    mjs: 'javascript',
+    py: 'python',
+    json: 'json',
+    css: 'css',
+    html: 'html',
+    md: 'markdown',
+    yml: 'yaml',
+    yaml: 'yaml',
+    toml: 'ini',
+    env: 'ini',
+    svg: 'xml',
+    xml: 'xml',
+  };
+  return languageMap[ext] || 'plaintext';
+}
@@ -0,0 +1,73 @@
+// =============================================================================
+// useBotDeployments — deployment history (Firestore) + rollback (backend API)
+// =============================================================================
+// Reads/realtime → Firestore `botDeployments` (backend Admin SDK writes)
+// Rollback       → POST /api/deploy/:workspaceId/rollback
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { collection, query, where, orderBy, limit, onSnapshot } from 'firebase/firestore';
+import { db, auth } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+import { deploymentFromDoc, type BotDeployment, type RollbackRequest } from '@/lib/botDeployments';
+
+const HISTORY_LIMIT = 50;
+
+export function useBotDeployments(workspaceId: string | null | undefined) {
+  const [deployments, setDeployments] = useState<BotDeployment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDeployments([]);
+    if (!workspaceId) { setIsLoading(false); return; }
+
+    setIsLoading(true);
+    const q = query(
+      collection(db, 'botDeployments'),
+      where('workspace_id', '==', workspaceId),
+      orderBy('created_at', 'desc'),
+      limit(HISTORY_LIMIT)
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setDeployments(snap.docs.map(d => deploymentFromDoc(d.id, d.data())));
+        setIsLoading(false);
+      },
+      () => setIsLoading(false)
+    );
+    return unsub;
+  }, [workspaceId]);
+
+  const activeDeployment = useMemo(
+    () => deployments.find(d => d.status === 'active') ?? null,
+    [deployments]
+  );
+
+  /**
+   * Redeploy the exact file snapshot of a previous deployment. The backend
+   * creates a new record with a `rollback` trigger and supersedes the active one;
+   * the snapshot listener above picks up both changes.
+   */
+  const rollback = useCallback(async (deploymentId: string) => {
+    if (!workspaceId) throw new Error('No workspace');
+    setRollingBackId(deploymentId);
+    try {
+      const token = await auth.currentUser?.getIdToken();
+      const body: RollbackRequest = { deploymentId };
+      const res = await fetch(`${API_BASE}/api/deploy/${workspaceId}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || `Rollback failed (${res.status})`);
+      }
+    } finally {
+      setRollingBackId(null);
+    }
+  }, [workspaceId]);
+
+  return { deployments, activeDeployment, isLoading, rollback, rollingBackId };
+}
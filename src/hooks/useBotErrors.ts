@@ -0,0 +1,53 @@
+// =============================================================================
+// useBotErrors — grouped runtime errors for a deployed bot
+// =============================================================================
+// Reads/realtime → Firestore `botErrorGroups` (backend aggregates occurrences)
+// Triage status  → Firestore direct update (rules allow only status fields)
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  collection, query, where, orderBy, limit, onSnapshot,
+  doc, updateDoc, serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { errorGroupFromDoc, type BotErrorGroup, type ErrorGroupStatus } from '@/lib/botErrors';
+
+const GROUP_LIMIT = 100;
+
+export function useBotErrors(workspaceId: string | null | undefined) {
+  const [groups, setGroups] = useState<BotErrorGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setGroups([]);
+    if (!workspaceId) { setIsLoading(false); return; }
+
+    setIsLoading(true);
+    const q = query(
+      collection(db, 'botErrorGroups'),
+      where('workspace_id', '==', workspaceId),
+      orderBy('last_seen', 'desc'),
+      limit(GROUP_LIMIT)
+    );
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        setGroups(snap.docs.map(d => errorGroupFromDoc(d.id, d.data())));
+        setIsLoading(false);
+      },
+      () => setIsLoading(false)
+    );
+    return unsub;
+  }, [workspaceId]);
+
+  const setStatus = useCallback(async (groupId: string, status: ErrorGroupStatus) => {
+    await updateDoc(doc(db, 'botErrorGroups', groupId), {
+      status,
+      status_changed_at: serverTimestamp(),
+    });
+  }, []);
+
+  const openCount = useMemo(() => groups.filter(g => g.status === 'open').length, [groups]);
+
+  return { groups, openCount, isLoading, setStatus };
+}
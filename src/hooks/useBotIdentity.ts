@@ -0,0 +1,39 @@
+// =============================================================================
+// useBotIdentity — cached Discord token verification for a project
+// =============================================================================
+
+import { useCallback, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchBotIdentity, verifyBotToken, type BotIdentity } from '@/lib/botIdentity';
+import type { EnvTarget } from '@/lib/envVars';
+
+export const botIdentityQueryKey = (projectId: string | undefined, target: EnvTarget) => ['bot-identity', projectId, target];
+
+export function useBotIdentity(projectId: string | undefined, target: EnvTarget = 'production') {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: botIdentityQueryKey(projectId, target),
+    queryFn: () => fetchBotIdentity(projectId!, target),
+    enabled: !!user && !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  /** Re-run verification against Discord and refresh the cache */
+  const verify = useCallback(async (): Promise<BotIdentity> => {
+    if (!projectId) throw new Error('No project');
+    setIsVerifying(true);
+    try {
+      const identity = await verifyBotToken(projectId, target);
+      queryClient.setQueryData(botIdentityQueryKey(projectId, target), identity);
+      return identity;
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [projectId, target, queryClient]);
+
+  return { identity: data ?? null, isLoading, isVerifying, verify };
+}
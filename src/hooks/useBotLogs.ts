@@ -0,0 +1,247 @@
+// =============================================================================
+// useBotLogs — live log tail + cursor-paged history for a deployed bot
+// =============================================================================
+// Live lines   → SSE from GET /api/deploy/:workspaceId/logs/stream
+// Older lines  → GET /api/deploy/:workspaceId/logs/history?before=<cursor>
+// Filters are sent to the backend (so history pages are filtered server-side)
+// and re-applied locally so a filter change takes effect immediately.
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { auth } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+import {
+  matchesLogFilter,
+  logFilterParams,
+  DEFAULT_LOG_FILTER,
+  type LogEntry,
+  type LogFilter,
+  type LogHistoryPage,
+  type LogStreamEvent,
+} from '@/lib/botLogs';
+
+const MAX_BUFFERED_ENTRIES = 2000;
+const HISTORY_PAGE_SIZE = 100;
+// Stream reconnects back off exponentially: 1s, 2s, 4s … up to 30s, then give up
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+interface UseBotLogsOptions {
+  filter?: LogFilter;
+  /** Open the live stream. History paging works regardless. */
+  enabled?: boolean;
+}
+
+export function useBotLogs(workspaceId: string | null | undefined, options: UseBotLogsOptions = {}) {
+  const { filter = DEFAULT_LOG_FILTER, enabled = true } = options;
+
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const lastCursorRef = useRef<string | null>(null);
+  // Entries paged in through loadOlder — the buffer cap grows by this much so
+  // live lines don't immediately push out history the user asked for
+  const pagedCountRef = useRef(0);
+  // When live lines do push entries out, history resumes from the oldest one kept
+  const trimmedCursorRef = useRef<string | null>(null);
+  // Latest committed buffer, so paging can work out what it adds outside a state updater
+  const entriesRef = useRef<LogEntry[]>([]);
+  const filterKey = logFilterParams(filter).toString();
+
+  useEffect(() => { entriesRef.current = entries; }, [entries]);
+
+  const appendEntries = useCallback((incoming: LogEntry[]) => {
+    setEntries(prev => {
+      const seen = new Set(prev.map(e => e.id));
+      const merged = [...prev, ...incoming.filter(e => !seen.has(e.id))];
+      const cap = MAX_BUFFERED_ENTRIES + pagedCountRef.current;
+      if (merged.length <= cap) return merged;
+      const kept = merged.slice(-cap);
+      trimmedCursorRef.current = kept[0].cursor ?? trimmedCursorRef.current;
+      return kept;
+    });
+  }, []);
+
+  // =========================================================================
+  // HISTORY — cursor-based paging backwards from the oldest loaded entry
+  // =========================================================================
+
+  const fetchHistory = useCallback(async (before: string | null): Promise<LogHistoryPage | null> => {
+    if (!workspaceId) return null;
+    const token = await auth.currentUser?.getIdToken();
+    const params = new URLSearchParams(filterKey);
+    params.set('limit', String(HISTORY_PAGE_SIZE));
+    if (before) params.set('before', before);
+    const res = await fetch(`${API_BASE}/api/deploy/${workspaceId}/logs/history?${params}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || `Failed to load logs (${res.status})`);
+    }
+    return await res.json() as LogHistoryPage;
+  }, [workspaceId, filterKey]);
+
+  const loadOlder = useCallback(async () => {
+    const resumeFrom = trimmedCursorRef.current;
+    if (isLoadingHistory || (!hasMore && !resumeFrom)) return;
+    setIsLoadingHistory(true);
+    try {
+      const page = await fetchHistory(resumeFrom ?? olderCursor);
+      if (!page) return;
+      trimmedCursorRef.current = null;
+      // History pages arrive newest-first within the page; keep the buffer chronological
+      const older = [...page.entries].sort((a, b) => a.ts.localeCompare(b.ts));
+      const loaded = new Set(entriesRef.current.map(e => e.id));
+      const added = older.filter(e => !loaded.has(e.id));
+      pagedCountRef.current += added.length;
+      setEntries(prev => {
+        const seen = new Set(prev.map(e => e.id));
+        return [...added.filter(e => !seen.has(e.id)), ...prev];
+      });
+      setOlderCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [fetchHistory, olderCursor, isLoadingHistory, hasMore]);
+
+  // Reset and load the newest page whenever the workspace or filter changes
+  useEffect(() => {
+    setEntries([]);
+    setOlderCursor(null);
+    setHasMore(true);
+    setError(null);
+    lastCursorRef.current = null;
+    pagedCountRef.current = 0;
+    trimmedCursorRef.current = null;
+    if (!workspaceId) return;
+
+    let cancelled = false;
+    setIsLoadingHistory(true);
+    fetchHistory(null)
+      .then(page => {
+        if (cancelled || !page) return;
+        const sorted = [...page.entries].sort((a, b) => a.ts.localeCompare(b.ts));
+        // Live entries may already have arrived while this page was in flight
+        setEntries(prev => {
+          const seen = new Set(prev.map(e => e.id));
+          return [...sorted.filter(e => !seen.has(e.id)), ...prev];
+        });
+        setOlderCursor(page.nextCursor);
+        setHasMore(page.nextCursor !== null);
+        if (!lastCursorRef.current) lastCursorRef.current = sorted[sorted.length - 1]?.cursor ?? null;
+      })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); })
+      .finally(() => { if (!cancelled) setIsLoadingHistory(false); });
+    return () => { cancelled = true; };
+  }, [workspaceId, fetchHistory]);
+
+  // =========================================================================
+  // LIVE STREAM — SSE over fetch so the Firebase token can be sent as a header
+  // =========================================================================
+
+  useEffect(() => {
+    if (!workspaceId || !enabled) return;
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+
+    const connect = async () => {
+      try {
+        const token = await auth.currentUser?.getIdToken();
+        const params = new URLSearchParams(filterKey);
+        if (lastCursorRef.current) params.set('after', lastCursorRef.current);
+        const res = await fetch(`${API_BASE}/api/deploy/${workspaceId}/logs/stream?${params}`, {
+          headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) throw new Error(`Log stream unavailable (${res.status})`);
+
+        setIsConnected(true);
+        setError(null);
+        attempts = 0;
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          let newlineIndex: number;
+          while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            let line = buffer.slice(0, newlineIndex);
+            buffer = buffer.slice(newlineIndex + 1);
+            if (line.endsWith('\r')) line = line.slice(0, -1);
+            if (!line.startsWith('data: ')) continue;
+
+            let event: LogStreamEvent;
+            try { event = JSON.parse(line.slice(6)) as LogStreamEvent; } catch { continue; }
+
+            if (event.type === 'log') {
+              if (event.entry.cursor) lastCursorRef.current = event.entry.cursor;
+              appendEntries([event.entry]);
+            } else if (event.type === 'ready') {
+              if (event.cursor && !lastCursorRef.current) lastCursorRef.current = event.cursor;
+            } else if (event.type === 'error') {
+              setError(event.message);
+            }
+          }
+        }
+      } catch (e) {
+        if ((e as Error).name === 'AbortError') return;
+        setError(e instanceof Error ? e.message : String(e));
+      }
+
+      // Stream ended or failed — resume from the last cursor, backing off between attempts
+      setIsConnected(false);
+      if (controller.signal.aborted) return;
+      if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+        setError('Lost the live log stream. Reload to reconnect.');
+        return;
+      }
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts);
+      attempts++;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      setIsConnected(false);
+    };
+  }, [workspaceId, enabled, filterKey, appendEntries]);
+
+  const visibleEntries = useMemo(
+    () => entries.filter(e => matchesLogFilter(e, filter)),
+    [entries, filter],
+  );
+
+  const clear = useCallback(() => {
+    pagedCountRef.current = 0;
+    setEntries([]);
+  }, []);
+
+  return {
+    entries: visibleEntries,
+    isConnected,
+    isLoadingHistory,
+    // Re-rendered whenever entries change, which is the only time the trim cursor moves
+    hasMore: hasMore || trimmedCursorRef.current !== null,
+    loadOlder,
+    clear,
+    error,
+  };
+}
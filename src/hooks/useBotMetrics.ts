@@ -0,0 +1,37 @@
+// =============================================================================
+// useBotMetrics — polled resource metrics for a deployed bot
+// =============================================================================
+
+import { useQuery } from '@tanstack/react-query';
+import { auth } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+import type { BotMetricsResponse, MetricsRange } from '@/lib/botMetrics';
+
+// Matches the backend sampling interval — polling faster only returns the same point
+const POLL_INTERVAL_MS = 15000;
+
+export function useBotMetrics(
+  workspaceId: string | null | undefined,
+  range: MetricsRange = '1h',
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['bot-metrics', workspaceId, range],
+    queryFn: async () => {
+      const token = await auth.currentUser?.getIdToken();
+      const res = await fetch(`${API_BASE}/api/deploy/${workspaceId}/metrics?range=${range}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err.error || `Failed to load metrics (${res.status})`);
+      }
+      return await res.json() as BotMetricsResponse;
+    },
+    enabled: enabled && !!workspaceId,
+    refetchInterval: POLL_INTERVAL_MS,
+    staleTime: POLL_INTERVAL_MS,
+  });
+
+  return { metrics: data ?? null, isLoading, error: error as Error | null };
+}
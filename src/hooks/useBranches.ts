@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  createBranch as storeBranch,
+  deleteBranch as removeBranch,
+  getActiveBranchId,
+  listBranches,
+  setActiveBranchId,
+  type FileBranch,
+} from '@/lib/branches';
+
+/** A project's branches and which one the workspace currently holds (null = main) */
+export function useBranches(projectId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: branches, isLoading } = useQuery({
+    queryKey: ['file-branches', projectId],
+    queryFn: async () => {
+      if (!projectId || !user) return [];
+      return listBranches(projectId, user.uid);
+    },
+    enabled: !!projectId && !!user,
+  });
+
+  const { data: activeBranchId, isLoading: isLoadingActive } = useQuery({
+    queryKey: ['active-branch', projectId],
+    queryFn: async () => (projectId ? getActiveBranchId(projectId) : null),
+    enabled: !!projectId && !!user,
+  });
+
+  const activeBranch = (branches ?? []).find(b => b.id === activeBranchId) ?? null;
+
+  const createBranch = useMutation({
+    mutationFn: async ({ name, base }: { name: string; base: { id: string; version_number: number } }) => {
+      if (!projectId || !user) throw new Error('No project or user');
+      return storeBranch(projectId, user.uid, name, base);
+    },
+    onSuccess: (branch) => {
+      queryClient.setQueryData<FileBranch[]>(['file-branches', projectId], (old) =>
+        [...(old ?? []), branch].sort((a, b) => a.name.localeCompare(b.name)));
+    },
+  });
+
+  /** Record which branch the workspace holds — the caller swaps the files */
+  const setActiveBranch = useMutation({
+    mutationFn: async (branchId: string | null) => {
+      if (!projectId || !user) throw new Error('No project or user');
+      await setActiveBranchId(projectId, user.uid, branchId);
+      return branchId;
+    },
+    onSuccess: (branchId) => {
+      queryClient.setQueryData(['active-branch', projectId], branchId);
+    },
+  });
+
+  const deleteBranch = useMutation({
+    mutationFn: async (branchId: string) => {
+      if (branchId === activeBranchId) throw new Error('Switch to another branch before deleting this one');
+      await removeBranch(branchId);
+      return branchId;
+    },
+    onSuccess: (branchId) => {
+      queryClient.setQueryData<FileBranch[]>(['file-branches', projectId], (old) => (old ?? []).filter(b => b.id !== branchId));
+    },
+  });
+
+  return {
+    branches: branches ?? [],
+    activeBranchId: activeBranch ? activeBranch.id : null,
+    activeBranch,
+    isLoading: isLoading || isLoadingActive,
+    createBranch,
+    setActiveBranch,
+    deleteBranch,
+  };
+}
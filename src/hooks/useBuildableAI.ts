@@ -21,7 +21,9 @@ import {
   type FileEvent,
   type CompleteEvent,
   type StageEvent,
-  type ErrorEvent
+  type ErrorEvent,
+  type QualityReport,
+  type ScenarioSuiteReport
 } from '@/lib/syncEngine';
 
 // =============================================================================
@@ -38,6 +40,8 @@ export interface GenerationMetadata {
   aiMessage?: string;
   routes?: string[];
   suggestions?: string[];
+  quality?: QualityReport;
+  scenarios?: ScenarioSuiteReport;
 }
 
 export interface GeneratedFile {
@@ -46,7 +50,7 @@ export interface GeneratedFile {
 }
 
 export interface GenerationPhase {
-  phase: 'idle' | 'starting' | 'context' | 'intent' | 'planning' | 'generating' | 'validating' | 'repairing' | 'complete' | 'error';
+  phase: 'idle' | 'starting' | 'context' | 'intent' | 'planning' | 'generating' | 'validating' | 'executing' | 'repairing' | 'complete' | 'error';
   message: string;
   progress?: number;
 }
@@ -70,7 +74,10 @@ const STAGE_LABELS: Record<string, { phase: GenerationPhase['phase']; label: str
   plan: { phase: 'planning', label: 'Planning architecture...', progress: 30 },
   generate: { phase: 'generating', label: 'Generating code...', progress: 50 },
   validate: { phase: 'validating', label: 'Validating code...', progress: 80 },
+  execute: { phase: 'executing', label: 'Running your bot...', progress: 84 },
+  interpret: { phase: 'executing', label: 'Reading the crash logs...', progress: 87 },
   repair: { phase: 'repairing', label: 'Fixing issues...', progress: 90 },
+  regress: { phase: 'executing', label: 'Running your tests...', progress: 93 },
 };
 
 // =============================================================================
@@ -266,6 +273,8 @@ export function useBuildableAI(projectId: string | undefined) {
                   filesGenerated: fileCount,
                   filePaths: filePaths2,
                   aiMessage: session.ai_message ?? undefined,
+                  quality: session.metadata?.quality ?? undefined,
+                  scenarios: session.metadata?.scenarios ?? undefined,
                 };
 
                 if (status === 'completed') {
@@ -389,7 +398,11 @@ export function useBuildableAI(projectId: string | undefined) {
                 if (fileEvent.command === 'DELETE_FILE') {
                   currentStore.removeFile(fileEvent.path);
                 } else if (fileEvent.command === 'PATCH_FILE' && fileEvent.patches) {
-                  currentStore.patchFile(fileEvent.path, fileEvent.patches);
+                  const outcome = currentStore.patchFile(fileEvent.path, fileEvent.patches);
+                  // Hunks that didn't land — take the full file the event carries instead
+                  if (outcome?.status !== 'applied' && outcome?.status !== 'fuzzy') {
+                    currentStore.addFile(fileEvent.path, fileEvent.content);
+                  }
                 } else {
                   // CREATE_FILE or UPDATE_FILE
                   currentStore.addFile(fileEvent.path, fileEvent.content);
@@ -423,6 +436,8 @@ export function useBuildableAI(projectId: string | undefined) {
                 aiMessage: completeEvent.aiMessage,
                 routes: completeEvent.routes,
                 suggestions: completeEvent.suggestions,
+                quality: completeEvent.quality,
+                scenarios: completeEvent.scenarios,
               };
 
               setState(prev => ({
@@ -0,0 +1,55 @@
+// =============================================================================
+// useCommandSync — registered Discord commands vs the manifest, plus sync
+// =============================================================================
+// Registered commands are only fetched on demand (`enabled` flag) so opening
+// the Cloud panel does not hit Discord's rate limits.
+
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import type { CommandManifest } from '@/lib/commandManifest';
+import {
+  diffCommands, fetchRegisteredCommands, manifestPayloads, syncCommands,
+  type RegisteredCommand, type SyncScope,
+} from '@/lib/commandSync';
+
+export const registeredCommandsQueryKey = (projectId: string | undefined, scope: SyncScope) => ['registered-commands', projectId, scope];
+
+export function useCommandSync(projectId: string | undefined, manifest: CommandManifest, scope: SyncScope, enabled = true) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: registeredCommandsQueryKey(projectId, scope),
+    queryFn: () => fetchRegisteredCommands(projectId!, scope),
+    enabled: enabled && !!user && !!projectId,
+    staleTime: 60000,
+  });
+
+  const payloads = useMemo(() => manifestPayloads(manifest), [manifest]);
+  const diff = useMemo(() => (data ? diffCommands(payloads, data) : null), [payloads, data]);
+
+  /** Apply the diff — a bulk overwrite of the scope's commands */
+  const sync = useCallback(async (): Promise<RegisteredCommand[]> => {
+    if (!projectId) throw new Error('No project');
+    setIsSyncing(true);
+    try {
+      const registered = await syncCommands(projectId, scope, payloads);
+      queryClient.setQueryData(registeredCommandsQueryKey(projectId, scope), registered);
+      return registered;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [projectId, scope, payloads, queryClient]);
+
+  return {
+    registered: data ?? null,
+    diff,
+    isLoading,
+    isSyncing,
+    error: error as Error | null,
+    refetch,
+    sync,
+  };
+}
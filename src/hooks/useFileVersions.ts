@@ -1,116 +1,91 @@
+import { useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import {
-  collection, query, where, orderBy, getDocs,
-  doc, getDoc, addDoc, serverTimestamp, Timestamp,
-} from 'firebase/firestore';
-import { db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
+import {
+  collectGarbage,
+  createVersion as storeVersion,
+  getVersion as readVersion,
+  listVersions,
+  migrateLegacyVersions,
+  type StoredVersion,
+} from '@/lib/versionStore';
 
-interface FileVersionFile {
-  path: string;
-  content: string;
-}
+type FileVersion = StoredVersion;
 
-interface FileVersion {
-  id: string;
-  project_id: string;
-  user_id: string;
-  version_number: number;
-  label: string | null;
-  files: FileVersionFile[];
-  preview_html: string | null;
-  created_at: string;
-  message_id: string | null;
-}
+// Sweep unreferenced blobs every this many versions
+const GC_EVERY = 20;
 
-function tsToString(ts: unknown): string {
-  if (!ts) return new Date().toISOString();
-  if (ts instanceof Timestamp) return ts.toDate().toISOString();
-  return String(ts);
-}
-
-export function useFileVersions(projectId: string | undefined) {
+/** Version history of a project; new versions go on `branchId` (null for main) */
+export function useFileVersions(projectId: string | undefined, branchId: string | null = null) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const migratedFor = useRef<string | null>(null);
 
   const { data: versions, isLoading } = useQuery({
     queryKey: ['file-versions', projectId],
     queryFn: async () => {
-      if (!projectId) return [];
-
-      const q = query(
-        collection(db, 'fileVersions'),
-        where('project_id', '==', projectId),
-        orderBy('version_number', 'desc')
-      );
-      const snap = await getDocs(q);
-      return snap.docs.map((d) => ({
-        id: d.id,
-        ...d.data(),
-        files: (d.data().files as FileVersionFile[]) || [],
-        created_at: tsToString(d.data().created_at),
-      })) as FileVersion[];
+      if (!projectId || !user) return [];
+      return listVersions(projectId, user.uid);
     },
     enabled: !!projectId && !!user,
   });
 
   const latestVersion = versions?.[0]?.version_number ?? 0;
 
+  // Old full-snapshot documents are rewritten as manifests the first time the project is opened
+  useEffect(() => {
+    if (!projectId || !user || migratedFor.current === projectId) return;
+    const legacy = (versions ?? []).filter(v => v.storage === 'legacy' && v.user_id === user.uid);
+    if (legacy.length === 0) return;
+    migratedFor.current = projectId;
+    migrateLegacyVersions(projectId, user.uid, legacy.map(v => v.id))
+      .then(async (migrated) => {
+        if (migrated === 0) return;
+        console.log(`[Versions] Migrated ${migrated} version(s) to content-addressed storage`);
+        await collectGarbage(projectId, user.uid);
+        queryClient.invalidateQueries({ queryKey: ['file-versions', projectId] });
+      })
+      .catch((e) => console.warn('[Versions] Migration failed:', e));
+  }, [projectId, user, versions, queryClient]);
+
   const createVersion = useMutation({
     mutationFn: async ({
       files,
       previewHtml,
       label,
       messageId,
+      mergedFrom,
+      checkpoint,
+      branchId: targetBranch = branchId,
     }: {
       files: Array<{ path: string; content: string }>;
       previewHtml?: string;
       label?: string;
       messageId?: string;
+      mergedFrom?: string;
+      checkpoint?: boolean;
+      /** Branch to save on when it isn't the active one, e.g. auto-saving before a switch */
+      branchId?: string | null;
     }) => {
       if (!projectId || !user) throw new Error('No project or user');
-
-      const newVersionNumber = latestVersion + 1;
-
-      const ref = await addDoc(collection(db, 'fileVersions'), {
-        project_id: projectId,
-        user_id: user.uid,
-        version_number: newVersionNumber,
-        label: label || `Version ${newVersionNumber}`,
-        files,
-        preview_html: previewHtml ?? null,
-        message_id: messageId ?? null,
-        created_at: serverTimestamp(),
-      });
-
-      return {
-        id: ref.id,
-        project_id: projectId,
-        user_id: user.uid,
-        version_number: newVersionNumber,
-        label: label || `Version ${newVersionNumber}`,
-        files,
-        preview_html: previewHtml ?? null,
-        message_id: messageId ?? null,
-        created_at: new Date().toISOString(),
-      } as FileVersion;
+      return storeVersion(
+        projectId,
+        user.uid,
+        { files, previewHtml, label, messageId, mergedFrom, checkpoint, branchId: targetBranch },
+        latestVersion,
+      );
     },
-    onSuccess: () => {
+    onSuccess: (version) => {
       queryClient.invalidateQueries({ queryKey: ['file-versions', projectId] });
+      if (version.branch_id) queryClient.invalidateQueries({ queryKey: ['file-branches', projectId] });
+      if (projectId && user && version.version_number % GC_EVERY === 0) {
+        collectGarbage(projectId, user.uid).catch((e) => console.warn('[Versions] Garbage collection failed:', e));
+      }
     },
   });
 
-  const getVersion = async (versionId: string): Promise<FileVersion | null> => {
-    const snap = await getDoc(doc(db, 'fileVersions', versionId));
-    if (!snap.exists()) return null;
-    const d = snap.data();
-    return {
-      id: snap.id,
-      ...d,
-      files: (d.files as FileVersionFile[]) || [],
-      created_at: tsToString(d.created_at),
-    } as FileVersion;
-  };
+  /** Read in one transaction — throws if any file's content is missing */
+  const getVersion = async (versionId: string): Promise<FileVersion | null> => readVersion(versionId);
 
   const getVersionByNumber = (versionNumber: number): FileVersion | undefined =>
     versions?.find((v) => v.version_number === versionNumber);
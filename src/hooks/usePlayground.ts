@@ -0,0 +1,213 @@
+// =============================================================================
+// usePlayground — simulator session, bot run and live event stream
+// =============================================================================
+// The session is opened lazily on the first start() and closed on unmount, so
+// switching to the Playground tab doesn't spin anything up by itself. Events
+// come over SSE (fetch-based, like useBotLogs) and resume from the last seq.
+// While recording, every action is kept with the seq it happened at so the
+// session can be saved as a scenario test.
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  buildTimeline,
+  closePlaygroundSession,
+  createPlaygroundSession,
+  fetchPlaygroundSnapshot,
+  logEntryFor,
+  performPlaygroundAction,
+  startPlaygroundBot,
+  stopPlaygroundBot,
+  type PlaygroundAction,
+  type PlaygroundEvent,
+  type PlaygroundRun,
+  type PlaygroundSession,
+  type PlaygroundSnapshot,
+} from '@/lib/playground';
+import { recordScenario, type RecordedStep } from '@/lib/scenarios';
+
+const MAX_BUFFERED_EVENTS = 2000;
+const RECONNECT_DELAY_MS = 2000;
+
+export type PlaygroundStatus = 'idle' | 'starting' | 'connecting' | 'online' | 'stopped';
+
+export function usePlayground(projectId: string | undefined, files: Array<{ file_path: string; content: string }>) {
+  const [session, setSession] = useState<PlaygroundSession | null>(null);
+  const [snapshot, setSnapshot] = useState<PlaygroundSnapshot | null>(null);
+  const [run, setRun] = useState<PlaygroundRun | null>(null);
+  const [events, setEvents] = useState<PlaygroundEvent[]>([]);
+  const [status, setStatus] = useState<PlaygroundStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [recordedSteps, setRecordedSteps] = useState<RecordedStep[]>([]);
+
+  const sessionRef = useRef<PlaygroundSession | null>(null);
+  const lastSeqRef = useRef(0);
+  const runIdRef = useRef<string | null>(null);
+
+  // Close the simulated guild when the workspace goes away
+  useEffect(() => () => {
+    if (sessionRef.current) closePlaygroundSession(sessionRef.current);
+    sessionRef.current = null;
+  }, [projectId]);
+
+  // =========================================================================
+  // EVENT STREAM
+  // =========================================================================
+
+  useEffect(() => {
+    if (!session) return;
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handle = (event: PlaygroundEvent) => {
+      if (event.seq <= lastSeqRef.current) return;
+      lastSeqRef.current = event.seq;
+      setEvents(prev => (prev.length >= MAX_BUFFERED_EVENTS ? [...prev.slice(-MAX_BUFFERED_EVENTS + 1), event] : [...prev, event]));
+      if (event.kind === 'ready') setStatus('online');
+      // A restart aborts the previous run, whose exit arrives after the new start
+      else if (event.kind === 'bot_stopped' && event.run === runIdRef.current) setStatus('stopped');
+      else if (event.kind === 'member_join' || event.kind === 'moderation' || event.kind === 'commands_registered') {
+        fetchPlaygroundSnapshot(session).then(setSnapshot).catch(() => {});
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const res = await fetch(`${session.url}/events?since=${lastSeqRef.current}`, {
+          headers: { Accept: 'text/event-stream' },
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) throw new Error(`Playground stream unavailable (${res.status})`);
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          let newlineIndex: number;
+          while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            let line = buffer.slice(0, newlineIndex);
+            buffer = buffer.slice(newlineIndex + 1);
+            if (line.endsWith('\r')) line = line.slice(0, -1);
+            if (!line.startsWith('data: ')) continue;
+            try { handle(JSON.parse(line.slice(6)) as PlaygroundEvent); } catch { /* skip malformed */ }
+          }
+        }
+      } catch (e) {
+        if ((e as Error).name === 'AbortError') return;
+        setError(e instanceof Error ? e.message : String(e));
+      }
+      if (!controller.signal.aborted) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+
+    connect();
+    return () => {
+      controller.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [session]);
+
+  // =========================================================================
+  // CONTROLS
+  // =========================================================================
+
+  /** Start (or restart) the bot with the current workspace files */
+  const start = useCallback(async () => {
+    if (!projectId) return;
+    setError(null);
+    setStatus('starting');
+    try {
+      let current = sessionRef.current;
+      if (!current) {
+        current = await createPlaygroundSession(projectId);
+        sessionRef.current = current;
+        lastSeqRef.current = 0;
+        setEvents([]);
+        setSession(current);
+      }
+      const started = await startPlaygroundBot(current, files);
+      runIdRef.current = started.id;
+      setRun(started);
+      setStatus(prev => (prev === 'starting' ? 'connecting' : prev));
+      setSnapshot(await fetchPlaygroundSnapshot(current));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setStatus('idle');
+    }
+  }, [projectId, files]);
+
+  const stop = useCallback(async () => {
+    if (!sessionRef.current) return;
+    try {
+      await stopPlaygroundBot(sessionRef.current);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  /** Fresh guild: close the session so the next start() opens a new one */
+  const reset = useCallback(async () => {
+    if (sessionRef.current) await closePlaygroundSession(sessionRef.current);
+    sessionRef.current = null;
+    lastSeqRef.current = 0;
+    setSession(null);
+    setSnapshot(null);
+    setRun(null);
+    runIdRef.current = null;
+    setEvents([]);
+    setStatus('idle');
+    setError(null);
+  }, []);
+
+  /** Act as a guild member; errors (unknown user, missing option…) are thrown to the caller */
+  const act = useCallback(async (step: PlaygroundAction) => {
+    if (!sessionRef.current) throw new Error('Start the bot first');
+    const seq = lastSeqRef.current;
+    setSnapshot(await performPlaygroundAction(sessionRef.current, step));
+    if (recording) setRecordedSteps(prev => [...prev, { action: step, seq }]);
+  }, [recording]);
+
+  // =========================================================================
+  // RECORDING
+  // =========================================================================
+
+  const startRecording = useCallback(() => {
+    setRecordedSteps([]);
+    setRecording(true);
+  }, []);
+
+  const cancelRecording = useCallback(() => {
+    setRecordedSteps([]);
+    setRecording(false);
+  }, []);
+
+  /** Stop recording and return the scenario text (null when nothing was done) */
+  const finishRecording = useCallback((name: string): string | null => {
+    setRecording(false);
+    setRecordedSteps([]);
+    return recordedSteps.length > 0 ? recordScenario(name, recordedSteps, events) : null;
+  }, [recordedSteps, events]);
+
+  const timeline = useMemo(() => buildTimeline(events, snapshot?.members ?? []), [events, snapshot?.members]);
+  const logs = useMemo(() => events.map(logEntryFor).filter((e): e is NonNullable<typeof e> => e !== null), [events]);
+
+  return {
+    status,
+    run,
+    snapshot,
+    timeline,
+    logs,
+    error,
+    start,
+    stop,
+    reset,
+    act,
+    recording,
+    recordedSteps: recordedSteps.length,
+    startRecording,
+    cancelRecording,
+    finishRecording,
+  };
+}
@@ -0,0 +1,70 @@
+// =============================================================================
+// useProjectEnvVars — shared env var state for bot settings, Cloud panel and
+// the deploy/build token gates
+// =============================================================================
+// All screens read through the same react-query cache entry, so a variable
+// saved in one place shows up everywhere without a refresh.
+
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  listEnvVars, putEnvVars, deleteEnvVar, resolveEnvVars, findEnvVar,
+  type EnvScope, type EnvTarget, type EnvVarMeta,
+} from '@/lib/envVars';
+
+export const envVarsQueryKey = (projectId: string | undefined) => ['project-env-vars', projectId];
+
+export function useProjectEnvVars(projectId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = envVarsQueryKey(projectId);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => listEnvVars(projectId!),
+    enabled: !!user && !!projectId,
+    staleTime: 30000,
+  });
+
+  const vars = useMemo(() => data ?? [], [data]);
+
+  const setVars = useCallback(async (scope: EnvScope, values: Record<string, string>) => {
+    if (!projectId) throw new Error('No project');
+    const next = await putEnvVars(projectId, scope, values);
+    queryClient.setQueryData<EnvVarMeta[]>(envVarsQueryKey(projectId), next);
+    return next;
+  }, [projectId, queryClient]);
+
+  const removeVar = useCallback(async (key: string, scope: EnvScope) => {
+    if (!projectId) throw new Error('No project');
+    const next = await deleteEnvVar(projectId, key, scope);
+    queryClient.setQueryData<EnvVarMeta[]>(envVarsQueryKey(projectId), next);
+    return next;
+  }, [projectId, queryClient]);
+
+  const resolved = useCallback((target: EnvTarget) => resolveEnvVars(vars, target), [vars]);
+  const find = useCallback((key: string, target?: EnvTarget) => findEnvVar(vars, key, target), [vars]);
+
+  /**
+   * Fresh check used by the build/deploy gates — bypasses the cache so a token
+   * saved in another tab is not missed.
+   */
+  const hasVar = useCallback(async (key: string, target: EnvTarget = 'production') => {
+    if (!projectId) return false;
+    const fresh = await queryClient.fetchQuery({ queryKey: envVarsQueryKey(projectId), queryFn: () => listEnvVars(projectId), staleTime: 0 });
+    return !!findEnvVar(fresh, key, target);
+  }, [projectId, queryClient]);
+
+  return {
+    vars,
+    isLoading,
+    error: error as Error | null,
+    refetch,
+    setVars,
+    removeVar,
+    resolved,
+    find,
+    hasVar,
+  };
+}
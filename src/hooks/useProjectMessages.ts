@@ -6,7 +6,7 @@ import {
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { API_BASE } from '@/lib/urls';
 
 export interface ProjectMessage {
@@ -16,6 +16,8 @@ export interface ProjectMessage {
   role: 'user' | 'assistant';
   content: string;
   metadata: Record<string, unknown>;
+  /** Branch whose thread the message belongs to; null (or absent on old messages) for main */
+  branch_id?: string | null;
   created_at: string;
 }
 
@@ -34,7 +36,8 @@ function tsToString(ts: unknown): string {
   return String(ts);
 }
 
-export function useProjectMessages(projectId: string | undefined) {
+/** Messages for one project, scoped to the thread of `branchId` (null for main) */
+export function useProjectMessages(projectId: string | undefined, branchId: string | null = null) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -84,16 +87,25 @@ export function useProjectMessages(projectId: string | undefined) {
     return unsub;
   }, [projectId, user?.uid, queryClient]);
 
+  // Every branch's thread is cached together; callers only see the active one
+  const threadMessages = useMemo(
+    () => (messagesQuery.data ?? []).filter((m) => (m.branch_id ?? null) === branchId),
+    [messagesQuery.data, branchId]
+  );
+
   // Save a single message to Firestore
   const sendMessage = useMutation({
     mutationFn: async ({
       content,
       role = 'user',
       metadata = {},
+      branchId: targetBranch = branchId,
     }: {
       content: string;
       role?: 'user' | 'assistant';
       metadata?: Record<string, unknown>;
+      /** Thread to post to when it isn't the active one, e.g. a branch just created */
+      branchId?: string | null;
     }) => {
       if (!projectId || !user?.uid) throw new Error('Missing project or user');
 
@@ -103,6 +115,7 @@ export function useProjectMessages(projectId: string | undefined) {
         role,
         content,
         metadata,
+        branch_id: targetBranch,
         created_at: serverTimestamp(),
       });
 
@@ -113,6 +126,7 @@ export function useProjectMessages(projectId: string | undefined) {
         role,
         content,
         metadata,
+        branch_id: targetBranch,
         created_at: new Date().toISOString(),
       } as ProjectMessage;
     },
@@ -158,7 +172,7 @@ export function useProjectMessages(projectId: string | undefined) {
 
   // Send user message then get AI response
   const sendWithAIResponse = async (content: string) => {
-    const currentMessages = messagesQuery.data || [];
+    const currentMessages = threadMessages;
     await sendMessage.mutateAsync({ content, role: 'user' });
 
     try {
@@ -185,7 +199,7 @@ export function useProjectMessages(projectId: string | undefined) {
     }
   };
 
-  // Clear all messages for a project
+  // Clear the active branch's thread
   const clearMessages = useMutation({
     mutationFn: async () => {
       if (!projectId || !user?.uid) throw new Error('Missing project or user');
@@ -195,10 +209,17 @@ export function useProjectMessages(projectId: string | undefined) {
         where('project_id', '==', projectId)
       );
       const snap = await getDocs(q);
-      await Promise.all(snap.docs.map((d) => deleteDoc(d.ref)));
+      await Promise.all(
+        snap.docs
+          .filter((d) => (d.data().branch_id ?? null) === branchId)
+          .map((d) => deleteDoc(d.ref))
+      );
     },
     onSuccess: () => {
-      queryClient.setQueryData(['project-messages', projectId], []);
+      queryClient.setQueryData<ProjectMessage[]>(
+        ['project-messages', projectId],
+        (old) => (old ?? []).filter((m) => (m.branch_id ?? null) !== branchId)
+      );
       toast({ title: 'Chat cleared' });
     },
     onError: (error) => {
@@ -207,7 +228,7 @@ export function useProjectMessages(projectId: string | undefined) {
   });
 
   return {
-    messages: messagesQuery.data ?? [],
+    messages: threadMessages,
     isLoading: messagesQuery.isLoading,
     error: messagesQuery.error,
     sendMessage,
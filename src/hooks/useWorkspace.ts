@@ -13,6 +13,9 @@ import {
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/hooks/useAuth";
 import { API_BASE } from "@/lib/urls";
+import type { CommandManifest } from "@/lib/commandManifest";
+import { revisionOf } from "@/lib/workspaceFiles";
+import type { ScenarioSuiteReport } from "@/lib/syncEngine";
 
 // =============================================================================
 // TYPES
@@ -37,6 +40,8 @@ export interface WorkspaceFile {
   file_type: string | null;
   is_generated: boolean;
   updated_at: string;
+  /** Bumped by the backend on every write — see lib/workspaceFiles.ts */
+  revision: number;
 }
 
 export interface GenerationSession {
@@ -48,6 +53,11 @@ export interface GenerationSession {
   error_message: string | null;
   created_at: string;
   completed_at: string | null;
+  /** Written by the pipeline when the session finishes */
+  metadata?: {
+    commandManifest?: CommandManifest | null;
+    scenarios?: ScenarioSuiteReport | null;
+  } | null;
 }
 
 export interface FileOperation {
@@ -207,6 +217,7 @@ export function useWorkspace(projectId: string | undefined) {
         file_type: d.data().file_type ?? null,
         is_generated: d.data().is_generated ?? false,
         updated_at: tsToString(d.data().updated_at),
+        revision: revisionOf(d.data()),
       })) as WorkspaceFile[];
     },
     enabled: isAuthed && !!workspaceId,
@@ -235,6 +246,7 @@ export function useWorkspace(projectId: string | undefined) {
         file_type: d.data().file_type ?? null,
         is_generated: d.data().is_generated ?? false,
         updated_at: tsToString(d.data().updated_at),
+        revision: revisionOf(d.data()),
       };
     },
     [workspaceId]
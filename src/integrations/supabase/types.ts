@@ -269,6 +269,8 @@ export type Database = {
       generation_sessions: {
         Row: {
           completed_at: string | null
+          cost_breakdown: Json | null
+          cost_usd: number | null
           created_at: string
           credits_used: number | null
           duration_ms: number | null
@@ -283,6 +285,7 @@ export type Database = {
           prompt: string
           started_at: string | null
           status: Database["public"]["Enums"]["generation_session_status"]
+          tokens_total: Json | null
           tokens_used: number | null
           user_id: string
           validation_errors: Json | null
@@ -291,6 +294,8 @@ export type Database = {
         }
         Insert: {
           completed_at?: string | null
+          cost_breakdown?: Json | null
+          cost_usd?: number | null
           created_at?: string
           credits_used?: number | null
           duration_ms?: number | null
@@ -305,6 +310,7 @@ export type Database = {
           prompt: string
           started_at?: string | null
           status?: Database["public"]["Enums"]["generation_session_status"]
+          tokens_total?: Json | null
           tokens_used?: number | null
           user_id: string
           validation_errors?: Json | null
@@ -313,6 +319,8 @@ export type Database = {
         }
         Update: {
           completed_at?: string | null
+          cost_breakdown?: Json | null
+          cost_usd?: number | null
           created_at?: string
           credits_used?: number | null
           duration_ms?: number | null
@@ -327,6 +335,7 @@ export type Database = {
           prompt?: string
           started_at?: string | null
           status?: Database["public"]["Enums"]["generation_session_status"]
+          tokens_total?: Json | null
           tokens_used?: number | null
           user_id?: string
           validation_errors?: Json | null
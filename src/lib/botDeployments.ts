@@ -0,0 +1,113 @@
+// =============================================================================
+// Bot Deployments — immutable deployment records and rollback contract
+// =============================================================================
+// Every `POST /api/deploy/:workspaceId` makes the deploy backend snapshot the
+// workspace files and write one `botDeployments` document. Records are never
+// edited except for the status transition active → superseded (and the
+// timestamps that go with it). A rollback is itself a new deployment whose
+// trigger points at the record it restored.
+
+import { Timestamp } from 'firebase/firestore';
+import type { EnvTarget } from '@/lib/envVars';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DeploymentStatus = 'deploying' | 'active' | 'superseded' | 'failed';
+
+export type DeploymentTrigger =
+  | { type: 'session'; session_id: string }
+  | { type: 'manual' }
+  | { type: 'rollback'; from_deployment_id: string };
+
+/** Branch the deployed files came from — see lib/branches.ts. `id` is null for main. */
+export interface DeploymentBranch {
+  id: string | null;
+  name: string;
+}
+
+export interface BotDeployment {
+  id: string;
+  workspace_id: string;
+  project_id: string;
+  status: DeploymentStatus;
+  /** Sequential per workspace, shown as v1, v2, … */
+  number: number;
+  /** sha-256 over the sorted file snapshot — see computeContentHash() */
+  content_hash: string;
+  file_count: number;
+  trigger: DeploymentTrigger;
+  /** Null on records from before branches; a rollback carries the branch of the record it restored */
+  branch: DeploymentBranch | null;
+  /** Env var key names present at deploy time. Values are never recorded. */
+  env_keys: string[];
+  error: string | null;
+  created_at: string;
+  activated_at: string | null;
+  superseded_at: string | null;
+  superseded_by: string | null;
+}
+
+/** Body of `POST /api/deploy/:workspaceId` */
+export interface DeployRequest {
+  trigger: DeploymentTrigger;
+  /** Which env var scope is layered over the shared values — see resolveEnvVars() */
+  env_target: EnvTarget;
+  branch: DeploymentBranch;
+}
+
+/** Body of `POST /api/deploy/:workspaceId/rollback` */
+export interface RollbackRequest {
+  deploymentId: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function tsToString(ts: unknown): string | null {
+  if (!ts) return null;
+  if (ts instanceof Timestamp) return ts.toDate().toISOString();
+  return String(ts);
+}
+
+export function deploymentFromDoc(id: string, d: Record<string, unknown>): BotDeployment {
+  return {
+    id,
+    workspace_id: d.workspace_id as string,
+    project_id: d.project_id as string,
+    status: (d.status as DeploymentStatus) ?? 'deploying',
+    number: (d.number as number) ?? 0,
+    content_hash: (d.content_hash as string) ?? '',
+    file_count: (d.file_count as number) ?? 0,
+    trigger: (d.trigger as DeploymentTrigger) ?? { type: 'manual' },
+    branch: (d.branch as DeploymentBranch) ?? null,
+    env_keys: (d.env_keys as string[]) ?? [],
+    error: (d.error as string) ?? null,
+    created_at: tsToString(d.created_at) ?? new Date().toISOString(),
+    activated_at: tsToString(d.activated_at),
+    superseded_at: tsToString(d.superseded_at),
+    superseded_by: (d.superseded_by as string) ?? null,
+  };
+}
+
+/**
+ * Content hash of a file snapshot — identical to the one the deploy backend
+ * stores, so the UI can tell whether the workspace still matches a deployment.
+ * Files are sorted by path and hashed as `path\0content\0` pairs.
+ */
+export async function computeContentHash(files: Array<{ path: string; content: string }>): Promise<string> {
+  const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  const payload = sorted.map(f => `${f.path}\0${f.content}\0`).join('');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function describeTrigger(trigger: DeploymentTrigger): string {
+  switch (trigger.type) {
+    case 'session':  return 'AI build';
+    case 'manual':   return 'Manual save';
+    case 'rollback': return 'Rollback';
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { extractErrors } from "./botErrors";
+
+const PY_311 = [
+  "Traceback (most recent call last):",
+  '  File "/app/bot.py", line 42, in on_message',
+  "    await handle(message)",
+  '  File "/app/cogs/economy.py", line 17, in handle',
+  "    share = total / members",
+  "            ~~~~~~^~~~~~~~~",
+  "ZeroDivisionError: division by zero",
+];
+
+const PY_310 = PY_311.filter(line => !/^\s*[~^]+\s*$/.test(line));
+
+describe("extractErrors (python)", () => {
+  it("groups a traceback without caret lines", () => {
+    const [error] = extractErrors(PY_310);
+    expect(error.type).toBe("ZeroDivisionError");
+    expect(error.message).toBe("division by zero");
+    expect(error.frames.map(f => f.fn)).toEqual(["handle", "on_message"]);
+    expect(error.frames[0].code).toBe("share = total / members");
+  });
+
+  it("skips the caret lines Python 3.11+ prints under the source line", () => {
+    const errors = extractErrors(PY_311);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].type).toBe("ZeroDivisionError");
+    expect(errors[0].frames.map(f => f.fn)).toEqual(["handle", "on_message"]);
+    expect(errors[0].trace).toContain("~~~~~~^~~~~~~~~");
+  });
+
+  it("fingerprints a trace the same with or without carets", () => {
+    expect(extractErrors(PY_311)[0].fingerprint).toBe(extractErrors(PY_310)[0].fingerprint);
+  });
+});
@@ -0,0 +1,235 @@
+// =============================================================================
+// Bot Errors — traceback parsing, fingerprinting and error-group lifecycle
+// =============================================================================
+// The deploy backend feeds every captured log line through extractErrors() and
+// upserts one `botErrorGroups` document per fingerprint (count, first/last seen,
+// latest trace). The dashboard only ever writes the triage status. A resolved
+// group that sees a new occurrence is reopened by the backend — see
+// nextStatusOnOccurrence().
+
+import { Timestamp } from 'firebase/firestore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ErrorRuntime = 'python' | 'node';
+export type ErrorGroupStatus = 'open' | 'resolved' | 'ignored';
+
+export interface StackFrame {
+  file: string;
+  line: number;
+  fn: string;
+  /** Source line Python prints under the frame, when available */
+  code?: string;
+}
+
+export interface ParsedError {
+  runtime: ErrorRuntime;
+  type: string;
+  message: string;
+  /** Innermost frame first */
+  frames: StackFrame[];
+  trace: string;
+  fingerprint: string;
+}
+
+export interface BotErrorGroup {
+  id: string;
+  workspace_id: string;
+  fingerprint: string;
+  runtime: ErrorRuntime;
+  type: string;
+  message: string;
+  top_frame: StackFrame | null;
+  trace: string;
+  count: number;
+  first_seen: string;
+  last_seen: string;
+  status: ErrorGroupStatus;
+  status_changed_at: string | null;
+  /** Set when the backend reopened a resolved group because it recurred */
+  reopened_at: string | null;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+const PY_TRACEBACK_START = /^\s*Traceback \(most recent call last\):\s*$/;
+const PY_FRAME = /^\s*File "(.+)", line (\d+), in (.+?)\s*$/;
+const PY_CHAIN = /^\s*(During handling of the above exception|The above exception was the direct cause)/;
+// Python 3.11+ underlines the failing expression beneath the source line
+const PY_CARET = /^\s*[~^]+\s*$/;
+// `module.sub.ExcType: message` or a bare `ExcType`
+const PY_EXCEPTION = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+
+const NODE_EXCEPTION = /^(?:Uncaught )?([A-Z]\w*(?:Error|Exception)|DiscordAPIError(?:\[\d+\])?)(?::\s?(.*))?$/;
+const NODE_FRAME = /^\s*at (?:(?:async )?(.+?) \()?(.+?):(\d+):\d+\)?\s*$/;
+
+// Frames from the runtime or third-party packages never make a useful "top frame"
+const LIBRARY_PATH_RE = /(site-packages|dist-packages|\/usr\/lib\/python|\/lib\/python\d|node_modules|^node:|internal\/)/;
+
+function isPyExceptionLine(line: string): boolean {
+  const m = line.match(PY_EXCEPTION);
+  if (!m) return false;
+  const name = m[1].split('.').pop() ?? '';
+  // Exception class names are CapWords; this rejects source lines like `await foo()`
+  return /^[A-Z]/.test(name) && !/\s/.test(m[1]);
+}
+
+/** The innermost frame that belongs to the bot's own code, falling back to the innermost frame */
+export function topFrame(frames: StackFrame[]): StackFrame | null {
+  return frames.find(f => !LIBRARY_PATH_RE.test(f.file)) ?? frames[0] ?? null;
+}
+
+/**
+ * Stable group key: exception type + top frame location.
+ * Line numbers are left out so unrelated edits above the frame don't split a group.
+ */
+export function fingerprintError(type: string, frames: StackFrame[]): string {
+  const frame = topFrame(frames);
+  const key = `${type}|${frame ? `${frame.file.split('/').pop()}:${frame.fn}` : ''}`;
+  // FNV-1a, 32-bit — short enough for a document id suffix
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+function finish(runtime: ErrorRuntime, type: string, message: string, frames: StackFrame[], lines: string[]): ParsedError {
+  return {
+    runtime,
+    type,
+    message: message.trim(),
+    frames,
+    trace: lines.join('\n'),
+    fingerprint: fingerprintError(type, frames),
+  };
+}
+
+/**
+ * Extract every Python traceback and Node stack trace from a sequence of log
+ * lines (raw or already trimmed by parseLogLine). Lines that are not part of a
+ * trace are skipped.
+ */
+export function extractErrors(lines: string[]): ParsedError[] {
+  const errors: ParsedError[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // ── Python ──────────────────────────────────────────────────────────────
+    if (PY_TRACEBACK_START.test(line)) {
+      const traceLines = [line];
+      let frames: StackFrame[] = [];
+      i++;
+      while (i < lines.length) {
+        const cur = lines[i];
+        const frame = cur.match(PY_FRAME);
+        if (frame) {
+          const f: StackFrame = { file: frame[1], line: Number(frame[2]), fn: frame[3] };
+          traceLines.push(cur);
+          const next = lines[i + 1];
+          if (next !== undefined && !PY_FRAME.test(next) && !PY_CARET.test(next) && !isPyExceptionLine(next.trim())) {
+            f.code = next.trim();
+            traceLines.push(next);
+            i++;
+          }
+          frames.push(f);
+          i++;
+          continue;
+        }
+        if (PY_CARET.test(cur)) {
+          traceLines.push(cur);
+          i++;
+          continue;
+        }
+        if (PY_CHAIN.test(cur) || PY_TRACEBACK_START.test(cur) || cur.trim() === '') {
+          // Chained exception — the last traceback printed is the one that escaped
+          traceLines.push(cur);
+          if (PY_TRACEBACK_START.test(cur)) frames = [];
+          i++;
+          continue;
+        }
+        if (isPyExceptionLine(cur.trim())) {
+          const m = cur.trim().match(PY_EXCEPTION)!;
+          traceLines.push(cur);
+          i++;
+          // Python prints frames outermost first; store innermost first
+          const inner = [...frames].reverse();
+          const type = m[1].split('.').pop()!;
+          errors.push(finish('python', type, m[2] ?? '', inner, traceLines));
+          break;
+        }
+        // Anything else ends a malformed trace
+        break;
+      }
+      continue;
+    }
+
+    // ── Node ────────────────────────────────────────────────────────────────
+    const nodeMatch = line.trim().match(NODE_EXCEPTION);
+    if (nodeMatch && i + 1 < lines.length && NODE_FRAME.test(lines[i + 1])) {
+      const traceLines = [line];
+      const frames: StackFrame[] = [];
+      i++;
+      while (i < lines.length) {
+        const m = lines[i].match(NODE_FRAME);
+        if (!m) break;
+        frames.push({ fn: m[1] ?? '<anonymous>', file: m[2], line: Number(m[3]) });
+        traceLines.push(lines[i]);
+        i++;
+      }
+      const type = nodeMatch[1].replace(/\[\d+\]$/, '');
+      errors.push(finish('node', type, nodeMatch[2] ?? '', frames, traceLines));
+      continue;
+    }
+
+    i++;
+  }
+
+  return errors;
+}
+
+// =============================================================================
+// LIFECYCLE
+// =============================================================================
+
+/**
+ * Status a group should have after a new occurrence at `occurredAt`.
+ * Resolved groups reopen on recurrence; ignored groups stay ignored.
+ */
+export function nextStatusOnOccurrence(group: Pick<BotErrorGroup, 'status' | 'status_changed_at'>, occurredAt: string): ErrorGroupStatus {
+  if (group.status !== 'resolved') return group.status;
+  if (!group.status_changed_at) return 'open';
+  return occurredAt > group.status_changed_at ? 'open' : 'resolved';
+}
+
+function tsToString(ts: unknown): string | null {
+  if (!ts) return null;
+  if (ts instanceof Timestamp) return ts.toDate().toISOString();
+  return String(ts);
+}
+
+export function errorGroupFromDoc(id: string, d: Record<string, unknown>): BotErrorGroup {
+  return {
+    id,
+    workspace_id: d.workspace_id as string,
+    fingerprint: d.fingerprint as string,
+    runtime: (d.runtime as ErrorRuntime) ?? 'python',
+    type: (d.type as string) ?? 'Error',
+    message: (d.message as string) ?? '',
+    top_frame: (d.top_frame as StackFrame) ?? null,
+    trace: (d.trace as string) ?? '',
+    count: (d.count as number) ?? 1,
+    first_seen: tsToString(d.first_seen) ?? new Date().toISOString(),
+    last_seen: tsToString(d.last_seen) ?? new Date().toISOString(),
+    status: (d.status as ErrorGroupStatus) ?? 'open',
+    status_changed_at: tsToString(d.status_changed_at),
+    reopened_at: tsToString(d.reopened_at),
+  };
+}
@@ -0,0 +1,138 @@
+// =============================================================================
+// Bot Identity — verified Discord token info and privileged intent status
+// =============================================================================
+// The token never leaves the backend, so verification happens server-side:
+//
+//   POST /api/secrets/:projectId/verify   { target } → BotIdentity
+//   GET  /api/secrets/:projectId/identity?target=…   → BotIdentity | 404
+//
+// Verification calls Discord's `GET /users/@me` and
+// `GET /oauth2/applications/@me` with the resolved BOT_TOKEN, checks the
+// application id against CLIENT_ID and reads the privileged intent flags. The
+// result is cached per project + env target until either credential changes.
+
+import { auth } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+import type { EnvTarget } from '@/lib/envVars';
+import { analyzeBotCode, type GatewayIntent } from '@/lib/botPermissions';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PrivilegedIntent = 'message_content' | 'guild_members' | 'presence';
+
+/**
+ * `limited` means the intent is usable without verification because the bot is
+ * in fewer than 100 servers — Discord reports it with a separate flag.
+ */
+export type IntentState = 'enabled' | 'limited' | 'disabled';
+
+export interface BotIdentity {
+  target: EnvTarget;
+  valid: boolean;
+  /** Discord's error when the token was rejected, e.g. `401: Unauthorized` */
+  error: string | null;
+  bot: { id: string; username: string; avatar: string | null } | null;
+  application: { id: string; name: string; flags: number } | null;
+  /** null when no CLIENT_ID is stored */
+  client_id_matches: boolean | null;
+  intents: Record<PrivilegedIntent, IntentState>;
+  verified_at: string;
+}
+
+export const INTENT_LABELS: Record<PrivilegedIntent, string> = {
+  message_content: 'Message Content',
+  guild_members: 'Server Members',
+  presence: 'Presence',
+};
+
+// =============================================================================
+// APPLICATION FLAGS
+// =============================================================================
+// https://discord.com/developers/docs/resources/application#application-object-application-flags
+
+const FLAG_GATEWAY_PRESENCE                 = 1 << 12;
+const FLAG_GATEWAY_PRESENCE_LIMITED         = 1 << 13;
+const FLAG_GATEWAY_GUILD_MEMBERS            = 1 << 14;
+const FLAG_GATEWAY_GUILD_MEMBERS_LIMITED    = 1 << 15;
+const FLAG_GATEWAY_MESSAGE_CONTENT          = 1 << 18;
+const FLAG_GATEWAY_MESSAGE_CONTENT_LIMITED  = 1 << 19;
+
+function intentState(flags: number, full: number, limited: number): IntentState {
+  if (flags & full) return 'enabled';
+  if (flags & limited) return 'limited';
+  return 'disabled';
+}
+
+export function intentsFromFlags(flags: number): Record<PrivilegedIntent, IntentState> {
+  return {
+    message_content: intentState(flags, FLAG_GATEWAY_MESSAGE_CONTENT, FLAG_GATEWAY_MESSAGE_CONTENT_LIMITED),
+    guild_members: intentState(flags, FLAG_GATEWAY_GUILD_MEMBERS, FLAG_GATEWAY_GUILD_MEMBERS_LIMITED),
+    presence: intentState(flags, FLAG_GATEWAY_PRESENCE, FLAG_GATEWAY_PRESENCE_LIMITED),
+  };
+}
+
+export function botAvatarUrl(bot: NonNullable<BotIdentity['bot']>): string {
+  if (bot.avatar) return `https://cdn.discordapp.com/avatars/${bot.id}/${bot.avatar}.png?size=64`;
+  // Default avatars for migrated usernames are keyed by (id >> 22) % 6
+  const index = Number((BigInt(bot.id) >> 22n) % 6n);
+  return `https://cdn.discordapp.com/embed/avatars/${index}.png`;
+}
+
+// =============================================================================
+// REQUIRED INTENTS
+// =============================================================================
+
+const PRIVILEGED_BY_GATEWAY: Partial<Record<GatewayIntent, PrivilegedIntent>> = {
+  MESSAGE_CONTENT: 'message_content',
+  GUILD_MEMBERS: 'guild_members',
+  GUILD_PRESENCES: 'presence',
+};
+
+/** Privileged intents the bot's source asks for or depends on — see analyzeBotCode() */
+export function requestedPrivilegedIntents(files: Array<{ file_path: string; content: string }>): PrivilegedIntent[] {
+  return analyzeBotCode(files).intents
+    .map(i => PRIVILEGED_BY_GATEWAY[i.intent])
+    .filter((i): i is PrivilegedIntent => !!i);
+}
+
+/** Requested intents the Developer Portal has not enabled — the gateway closes with 4014 on these */
+export function disallowedIntents(identity: BotIdentity | null, requested: PrivilegedIntent[]): PrivilegedIntent[] {
+  if (!identity?.valid) return [];
+  return requested.filter(i => identity.intents[i] === 'disabled');
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+async function authHeaders() {
+  const token = await auth.currentUser?.getIdToken();
+  return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+}
+
+export async function fetchBotIdentity(projectId: string, target: EnvTarget): Promise<BotIdentity | null> {
+  const res = await fetch(`${API_BASE}/api/secrets/${encodeURIComponent(projectId)}/identity?target=${target}`, {
+    headers: await authHeaders(),
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Failed to load bot identity (${res.status})`);
+  }
+  return await res.json() as BotIdentity;
+}
+
+export async function verifyBotToken(projectId: string, target: EnvTarget): Promise<BotIdentity> {
+  const res = await fetch(`${API_BASE}/api/secrets/${encodeURIComponent(projectId)}/verify`, {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: JSON.stringify({ target }),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Token verification failed (${res.status})`);
+  }
+  return await res.json() as BotIdentity;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { parseLogLine } from "./botLogs";
+
+const received = new Date("2026-01-01T00:00:00.000Z");
+
+describe("parseLogLine", () => {
+  it("reads the timestamp, level and logger of a structured discord.py line", () => {
+    const entry = parseLogLine("2026-03-04 05:06:07,890 INFO discord.gateway: Shard ID None has connected", "stdout", received);
+    expect(entry).toMatchObject({
+      ts: "2026-03-04T05:06:07.890Z",
+      level: "INFO",
+      source: "external",
+      msg: "Shard ID None has connected",
+      stream: "stdout",
+    });
+  });
+
+  it("handles Python logging's default LEVEL:logger:message format", () => {
+    const entry = parseLogLine("WARNING:bot.cogs.music:Queue is empty", "stderr", received);
+    expect(entry).toMatchObject({ level: "WARN", source: "internal", msg: "Queue is empty", stream: "stderr", ts: received.toISOString() });
+  });
+
+  it("reads bracketed levels and ISO timestamps", () => {
+    const entry = parseLogLine("[2026-03-04T05:06:07Z] [ERROR] Failed to sync commands", "stdout", received);
+    expect(entry).toMatchObject({ ts: "2026-03-04T05:06:07.000Z", level: "ERROR", msg: "Failed to sync commands" });
+  });
+
+  it("treats plain lines as internal INFO stamped with the receive time", () => {
+    const entry = parseLogLine("Logged in as MyBot#1234\r", "stdout", received);
+    expect(entry).toMatchObject({ ts: received.toISOString(), level: "INFO", source: "internal", msg: "Logged in as MyBot#1234" });
+  });
+
+  it("flags unlevelled tracebacks and exceptions as errors", () => {
+    expect(parseLogLine("Traceback (most recent call last):", "stderr", received).level).toBe("ERROR");
+    expect(parseLogLine("ValueError: invalid literal for int() with base 10", "stderr", received).level).toBe("ERROR");
+  });
+
+  it("attributes gateway events to the Discord side", () => {
+    expect(parseLogLine("Received GUILD_CREATE for 3 guilds", "stdout", received).source).toBe("external");
+  });
+
+  it("never throws on malformed lines", () => {
+    const badDate = parseLogLine("2026-13-45 99:99:99 something odd", "stdout", received);
+    expect(badDate.ts).toBe(received.toISOString());
+    expect(badDate.msg).toBe("something odd");
+
+    const blank = parseLogLine("   ", "stdout", received);
+    expect(blank).toMatchObject({ level: "INFO", source: "internal", msg: "" });
+
+    const binary = parseLogLine("\u0000\u001b[31m::::", "stdout", received);
+    expect(binary.level).toBe("INFO");
+    expect(typeof binary.id).toBe("string");
+  });
+
+  it("gives every entry a distinct id", () => {
+    expect(parseLogLine("a", "stdout", received).id).not.toBe(parseLogLine("a", "stdout", received).id);
+  });
+});
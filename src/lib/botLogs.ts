@@ -0,0 +1,147 @@
+// =============================================================================
+// Bot Logs — log entry model, line parser and filters for hosted bots
+// =============================================================================
+// The deploy backend captures stdout/stderr from the bot container, runs each
+// line through parseLogLine() and streams the resulting LogEntry objects to the
+// dashboard over SSE.
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type LogLevel = 'INFO' | 'WARN' | 'ERROR';
+export type LogSource = 'internal' | 'external';
+export type LogStream = 'stdout' | 'stderr';
+
+export interface LogEntry {
+  id: string;
+  ts: string;
+  level: LogLevel;
+  source: LogSource;
+  msg: string;
+  /** Opaque, monotonically increasing position in the log store — used for history paging */
+  cursor?: string;
+  stream?: LogStream;
+}
+
+export interface LogFilter {
+  level: 'all' | LogLevel;
+  source: 'all' | LogSource;
+  search: string;
+}
+
+export const DEFAULT_LOG_FILTER: LogFilter = { level: 'all', source: 'all', search: '' };
+
+/** Server-sent events emitted by `GET /api/deploy/:workspaceId/logs/stream` */
+export type LogStreamEvent =
+  | { type: 'log'; entry: LogEntry }
+  | { type: 'ready'; cursor: string | null }
+  | { type: 'error'; message: string };
+
+/** Response of `GET /api/deploy/:workspaceId/logs/history` */
+export interface LogHistoryPage {
+  entries: LogEntry[];
+  nextCursor: string | null;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+// Leading timestamps produced by Python logging, discord.js loggers and Docker
+const TIMESTAMP_RE = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*/;
+
+// Level tokens in the shapes discord.py / logging / pino / console emit them
+const LEVEL_RE = /^(?:\[\s*)?(DEBUG|INFO|WARNING|WARN|ERROR|CRITICAL|FATAL)(?:\s*\])?[\s:|-]+/i;
+
+// Logger names and gateway events that come from the Discord side of the bot
+const EXTERNAL_LOGGER_RE = /^(discord(?:\.[\w.]+)?|discord\.js|@discordjs\/[\w-]+|gateway|websocket|shard\s*\d*)\b/i;
+const GATEWAY_EVENT_RE = /\b(READY|RESUMED|RECONNECT|INVALID_SESSION|HEARTBEAT(?:_ACK)?|GUILD_[A-Z_]+|MESSAGE_[A-Z_]+|INTERACTION_CREATE|VOICE_[A-Z_]+|PRESENCE_UPDATE|TYPING_START)\b/;
+
+// Lines that indicate a failure even without an explicit level
+const ERROR_HINT_RE = /^(Traceback \(most recent call last\)|\s+at .+\(.+:\d+:\d+\)|[\w.]*(Error|Exception)\b[:\s])/;
+
+function normalizeLevel(token: string): LogLevel {
+  const t = token.toUpperCase();
+  if (t === 'WARNING' || t === 'WARN') return 'WARN';
+  if (t === 'ERROR' || t === 'CRITICAL' || t === 'FATAL') return 'ERROR';
+  return 'INFO';
+}
+
+let _seq = 0;
+const nextId = () => `${Date.now().toString(36)}-${(_seq++).toString(36)}`;
+
+/**
+ * Parse a single raw stdout/stderr line into a LogEntry.
+ * Never throws — unrecognised lines become INFO/internal entries.
+ */
+export function parseLogLine(raw: string, stream: LogStream = 'stdout', receivedAt: Date = new Date()): LogEntry {
+  let rest = raw.replace(/\r$/, '');
+  let ts = receivedAt.toISOString();
+
+  const tsMatch = rest.match(TIMESTAMP_RE);
+  if (tsMatch) {
+    const parsed = new Date(tsMatch[1].replace(',', '.').replace(' ', 'T'));
+    if (!isNaN(parsed.getTime())) ts = parsed.toISOString();
+    rest = rest.slice(tsMatch[0].length);
+  }
+
+  let level: LogLevel | null = null;
+  const levelMatch = rest.match(LEVEL_RE);
+  if (levelMatch) {
+    level = normalizeLevel(levelMatch[1]);
+    rest = rest.slice(levelMatch[0].length);
+  }
+
+  // Python logging's default format is `LEVEL:logger.name:message`
+  let logger: string | null = null;
+  const loggerMatch = rest.match(/^([\w.@/-]+):(?!\/\/)\s?/);
+  if (loggerMatch && levelMatch) {
+    logger = loggerMatch[1];
+    rest = rest.slice(loggerMatch[0].length);
+  } else {
+    const bracketed = rest.match(/^\[?([\w.@/-]+)\]?\s+/);
+    if (bracketed && EXTERNAL_LOGGER_RE.test(bracketed[1])) logger = bracketed[1];
+  }
+
+  if (!level) level = ERROR_HINT_RE.test(rest) ? 'ERROR' : 'INFO';
+
+  const source: LogSource = (logger && EXTERNAL_LOGGER_RE.test(logger)) || GATEWAY_EVENT_RE.test(rest)
+    ? 'external'
+    : 'internal';
+
+  return {
+    id: nextId(),
+    ts,
+    level,
+    source,
+    msg: rest.trim() || raw.trim(),
+    stream,
+  };
+}
+
+// =============================================================================
+// FILTERS
+// =============================================================================
+
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter): boolean {
+  if (filter.level !== 'all' && entry.level !== filter.level) return false;
+  if (filter.source !== 'all' && entry.source !== filter.source) return false;
+  const q = filter.search.trim().toLowerCase();
+  if (q && !entry.msg.toLowerCase().includes(q)) return false;
+  return true;
+}
+
+/** Query-string form of a filter, shared by the stream and history endpoints */
+export function logFilterParams(filter: LogFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filter.level !== 'all') params.set('level', filter.level);
+  if (filter.source !== 'all') params.set('source', filter.source);
+  if (filter.search.trim()) params.set('q', filter.search.trim());
+  return params;
+}
+
+/** Plain-text export, one entry per line */
+export function formatLogEntries(entries: LogEntry[]): string {
+  return entries.map(e => `${e.ts} ${e.level.padEnd(5)} [${e.source}] ${e.msg}`).join('\n');
+}
@@ -0,0 +1,106 @@
+// =============================================================================
+// Bot Metrics — container resource samples and gateway health for hosted bots
+// =============================================================================
+// Served by `GET /api/deploy/:workspaceId/metrics?range=1h|24h|7d`, next to
+// `/status`. The backend samples the container every 15s and downsamples older
+// points so each range returns at most ~120 samples.
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MetricsRange = '1h' | '24h' | '7d';
+
+export const METRICS_RANGES: MetricsRange[] = ['1h', '24h', '7d'];
+
+export interface BotMetricsSample {
+  ts: string;
+  cpu_pct: number;
+  mem_bytes: number;
+  disk_bytes: number;
+  /** Combined rx + tx over the sample interval */
+  net_bytes_per_s: number;
+  /** Discord heartbeat round-trip; null while the gateway is disconnected */
+  gateway_latency_ms: number | null;
+  guild_count: number | null;
+}
+
+export interface BotMetricsLimits {
+  /** CPU cores the container may use — `cpu_pct` is per core, so it can reach cpus × 100 */
+  cpus?: number;
+  mem_bytes: number;
+  disk_bytes: number;
+  net_bytes_per_s: number;
+}
+
+export interface BotNetworkInfo {
+  internal_endpoint: string | null;
+  gateway_url: string | null;
+  outbound_ips: string[];
+}
+
+export interface BotMetricsResponse {
+  range: MetricsRange;
+  /** Most recent sample, or null when the bot is not running */
+  current: BotMetricsSample | null;
+  /** Oldest first */
+  series: BotMetricsSample[];
+  limits: BotMetricsLimits;
+  network: BotNetworkInfo;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function toPct(value: number | null | undefined, limit: number | null | undefined): number {
+  if (!value || !limit) return 0;
+  return Math.min(100, Math.max(0, Math.round((value / limit) * 100)));
+}
+
+/** CPU use as a share of the whole container, 0–100 */
+export function cpuPct(cpu: number | null | undefined, limits: BotMetricsLimits | null | undefined): number {
+  return toPct(cpu, 100 * Math.max(1, limits?.cpus ?? 1));
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let v = bytes / 1024;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) { v /= 1024; i++; }
+  return `${v < 10 ? v.toFixed(1) : Math.round(v)} ${units[i]}`;
+}
+
+export interface MemoryTrend {
+  /** Least-squares growth rate over the series */
+  bytesPerHour: number;
+  /** Projected hours until the memory limit is hit, or null if memory is flat/falling */
+  hoursToLimit: number | null;
+}
+
+/**
+ * Linear fit of memory usage over the series. A steady positive slope across
+ * a long window is the usual signature of a leak (e.g. voice clients or audio
+ * buffers never released in music bots).
+ */
+export function memoryTrend(series: BotMetricsSample[], limitBytes: number): MemoryTrend | null {
+  if (series.length < 8) return null;
+  const t0 = new Date(series[0].ts).getTime();
+  const xs = series.map(s => (new Date(s.ts).getTime() - t0) / 3_600_000);
+  const ys = series.map(s => s.mem_bytes);
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (xs[i] - meanX) * (ys[i] - meanY);
+    den += (xs[i] - meanX) ** 2;
+  }
+  if (den === 0) return null;
+  const bytesPerHour = num / den;
+  const latest = ys[n - 1];
+  const hoursToLimit = bytesPerHour > 0 && limitBytes > latest ? (limitBytes - latest) / bytesPerHour : null;
+  return { bytesPerHour, hoursToLimit };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { analyzeBotCode } from "./botPermissions";
+
+const analyze = (content: string, file_path = "bot.py") => {
+  const result = analyzeBotCode([{ file_path, content }]);
+  return {
+    permissions: result.permissions.map(p => p.key),
+    intents: result.intents.map(i => i.intent),
+  };
+};
+
+describe("analyzeBotCode", () => {
+  it("does not treat database connections or asyncio timeouts as voice or moderation", () => {
+    const { permissions, intents } = analyze([
+      "import aiosqlite, asyncio",
+      "async def load():",
+      '    async with aiosqlite.connect("eco.db") as db:',
+      "        async with asyncio.timeout(5):",
+      '            await db.execute("SELECT 1")',
+    ].join("\n"));
+    expect(permissions).not.toContain("CONNECT");
+    expect(permissions).not.toContain("SPEAK");
+    expect(permissions).not.toContain("MODERATE_MEMBERS");
+    expect(intents).not.toContain("GUILD_VOICE_STATES");
+  });
+
+  it("does not treat socket or fetch timeouts in JS as moderation", () => {
+    const { permissions } = analyze("await socket.connect(url);\nconst res = await fetch(url, { signal: AbortSignal.timeout(5000) });", "index.js");
+    expect(permissions).not.toContain("MODERATE_MEMBERS");
+    expect(permissions).not.toContain("CONNECT");
+  });
+
+  it("detects joining a voice channel", () => {
+    const { permissions, intents } = analyze("vc = await ctx.author.voice.channel.connect()");
+    expect(permissions).toEqual(expect.arrayContaining(["CONNECT", "SPEAK"]));
+    expect(intents).toContain("GUILD_VOICE_STATES");
+    expect(analyze("channel: discord.VoiceChannel").permissions).toContain("CONNECT");
+  });
+
+  it("detects timing out members", () => {
+    expect(analyze("await member.timeout(timedelta(minutes=5))").permissions).toContain("MODERATE_MEMBERS");
+    expect(analyze("await target.timeout_for(timedelta(minutes=5))").permissions).toContain("MODERATE_MEMBERS");
+    expect(analyze("await interaction.member.timeout(60_000);", "index.js").permissions).toContain("MODERATE_MEMBERS");
+  });
+});
@@ -0,0 +1,301 @@
+// =============================================================================
+// Bot Permissions — infer Discord permissions and gateway intents from code
+// =============================================================================
+// Scans generated discord.py / discord.js sources for API calls and event
+// handlers, and maps each hit to the permission bits and intents it needs.
+// Every suggestion carries the file and line that triggered it so the
+// Permissions tab can explain *why* a bit is selected.
+//
+// Permission bits go past 2^31 (MODERATE_MEMBERS is 1 << 40), so the bitfield
+// is a bigint throughout.
+
+// =============================================================================
+// PERMISSION BITFIELD
+// =============================================================================
+// https://discord.com/developers/docs/topics/permissions#permissions-bitwise-permission-flags
+
+export type PermissionKey =
+  | 'CREATE_INSTANT_INVITE' | 'KICK_MEMBERS' | 'BAN_MEMBERS' | 'ADMINISTRATOR'
+  | 'MANAGE_CHANNELS' | 'MANAGE_GUILD' | 'ADD_REACTIONS' | 'VIEW_AUDIT_LOG'
+  | 'PRIORITY_SPEAKER' | 'STREAM' | 'VIEW_CHANNEL' | 'SEND_MESSAGES'
+  | 'SEND_TTS_MESSAGES' | 'MANAGE_MESSAGES' | 'EMBED_LINKS' | 'ATTACH_FILES'
+  | 'READ_MESSAGE_HISTORY' | 'MENTION_EVERYONE' | 'USE_EXTERNAL_EMOJIS' | 'VIEW_GUILD_INSIGHTS'
+  | 'CONNECT' | 'SPEAK' | 'MUTE_MEMBERS' | 'DEAFEN_MEMBERS'
+  | 'MOVE_MEMBERS' | 'USE_VAD' | 'CHANGE_NICKNAME' | 'MANAGE_NICKNAMES'
+  | 'MANAGE_ROLES' | 'MANAGE_WEBHOOKS' | 'MANAGE_GUILD_EXPRESSIONS' | 'USE_APPLICATION_COMMANDS'
+  | 'REQUEST_TO_SPEAK' | 'MANAGE_EVENTS' | 'MANAGE_THREADS' | 'CREATE_PUBLIC_THREADS'
+  | 'CREATE_PRIVATE_THREADS' | 'USE_EXTERNAL_STICKERS' | 'SEND_MESSAGES_IN_THREADS' | 'USE_EMBEDDED_ACTIVITIES'
+  | 'MODERATE_MEMBERS' | 'VIEW_CREATOR_MONETIZATION_ANALYTICS' | 'USE_SOUNDBOARD' | 'CREATE_GUILD_EXPRESSIONS'
+  | 'CREATE_EVENTS' | 'USE_EXTERNAL_SOUNDS' | 'SEND_VOICE_MESSAGES' | 'SEND_POLLS'
+  | 'USE_EXTERNAL_APPS';
+
+export interface PermissionInfo {
+  key: PermissionKey;
+  bit: bigint;
+  label: string;
+  group: 'General' | 'Membership' | 'Text' | 'Voice' | 'Advanced';
+}
+
+const p = (key: PermissionKey, shift: number, label: string, group: PermissionInfo['group']): PermissionInfo =>
+  ({ key, bit: 1n << BigInt(shift), label, group });
+
+export const PERMISSIONS: PermissionInfo[] = [
+  p('ADMINISTRATOR', 3, 'Administrator', 'Advanced'),
+  p('VIEW_AUDIT_LOG', 7, 'View Audit Log', 'General'),
+  p('VIEW_GUILD_INSIGHTS', 19, 'View Server Insights', 'General'),
+  p('MANAGE_GUILD', 5, 'Manage Server', 'General'),
+  p('MANAGE_ROLES', 28, 'Manage Roles', 'General'),
+  p('MANAGE_CHANNELS', 4, 'Manage Channels', 'General'),
+  p('MANAGE_WEBHOOKS', 29, 'Manage Webhooks', 'General'),
+  p('MANAGE_GUILD_EXPRESSIONS', 30, 'Manage Expressions', 'General'),
+  p('CREATE_GUILD_EXPRESSIONS', 43, 'Create Expressions', 'General'),
+  p('MANAGE_EVENTS', 33, 'Manage Events', 'General'),
+  p('CREATE_EVENTS', 44, 'Create Events', 'General'),
+  p('VIEW_CHANNEL', 10, 'View Channels', 'General'),
+  p('VIEW_CREATOR_MONETIZATION_ANALYTICS', 41, 'View Monetization Analytics', 'General'),
+  p('CREATE_INSTANT_INVITE', 0, 'Create Invite', 'Membership'),
+  p('CHANGE_NICKNAME', 26, 'Change Nickname', 'Membership'),
+  p('MANAGE_NICKNAMES', 27, 'Manage Nicknames', 'Membership'),
+  p('KICK_MEMBERS', 1, 'Kick Members', 'Membership'),
+  p('BAN_MEMBERS', 2, 'Ban Members', 'Membership'),
+  p('MODERATE_MEMBERS', 40, 'Timeout Members', 'Membership'),
+  p('SEND_MESSAGES', 11, 'Send Messages', 'Text'),
+  p('SEND_MESSAGES_IN_THREADS', 38, 'Send Messages in Threads', 'Text'),
+  p('CREATE_PUBLIC_THREADS', 35, 'Create Public Threads', 'Text'),
+  p('CREATE_PRIVATE_THREADS', 36, 'Create Private Threads', 'Text'),
+  p('EMBED_LINKS', 14, 'Embed Links', 'Text'),
+  p('ATTACH_FILES', 15, 'Attach Files', 'Text'),
+  p('ADD_REACTIONS', 6, 'Add Reactions', 'Text'),
+  p('USE_EXTERNAL_EMOJIS', 18, 'Use External Emoji', 'Text'),
+  p('USE_EXTERNAL_STICKERS', 37, 'Use External Stickers', 'Text'),
+  p('MENTION_EVERYONE', 17, 'Mention @everyone', 'Text'),
+  p('MANAGE_MESSAGES', 13, 'Manage Messages', 'Text'),
+  p('MANAGE_THREADS', 34, 'Manage Threads', 'Text'),
+  p('READ_MESSAGE_HISTORY', 16, 'Read Message History', 'Text'),
+  p('SEND_TTS_MESSAGES', 12, 'Send TTS Messages', 'Text'),
+  p('SEND_VOICE_MESSAGES', 46, 'Send Voice Messages', 'Text'),
+  p('SEND_POLLS', 49, 'Create Polls', 'Text'),
+  p('USE_APPLICATION_COMMANDS', 31, 'Use Application Commands', 'Text'),
+  p('USE_EXTERNAL_APPS', 50, 'Use External Apps', 'Text'),
+  p('CONNECT', 20, 'Connect', 'Voice'),
+  p('SPEAK', 21, 'Speak', 'Voice'),
+  p('STREAM', 9, 'Video', 'Voice'),
+  p('USE_SOUNDBOARD', 42, 'Use Soundboard', 'Voice'),
+  p('USE_EXTERNAL_SOUNDS', 45, 'Use External Sounds', 'Voice'),
+  p('USE_VAD', 25, 'Use Voice Activity', 'Voice'),
+  p('PRIORITY_SPEAKER', 8, 'Priority Speaker', 'Voice'),
+  p('MUTE_MEMBERS', 22, 'Mute Members', 'Voice'),
+  p('DEAFEN_MEMBERS', 23, 'Deafen Members', 'Voice'),
+  p('MOVE_MEMBERS', 24, 'Move Members', 'Voice'),
+  p('USE_EMBEDDED_ACTIVITIES', 39, 'Use Activities', 'Voice'),
+  p('REQUEST_TO_SPEAK', 32, 'Request to Speak', 'Voice'),
+];
+
+export const PERMISSION_BY_KEY = Object.fromEntries(PERMISSIONS.map(x => [x.key, x])) as Record<PermissionKey, PermissionInfo>;
+
+export function permissionBitfield(keys: Iterable<PermissionKey>): bigint {
+  let bits = 0n;
+  for (const k of keys) bits |= PERMISSION_BY_KEY[k].bit;
+  return bits;
+}
+
+// =============================================================================
+// GATEWAY INTENTS
+// =============================================================================
+// https://discord.com/developers/docs/topics/gateway#gateway-intents
+
+export type GatewayIntent =
+  | 'GUILDS' | 'GUILD_MEMBERS' | 'GUILD_MODERATION' | 'GUILD_EXPRESSIONS'
+  | 'GUILD_INTEGRATIONS' | 'GUILD_WEBHOOKS' | 'GUILD_INVITES' | 'GUILD_VOICE_STATES'
+  | 'GUILD_PRESENCES' | 'GUILD_MESSAGES' | 'GUILD_MESSAGE_REACTIONS' | 'GUILD_MESSAGE_TYPING'
+  | 'DIRECT_MESSAGES' | 'DIRECT_MESSAGE_REACTIONS' | 'DIRECT_MESSAGE_TYPING' | 'MESSAGE_CONTENT'
+  | 'GUILD_SCHEDULED_EVENTS' | 'AUTO_MODERATION_CONFIGURATION' | 'AUTO_MODERATION_EXECUTION';
+
+export const INTENT_BITS: Record<GatewayIntent, number> = {
+  GUILDS: 1 << 0,
+  GUILD_MEMBERS: 1 << 1,
+  GUILD_MODERATION: 1 << 2,
+  GUILD_EXPRESSIONS: 1 << 3,
+  GUILD_INTEGRATIONS: 1 << 4,
+  GUILD_WEBHOOKS: 1 << 5,
+  GUILD_INVITES: 1 << 6,
+  GUILD_VOICE_STATES: 1 << 7,
+  GUILD_PRESENCES: 1 << 8,
+  GUILD_MESSAGES: 1 << 9,
+  GUILD_MESSAGE_REACTIONS: 1 << 10,
+  GUILD_MESSAGE_TYPING: 1 << 11,
+  DIRECT_MESSAGES: 1 << 12,
+  DIRECT_MESSAGE_REACTIONS: 1 << 13,
+  DIRECT_MESSAGE_TYPING: 1 << 14,
+  MESSAGE_CONTENT: 1 << 15,
+  GUILD_SCHEDULED_EVENTS: 1 << 16,
+  AUTO_MODERATION_CONFIGURATION: 1 << 20,
+  AUTO_MODERATION_EXECUTION: 1 << 21,
+};
+
+/** Intents that must be toggled on in the Developer Portal */
+export const PRIVILEGED_INTENTS: GatewayIntent[] = ['GUILD_MEMBERS', 'GUILD_PRESENCES', 'MESSAGE_CONTENT'];
+
+// =============================================================================
+// USAGE RULES
+// =============================================================================
+
+type Lang = 'py' | 'js';
+
+interface UsageRule {
+  pattern: RegExp;
+  lang?: Lang;
+  permissions?: PermissionKey[];
+  intents?: GatewayIntent[];
+  /** Short human explanation, shown next to the code line */
+  why: string;
+}
+
+const RULES: UsageRule[] = [
+  // ── Messaging ────────────────────────────────────────────────────────────
+  { pattern: /\b(ctx|channel|message|interaction\.channel)\.send\(|\.reply\(|send_message\(|followUp\(|followup\.send\(/, permissions: ['VIEW_CHANNEL', 'SEND_MESSAGES'], why: 'sends messages' },
+  { pattern: /discord\.Embed\(|new EmbedBuilder\(|embeds?\s*[=:]/, permissions: ['EMBED_LINKS'], why: 'sends embeds' },
+  { pattern: /discord\.File\(|new AttachmentBuilder\(|\bfiles\s*[=:]\s*\[/, permissions: ['ATTACH_FILES'], why: 'uploads files' },
+  { pattern: /\.add_reaction\(|\.react\(/, permissions: ['ADD_REACTIONS', 'READ_MESSAGE_HISTORY'], why: 'adds reactions' },
+  { pattern: /\.history\(|fetch_message\(|messages\.fetch\(/, permissions: ['READ_MESSAGE_HISTORY'], why: 'reads message history' },
+  { pattern: /\.purge\(|bulkDelete\(|delete_messages\(/, permissions: ['MANAGE_MESSAGES', 'READ_MESSAGE_HISTORY'], why: 'bulk-deletes messages' },
+  { pattern: /\.pin\(|\.unpin\(/, permissions: ['MANAGE_MESSAGES'], why: 'pins messages' },
+  { pattern: /@everyone|@here|allowed_mentions\s*=\s*discord\.AllowedMentions\(\s*everyone\s*=\s*True/, permissions: ['MENTION_EVERYONE'], why: 'mentions @everyone/@here' },
+  { pattern: /tts\s*[=:]\s*(True|true)/, permissions: ['SEND_TTS_MESSAGES'], why: 'sends TTS messages' },
+  { pattern: /discord\.Poll\(|new PollBuilder|poll\s*:\s*\{/, permissions: ['SEND_POLLS'], why: 'creates polls' },
+
+  // ── Threads ──────────────────────────────────────────────────────────────
+  { pattern: /create_thread\(|threads\.create\(|startThread\(/, permissions: ['CREATE_PUBLIC_THREADS', 'SEND_MESSAGES_IN_THREADS'], why: 'creates threads' },
+  { pattern: /ChannelType\.PrivateThread|ChannelType\.private_thread/, permissions: ['CREATE_PRIVATE_THREADS'], why: 'creates private threads' },
+  { pattern: /\.(archive|lock)\(|setArchived\(|setLocked\(|thread\.edit\(/, permissions: ['MANAGE_THREADS'], why: 'archives or locks threads' },
+
+  // ── Moderation ───────────────────────────────────────────────────────────
+  { pattern: /\.ban\(|\.unban\(|members\.ban\(|bans\.(create|remove)\(/, permissions: ['BAN_MEMBERS'], why: 'bans members' },
+  { pattern: /\.kick\(|members\.kick\(/, permissions: ['KICK_MEMBERS'], why: 'kicks members' },
+  { pattern: /\b\w*[mM]ember\.timeout\(|\.timeout_for\(|timed_out_until|disableCommunicationUntil\(|communication_disabled_until/, permissions: ['MODERATE_MEMBERS'], why: 'times out members' },
+  { pattern: /\.add_roles\(|\.remove_roles\(|roles\.(add|remove|create|set)\(|create_role\(|\.edit_role/, permissions: ['MANAGE_ROLES'], why: 'manages roles' },
+  { pattern: /edit\([^)]*\bnick\s*=|setNickname\(/, permissions: ['MANAGE_NICKNAMES'], why: 'changes nicknames' },
+  { pattern: /audit_logs\(|fetchAuditLogs\(/, permissions: ['VIEW_AUDIT_LOG'], why: 'reads the audit log' },
+  { pattern: /auto_moderation|autoModerationRules/, permissions: ['MANAGE_GUILD'], intents: ['AUTO_MODERATION_CONFIGURATION'], why: 'configures AutoMod' },
+
+  // ── Server management ────────────────────────────────────────────────────
+  { pattern: /create_(text|voice|category|forum|stage)_channel\(|channels\.create\(|channel\.delete\(|\.set_permissions\(|permissionOverwrites\.(edit|create|set)\(/, permissions: ['MANAGE_CHANNELS'], why: 'creates or edits channels' },
+  { pattern: /create_webhook\(|createWebhook\(|\.webhooks\(\)|fetchWebhooks\(/, permissions: ['MANAGE_WEBHOOKS'], why: 'manages webhooks' },
+  { pattern: /create_custom_emoji\(|emojis\.create\(|create_sticker\(|stickers\.create\(/, permissions: ['CREATE_GUILD_EXPRESSIONS', 'MANAGE_GUILD_EXPRESSIONS'], why: 'creates emoji or stickers' },
+  { pattern: /create_invite\(|createInvite\(|invites\.create\(/, permissions: ['CREATE_INSTANT_INVITE'], why: 'creates invites' },
+  { pattern: /create_scheduled_event\(|scheduledEvents\.create\(/, permissions: ['CREATE_EVENTS', 'MANAGE_EVENTS'], intents: ['GUILD_SCHEDULED_EVENTS'], why: 'creates scheduled events' },
+  { pattern: /guild\.edit\(|guild\.set(Name|Icon)\(|\.invites\(\)|invites\.fetch\(/, permissions: ['MANAGE_GUILD'], why: 'edits server settings or lists invites' },
+
+  // ── Voice ────────────────────────────────────────────────────────────────
+  { pattern: /\b\w*[cC]hannel\.connect\(|VoiceChannel|VoiceClient|joinVoiceChannel\(|voice_client|FFmpegPCMAudio|createAudioPlayer\(/, permissions: ['CONNECT', 'SPEAK'], intents: ['GUILD_VOICE_STATES'], why: 'joins voice and plays audio' },
+  { pattern: /move_to\(|\.setChannel\(/, permissions: ['MOVE_MEMBERS'], why: 'moves members between voice channels' },
+  { pattern: /edit\([^)]*\bmute\s*=|setMute\(/, permissions: ['MUTE_MEMBERS'], why: 'server-mutes members' },
+  { pattern: /edit\([^)]*\bdeafen\s*=|setDeaf\(/, permissions: ['DEAFEN_MEMBERS'], why: 'server-deafens members' },
+
+  // ── Intents ──────────────────────────────────────────────────────────────
+  { pattern: /intents\.message_content\s*=\s*True|GatewayIntentBits\.MessageContent|Intents\.FLAGS\.MESSAGE_CONTENT/, intents: ['MESSAGE_CONTENT'], why: 'enables the message content intent' },
+  { pattern: /command_prefix\s*=|commands\.when_mentioned_or\(/, lang: 'py', intents: ['GUILD_MESSAGES', 'MESSAGE_CONTENT'], why: 'uses prefix commands, which read message text' },
+  { pattern: /message\.content\b/, intents: ['GUILD_MESSAGES', 'MESSAGE_CONTENT'], why: 'reads message content' },
+  { pattern: /async def on_message\(|on\(\s*['"]messageCreate|Events\.MessageCreate/, intents: ['GUILD_MESSAGES'], why: 'listens for messages' },
+  { pattern: /intents\.members\s*=\s*True|GatewayIntentBits\.GuildMembers|Intents\.FLAGS\.GUILD_MEMBERS|on_member_(join|remove|update)\(|guildMember(Add|Remove|Update)|Events\.GuildMember(Add|Remove|Update)|members\.fetch\(\)|fetch_members\(|guild\.members\b/, intents: ['GUILD_MEMBERS'], why: 'tracks server members' },
+  { pattern: /intents\.presences\s*=\s*True|GatewayIntentBits\.GuildPresences|Intents\.FLAGS\.GUILD_PRESENCES|on_presence_update\(|presenceUpdate|\.activities\b|\.status\b.*online/, intents: ['GUILD_PRESENCES'], why: 'reads presence or activities' },
+  { pattern: /on_(raw_)?reaction_(add|remove)\(|messageReaction(Add|Remove)|Events\.MessageReaction(Add|Remove)/, intents: ['GUILD_MESSAGE_REACTIONS'], why: 'listens for reactions' },
+  { pattern: /on_voice_state_update\(|voiceStateUpdate|Events\.VoiceStateUpdate/, intents: ['GUILD_VOICE_STATES'], why: 'listens for voice state changes' },
+  { pattern: /DMChannel|ChannelType\.DM|isDMBased\(\)|\.create_dm\(|createDM\(/, intents: ['DIRECT_MESSAGES'], why: 'handles direct messages' },
+  { pattern: /on_typing\(|typingStart/, intents: ['GUILD_MESSAGE_TYPING'], why: 'listens for typing' },
+  { pattern: /on_invite_(create|delete)\(|invite(Create|Delete)/, intents: ['GUILD_INVITES'], permissions: ['MANAGE_GUILD'], why: 'tracks invites' },
+  { pattern: /on_member_ban\(|guildBan(Add|Remove)|on_audit_log_entry_create/, intents: ['GUILD_MODERATION'], why: 'listens for moderation events' },
+  { pattern: /intents\s*=\s*discord\.Intents\.all\(\)|Object\.values\(\s*GatewayIntentBits\s*\)/, intents: ['GUILD_MEMBERS', 'GUILD_PRESENCES', 'MESSAGE_CONTENT'], why: 'requests every intent' },
+  { pattern: /Intents\.default\(\)|GatewayIntentBits\.Guilds\b/, intents: ['GUILDS'], why: 'connects to the gateway' },
+];
+
+// =============================================================================
+// ANALYZER
+// =============================================================================
+
+export interface UsageReason {
+  file: string;
+  line: number;
+  code: string;
+  why: string;
+}
+
+export interface InferredPermission {
+  key: PermissionKey;
+  reasons: UsageReason[];
+}
+
+export interface InferredIntent {
+  intent: GatewayIntent;
+  privileged: boolean;
+  reasons: UsageReason[];
+}
+
+export interface PermissionAnalysis {
+  permissions: InferredPermission[];
+  intents: InferredIntent[];
+  /** Minimal permission bitfield for the invite URL */
+  bitfield: bigint;
+  /** Gateway intents bitfield the code needs */
+  intentBits: number;
+}
+
+function langOf(path: string): Lang | null {
+  if (path.endsWith('.py')) return 'py';
+  if (/\.(js|ts|mjs|cjs)$/.test(path)) return 'js';
+  return null;
+}
+
+// Comments and docstrings should not count as usage
+function isCommentLine(line: string, lang: Lang): boolean {
+  const t = line.trim();
+  return lang === 'py' ? t.startsWith('#') : t.startsWith('//') || t.startsWith('*') || t.startsWith('/*');
+}
+
+export function analyzeBotCode(files: Array<{ file_path: string; content: string }>): PermissionAnalysis {
+  const perms = new Map<PermissionKey, UsageReason[]>();
+  const intents = new Map<GatewayIntent, UsageReason[]>();
+  let sawCode = false;
+
+  for (const f of files) {
+    const lang = langOf(f.file_path);
+    if (!lang || f.file_path.includes('node_modules/')) continue;
+    sawCode = true;
+    const lines = f.content.split('\n');
+    lines.forEach((text, idx) => {
+      if (isCommentLine(text, lang)) return;
+      for (const rule of RULES) {
+        if (rule.lang && rule.lang !== lang) continue;
+        if (!rule.pattern.test(text)) continue;
+        const reason: UsageReason = { file: f.file_path, line: idx + 1, code: text.trim().slice(0, 160), why: rule.why };
+        for (const k of rule.permissions ?? []) {
+          const list = perms.get(k) ?? [];
+          list.push(reason);
+          perms.set(k, list);
+        }
+        for (const i of rule.intents ?? []) {
+          const list = intents.get(i) ?? [];
+          list.push(reason);
+          intents.set(i, list);
+        }
+      }
+    });
+  }
+
+  // Any bot that connects needs GUILDS; slash commands need no extra bit for bots
+  if (sawCode && !intents.has('GUILDS')) intents.set('GUILDS', []);
+
+  const permissions = PERMISSIONS
+    .filter(x => perms.has(x.key))
+    .map(x => ({ key: x.key, reasons: perms.get(x.key)! }));
+  const inferredIntents = (Object.keys(INTENT_BITS) as GatewayIntent[])
+    .filter(i => intents.has(i))
+    .map(i => ({ intent: i, privileged: PRIVILEGED_INTENTS.includes(i), reasons: intents.get(i)! }));
+
+  return {
+    permissions,
+    intents: inferredIntents,
+    bitfield: permissionBitfield(permissions.map(x => x.key)),
+    intentBits: inferredIntents.reduce((acc, i) => acc | INTENT_BITS[i.intent], 0),
+  };
+}
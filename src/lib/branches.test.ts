@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from "vitest";
+import type { BranchVersion } from "./branches";
+
+vi.mock("@/lib/firebase", () => ({ db: {} }));
+
+const { mergeBase, mergeSnapshots, branchHead } = await import("./branches");
+
+const v = (id: string, version_number: number, branch_id: string | null, parent_id: string | null, merged_from: string | null = null): BranchVersion =>
+  ({ id, version_number, branch_id, parent_id, merged_from, files: [] });
+
+describe("mergeSnapshots", () => {
+  const base = [{ path: "a.py", content: "a" }, { path: "b.py", content: "b" }, { path: "c.py", content: "c" }];
+
+  it("takes files changed on only one side", () => {
+    const ours = [{ path: "a.py", content: "a2" }, { path: "b.py", content: "b" }, { path: "c.py", content: "c" }];
+    const theirs = [{ path: "a.py", content: "a" }, { path: "b.py", content: "b2" }, { path: "c.py", content: "c" }, { path: "d.py", content: "d" }];
+    const result = mergeSnapshots(base, ours, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(result.incoming).toEqual(["b.py", "d.py"]);
+    expect(result.files).toEqual([
+      { path: "a.py", content: "a2" },
+      { path: "b.py", content: "b2" },
+      { path: "c.py", content: "c" },
+      { path: "d.py", content: "d" },
+    ]);
+  });
+
+  it("accepts identical changes on both sides", () => {
+    const both = [{ path: "a.py", content: "same" }, ...base.slice(1)];
+    expect(mergeSnapshots(base, both, both)).toEqual({ files: both, incoming: [], conflicts: [] });
+  });
+
+  it("reports different changes to the same file as a conflict", () => {
+    const ours = [{ path: "a.py", content: "ours" }, ...base.slice(1)];
+    const theirs = [{ path: "a.py", content: "theirs" }, ...base.slice(1)];
+    const result = mergeSnapshots(base, ours, theirs);
+    expect(result.conflicts).toEqual([{ path: "a.py", base: "a", ours: "ours", theirs: "theirs" }]);
+    expect(result.files.map(f => f.path)).toEqual(["b.py", "c.py"]);
+  });
+
+  it("treats a deletion against an edit as a conflict and a one-sided deletion as a change", () => {
+    const ours = base.filter(f => f.path !== "a.py");
+    const theirs = [{ path: "a.py", content: "edited" }, base[1]];
+    const result = mergeSnapshots(base, ours, theirs);
+    expect(result.conflicts).toEqual([{ path: "a.py", base: "a", ours: null, theirs: "edited" }]);
+    expect(result.files.map(f => f.path)).toEqual(["b.py"]);
+  });
+});
+
+describe("mergeBase", () => {
+  it("finds where a branch forked from main", () => {
+    const versions = [v("m1", 1, null, null), v("m2", 2, null, "m1"), v("b1", 3, "feat", "m1"), v("m3", 4, null, "m2")];
+    expect(mergeBase(versions, "m3", "b1")?.id).toBe("m1");
+  });
+
+  it("chains legacy main versions without parent ids by number", () => {
+    const versions = [v("m1", 1, null, null), v("m2", 2, null, null), v("b1", 3, "feat", "m2"), v("m3", 4, null, null)];
+    expect(mergeBase(versions, "m3", "b1")?.id).toBe("m2");
+  });
+
+  it("moves the base forward after a merge", () => {
+    const versions = [v("m1", 1, null, null), v("b1", 2, "feat", "m1"), v("m2", 3, null, "m1", "b1")];
+    expect(mergeBase(versions, "m2", "b1")?.id).toBe("b1");
+  });
+
+  it("returns null when the histories never met", () => {
+    expect(mergeBase([v("a", 1, "x", null), v("b", 2, "y", null)], "a", "b")).toBeNull();
+  });
+});
+
+describe("branchHead", () => {
+  it("is the newest main version for main and the recorded head for a branch", () => {
+    const versions = [v("m1", 1, null, null), v("m2", 2, null, "m1"), v("b1", 3, "feat", "m1")];
+    expect(branchHead(versions, null)?.id).toBe("m2");
+    expect(branchHead(versions, { head_version_id: "b1" } as never)?.id).toBe("b1");
+  });
+});
@@ -0,0 +1,230 @@
+// =============================================================================
+// Branches — lightweight forks of a project's version history
+// =============================================================================
+// A branch is a named pointer into the version store:
+//
+//   fileBranches/{id}   { project_id, user_id, name, base_version_id,
+//                         base_version_number, head_version_id }
+//
+// Versions carry the branch they were made on (branch_id, null for main), the
+// version they were made on top of (parent_id) and, for merges, the head they
+// merged in (merged_from). The workspace holds one branch at a time; which one
+// is recorded on the project's fileVersionHeads document as active_branch_id.
+// Each branch has its own chat thread — messages carry branch_id the same way.
+//
+// Merging is file-level and three-way against the nearest common ancestor: a
+// file changed on only one side takes that side, a file changed identically on
+// both is fine, anything else is a conflict the user resolves per file.
+
+import {
+  collection, query, where, getDocs,
+  doc, addDoc, deleteDoc, setDoc, getDoc, serverTimestamp, Timestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import type { SnapshotFile } from '@/lib/versionDiff';
+
+export interface FileBranch {
+  id: string;
+  project_id: string;
+  user_id: string;
+  name: string;
+  base_version_id: string;
+  base_version_number: number;
+  head_version_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What merge ancestry needs from a version */
+export interface BranchVersion {
+  id: string;
+  version_number: number;
+  branch_id: string | null;
+  parent_id: string | null;
+  merged_from: string | null;
+  files: SnapshotFile[];
+}
+
+export interface MergeConflict {
+  path: string;
+  /** null when the file didn't exist on that side */
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+}
+
+export interface MergeResult {
+  /** Files the merge settles on its own — the workspace after merging, minus conflicts */
+  files: SnapshotFile[];
+  /** Paths taken from the other branch, for the summary */
+  incoming: string[];
+  conflicts: MergeConflict[];
+}
+
+export const MAIN_BRANCH_NAME = 'main';
+
+const BRANCHES = 'fileBranches';
+const HEADS = 'fileVersionHeads';
+
+const BRANCH_NAME_RE = /^[a-z0-9][a-z0-9._/-]{0,39}$/i;
+
+function tsToString(ts: unknown): string {
+  if (!ts) return new Date().toISOString();
+  if (ts instanceof Timestamp) return ts.toDate().toISOString();
+  return String(ts);
+}
+
+export const branchRef = (branchId: string) => doc(db, BRANCHES, branchId);
+
+// =============================================================================
+// BRANCHES
+// =============================================================================
+
+export async function listBranches(projectId: string, userId: string): Promise<FileBranch[]> {
+  const snap = await getDocs(query(
+    collection(db, BRANCHES),
+    where('project_id', '==', projectId),
+    where('user_id', '==', userId),
+  ));
+  return snap.docs
+    .map(d => ({
+      id: d.id,
+      ...d.data(),
+      created_at: tsToString(d.data().created_at),
+      updated_at: tsToString(d.data().updated_at),
+    }) as FileBranch)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Why a branch name can't be used, or null if it can */
+export function validateBranchName(name: string, existing: FileBranch[]): string | null {
+  if (!BRANCH_NAME_RE.test(name)) return 'Use letters, numbers, dots, dashes, underscores or slashes (max 40)';
+  if (name.toLowerCase() === MAIN_BRANCH_NAME) return `"${MAIN_BRANCH_NAME}" is reserved`;
+  if (existing.some(b => b.name.toLowerCase() === name.toLowerCase())) return `A branch named "${name}" already exists`;
+  return null;
+}
+
+/** Fork from a version. The branch's head starts at the version it was forked from. */
+export async function createBranch(
+  projectId: string,
+  userId: string,
+  name: string,
+  base: { id: string; version_number: number },
+): Promise<FileBranch> {
+  const ref = await addDoc(collection(db, BRANCHES), {
+    project_id: projectId,
+    user_id: userId,
+    name,
+    base_version_id: base.id,
+    base_version_number: base.version_number,
+    head_version_id: base.id,
+    created_at: serverTimestamp(),
+    updated_at: serverTimestamp(),
+  });
+  const now = new Date().toISOString();
+  return {
+    id: ref.id,
+    project_id: projectId,
+    user_id: userId,
+    name,
+    base_version_id: base.id,
+    base_version_number: base.version_number,
+    head_version_id: base.id,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/** Remove the pointer only — the branch's versions stay in history */
+export async function deleteBranch(branchId: string): Promise<void> {
+  await deleteDoc(branchRef(branchId));
+}
+
+export async function getActiveBranchId(projectId: string): Promise<string | null> {
+  const snap = await getDoc(doc(db, HEADS, projectId));
+  return snap.exists() ? snap.data().active_branch_id ?? null : null;
+}
+
+export async function setActiveBranchId(projectId: string, userId: string, branchId: string | null): Promise<void> {
+  await setDoc(doc(db, HEADS, projectId), { project_id: projectId, user_id: userId, active_branch_id: branchId }, { merge: true });
+}
+
+// =============================================================================
+// ANCESTRY
+// =============================================================================
+
+/**
+ * Versions a version was made on top of. Versions from before branching have
+ * no parent_id; on main they follow one another by number.
+ */
+function parentsOf(version: BranchVersion, byId: Map<string, BranchVersion>, main: BranchVersion[]): BranchVersion[] {
+  const parent = version.parent_id
+    ? byId.get(version.parent_id)
+    : version.branch_id === null ? main.find(v => v.version_number < version.version_number) : undefined;
+  const merged = version.merged_from ? byId.get(version.merged_from) : undefined;
+  return [parent, merged].filter((v): v is BranchVersion => !!v);
+}
+
+/** The head of a branch — for main, its newest version */
+export function branchHead<V extends BranchVersion>(versions: V[], branch: FileBranch | null): V | null {
+  if (branch) return versions.find(v => v.id === branch.head_version_id) ?? null;
+  return [...versions].filter(v => v.branch_id === null).sort((a, b) => b.version_number - a.version_number)[0] ?? null;
+}
+
+/** Nearest version both heads descend from, or null if the histories never met */
+export function mergeBase<V extends BranchVersion>(versions: V[], oursId: string, theirsId: string): V | null {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const main = versions.filter(v => v.branch_id === null).sort((a, b) => b.version_number - a.version_number);
+
+  const walk = (startId: string) => {
+    const order: BranchVersion[] = [];
+    const seen = new Set<string>();
+    const queue: BranchVersion[] = [byId.get(startId)].filter((v): v is V => !!v);
+    while (queue.length > 0) {
+      const v = queue.shift()!;
+      if (seen.has(v.id)) continue;
+      seen.add(v.id);
+      order.push(v);
+      queue.push(...parentsOf(v, byId, main));
+    }
+    return order;
+  };
+
+  const ours = new Set(walk(oursId).map(v => v.id));
+  const found = walk(theirsId).find(v => ours.has(v.id));
+  return found ? byId.get(found.id) ?? null : null;
+}
+
+// =============================================================================
+// MERGE
+// =============================================================================
+
+const normalize = (path: string) => path.replace(/^\/+/, '');
+
+/** Three-way, file-level merge of `theirs` into `ours` */
+export function mergeSnapshots(base: SnapshotFile[], ours: SnapshotFile[], theirs: SnapshotFile[]): MergeResult {
+  const b = new Map(base.map(f => [normalize(f.path), f.content]));
+  const o = new Map(ours.map(f => [normalize(f.path), f.content]));
+  const t = new Map(theirs.map(f => [normalize(f.path), f.content]));
+
+  const files: SnapshotFile[] = [];
+  const incoming: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  const keep = (path: string, content: string | null) => { if (content !== null) files.push({ path, content }); };
+
+  for (const path of [...new Set([...b.keys(), ...o.keys(), ...t.keys()])].sort()) {
+    const inBase = b.get(path) ?? null;
+    const inOurs = o.get(path) ?? null;
+    const inTheirs = t.get(path) ?? null;
+
+    if (inOurs === inTheirs || inTheirs === inBase) {
+      keep(path, inOurs);
+    } else if (inOurs === inBase) {
+      keep(path, inTheirs);
+      incoming.push(path);
+    } else {
+      conflicts.push({ path, base: inBase, ours: inOurs, theirs: inTheirs });
+    }
+  }
+  return { files, incoming, conflicts };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { extractCommandManifest, commandRows } from "./commandManifest";
+
+const PY = `import discord
+from discord import app_commands
+
+@bot.tree.command(name="ban", description="Ban a member")
+@app_commands.describe(member="Who to ban", reason="Why")
+@app_commands.checks.has_permissions(ban_members=True)
+async def ban(interaction: discord.Interaction, member: discord.Member, reason: str = None):
+    await member.ban(reason=reason)
+
+@bot.command()
+async def ping(ctx):
+    """Check latency"""
+    await ctx.send("pong")
+`;
+
+const JS = `const { SlashCommandBuilder } = require('discord.js');
+module.exports = {
+  data: new SlashCommandBuilder()
+    .setName('config')
+    .setDescription('Server settings')
+    .addSubcommand(sub => sub
+      .setName('set')
+      .setDescription('Change a setting')
+      .addStringOption(o => o.setName('key').setDescription('Setting').setRequired(true))),
+};
+`;
+
+describe("extractCommandManifest", () => {
+  it("reads discord.py slash and prefix commands", () => {
+    const manifest = extractCommandManifest([{ path: "bot.py", content: PY }]);
+    expect(manifest.language).toBe("python");
+    const ban = manifest.commands.find(c => c.name === "ban")!;
+    expect(ban.kind).toBe("slash");
+    expect(ban.permissions).toContain("BAN_MEMBERS");
+    expect(ban.options.map(o => [o.name, o.type, o.required])).toEqual([["member", "user", true], ["reason", "string", false]]);
+    expect(manifest.commands.find(c => c.name === "ping")?.kind).toBe("prefix");
+  });
+
+  it("reads SlashCommandBuilder chains with subcommands", () => {
+    const manifest = extractCommandManifest([{ path: "commands/config.js", content: JS }]);
+    const rows = commandRows(manifest);
+    expect(rows.map(r => r.label)).toEqual(["/config", "/config set"]);
+    expect(rows[1].options.map(o => o.name)).toEqual(["key"]);
+  });
+});
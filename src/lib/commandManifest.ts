@@ -0,0 +1,47 @@
+// =============================================================================
+// Command Manifest — typed list of the commands a generated bot defines
+// =============================================================================
+// The extractor is shared with the generation pipeline, which stores its result
+// on the generation session under `metadata.commandManifest`; the workspace
+// re-extracts from the live files so manual edits show up without a new
+// generation. Only display helpers live here.
+
+import type { BotCommand, CommandManifest, CommandOption } from '../../supabase/functions/_shared/commandManifest.ts';
+
+export { extractCommandManifest } from '../../supabase/functions/_shared/commandManifest.ts';
+export type {
+  CommandKind, CommandOptionType, CommandOption, BotCommand, CommandManifest,
+} from '../../supabase/functions/_shared/commandManifest.ts';
+
+// =============================================================================
+// DISPLAY
+// =============================================================================
+
+export interface CommandRow {
+  /** Full invocation, e.g. `/config set`, `!ping` or `Report message` */
+  label: string;
+  depth: number;
+  command: BotCommand;
+  /** Options of this row — for a subcommand row, the subcommand's own options */
+  options: CommandOption[];
+  description: string;
+}
+
+/** Flatten subcommands and groups into table rows, parent first */
+export function commandRows(manifest: CommandManifest): CommandRow[] {
+  const rows: CommandRow[] = [];
+  for (const command of manifest.commands) {
+    const prefix = command.kind === 'slash' ? '/' : command.kind === 'prefix' ? '!' : '';
+    const label = prefix + command.name;
+    const walk = (options: CommandOption[], path: string, depth: number) => {
+      for (const o of options) {
+        if (o.type !== 'subcommand' && o.type !== 'subcommand_group') continue;
+        rows.push({ label: `${path} ${o.name}`, depth, command, options: (o.options ?? []).filter(x => x.type !== 'subcommand' && x.type !== 'subcommand_group'), description: o.description });
+        walk(o.options ?? [], `${path} ${o.name}`, depth + 1);
+      }
+    };
+    rows.push({ label, depth: 0, command, options: command.options.filter(o => o.type !== 'subcommand' && o.type !== 'subcommand_group'), description: command.description });
+    walk(command.options, label, 1);
+  }
+  return rows;
+}
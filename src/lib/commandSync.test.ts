@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from "vitest";
+import type { BotCommand, CommandOption } from "./commandManifest";
+
+vi.mock("@/lib/firebase", () => ({ auth: { currentUser: null } }));
+
+const { toDiscordPayload } = await import("./commandSync");
+
+const opt = (name: string, required: boolean): CommandOption => ({ name, type: "string", description: name, required });
+
+const command = (options: CommandOption[]): BotCommand => ({
+  name: "config",
+  kind: "slash",
+  description: "Settings",
+  options,
+  permissions: [],
+  file: "bot.py",
+  line: 1,
+});
+
+describe("toDiscordPayload", () => {
+  it("puts required options first at the top level", () => {
+    const payload = toDiscordPayload(command([opt("note", false), opt("key", true)]));
+    expect(payload.options?.map(o => o.name)).toEqual(["key", "note"]);
+  });
+
+  it("puts required options first inside subcommands and groups", () => {
+    const payload = toDiscordPayload(command([{
+      name: "admin",
+      type: "subcommand_group",
+      description: "Admin",
+      required: false,
+      options: [{
+        name: "set",
+        type: "subcommand",
+        description: "Set",
+        required: false,
+        options: [opt("note", false), opt("key", true), opt("value", true)],
+      }],
+    }]));
+    const set = payload.options![0].options![0];
+    expect(set.options?.map(o => [o.name, !!o.required])).toEqual([["key", true], ["value", true], ["note", false]]);
+  });
+});
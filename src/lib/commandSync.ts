@@ -0,0 +1,204 @@
+// =============================================================================
+// Command Sync — register the manifest's slash commands with Discord
+// =============================================================================
+// Registration from the dashboard, done by the backend with the project's
+// stored token, so commands can be diffed and synced without restarting the
+// bot. Generated bots may still call `tree.sync()` / `rest.put(...)` on start
+// themselves; both paths register the same manifest, the last one wins.
+//
+//   GET  /api/commands/:projectId?scope=guild|global          → { commands: RegisteredCommand[] }
+//   POST /api/commands/:projectId/sync  { scope, commands }   → { commands: RegisteredCommand[] }
+//
+// `guild` targets the development GUILD_ID and CLIENT_ID — changes show up
+// instantly in the test server. `global` targets the production application and
+// is used when promoting; Discord propagates global commands to every server.
+// Sync is a bulk overwrite, so anything not in the payload is removed.
+
+import { auth } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+import type { BotCommand, CommandManifest, CommandOption, CommandOptionType } from '@/lib/commandManifest';
+import { PERMISSION_BY_KEY, permissionBitfield, type PermissionKey } from '@/lib/botPermissions';
+import type { EnvTarget } from '@/lib/envVars';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SyncScope = 'guild' | 'global';
+
+/** Which env var scope each sync scope reads CLIENT_ID / GUILD_ID from */
+export const SYNC_SCOPE_TARGET: Record<SyncScope, EnvTarget> = {
+  guild: 'development',
+  global: 'production',
+};
+
+// https://discord.com/developers/docs/interactions/application-commands#application-command-object
+export interface DiscordCommandOption {
+  type: number;
+  name: string;
+  description: string;
+  required?: boolean;
+  choices?: Array<{ name: string; value: string | number }>;
+  options?: DiscordCommandOption[];
+}
+
+export interface DiscordCommandPayload {
+  /** 1 = chat input, 2 = user context menu, 3 = message context menu */
+  type: 1 | 2 | 3;
+  name: string;
+  description: string;
+  options?: DiscordCommandOption[];
+  default_member_permissions: string | null;
+}
+
+export interface RegisteredCommand extends DiscordCommandPayload {
+  id: string;
+  application_id: string;
+  guild_id?: string;
+  version: string;
+}
+
+export interface CommandChange {
+  key: string;
+  name: string;
+  type: DiscordCommandPayload['type'];
+  /** Fields that differ, e.g. ['description', 'options'] */
+  fields: Array<'description' | 'options' | 'default_member_permissions'>;
+  before: RegisteredCommand;
+  after: DiscordCommandPayload;
+}
+
+export interface CommandDiff {
+  added: DiscordCommandPayload[];
+  removed: RegisteredCommand[];
+  changed: CommandChange[];
+  unchanged: number;
+}
+
+// =============================================================================
+// MANIFEST → DISCORD PAYLOAD
+// =============================================================================
+
+const OPTION_TYPE: Record<CommandOptionType, number> = {
+  subcommand: 1,
+  subcommand_group: 2,
+  string: 3,
+  integer: 4,
+  boolean: 5,
+  user: 6,
+  channel: 7,
+  role: 8,
+  mentionable: 9,
+  number: 10,
+  attachment: 11,
+};
+
+// Chat input names are lowercase; descriptions are required and capped at 100
+const commandName = (name: string) => name.toLowerCase().replace(/[^-_\p{L}\p{N}]/gu, '-').slice(0, 32);
+const description = (text: string, fallback: string) => (text.trim() || fallback).slice(0, 100);
+
+// Discord rejects a required option after an optional one, at every level
+const requiredFirst = (options: DiscordCommandOption[]) =>
+  [...options].sort((a, b) => Number(!!b.required) - Number(!!a.required));
+
+function toOption(o: CommandOption): DiscordCommandOption {
+  const nested = o.type === 'subcommand' || o.type === 'subcommand_group';
+  return {
+    type: OPTION_TYPE[o.type],
+    name: commandName(o.name),
+    description: description(o.description, o.name),
+    ...(!nested && o.required ? { required: true } : {}),
+    ...(o.choices?.length ? { choices: o.choices.map(c => ({ name: c, value: o.type === 'integer' || o.type === 'number' ? Number(c) || 0 : c })) } : {}),
+    ...(nested ? { options: requiredFirst((o.options ?? []).map(toOption)) } : {}),
+  };
+}
+
+export function toDiscordPayload(cmd: BotCommand): DiscordCommandPayload {
+  const known = cmd.permissions.filter((k): k is PermissionKey => k in PERMISSION_BY_KEY);
+  const default_member_permissions = known.length > 0 ? permissionBitfield(known).toString() : null;
+  if (cmd.kind === 'context_menu') {
+    return { type: cmd.target === 'message' ? 3 : 2, name: cmd.name.slice(0, 32), description: '', default_member_permissions };
+  }
+  const options = requiredFirst(cmd.options.map(toOption));
+  return {
+    type: 1,
+    name: commandName(cmd.name),
+    description: description(cmd.description, cmd.name),
+    ...(options.length ? { options } : {}),
+    default_member_permissions,
+  };
+}
+
+/** Payloads for every slash and context menu command — prefix commands are not registered */
+export function manifestPayloads(manifest: CommandManifest): DiscordCommandPayload[] {
+  return manifest.commands.filter(c => c.kind !== 'prefix').map(toDiscordPayload);
+}
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+const keyOf = (c: { type: number; name: string }) => `${c.type}:${c.name}`;
+
+// Discord omits `required: false` and echoes choice values in its own types, so
+// compare a normalized shape. Choices are compared by name only.
+function normalizeOptions(options: DiscordCommandOption[] | undefined): unknown {
+  return (options ?? []).map(o => ({
+    type: o.type,
+    name: o.name,
+    description: o.description,
+    required: !!o.required,
+    choices: (o.choices ?? []).map(c => c.name),
+    options: normalizeOptions(o.options),
+  }));
+}
+
+export function diffCommands(desired: DiscordCommandPayload[], registered: RegisteredCommand[]): CommandDiff {
+  const remote = new Map(registered.map(c => [keyOf(c), c]));
+  const local = new Map(desired.map(c => [keyOf(c), c]));
+  const diff: CommandDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const [key, want] of local) {
+    const have = remote.get(key);
+    if (!have) { diff.added.push(want); continue; }
+    const fields: CommandChange['fields'] = [];
+    if (want.type === 1 && have.description !== want.description) fields.push('description');
+    if (JSON.stringify(normalizeOptions(have.options)) !== JSON.stringify(normalizeOptions(want.options))) fields.push('options');
+    if ((have.default_member_permissions ?? null) !== want.default_member_permissions) fields.push('default_member_permissions');
+    if (fields.length) diff.changed.push({ key, name: want.name, type: want.type, fields, before: have, after: want });
+    else diff.unchanged++;
+  }
+  for (const [key, have] of remote) if (!local.has(key)) diff.removed.push(have);
+  return diff;
+}
+
+export function diffIsEmpty(diff: CommandDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+async function request(path: string, init: RequestInit = {}): Promise<RegisteredCommand[]> {
+  const token = await auth.currentUser?.getIdToken();
+  const res = await fetch(`${API_BASE}/api/commands/${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Command registration request failed (${res.status})`);
+  }
+  const data = await res.json() as { commands: RegisteredCommand[] };
+  return data.commands;
+}
+
+export function fetchRegisteredCommands(projectId: string, scope: SyncScope): Promise<RegisteredCommand[]> {
+  return request(`${encodeURIComponent(projectId)}?scope=${scope}`);
+}
+
+/** Bulk-overwrite the scope's commands with `commands` and return what Discord now has */
+export function syncCommands(projectId: string, scope: SyncScope, commands: DiscordCommandPayload[]): Promise<RegisteredCommand[]> {
+  return request(`${encodeURIComponent(projectId)}/sync`, { method: 'POST', body: JSON.stringify({ scope, commands }) });
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const legacyDocs = new Map<string, Record<string, unknown>>();
+const deleted: string[] = [];
+
+vi.mock("@/lib/firebase", () => ({ auth: { currentUser: null }, db: {} }));
+vi.mock("firebase/firestore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("firebase/firestore")>()),
+  doc: (_db: unknown, _collection: string, id: string) => ({ id }),
+  getDoc: async (ref: { id: string }) => ({ exists: () => legacyDocs.has(ref.id), data: () => legacyDocs.get(ref.id) }),
+  deleteDoc: async (ref: { id: string }) => { deleted.push(ref.id); legacyDocs.delete(ref.id); },
+}));
+
+const { listEnvVars, legacyKeyName, mergeLegacyEnvDoc } = await import("./envVars");
+
+const TOKEN = "MTA4NzY1NDMyMTA5ODc2NTQzMg.GhIjKl.abcdefghijklmnopqrstuvwxyz0123456789AB";
+
+/** Fake secret store: GET lists what PUTs wrote */
+function mockSecretStore(initial: string[] = []) {
+  const stored = new Map(initial.map(key => [key, { key, scope: "shared", updated_at: "", preview: "••••" }]));
+  const puts: Array<Record<string, string>> = [];
+  vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit = {}) => {
+    if (init.method === "PUT") {
+      const body = JSON.parse(String(init.body)) as { values: Record<string, string> };
+      puts.push(body.values);
+      for (const key of Object.keys(body.values)) stored.set(key, { key, scope: "shared", updated_at: "", preview: "••••" });
+    }
+    return new Response(JSON.stringify({ vars: [...stored.values()] }), { status: 200 });
+  }));
+  return puts;
+}
+
+describe("mergeLegacyEnvDoc", () => {
+  it("merges both legacy shapes, newest screen winning, and drops empty values", () => {
+    expect(mergeLegacyEnvDoc({
+      vars: [{ key: "BOT_TOKEN", value: "old" }, { key: "PREFIX", value: "!" }],
+      updatedAt: "2024-01-01T00:00:00Z",
+      BOT_TOKEN: "new",
+      CLIENT_ID: "",
+      updated_at: "2024-06-01T00:00:00Z",
+    })).toEqual({ BOT_TOKEN: "new", PREFIX: "!" });
+  });
+});
+
+describe("listEnvVars legacy migration", () => {
+  beforeEach(() => {
+    legacyDocs.clear();
+    deleted.length = 0;
+  });
+
+  it("moves legacy values into the shared scope and deletes the plaintext", async () => {
+    legacyDocs.set("p1", { BOT_TOKEN: TOKEN, vars: [{ key: "PREFIX", value: "!" }] });
+    const puts = mockSecretStore();
+
+    const vars = await listEnvVars("p1");
+    expect(puts).toEqual([{ BOT_TOKEN: TOKEN, PREFIX: "!" }]);
+    expect(vars.map(v => v.key).sort()).toEqual(["BOT_TOKEN", "PREFIX"]);
+    expect(deleted).toEqual(["p1"]);
+  });
+
+  it("never overwrites keys the secret store already has", async () => {
+    legacyDocs.set("p2", { BOT_TOKEN: TOKEN, PREFIX: "!" });
+    const puts = mockSecretStore(["BOT_TOKEN"]);
+
+    await listEnvVars("p2");
+    expect(puts).toEqual([{ PREFIX: "!" }]);
+    expect(deleted).toEqual(["p2"]);
+  });
+
+  it("renames keys the store would reject instead of leaving them behind", async () => {
+    legacyDocs.set("p3", { vars: [{ key: "api-key", value: "abc" }, { key: "2fa", value: "on" }, { key: "Prefix", value: "!" }] });
+    const puts = mockSecretStore(["PREFIX"]);
+
+    await listEnvVars("p3");
+    expect(puts).toEqual([{ API_KEY: "abc", _2FA: "on" }]);
+    expect(deleted).toEqual(["p3"]);
+  });
+
+  it("prefers a well-formed name when two legacy keys normalise to the same one", async () => {
+    legacyDocs.set("p4", { vars: [{ key: "api.key", value: "old" }, { key: "API_KEY", value: "new" }] });
+    const puts = mockSecretStore();
+
+    await listEnvVars("p4");
+    expect(puts).toEqual([{ API_KEY: "new" }]);
+    expect(deleted).toEqual(["p4"]);
+  });
+
+  it("keeps a malformed credential under a LEGACY_ name", async () => {
+    legacyDocs.set("p5", { BOT_TOKEN: "not-a-token", PREFIX: "!" });
+    const puts = mockSecretStore();
+
+    await listEnvVars("p5");
+    expect(puts).toEqual([{ LEGACY_BOT_TOKEN: "not-a-token", PREFIX: "!" }]);
+    expect(deleted).toEqual(["p5"]);
+  });
+});
+
+describe("legacyKeyName", () => {
+  it("upper-cases names and replaces characters the store rejects", () => {
+    expect(legacyKeyName("api-key")).toBe("API_KEY");
+    expect(legacyKeyName(" my.var ")).toBe("MY_VAR");
+    expect(legacyKeyName("2fa")).toBe("_2FA");
+    expect(legacyKeyName("BOT_TOKEN")).toBe("BOT_TOKEN");
+  });
+});
@@ -0,0 +1,228 @@
+// =============================================================================
+// Env Vars — the one schema for bot environment variables and secrets
+// =============================================================================
+// Values are encrypted at rest by the backend with a per-project data key
+// (envelope encryption; the data key itself is wrapped by the service KMS key)
+// and are only decrypted when the deploy service injects them into the bot
+// container. The browser can set and delete values but never read them back —
+// it only ever sees key names, scopes, update times and masked previews.
+//
+//   GET    /api/secrets/:projectId                  → { vars: EnvVarMeta[] }
+//   PUT    /api/secrets/:projectId                  { scope, values } → { vars }
+//   DELETE /api/secrets/:projectId/:key?scope=…     → { vars }
+//
+// Every variable lives in exactly one scope. `shared` values apply everywhere;
+// a `development` or `production` value with the same key overrides it in that
+// environment (e.g. a test GUILD_ID for the playground, the live one for hosting).
+
+import { doc, getDoc, deleteDoc, Timestamp } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EnvScope = 'shared' | 'development' | 'production';
+export type EnvTarget = Exclude<EnvScope, 'shared'>;
+
+export const ENV_SCOPES: EnvScope[] = ['shared', 'development', 'production'];
+
+export interface EnvVarMeta {
+  key: string;
+  scope: EnvScope;
+  updated_at: string;
+  /**
+   * Masked value, e.g. `MTA4••••••••x9Qk`. Application and guild IDs are
+   * public identifiers, so for those keys the preview is the full value
+   * (the invite URL builder needs the client ID).
+   */
+  preview: string;
+}
+
+/** Keys the Cloud panel manages as credentials rather than free-form variables */
+export const CREDENTIAL_KEYS = ['BOT_TOKEN', 'CLIENT_ID', 'GUILD_ID'];
+
+// =============================================================================
+// VALIDATION — mirrored by the backend, which rejects invalid writes with 400
+// =============================================================================
+
+const KEY_NAME_RE = /^[A-Z_][A-Z0-9_]*$/;
+const SNOWFLAKE_RE = /^\d{17,20}$/;
+// Three base64url segments: user id, timestamp, HMAC
+const BOT_TOKEN_RE = /^[A-Za-z0-9_-]{23,28}\.[A-Za-z0-9_-]{6,7}\.[A-Za-z0-9_-]{27,40}$/;
+
+const TYPED_KEYS: Record<string, { re: RegExp; message: string }> = {
+  BOT_TOKEN: {
+    re: BOT_TOKEN_RE,
+    message: 'Bot token should look like three dot-separated segments. Copy it from Developer Portal → Bot → Reset Token.',
+  },
+  CLIENT_ID: {
+    re: SNOWFLAKE_RE,
+    message: 'Client ID must be a 17–20 digit number. Find it under Developer Portal → General Information.',
+  },
+  GUILD_ID: {
+    re: SNOWFLAKE_RE,
+    message: 'Guild ID must be a 17–20 digit number. Right-click your server in Discord → Copy Server ID.',
+  },
+};
+
+/** Returns an error message, or null when the key/value pair is acceptable */
+export function validateEnvVar(key: string, value: string): string | null {
+  if (!KEY_NAME_RE.test(key)) return 'Use UPPER_SNAKE_CASE for variable names (letters, digits and underscores).';
+  const typed = TYPED_KEYS[key];
+  if (typed && !typed.re.test(value.trim())) return typed.message;
+  return null;
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+/**
+ * The effective variables for one environment: scoped entries override
+ * shared ones with the same key. Sorted by key.
+ */
+export function resolveEnvVars(vars: EnvVarMeta[], target: EnvTarget): EnvVarMeta[] {
+  const byKey = new Map<string, EnvVarMeta>();
+  for (const v of vars) if (v.scope === 'shared') byKey.set(v.key, v);
+  for (const v of vars) if (v.scope === target) byKey.set(v.key, v);
+  return [...byKey.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export function findEnvVar(vars: EnvVarMeta[], key: string, target: EnvTarget = 'production'): EnvVarMeta | undefined {
+  return vars.find(v => v.key === key && v.scope === target) ?? vars.find(v => v.key === key && v.scope === 'shared');
+}
+
+// =============================================================================
+// LEGACY MIGRATION
+// =============================================================================
+// Before the secret store, `projectEnvVars/{projectId}` held plaintext in two
+// incompatible shapes: bot settings wrote `{ vars: [{ key, value }], updatedAt }`
+// and the Cloud panel wrote flat `{ BOT_TOKEN, CLIENT_ID, GUILD_ID, updated_at }`.
+// Those documents stay owner-readable (firestore.rules) so the owner's browser
+// can move them: the first listEnvVars() for a project merges the legacy
+// document, writes every key the secret store doesn't have yet into `shared`
+// and then deletes the plaintext. The old settings screen accepted any key
+// name, so names are normalised on the way in rather than left behind.
+
+export interface LegacyEnvDoc {
+  vars?: Array<{ key: string; value: string }>;
+  updatedAt?: Timestamp | string;
+  updated_at?: string;
+  [flatKey: string]: unknown;
+}
+
+function legacyTime(v: unknown): number {
+  if (!v) return 0;
+  if (v instanceof Timestamp) return v.toMillis();
+  const t = new Date(String(v)).getTime();
+  return isNaN(t) ? 0 : t;
+}
+
+/**
+ * Merge both legacy shapes into one key → value map. When a key exists in
+ * both, the value from whichever screen saved last wins; on a tie the flat
+ * value wins because the deploy token gate read that shape.
+ */
+export function mergeLegacyEnvDoc(data: LegacyEnvDoc): Record<string, string> {
+  const fromArray: Record<string, string> = {};
+  for (const v of data.vars ?? []) {
+    if (v?.key && typeof v.value === 'string') fromArray[v.key.trim()] = v.value;
+  }
+  const flat: Record<string, string> = {};
+  for (const [k, v] of Object.entries(data)) {
+    if (k === 'vars' || k === 'updatedAt' || k === 'updated_at') continue;
+    if (typeof v === 'string') flat[k] = v;
+  }
+  const arrayIsNewer = legacyTime(data.updatedAt) > legacyTime(data.updated_at);
+  const merged = arrayIsNewer ? { ...flat, ...fromArray } : { ...fromArray, ...flat };
+  // Empty strings were written for unset optional fields (e.g. CLIENT_ID: '')
+  return Object.fromEntries(Object.entries(merged).filter(([, v]) => v.trim() !== ''));
+}
+
+/** A legacy key name the secret store accepts: `api-key` → `API_KEY`, `2fa` → `_2FA` */
+export function legacyKeyName(key: string): string {
+  const name = key.trim().toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+  return /^[A-Z_]/.test(name) ? name : `_${name}`;
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+async function request(path: string, init: RequestInit = {}): Promise<EnvVarMeta[]> {
+  const token = await auth.currentUser?.getIdToken();
+  const res = await fetch(`${API_BASE}/api/secrets/${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Secret store request failed (${res.status})`);
+  }
+  const data = await res.json() as { vars: EnvVarMeta[] };
+  return data.vars;
+}
+
+// Projects already checked for a legacy document this session
+const migrated = new Set<string>();
+
+/**
+ * Move a legacy plaintext document into the secret store, then delete it.
+ * Keys the store already has win. Names are normalised with legacyKeyName();
+ * a credential whose value the store would reject (a malformed BOT_TOKEN) is
+ * kept as `LEGACY_<KEY>` so the value isn't lost and the user can fix it.
+ */
+async function migrateLegacyEnvVars(projectId: string, current: EnvVarMeta[]): Promise<EnvVarMeta[]> {
+  const ref = doc(db, 'projectEnvVars', projectId);
+  const snap = await getDoc(ref);
+  if (!snap.exists()) return current;
+
+  const known = new Set(current.map(v => v.key));
+  const values: Record<string, string> = {};
+  // Well-formed names first, so `API_KEY` beats an `api-key` that normalises onto it
+  const legacy = Object.entries(mergeLegacyEnvDoc(snap.data() as LegacyEnvDoc))
+    .sort(([a], [b]) => Number(KEY_NAME_RE.test(b)) - Number(KEY_NAME_RE.test(a)));
+  for (const [raw, value] of legacy) {
+    let key = legacyKeyName(raw);
+    if (known.has(key)) continue;
+    if (validateEnvVar(key, value) !== null) key = `LEGACY_${key}`;
+    if (known.has(key) || key in values) continue;
+    values[key] = value;
+  }
+
+  const next = Object.keys(values).length > 0 ? await putEnvVars(projectId, 'shared', values) : current;
+  await deleteDoc(ref);
+  return next;
+}
+
+export async function listEnvVars(projectId: string): Promise<EnvVarMeta[]> {
+  const vars = await request(encodeURIComponent(projectId));
+  if (migrated.has(projectId)) return vars;
+  try {
+    const next = await migrateLegacyEnvVars(projectId, vars);
+    migrated.add(projectId);
+    return next;
+  } catch (err) {
+    // Listing must not fail because of the legacy document; try again next time
+    console.warn(`[envVars] Legacy migration for ${projectId} failed:`, err);
+    return vars;
+  }
+}
+
+/** Create or overwrite values in one scope. Invalid input is rejected before any network call. */
+export function putEnvVars(projectId: string, scope: EnvScope, values: Record<string, string>): Promise<EnvVarMeta[]> {
+  for (const [key, value] of Object.entries(values)) {
+    const problem = validateEnvVar(key, value);
+    if (problem) return Promise.reject(new Error(`${key}: ${problem}`));
+  }
+  const trimmed = Object.fromEntries(
+    Object.entries(values).map(([k, v]) => [k, TYPED_KEYS[k] ? v.trim() : v])
+  );
+  return request(encodeURIComponent(projectId), { method: 'PUT', body: JSON.stringify({ scope, values: trimmed }) });
+}
+
+export function deleteEnvVar(projectId: string, key: string, scope: EnvScope): Promise<EnvVarMeta[]> {
+  return request(`${encodeURIComponent(projectId)}/${encodeURIComponent(key)}?scope=${scope}`, { method: 'DELETE' });
+}
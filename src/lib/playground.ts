@@ -0,0 +1,344 @@
+// =============================================================================
+// Playground — run the workspace's bot against a simulated Discord guild
+// =============================================================================
+// The backend opens a discord-simulator session for the project (it holds the
+// simulator's service token):
+//
+//   POST /api/playground/:projectId/sessions   → { id, url }
+//
+// Everything after that talks to the session URL directly — the session id is
+// the capability, so no further auth is needed:
+//
+//   POST   {url}/run       { files }  start the bot in the sandbox → { id, language, entry, prefix }
+//   DELETE {url}/run                  stop it
+//   POST   {url}/actions   { step }   join / message / slash / click as a guild member
+//   GET    {url}/events?since=        SSE of everything the bot and the guild did
+//   GET    {url}                      guild snapshot (channels, members, roles, commands)
+//   DELETE {url}                      end the session
+//
+// The bot gets mock credentials and never reaches discord.com; replies,
+// moderation and crashes all come back as events. buildTimeline() folds them
+// into the channel view.
+
+import { auth } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+import type { BotCommand, CommandOption } from '@/lib/commandManifest';
+import { parseLogLine, type LogEntry } from '@/lib/botLogs';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PlaygroundSession {
+  id: string;
+  url: string;
+}
+
+export interface PlaygroundRun {
+  id: string;
+  language: 'python' | 'javascript';
+  entry: string;
+  /** Prefix detected in the bot's code, e.g. `!` */
+  prefix: string;
+}
+
+export interface PlaygroundUser {
+  id: string;
+  username: string;
+  global_name: string | null;
+  bot?: boolean;
+  roles?: string[];
+}
+
+export interface PlaygroundMessage {
+  id: string;
+  channel_id: string;
+  author: PlaygroundUser;
+  content: string;
+  embeds: PlaygroundEmbed[];
+  components: PlaygroundComponentRow[];
+  attachments: Array<{ id: string; filename: string }>;
+  flags: number;
+  timestamp: string;
+  edited_timestamp: string | null;
+}
+
+// https://discord.com/developers/docs/resources/message#embed-object
+export interface PlaygroundEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  author?: { name?: string };
+  footer?: { text?: string };
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+  thumbnail?: { url?: string };
+  image?: { url?: string };
+}
+
+// https://discord.com/developers/docs/interactions/message-components
+export interface PlaygroundComponent {
+  type: number;
+  custom_id?: string;
+  label?: string;
+  style?: number;
+  url?: string;
+  disabled?: boolean;
+  emoji?: { name?: string };
+  placeholder?: string;
+  options?: Array<{ label: string; value: string }>;
+}
+
+export interface PlaygroundComponentRow {
+  type: number;
+  components?: PlaygroundComponent[];
+}
+
+export interface PlaygroundChannel {
+  id: string;
+  name: string;
+}
+
+export interface PlaygroundSnapshot {
+  id: string;
+  ready: boolean;
+  bot: PlaygroundUser;
+  guild: { id: string; name: string };
+  channels: PlaygroundChannel[];
+  members: PlaygroundUser[];
+  roles: Array<{ id: string; name: string }>;
+  lastSeq: number;
+}
+
+/** One simulator event — see supabase/functions/discord-simulator/simulator.ts */
+export interface PlaygroundEvent {
+  seq: number;
+  at: number;
+  kind: string;
+  [key: string]: unknown;
+}
+
+export type PlaygroundAction =
+  | { type: 'join'; user: string; role?: string }
+  | { type: 'message'; user: string; content: string; channel?: string }
+  | { type: 'slash'; user: string; command: string; options?: Record<string, string | number | boolean>; channel?: string }
+  | { type: 'click'; user: string; customId: string };
+
+// =============================================================================
+// API
+// =============================================================================
+
+async function authHeaders() {
+  const token = await auth.currentUser?.getIdToken();
+  return { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+}
+
+async function sessionFetch<T>(url: string, init: RequestInit, failure: string): Promise<T> {
+  const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `${failure} (${res.status})`);
+  }
+  return await res.json() as T;
+}
+
+export async function createPlaygroundSession(projectId: string): Promise<PlaygroundSession> {
+  const res = await fetch(`${API_BASE}/api/playground/${encodeURIComponent(projectId)}/sessions`, {
+    method: 'POST',
+    headers: await authHeaders(),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Failed to open the playground (${res.status})`);
+  }
+  return await res.json() as PlaygroundSession;
+}
+
+export function startPlaygroundBot(session: PlaygroundSession, files: Array<{ file_path: string; content: string }>): Promise<PlaygroundRun> {
+  return sessionFetch(`${session.url}/run`, {
+    method: 'POST',
+    body: JSON.stringify({ files: files.map(f => ({ path: f.file_path, content: f.content })) }),
+  }, 'Failed to start the bot');
+}
+
+export async function stopPlaygroundBot(session: PlaygroundSession): Promise<void> {
+  await sessionFetch(`${session.url}/run`, { method: 'DELETE' }, 'Failed to stop the bot');
+}
+
+export async function performPlaygroundAction(session: PlaygroundSession, step: PlaygroundAction): Promise<PlaygroundSnapshot> {
+  const { snapshot } = await sessionFetch<{ snapshot: PlaygroundSnapshot }>(`${session.url}/actions`, {
+    method: 'POST',
+    body: JSON.stringify({ step }),
+  }, 'Action failed');
+  return snapshot;
+}
+
+export function fetchPlaygroundSnapshot(session: PlaygroundSession): Promise<PlaygroundSnapshot> {
+  return sessionFetch(session.url, { method: 'GET' }, 'Failed to load the simulated server');
+}
+
+export async function closePlaygroundSession(session: PlaygroundSession): Promise<void> {
+  await fetch(session.url, { method: 'DELETE' }).catch(() => {});
+}
+
+// =============================================================================
+// TIMELINE — events folded into what the channel view draws
+// =============================================================================
+
+export type TimelineItem =
+  | { kind: 'message'; key: string; channelId: string; message: PlaygroundMessage; fromBot: boolean; reactions: string[] }
+  | { kind: 'system'; key: string; channelId: string | null; text: string; tone: 'info' | 'moderation' }
+  | { kind: 'error'; key: string; channelId: string | null; title: string; detail?: string };
+
+/** Bot process lines plus its own start/stop notices, as log entries for the side pane */
+export function logEntryFor(event: PlaygroundEvent): LogEntry | null {
+  const ts = new Date(event.at).toISOString();
+  const id = `pg-${event.seq}`;
+  if (event.kind === 'log') {
+    return { ...parseLogLine(String(event.line ?? ''), event.stream === 'stderr' ? 'stderr' : 'stdout', new Date(event.at)), id };
+  }
+  if (event.kind === 'bot_started') return { id, ts, level: 'INFO', source: 'external', msg: `Starting ${event.entry} (${event.language})` };
+  if (event.kind === 'bot_stopped') {
+    const why = event.reason ?? (event.timedOut ? 'Run time limit reached' : `Exited with code ${event.exitCode ?? '?'}`);
+    return { id, ts, level: event.exitCode === 0 || event.reason === 'Stopped' ? 'INFO' : 'WARN', source: 'external', msg: `Bot stopped — ${why}` };
+  }
+  if (event.kind === 'ready') return { id, ts, level: 'INFO', source: 'external', msg: 'Gateway READY — bot is online' };
+  if (event.kind === 'api_error') return { id, ts, level: 'WARN', source: 'external', msg: `${event.method} ${event.path} → ${event.status} ${event.message}` };
+  return null;
+}
+
+const MODERATION_TEXT: Record<string, string> = {
+  ban: 'banned', unban: 'unbanned', kick: 'kicked', timeout: 'timed out', role_add: 'gave a role to', role_remove: 'removed a role from',
+};
+
+function errorItem(event: PlaygroundEvent): TimelineItem | null {
+  const key = `e-${event.seq}`;
+  switch (event.kind) {
+    case 'bot_error': {
+      const where = event.command ? ` in ${event.command}` : '';
+      return { kind: 'error', key, channelId: null, title: `${String(event.error).replace(/_/g, ' ')}${where}: ${event.message ?? 'unknown error'}`, detail: event.traceback as string | undefined };
+    }
+    case 'no_response':
+      return { kind: 'error', key, channelId: null, title: `The application did not respond to ${event.command}`, detail: 'Interactions must be answered (or deferred) within 3 seconds.' };
+    case 'unknown_command':
+    case 'missing_intent':
+      return { kind: 'error', key, channelId: null, title: String(event.message) };
+    case 'api_error':
+      return { kind: 'error', key, channelId: null, title: `Discord rejected ${event.method} ${event.path}`, detail: `${event.status} ${event.code ?? ''} ${event.message ?? ''}`.trim() };
+    default:
+      return null;
+  }
+}
+
+/** Rebuild the channel timeline from the full event list (events arrive in seq order) */
+export function buildTimeline(events: PlaygroundEvent[], members: PlaygroundUser[]): TimelineItem[] {
+  const items: TimelineItem[] = [];
+  const byMessageId = new Map<string, Extract<TimelineItem, { kind: 'message' }>>();
+  const byName = new Map(members.map(m => [m.username, m]));
+
+  for (const event of events) {
+    switch (event.kind) {
+      case 'user_message': {
+        const author = byName.get(String(event.user)) ?? { id: String(event.user), username: String(event.user), global_name: null };
+        const message: PlaygroundMessage = {
+          id: String(event.messageId), channel_id: String(event.channelId), author, content: String(event.content ?? ''),
+          embeds: [], components: [], attachments: [], flags: 0, timestamp: new Date(event.at).toISOString(), edited_timestamp: null,
+        };
+        const item = { kind: 'message' as const, key: `m-${message.id}`, channelId: message.channel_id, message, fromBot: false, reactions: [] };
+        byMessageId.set(message.id, item);
+        items.push(item);
+        break;
+      }
+      case 'reply': {
+        if (event.via === 'dm') {
+          items.push({ kind: 'system', key: `s-${event.seq}`, channelId: null, tone: 'info', text: `Bot sent a DM to ${event.to}: ${String(event.content ?? '') || '(embed)'}` });
+          break;
+        }
+        const message = event.message as PlaygroundMessage;
+        const existing = byMessageId.get(message.id);
+        if (existing) {
+          existing.message = message;
+          break;
+        }
+        const item = { kind: 'message' as const, key: `m-${message.id}`, channelId: message.channel_id, message, fromBot: true, reactions: [] };
+        byMessageId.set(message.id, item);
+        items.push(item);
+        break;
+      }
+      case 'message_delete': {
+        const target = byMessageId.get(String(event.messageId));
+        if (target) items.splice(items.indexOf(target), 1);
+        break;
+      }
+      case 'reaction': {
+        const target = byMessageId.get(String(event.messageId));
+        if (!target) break;
+        const emoji = decodeURIComponent(String(event.emoji));
+        target.reactions = event.removed ? target.reactions.filter(r => r !== emoji) : [...new Set([...target.reactions, emoji])];
+        break;
+      }
+      case 'member_join':
+        items.push({ kind: 'system', key: `s-${event.seq}`, channelId: null, tone: 'info', text: `${event.user} joined the server` });
+        break;
+      case 'invoke':
+        if (!String(event.command).startsWith('button:')) {
+          items.push({ kind: 'system', key: `s-${event.seq}`, channelId: null, tone: 'info', text: `${event.user} used /${event.command}` });
+        }
+        break;
+      case 'moderation':
+        items.push({
+          kind: 'system', key: `s-${event.seq}`, channelId: null, tone: 'moderation',
+          text: `Bot ${MODERATION_TEXT[String(event.action)] ?? event.action} ${event.target}${event.role ? ` (${event.role})` : ''}${event.reason ? ` — ${event.reason}` : ''}`,
+        });
+        break;
+      case 'modal':
+        items.push({ kind: 'system', key: `s-${event.seq}`, channelId: null, tone: 'info', text: `Bot opened a modal: ${event.title ?? event.customId}` });
+        break;
+      default: {
+        const error = errorItem(event);
+        if (error) items.push(error);
+      }
+    }
+  }
+  return items;
+}
+
+/** Button custom ids the user can click, flattened out of the action rows */
+export function buttonsOf(message: PlaygroundMessage): PlaygroundComponent[] {
+  return message.components.flatMap(row => row.components ?? []).filter(c => c.type === 2);
+}
+
+// =============================================================================
+// SLASH COMMANDS — manifest → invocation
+// =============================================================================
+
+/** Every invocable path of a slash command: `/mod ban`, `/config set key`, or just `/ping` */
+export function slashLeaves(cmd: BotCommand): Array<{ path: string; options: CommandOption[] }> {
+  const subs = cmd.options.filter(o => o.type === 'subcommand' || o.type === 'subcommand_group');
+  if (subs.length === 0) return [{ path: cmd.name, options: cmd.options }];
+  return subs.flatMap(sub => sub.type === 'subcommand_group'
+    ? (sub.options ?? []).map(leaf => ({ path: `${cmd.name} ${sub.name} ${leaf.name}`, options: leaf.options ?? [] }))
+    : [{ path: `${cmd.name} ${sub.name}`, options: sub.options ?? [] }]);
+}
+
+/** Form strings → typed option values; blank optional fields are left out */
+export function slashOptionValues(options: CommandOption[], form: Record<string, string>): Record<string, string | number | boolean> {
+  const values: Record<string, string | number | boolean> = {};
+  for (const o of options) {
+    const raw = form[o.name]?.trim() ?? '';
+    if (!raw) {
+      if (o.required) throw new Error(`${o.name} is required`);
+      continue;
+    }
+    if (o.type === 'integer' || o.type === 'number') {
+      const n = Number(raw);
+      if (Number.isNaN(n)) throw new Error(`${o.name} must be a number`);
+      values[o.name] = o.type === 'integer' ? Math.trunc(n) : n;
+    } else if (o.type === 'boolean') {
+      values[o.name] = raw === 'true';
+    } else {
+      values[o.name] = raw;
+    }
+  }
+  return values;
+}
@@ -0,0 +1,230 @@
+// =============================================================================
+// Scenarios — the project's behavioural test suite for bots
+// =============================================================================
+// Tests live in the workspace as tests/scenarios/*.scenario, in the simulator's
+// line-based format (see supabase/functions/discord-simulator/scenario.ts):
+//
+//   # ban removes the member
+//   join alice
+//   tester: !ban @alice spamming
+//   expect ban @alice
+//   expect reply contains "banned"
+//
+// They get there three ways: recorded in the playground (recordScenario),
+// drafted by the AI from the command manifest (draftScenariosPrompt), or
+// written in chat. The pipeline replays them after every generation; the
+// deploy gate replays them here against a fresh playground session.
+
+import type { CommandManifest } from '@/lib/commandManifest';
+import type { ScenarioRunResult, ScenarioSuiteReport } from '@/lib/syncEngine';
+import {
+  closePlaygroundSession,
+  createPlaygroundSession,
+  startPlaygroundBot,
+  type PlaygroundAction,
+  type PlaygroundEvent,
+  type PlaygroundMessage,
+} from '@/lib/playground';
+
+export const SCENARIO_DIR = 'tests/scenarios/';
+
+// Install + READY in the sandbox, then a few seconds per scenario
+const SUITE_READY_TIMEOUT_MS = 120_000;
+
+// Longest `contains` snippet a recorded expectation keeps
+const MAX_SNIPPET = 40;
+
+export interface SuiteEntry {
+  file: string;
+  scenario: string;
+}
+
+/** An action performed while recording, with the event seq it was performed at */
+export interface RecordedStep {
+  action: PlaygroundAction;
+  seq: number;
+}
+
+// =============================================================================
+// SUITE FILES
+// =============================================================================
+
+export function isScenarioFile(path: string): boolean {
+  return path.replace(/^\/+/, '').startsWith(SCENARIO_DIR) && path.endsWith('.scenario');
+}
+
+export function suiteFiles(files: Array<{ file_path: string; content: string }>): SuiteEntry[] {
+  return files
+    .filter(f => isScenarioFile(f.file_path))
+    .map(f => ({ file: f.file_path.replace(/^\/+/, ''), scenario: f.content }))
+    .sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/** The first `# comment`, or the file name */
+export function scenarioName(entry: SuiteEntry): string {
+  const heading = entry.scenario.split('\n').map(l => l.trim()).find(l => l.length > 0);
+  if (heading?.startsWith('#')) return heading.replace(/^#+\s*/, '') || entry.file;
+  return entry.file.slice(entry.file.lastIndexOf('/') + 1).replace(/\.scenario$/, '');
+}
+
+/** `Ban removes the member!` → tests/scenarios/ban-removes-the-member.scenario */
+export function scenarioPath(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${SCENARIO_DIR}${slug || 'scenario'}.scenario`;
+}
+
+// =============================================================================
+// RECORDING — playground actions + what the bot did → scenario text
+// =============================================================================
+
+function actionLine(action: PlaygroundAction): string {
+  switch (action.type) {
+    case 'join':
+      return `join ${action.user}${action.role ? ` as ${action.role}` : ''}`;
+    case 'message':
+      return `${action.user}: ${action.content.replace(/\n/g, ' ')}`;
+    case 'slash': {
+      const options = Object.entries(action.options ?? {}).map(([k, v]) => (typeof v === 'string' ? `${k}:"${v.replace(/"/g, '')}"` : `${k}:${v}`));
+      return `${action.user}: /${[action.command, ...options].join(' ')}`;
+    }
+    case 'click':
+      return `${action.user} clicks ${action.customId}`;
+  }
+}
+
+/**
+ * A short piece of the reply that should survive small wording changes: the
+ * longest run of the first line without quotes or markdown (`contains` matches raw text)
+ */
+function snippetOf(message: PlaygroundMessage): string {
+  const text = message.content.trim() || message.embeds[0]?.title || message.embeds[0]?.description || '';
+  const runs = text.split('\n')[0].split(/["*_`~|<>]/).map(r => r.trim());
+  const line = runs.reduce((best, r) => (r.length > best.length ? r : best), '');
+  if (line.length <= MAX_SNIPPET) return line;
+  const cut = line.slice(0, MAX_SNIPPET);
+  return cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : MAX_SNIPPET).trim();
+}
+
+/** What the bot did between two actions, as expect lines */
+function expectLines(events: PlaygroundEvent[]): string[] {
+  const lines: string[] = [];
+  for (const event of events) {
+    if (event.kind === 'moderation') lines.push(`expect ${event.action} @${event.target}`);
+  }
+  const reply = events.find(e => e.kind === 'reply' && !e.edited && e.via !== 'dm');
+  if (reply) {
+    const message = reply.message as PlaygroundMessage;
+    const snippet = snippetOf(message);
+    const bits = [message.embeds.length > 0 && !message.content.trim() ? 'expect embed' : 'expect reply'];
+    if (snippet) bits.push(`contains "${snippet}"`);
+    if (reply.ephemeral) bits.push('ephemeral');
+    lines.push(bits.join(' '));
+  } else if (lines.length === 0) {
+    lines.push('expect no reply');
+  }
+  return lines;
+}
+
+/** Turn a playground recording into scenario text: each action followed by what the bot did about it */
+export function recordScenario(name: string, steps: RecordedStep[], events: PlaygroundEvent[]): string {
+  const lines = [`# ${name.trim() || 'Recorded scenario'}`];
+  steps.forEach((step, i) => {
+    const until = steps[i + 1]?.seq ?? Infinity;
+    lines.push(actionLine(step.action));
+    // Joins rarely get an answer worth pinning down
+    const after = events.filter(e => e.seq > step.seq && e.seq <= until);
+    if (step.action.type !== 'join' || after.some(e => e.kind === 'reply' || e.kind === 'moderation')) lines.push(...expectLines(after));
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+// =============================================================================
+// RUNNING
+// =============================================================================
+
+interface SimulatorScenarioResult {
+  file: string;
+  name?: string;
+  passed: boolean;
+  error?: string;
+  steps: Array<{ index: number; passed: boolean; detail?: string }>;
+}
+
+function toRunResult(result: SimulatorScenarioResult, baseline: Set<string>): ScenarioRunResult {
+  const failed = result.steps.find(s => !s.passed);
+  return {
+    file: result.file,
+    name: result.name ?? result.file,
+    passed: result.passed,
+    regression: !result.passed && baseline.has(result.file),
+    failure: result.passed ? undefined : failed ? `Step ${failed.index + 1}: ${failed.detail ?? 'failed'}` : result.error ?? 'Failed',
+  };
+}
+
+/**
+ * Boot the bot in a throwaway playground session and play the suite against it.
+ * @param previous the last generation's report — scenarios that passed there and fail now are regressions
+ */
+export async function runScenarioSuite(
+  projectId: string,
+  files: Array<{ file_path: string; content: string }>,
+  previous?: ScenarioSuiteReport | null,
+): Promise<ScenarioSuiteReport> {
+  const start = Date.now();
+  const suite = suiteFiles(files);
+  if (suite.length === 0) return { status: 'skipped', reason: `No scenarios in ${SCENARIO_DIR}`, results: [], durationMs: 0 };
+
+  const session = await createPlaygroundSession(projectId);
+  try {
+    await startPlaygroundBot(session, files);
+    const res = await fetch(`${session.url}/suite`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scenarios: suite, readyTimeoutMs: SUITE_READY_TIMEOUT_MS }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.error || `Failed to run the tests (${res.status})`);
+    }
+    const { results } = await res.json() as { results: SimulatorScenarioResult[] };
+    const baseline = new Set((previous?.results ?? []).filter(r => r.passed).map(r => r.file));
+    const mapped = results.map(r => toRunResult(r, baseline));
+    return { status: mapped.every(r => r.passed) ? 'passed' : 'failed', results: mapped, durationMs: Date.now() - start };
+  } finally {
+    await closePlaygroundSession(session);
+  }
+}
+
+// =============================================================================
+// CHAT PROMPTS
+// =============================================================================
+
+/** Ask the AI to fix the bot (not the tests) so the failing scenarios pass again */
+export function regressionRepairPrompt(report: ScenarioSuiteReport): string {
+  const failing = report.results.filter(r => !r.passed);
+  const lines = failing.map(r => `- ${r.file} (${r.name}): ${r.failure ?? 'failed'}`);
+  return [
+    `${failing.length === 1 ? 'This test fails' : `These ${failing.length} tests fail`} against the current code:`,
+    ...lines,
+    '',
+    `Fix the bot so they pass again. Don't change anything in ${SCENARIO_DIR} — the tests describe the behaviour I want.`,
+  ].join('\n');
+}
+
+/**
+ * Ask the AI to write one scenario per command from the manifest.
+ * Context-menu commands are left out — scenarios can't invoke them.
+ */
+export function draftScenariosPrompt(manifest: CommandManifest, existing: SuiteEntry[], prefix = '!'): string {
+  const commands = manifest.commands
+    .filter(c => c.kind !== 'context_menu')
+    .map(c => `- ${c.kind === 'slash' ? '/' : prefix}${c.name}${c.description ? ` — ${c.description}` : ''}`);
+  return [
+    `Write behavioural tests for my bot in ${SCENARIO_DIR}, one .scenario file per command:`,
+    ...commands,
+    '',
+    'Each test should use the command the way a member would and check the reply (or the moderation action) it should produce.',
+    existing.length > 0 ? `Keep the existing tests (${existing.map(e => e.file).join(', ')}) as they are and don't duplicate them.` : '',
+    "Only add test files — don't change the bot's code.",
+  ].filter(Boolean).join('\n');
+}
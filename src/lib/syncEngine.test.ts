@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { applyPatch, applyPatches } from "./syncEngine";
+
+const SRC = [
+  "function a() {",
+  "    const x = 1;",
+  "    return x;",
+  "}",
+  "",
+  "function b() {",
+  "    const x = 1;",
+  "    return x;",
+  "}",
+  "",
+].join("\n");
+
+describe("applyPatch", () => {
+  it("applies an exact match", () => {
+    const result = applyPatch(SRC, { search: "function b() {", replace: "function c() {" });
+    expect(result).toMatchObject({ status: "applied", confidence: 1, line: 6, candidates: [6] });
+    expect(result.status !== "failed" && result.content).toContain("function c() {");
+  });
+
+  it("aligns lines ignoring indentation and shifts the replacement", () => {
+    const result = applyPatch(SRC, {
+      search: "  const x = 1;\n  return x;",
+      replace: "  return 1;",
+      context: "function b() {\n  const x = 1;",
+    });
+    expect(result.status).toBe("fuzzy");
+    if (result.status === "failed") return;
+    expect(result.confidence).toBeGreaterThan(0.9);
+    expect(result.confidence).toBeLessThan(1);
+    expect(result.content).toBe(SRC.replace("function b() {\n    const x = 1;\n    return x;", "function b() {\n    return 1;"));
+  });
+
+  it("fails as ambiguous when the search matches several places and there is no context", () => {
+    const result = applyPatch(SRC, { search: "const x = 1;", replace: "const x = 2;" });
+    expect(result).toMatchObject({ status: "failed", reason: "ambiguous", candidates: [2, 7] });
+  });
+
+  it("uses context to pick between several matches", () => {
+    const result = applyPatch(SRC, { search: "const x = 1;", replace: "const x = 2;", context: "function a() {\n  const x = 1;" });
+    expect(result).toMatchObject({ status: "applied", line: 2, candidates: [2, 7] });
+    if (result.status === "failed") return;
+    expect(result.content.indexOf("const x = 2;")).toBeLessThan(result.content.indexOf("function b"));
+  });
+
+  it("stays ambiguous when the context fits every match equally", () => {
+    const result = applyPatch(SRC, { search: "const x = 1;", replace: "", context: "return x;" });
+    expect(result).toMatchObject({ status: "failed", reason: "ambiguous" });
+  });
+
+  it("keeps CRLF line endings when matching fuzzily", () => {
+    const result = applyPatch("a\r\n    b\r\nc\r\n", { search: "a\n  b", replace: "a\n  B" });
+    expect(result).toMatchObject({ status: "fuzzy", content: "a\r\n  B\r\nc\r\n" });
+  });
+
+  it("rejects matches that only line up once whitespace runs are collapsed", () => {
+    const result = applyPatch(SRC, { search: "const  x  =  1;\nreturn   x;", replace: "return 1;", context: "function a() {" });
+    expect(result).toMatchObject({ status: "failed", reason: "low_confidence", confidence: 0.6 });
+    expect(applyPatch(SRC, { search: "const  x  =  1;\nreturn   x;", replace: "return 1;", context: "function a() {" }, { minConfidence: 0.5 }).status).toBe("fuzzy");
+  });
+
+  it("reports empty and missing search text", () => {
+    expect(applyPatch(SRC, { search: "  ", replace: "x" })).toMatchObject({ status: "failed", reason: "empty_search" });
+    expect(applyPatch(SRC, { search: "nope", replace: "x" })).toMatchObject({ status: "failed", reason: "not_found", confidence: 0 });
+  });
+});
+
+describe("applyPatches", () => {
+  it("applies patches in order, each seeing the previous result", () => {
+    const result = applyPatches(SRC, [
+      { search: "function b() {", replace: "function c() {" },
+      { search: "  return x;\n}", replace: "  return 0;\n}", context: "function c() {\n  const x = 1;\n  return x;\n}" },
+    ]);
+    expect(result.status).toBe("applied");
+    expect(result.results).toHaveLength(2);
+    expect(result.content).toContain("function c() {\n    const x = 1;\n    return 0;\n}");
+  });
+
+  it("is all or nothing and stops at the first failure", () => {
+    const result = applyPatches(SRC, [
+      { search: "function b() {", replace: "function c() {" },
+      { search: "nope", replace: "" },
+      { search: "function a() {", replace: "function z() {" },
+    ]);
+    expect(result.content).toBeNull();
+    expect(result.status).toBe("failed");
+    expect(result.results.map(r => r.status)).toEqual(["applied", "failed"]);
+  });
+});
@@ -4,22 +4,20 @@
 // This is the bridge between AI output and application state.
 // All file mutations flow through this engine.
 
+import type { SearchReplacePatch } from '../../supabase/functions/_shared/patchEngine.ts';
+
 // =============================================================================
 // COMMAND PROTOCOL TYPES
 // =============================================================================
 
 export type CommandType = "CREATE_FILE" | "UPDATE_FILE" | "DELETE_FILE" | "PATCH_FILE";
 
-export interface SearchReplacePatch {
-  search: string;
-  replace: string;
-  context?: string; // optional surrounding context for disambiguation
-}
+export type { SearchReplacePatch } from '../../supabase/functions/_shared/patchEngine.ts';
 
 export interface FileCommand {
   command: CommandType;
   path: string;
-  content?: string;             // full content for CREATE/UPDATE
+  content?: string;             // full content for CREATE/UPDATE; fallback for PATCH_FILE
   patches?: SearchReplacePatch[]; // for PATCH_FILE
   metadata?: {
     language?: string;
@@ -49,6 +47,38 @@ export interface FileEvent {
   patches?: SearchReplacePatch[];
 }
 
+/** Rubric score for the generated project — see pipeline/scoring.ts */
+export interface QualityCriterion {
+  id: string;
+  label: string;
+  weight: number;
+  status: "pass" | "fail" | "skip";
+  detail?: string;
+}
+
+export interface QualityReport {
+  projectType: "web" | "bot";
+  score: number;
+  breakdown: QualityCriterion[];
+}
+
+/** Outcome of the project's tests/scenarios/ suite — see pipeline/stages/regress.ts */
+export interface ScenarioRunResult {
+  file: string;
+  name: string;
+  passed: boolean;
+  /** Passed on the previous generation and fails now */
+  regression: boolean;
+  failure?: string;
+}
+
+export interface ScenarioSuiteReport {
+  status: "passed" | "failed" | "skipped";
+  reason?: string;
+  results: ScenarioRunResult[];
+  durationMs: number;
+}
+
 export interface CompleteEvent {
   type: "complete";
   filesGenerated: number;
@@ -59,6 +89,8 @@ export interface CompleteEvent {
   modelsUsed: string[];
   validationPassed: boolean;
   repairAttempts: number;
+  quality?: QualityReport;
+  scenarios?: ScenarioSuiteReport;
   telemetry?: Record<string, unknown>;
 }
 
@@ -73,49 +105,12 @@ export type SyncEvent = StageEvent | FileEvent | CompleteEvent | ErrorEvent;
 // =============================================================================
 // PATCH ENGINE - Search-and-Replace diffing
 // =============================================================================
+// Shared with the generation pipeline — see supabase/functions/_shared/patchEngine.ts
 
-/**
- * Apply a single search-and-replace patch to file content.
- * Returns the patched content, or null if the search string wasn't found.
- */
-export function applyPatch(content: string, patch: SearchReplacePatch): string | null {
-  const index = content.indexOf(patch.search);
-  if (index === -1) {
-    // Try with whitespace normalization as fallback
-    const normalizedContent = content.replace(/\s+/g, ' ');
-    const normalizedSearch = patch.search.replace(/\s+/g, ' ');
-    const normalizedIndex = normalizedContent.indexOf(normalizedSearch);
-    
-    if (normalizedIndex === -1) {
-      return null; // Search string not found
-    }
-    
-    // Find the original boundaries in the non-normalized content
-    // Fall back to full replacement
-    return content.replace(patch.search.trim(), patch.replace.trim());
-  }
-  
-  return content.slice(0, index) + patch.replace + content.slice(index + patch.search.length);
-}
-
-/**
- * Apply multiple patches sequentially to file content.
- * If any patch fails, falls back to returning null (caller should use full replacement).
- */
-export function applyPatches(content: string, patches: SearchReplacePatch[]): string | null {
-  let result = content;
-  
-  for (const patch of patches) {
-    const patched = applyPatch(result, patch);
-    if (patched === null) {
-      console.warn(`[SyncEngine] Patch failed - search string not found in file`);
-      return null; // Signal that patches couldn't be applied
-    }
-    result = patched;
-  }
-  
-  return result;
-}
+export { applyPatch, applyPatches } from '../../supabase/functions/_shared/patchEngine.ts';
+export type {
+  PatchStatus, PatchFailureReason, PatchResult, PatchSetResult, PatchOptions,
+} from '../../supabase/functions/_shared/patchEngine.ts';
 
 // =============================================================================
 // TREE RESOLVER - Ensures parent folders exist before file insertion
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { diffHunks, diffSnapshots, mergeText, revertHunk } from "./versionDiff";
+
+const BEFORE = ["import discord", "", "def balance():", "    return 0", "", "def pay():", "    pass", ""].join("\n");
+const AFTER = ["import discord", "import sqlite3", "", "def balance():", "    return db.get()", "", "def pay():", "    pass", "", "def leaderboard():", "    return []", ""].join("\n");
+
+describe("diffHunks", () => {
+  it("splits a change into contiguous runs of changed lines", () => {
+    const hunks = diffHunks(BEFORE, AFTER);
+    expect(hunks.map(h => ({ start: h.start, removed: h.removed, added: h.added }))).toEqual([
+      { start: 1, removed: [], added: ["import sqlite3"] },
+      { start: 4, removed: ["    return 0"], added: ["    return db.get()"] },
+      { start: 8, removed: [], added: ["", "def leaderboard():", "    return []"] },
+    ]);
+  });
+
+  it("finds nothing to revert in identical content", () => {
+    expect(diffHunks(BEFORE, BEFORE)).toEqual([]);
+  });
+});
+
+describe("revertHunk", () => {
+  it("undoes one hunk and leaves the others in place", () => {
+    const hunks = diffHunks(BEFORE, AFTER);
+    const reverted = revertHunk(AFTER, hunks[1]);
+    expect(reverted).toContain("    return 0");
+    expect(reverted).toContain("import sqlite3");
+    expect(reverted).toContain("def leaderboard():");
+    expect(diffHunks(BEFORE, reverted)).toHaveLength(2);
+  });
+
+  it("round-trips: reverting every hunk, last first, restores the original", () => {
+    const hunks = diffHunks(BEFORE, AFTER);
+    const restored = [...hunks].reverse().reduce((content, hunk) => revertHunk(content, hunk), AFTER);
+    expect(restored).toBe(BEFORE);
+  });
+
+  it("round-trips deletions", () => {
+    const after = BEFORE.replace("def pay():\n    pass\n", "");
+    const [hunk] = diffHunks(BEFORE, after);
+    expect(revertHunk(after, hunk)).toBe(BEFORE);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("lists added, removed and modified files, ignoring leading slashes", () => {
+    const changes = diffSnapshots(
+      [{ path: "/bot.py", content: BEFORE }, { path: "old.py", content: "x" }],
+      [{ path: "bot.py", content: AFTER }, { path: "new.py", content: "y" }],
+    );
+    expect(changes.map(c => [c.path, c.status])).toEqual([["bot.py", "modified"], ["new.py", "added"], ["old.py", "removed"]]);
+  });
+});
+
+describe("mergeText", () => {
+  const base = "one\ntwo\nthree\nfour\nfive";
+
+  it("combines edits to different lines", () => {
+    const ours = "ONE\ntwo\nthree\nfour\nfive";
+    const theirs = "one\ntwo\nthree\nfour\nFIVE";
+    expect(mergeText(base, ours, theirs)).toBe("ONE\ntwo\nthree\nfour\nFIVE");
+  });
+
+  it("combines edits to adjacent lines", () => {
+    const ours = "one\nTWO\nthree\nfour\nfive";
+    const theirs = "one\ntwo\nTHREE\nfour\nfive";
+    expect(mergeText(base, ours, theirs)).toBe("one\nTWO\nTHREE\nfour\nfive");
+  });
+
+  it("keeps one copy of an identical edit made on both sides", () => {
+    const ours = "one\nTWO\nthree\nfour\nFIVE";
+    const theirs = "one\nTWO\nthree\nfour\nfive";
+    expect(mergeText(base, ours, theirs)).toBe("one\nTWO\nthree\nfour\nFIVE");
+  });
+
+  it("returns either side when only one changed or both match", () => {
+    const ours = "one\nTWO\nthree\nfour\nfive";
+    expect(mergeText(base, ours, base)).toBe(ours);
+    expect(mergeText(base, base, ours)).toBe(ours);
+    expect(mergeText(base, ours, ours)).toBe(ours);
+  });
+
+  it("returns null when both sides change the same line differently", () => {
+    const ours = "one\nTWO\nthree\nfour\nfive";
+    const theirs = "one\ndeux\nthree\nfour\nfive";
+    expect(mergeText(base, ours, theirs)).toBeNull();
+  });
+
+  it("returns null when edits overlap", () => {
+    const ours = "one\nTWO\nTHREE\nfour\nfive";
+    const theirs = "one\ntwo\ntrois\nquatre\nfive";
+    expect(mergeText(base, ours, theirs)).toBeNull();
+  });
+
+  it("returns null when both sides insert different lines at the same spot", () => {
+    const ours = "one\ntwo\nours\nthree\nfour\nfive";
+    const theirs = "one\ntwo\ntheirs\nthree\nfour\nfive";
+    expect(mergeText(base, ours, theirs)).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+// =============================================================================
+// Version diff — what changed between two snapshots, and undoing part of it
+// =============================================================================
+// A snapshot is a FileVersion's files or the live workspace. diffSnapshots
+// lists the files that differ; diffHunks splits one file's change into the
+// contiguous runs of changed lines, each of which can be reverted on its own
+// (revertHunk) — keep the new /leaderboard command, undo the edit to economy.py.
+// mergeText combines two edits of the same file when they touch different lines.
+// The line diff itself is shared with the pipeline (_shared/lineDiff.ts).
+
+import { diffLines } from '../../supabase/functions/_shared/lineDiff.ts';
+
+export interface SnapshotFile {
+  path: string;
+  content: string;
+}
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  /** Content in the older snapshot; null when the file was added */
+  before: string | null;
+  /** Content in the newer snapshot; null when the file was removed */
+  after: string | null;
+  additions: number;
+  deletions: number;
+}
+
+/** One run of changed lines. `start` is 0-based in the newer content. */
+export interface DiffHunk {
+  index: number;
+  start: number;
+  beforeStart: number;
+  removed: string[];
+  added: string[];
+}
+
+const normalize = (path: string) => path.replace(/^\/+/, '');
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/** Files that differ between two snapshots, sorted by path */
+export function diffSnapshots(older: SnapshotFile[], newer: SnapshotFile[]): FileChange[] {
+  const before = new Map(older.map(f => [normalize(f.path), f.content]));
+  const after = new Map(newer.map(f => [normalize(f.path), f.content]));
+  const changes: FileChange[] = [];
+
+  for (const path of new Set([...before.keys(), ...after.keys()])) {
+    const a = before.get(path) ?? null;
+    const b = after.get(path) ?? null;
+    if (a === b) continue;
+    const hunks = diffHunks(a ?? '', b ?? '');
+    changes.push({
+      path,
+      status: a === null ? 'added' : b === null ? 'removed' : 'modified',
+      before: a,
+      after: b,
+      additions: b === null ? 0 : a === null ? b.split('\n').length : hunks.reduce((n, h) => n + h.added.length, 0),
+      deletions: a === null ? 0 : b === null ? a.split('\n').length : hunks.reduce((n, h) => n + h.removed.length, 0),
+    });
+  }
+  return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
+
+// =============================================================================
+// HUNKS
+// =============================================================================
+
+export function diffHunks(before: string, after: string): DiffHunk[] {
+  const ops = diffLines(before.split('\n'), after.split('\n'));
+  const hunks: DiffHunk[] = [];
+  let oldLine = 0, newLine = 0;
+  let current: DiffHunk | null = null;
+
+  for (const op of ops) {
+    if (op.t === ' ') {
+      current = null;
+      oldLine++;
+      newLine++;
+      continue;
+    }
+    if (!current) {
+      current = { index: hunks.length, start: newLine, beforeStart: oldLine, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (op.t === '-') { current.removed.push(op.line); oldLine++; }
+    else { current.added.push(op.line); newLine++; }
+  }
+  return hunks;
+}
+
+/** Put one hunk of `after` back the way it was. Hunks must come from diffHunks(before, after). */
+export function revertHunk(after: string, hunk: DiffHunk): string {
+  const lines = after.split('\n');
+  lines.splice(hunk.start, hunk.added.length, ...hunk.removed);
+  return lines.join('\n');
+}
+
+/** "Lines 12–18" style label for a hunk, in the newer content's numbering */
+export function hunkRange(hunk: DiffHunk): string {
+  if (hunk.added.length === 0) return `After line ${hunk.start}`;
+  if (hunk.added.length === 1) return `Line ${hunk.start + 1}`;
+  return `Lines ${hunk.start + 1}–${hunk.start + hunk.added.length}`;
+}
+
+// =============================================================================
+// MERGE
+// =============================================================================
+
+/**
+ * Line-level three-way merge of two edits of `base`. Returns null when both
+ * sides changed the same lines (or inserted at the same spot) differently.
+ */
+export function mergeText(base: string, ours: string, theirs: string): string | null {
+  if (ours === theirs || theirs === base) return ours;
+  if (ours === base) return theirs;
+
+  const lines = base.split('\n');
+  const edits = [...diffHunks(base, ours), ...diffHunks(base, theirs)]
+    .map(h => ({ start: h.beforeStart, end: h.beforeStart + h.removed.length, added: h.added }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const out: string[] = [];
+  let cursor = 0;
+  let last: (typeof edits)[number] | null = null;
+  for (const edit of edits) {
+    if (last && (edit.start < last.end || edit.start === last.start)) {
+      const same = edit.start === last.start && edit.end === last.end && edit.added.join('\n') === last.added.join('\n');
+      if (same) continue;
+      return null;
+    }
+    out.push(...lines.slice(cursor, edit.start), ...edit.added);
+    cursor = edit.end;
+    last = edit;
+  }
+  out.push(...lines.slice(cursor));
+  return out.join('\n');
+}
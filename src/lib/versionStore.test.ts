@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/firebase", () => ({ db: {} }));
+
+const { hashContent, addressFiles, hydrateVersion } = await import("./versionStore");
+
+// sha256("hello")
+const HELLO = "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824";
+
+describe("hashContent", () => {
+  it("is the hex SHA-256 of the content", async () => {
+    expect(await hashContent("hello")).toBe(HELLO);
+  });
+
+  it("tells apart content that differs only in whitespace", async () => {
+    expect(await hashContent("a\n")).not.toBe(await hashContent("a\r\n"));
+  });
+});
+
+describe("addressFiles", () => {
+  it("stores identical content once and keeps every path in the manifest", async () => {
+    const { manifest, blobs, previewHash } = await addressFiles(
+      [{ path: "a.txt", content: "hello" }, { path: "b.txt", content: "hello" }, { path: "c.txt", content: "bye" }],
+      undefined,
+    );
+    expect(manifest.map(m => m.path)).toEqual(["a.txt", "b.txt", "c.txt"]);
+    expect(manifest[0].hash).toBe(HELLO);
+    expect(manifest[1].hash).toBe(HELLO);
+    expect(blobs.size).toBe(2);
+    expect(blobs.get(HELLO)).toBe("hello");
+    expect(previewHash).toBeNull();
+  });
+
+  it("stores the preview as a blob too", async () => {
+    const { previewHash, blobs } = await addressFiles([], "<html></html>");
+    expect(previewHash).not.toBeNull();
+    expect(blobs.get(previewHash!)).toBe("<html></html>");
+  });
+
+  it("refuses versions with more distinct files than one transaction can write", async () => {
+    const files = Array.from({ length: 451 }, (_, i) => ({ path: `f${i}.txt`, content: String(i) }));
+    await expect(addressFiles(files, undefined)).rejects.toThrow(/Too many distinct files/);
+  });
+});
+
+describe("hydrateVersion", () => {
+  it("round-trips files through the manifest and blobs", async () => {
+    const files = [{ path: "bot.py", content: "print(1)" }, { path: "README.md", content: "# Bot" }];
+    const { manifest, blobs, previewHash } = await addressFiles(files, "<p>hi</p>");
+    const version = hydrateVersion("v1", { project_id: "p", user_id: "u", version_number: 1, manifest, preview_hash: previewHash }, hash => blobs.get(hash));
+    expect(version.storage).toBe("cas");
+    expect(version.files).toEqual(files);
+    expect(version.preview_html).toBe("<p>hi</p>");
+    expect(version.missing).toBeUndefined();
+  });
+
+  it("reports files whose blob is gone", async () => {
+    const { manifest, blobs } = await addressFiles([{ path: "a.txt", content: "a" }, { path: "b.txt", content: "b" }], undefined);
+    const lost = manifest[1].hash;
+    const version = hydrateVersion("v1", { project_id: "p", user_id: "u", version_number: 1, manifest }, hash => (hash === lost ? undefined : blobs.get(hash)));
+    expect(version.files.map(f => f.path)).toEqual(["a.txt"]);
+    expect(version.missing).toEqual(["b.txt"]);
+  });
+
+  it("reads old inline documents as they are", () => {
+    const version = hydrateVersion("v0", { project_id: "p", user_id: "u", version_number: 1, files: [{ path: "a.txt", content: "a" }], preview_html: null }, () => undefined);
+    expect(version.storage).toBe("legacy");
+    expect(version.files).toEqual([{ path: "a.txt", content: "a" }]);
+  });
+});
@@ -0,0 +1,373 @@
+// =============================================================================
+// Version store — content-addressed file history in Firestore
+// =============================================================================
+// A version is a manifest of path → SHA-256 of the file's content:
+//
+//   fileVersions/{id}               { project_id, user_id, version_number, label,
+//                                     storage: 'cas', manifest: [{ path, hash }], preview_hash }
+//   fileBlobs/{projectId}_{hash}    { project_id, user_id, hash, content, size, last_referenced_at }
+//   fileVersionHeads/{projectId}    { project_id, user_id, latest_version, main_head_id }
+//
+// Unchanged files are stored once however many versions include them, and no
+// document grows with the project (the old layout kept every file inline and
+// ran into Firestore's 1 MiB limit). Creating a version is one transaction —
+// new blobs, the manifest and the head — so a version is never visible without
+// its content. Documents in the old layout ({ files, preview_html }) are read
+// as-is until migrateLegacyVersions rewrites them; collectGarbage deletes blobs
+// no manifest points at once they've been idle for BLOB_GRACE_MS.
+//
+// Versions also record where they sit in the branch graph (branch_id,
+// parent_id, merged_from — see lib/branches.ts); the transaction that creates
+// one moves its branch's head.
+
+import {
+  collection, query, where, orderBy, getDocs,
+  doc, runTransaction, serverTimestamp, deleteField, Timestamp,
+  type DocumentData, type Transaction,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { branchRef } from '@/lib/branches';
+
+export interface VersionFile {
+  path: string;
+  content: string;
+}
+
+export interface ManifestEntry {
+  path: string;
+  hash: string;
+}
+
+export interface StoredVersion {
+  id: string;
+  project_id: string;
+  user_id: string;
+  version_number: number;
+  label: string | null;
+  files: VersionFile[];
+  preview_html: string | null;
+  created_at: string;
+  message_id: string | null;
+  storage: 'cas' | 'legacy';
+  /** Branch the version was made on; null for main */
+  branch_id: string | null;
+  /** Version this one was made on top of; null for the first version and old documents */
+  parent_id: string | null;
+  /** Head of the branch merged in, for merge versions */
+  merged_from: string | null;
+  /** Named checkpoint the user set deliberately, as opposed to an automatic save */
+  checkpoint: boolean;
+  /** Paths whose blob couldn't be found — the version can't be restored */
+  missing?: string[];
+}
+
+export interface NewVersion {
+  files: VersionFile[];
+  previewHtml?: string;
+  label?: string;
+  messageId?: string;
+  /** Branch to add the version to; main when absent */
+  branchId?: string | null;
+  /** Head of the branch being merged in */
+  mergedFrom?: string;
+  checkpoint?: boolean;
+}
+
+const VERSIONS = 'fileVersions';
+const BLOBS = 'fileBlobs';
+const HEADS = 'fileVersionHeads';
+
+// A transaction writes at most 500 documents: the blobs, the manifest and the head
+const MAX_BLOBS_PER_VERSION = 450;
+
+// A blob touched this recently may be about to be referenced by a version in flight
+const BLOB_GRACE_MS = 60 * 60 * 1000;
+
+// Deletes per garbage-collection transaction
+const GC_CHUNK = 100;
+
+// =============================================================================
+// ADDRESSING
+// =============================================================================
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const blobRef = (projectId: string, hash: string) => doc(db, BLOBS, `${projectId}_${hash}`);
+const headRef = (projectId: string) => doc(db, HEADS, projectId);
+
+/** Manifest for a set of files plus the distinct contents to store */
+export async function addressFiles(files: VersionFile[], previewHtml: string | null | undefined) {
+  const blobs = new Map<string, string>();
+  const manifest: ManifestEntry[] = [];
+  for (const file of files) {
+    const hash = await hashContent(file.content);
+    blobs.set(hash, file.content);
+    manifest.push({ path: file.path, hash });
+  }
+  let previewHash: string | null = null;
+  if (previewHtml) {
+    previewHash = await hashContent(previewHtml);
+    blobs.set(previewHash, previewHtml);
+  }
+  if (blobs.size > MAX_BLOBS_PER_VERSION) {
+    throw new Error(`Too many distinct files for one version (${blobs.size}, max ${MAX_BLOBS_PER_VERSION})`);
+  }
+  return { manifest, previewHash, blobs };
+}
+
+/**
+ * Store the blobs a manifest needs. Reads every blob first (a transaction does
+ * all reads before any write) so existing content isn't rewritten — existing
+ * blobs only get last_referenced_at bumped, which keeps the collector off them.
+ */
+async function putBlobs(tx: Transaction, projectId: string, userId: string, blobs: Map<string, string>) {
+  const hashes = [...blobs.keys()];
+  const snaps = await Promise.all(hashes.map(hash => tx.get(blobRef(projectId, hash))));
+  return () => {
+    snaps.forEach((snap, i) => {
+      const hash = hashes[i];
+      if (snap.exists()) {
+        tx.update(snap.ref, { last_referenced_at: serverTimestamp() });
+      } else {
+        const content = blobs.get(hash)!;
+        tx.set(blobRef(projectId, hash), {
+          project_id: projectId,
+          user_id: userId,
+          hash,
+          content,
+          size: content.length,
+          created_at: serverTimestamp(),
+          last_referenced_at: serverTimestamp(),
+        });
+      }
+    });
+  };
+}
+
+function tsToString(ts: unknown): string {
+  if (!ts) return new Date().toISOString();
+  if (ts instanceof Timestamp) return ts.toDate().toISOString();
+  return String(ts);
+}
+
+/** A version document with its files filled in from `content` (hash → text) */
+export function hydrateVersion(id: string, data: DocumentData, content: (hash: string) => string | undefined): StoredVersion {
+  const base = {
+    id,
+    project_id: data.project_id,
+    user_id: data.user_id,
+    version_number: data.version_number,
+    label: data.label ?? null,
+    created_at: tsToString(data.created_at),
+    message_id: data.message_id ?? null,
+    branch_id: data.branch_id ?? null,
+    parent_id: data.parent_id ?? null,
+    merged_from: data.merged_from ?? null,
+    checkpoint: data.checkpoint === true,
+  };
+  if (!Array.isArray(data.manifest)) {
+    return { ...base, storage: 'legacy', files: (data.files as VersionFile[]) || [], preview_html: data.preview_html ?? null };
+  }
+
+  const files: VersionFile[] = [];
+  const missing: string[] = [];
+  for (const entry of data.manifest as ManifestEntry[]) {
+    const text = content(entry.hash);
+    if (text === undefined) missing.push(entry.path);
+    else files.push({ path: entry.path, content: text });
+  }
+  return {
+    ...base,
+    storage: 'cas',
+    files,
+    preview_html: data.preview_hash ? content(data.preview_hash) ?? null : null,
+    ...(missing.length > 0 ? { missing } : {}),
+  };
+}
+
+// =============================================================================
+// READ
+// =============================================================================
+
+/** Every version of the project, newest first, with files filled in */
+export async function listVersions(projectId: string, userId: string): Promise<StoredVersion[]> {
+  const [versionSnap, blobSnap] = await Promise.all([
+    getDocs(query(collection(db, VERSIONS), where('project_id', '==', projectId), orderBy('version_number', 'desc'))),
+    getDocs(query(collection(db, BLOBS), where('project_id', '==', projectId), where('user_id', '==', userId))),
+  ]);
+  const blobs = new Map(blobSnap.docs.map(d => [d.data().hash as string, d.data().content as string]));
+  return versionSnap.docs.map(d => {
+    const version = hydrateVersion(d.id, d.data(), hash => blobs.get(hash));
+    if (version.missing) console.warn(`[Versions] v${version.version_number} is missing ${version.missing.length} blob(s)`);
+    return version;
+  });
+}
+
+/** One version read in a single transaction; throws rather than return a partial snapshot */
+export async function getVersion(versionId: string): Promise<StoredVersion | null> {
+  return runTransaction(db, async tx => {
+    const snap = await tx.get(doc(db, VERSIONS, versionId));
+    if (!snap.exists()) return null;
+    const data = snap.data();
+    const hashes = [
+      ...new Set([...((data.manifest as ManifestEntry[] | undefined) ?? []).map(e => e.hash), ...(data.preview_hash ? [data.preview_hash] : [])]),
+    ];
+    const blobs = await Promise.all(hashes.map(hash => tx.get(blobRef(data.project_id, hash))));
+    const content = new Map(blobs.filter(b => b.exists()).map(b => [b.data()!.hash as string, b.data()!.content as string]));
+    const version = hydrateVersion(snap.id, data, hash => content.get(hash));
+    if (version.missing) {
+      throw new Error(`Version ${version.version_number} is missing ${version.missing.join(', ')}`);
+    }
+    return version;
+  });
+}
+
+// =============================================================================
+// WRITE
+// =============================================================================
+
+/**
+ * Store a version: new blobs, the manifest, the head and the branch pointer in
+ * one transaction. The parent is whatever the branch's head is at commit time.
+ * @param knownLatest highest version number the caller has seen, for projects without a head yet
+ */
+export async function createVersion(projectId: string, userId: string, input: NewVersion, knownLatest = 0): Promise<StoredVersion> {
+  const { manifest, previewHash, blobs } = await addressFiles(input.files, input.previewHtml);
+  const versionRef = doc(collection(db, VERSIONS));
+  const branchId = input.branchId ?? null;
+
+  return runTransaction(db, async tx => {
+    const head = await tx.get(headRef(projectId));
+    const branch = branchId ? await tx.get(branchRef(branchId)) : null;
+    if (branch && !branch.exists()) throw new Error('This branch no longer exists');
+    const writeBlobs = await putBlobs(tx, projectId, userId, blobs);
+
+    const versionNumber = Math.max(head.exists() ? head.data().latest_version ?? 0 : 0, knownLatest) + 1;
+    const label = input.label || `Version ${versionNumber}`;
+    const parentId: string | null = branch ? branch.data()!.head_version_id : head.exists() ? head.data().main_head_id ?? null : null;
+    const graph = {
+      branch_id: branchId,
+      parent_id: parentId,
+      merged_from: input.mergedFrom ?? null,
+      checkpoint: input.checkpoint === true,
+    };
+
+    writeBlobs();
+    tx.set(versionRef, {
+      project_id: projectId,
+      user_id: userId,
+      version_number: versionNumber,
+      label,
+      storage: 'cas',
+      manifest,
+      preview_hash: previewHash,
+      message_id: input.messageId ?? null,
+      ...graph,
+      created_at: serverTimestamp(),
+    });
+    tx.set(headRef(projectId), {
+      project_id: projectId,
+      user_id: userId,
+      latest_version: versionNumber,
+      ...(branch ? {} : { main_head_id: versionRef.id }),
+    }, { merge: true });
+    if (branch) tx.update(branch.ref, { head_version_id: versionRef.id, updated_at: serverTimestamp() });
+
+    return {
+      id: versionRef.id,
+      project_id: projectId,
+      user_id: userId,
+      version_number: versionNumber,
+      label,
+      files: input.files,
+      preview_html: input.previewHtml ?? null,
+      created_at: new Date().toISOString(),
+      message_id: input.messageId ?? null,
+      storage: 'cas',
+      ...graph,
+    };
+  });
+}
+
+// =============================================================================
+// MIGRATION
+// =============================================================================
+
+/**
+ * Rewrite old full-snapshot documents as manifests, one transaction each.
+ * Safe to re-run: documents that already have a manifest are skipped.
+ */
+export async function migrateLegacyVersions(projectId: string, userId: string, versionIds: string[]): Promise<number> {
+  let migrated = 0;
+  for (const versionId of versionIds) {
+    try {
+      const done = await runTransaction(db, async tx => {
+        const ref = doc(db, VERSIONS, versionId);
+        const snap = await tx.get(ref);
+        if (!snap.exists() || Array.isArray(snap.data().manifest)) return false;
+        const data = snap.data();
+
+        const { manifest, previewHash, blobs } = await addressFiles((data.files as VersionFile[]) || [], data.preview_html);
+        const head = await tx.get(headRef(projectId));
+        const writeBlobs = await putBlobs(tx, projectId, userId, blobs);
+
+        writeBlobs();
+        tx.update(ref, {
+          storage: 'cas',
+          manifest,
+          preview_hash: previewHash,
+          files: deleteField(),
+          preview_html: deleteField(),
+        });
+        const latest = Math.max(head.exists() ? head.data().latest_version ?? 0 : 0, data.version_number ?? 0);
+        tx.set(headRef(projectId), { project_id: projectId, user_id: userId, latest_version: latest }, { merge: true });
+        return true;
+      });
+      if (done) migrated++;
+    } catch (e) {
+      console.warn(`[Versions] Couldn't migrate ${versionId}:`, e);
+    }
+  }
+  return migrated;
+}
+
+// =============================================================================
+// GARBAGE COLLECTION
+// =============================================================================
+
+/** Delete the project's blobs that no version references and nothing has touched lately */
+export async function collectGarbage(projectId: string, userId: string): Promise<number> {
+  const [versionSnap, blobSnap] = await Promise.all([
+    getDocs(query(collection(db, VERSIONS), where('project_id', '==', projectId))),
+    getDocs(query(collection(db, BLOBS), where('project_id', '==', projectId), where('user_id', '==', userId))),
+  ]);
+
+  const referenced = new Set<string>();
+  for (const d of versionSnap.docs) {
+    const data = d.data();
+    ((data.manifest as ManifestEntry[] | undefined) ?? []).forEach(e => referenced.add(e.hash));
+    if (data.preview_hash) referenced.add(data.preview_hash);
+  }
+
+  const idle = (data: DocumentData | undefined) => {
+    const touched = data?.last_referenced_at;
+    return touched instanceof Timestamp && Date.now() - touched.toMillis() > BLOB_GRACE_MS;
+  };
+  const candidates = blobSnap.docs.filter(d => !referenced.has(d.data().hash) && idle(d.data()));
+
+  let deleted = 0;
+  for (let i = 0; i < candidates.length; i += GC_CHUNK) {
+    // Re-read inside the transaction: a version created since the scan bumps last_referenced_at
+    deleted += await runTransaction(db, async tx => {
+      const snaps = await Promise.all(candidates.slice(i, i + GC_CHUNK).map(d => tx.get(d.ref)));
+      const stale = snaps.filter(s => s.exists() && idle(s.data()));
+      stale.forEach(s => tx.delete(s.ref));
+      return stale.length;
+    });
+  }
+  if (deleted > 0) console.log(`[Versions] Collected ${deleted} unreferenced blob(s)`);
+  return deleted;
+}
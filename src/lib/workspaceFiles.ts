@@ -0,0 +1,114 @@
+// =============================================================================
+// Workspace Files — server-side file API with per-file revisions
+// =============================================================================
+// The browser never writes `workspaceFiles` directly (firestore.rules keep the
+// collection read-only); every create, edit, rename and delete goes through
+// the backend, which bumps the document's `revision` on each write — AI
+// generations included.
+//
+//   PUT    /api/workspace/:workspaceId/files          { path, content, baseRevision? } → { file }
+//   POST   /api/workspace/:workspaceId/files/rename   { from, to, baseRevision? }      → { file }
+//   DELETE /api/workspace/:workspaceId/files?path=…&baseRevision=…                      → {}
+//
+// `baseRevision` is optimistic concurrency: the write only applies if the file
+// is still at that revision (0 = it must not exist yet). Otherwise the backend
+// answers 409 with `{ error, current }` — the file as it is now, or null if it
+// was deleted — and nothing is written. Leaving `baseRevision` out writes
+// unconditionally, which is what restores and branch switches want.
+// Revisions start at 1; documents from before revisions read as 1.
+
+import { auth } from '@/lib/firebase';
+import { API_BASE } from '@/lib/urls';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ServerFile {
+  path: string;
+  content: string;
+  revision: number;
+  /** Last written by an AI generation rather than by hand */
+  is_generated: boolean;
+  updated_at: string;
+}
+
+export type FileWriteResult =
+  | { status: 'saved'; file: ServerFile }
+  | { status: 'conflict'; current: ServerFile | null };
+
+export type FileDeleteResult =
+  | { status: 'deleted' }
+  | { status: 'conflict'; current: ServerFile | null };
+
+/** Body of `PUT /api/workspace/:workspaceId/files` */
+export interface WriteFileRequest {
+  path: string;
+  content: string;
+  baseRevision?: number;
+}
+
+/** Body of `POST /api/workspace/:workspaceId/files/rename` */
+export interface RenameFileRequest {
+  from: string;
+  to: string;
+  baseRevision?: number;
+}
+
+/** Revision of a workspaceFiles document */
+export function revisionOf(data: { revision?: unknown }): number {
+  return typeof data.revision === 'number' ? data.revision : 1;
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+async function request(workspaceId: string, path: string, init: RequestInit = {}): Promise<
+  { status: 'ok'; data: { file?: ServerFile } } | { status: 'conflict'; current: ServerFile | null }
+> {
+  const token = await auth.currentUser?.getIdToken();
+  const res = await fetch(`${API_BASE}/api/workspace/${encodeURIComponent(workspaceId)}/files${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  if (res.status === 409) {
+    const err = await res.json().catch(() => ({})) as { current?: ServerFile | null };
+    return { status: 'conflict', current: err.current ?? null };
+  }
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `File request failed (${res.status})`);
+  }
+  return { status: 'ok', data: await res.json() };
+}
+
+/** Create or overwrite a file. Pass `baseRevision` to only write over that revision (0 = create only). */
+export async function writeWorkspaceFile(
+  workspaceId: string,
+  path: string,
+  content: string,
+  baseRevision?: number,
+): Promise<FileWriteResult> {
+  const body: WriteFileRequest = { path, content, baseRevision };
+  const res = await request(workspaceId, '', { method: 'PUT', body: JSON.stringify(body) });
+  return res.status === 'conflict' ? res : { status: 'saved', file: res.data.file! };
+}
+
+export async function renameWorkspaceFile(
+  workspaceId: string,
+  from: string,
+  to: string,
+  baseRevision?: number,
+): Promise<FileWriteResult> {
+  const body: RenameFileRequest = { from, to, baseRevision };
+  const res = await request(workspaceId, '/rename', { method: 'POST', body: JSON.stringify(body) });
+  return res.status === 'conflict' ? res : { status: 'saved', file: res.data.file! };
+}
+
+export async function deleteWorkspaceFile(workspaceId: string, path: string, baseRevision?: number): Promise<FileDeleteResult> {
+  const params = new URLSearchParams({ path });
+  if (baseRevision !== undefined) params.set('baseRevision', String(baseRevision));
+  const res = await request(workspaceId, `?${params}`, { method: 'DELETE' });
+  return res.status === 'conflict' ? res : { status: 'deleted' };
+}
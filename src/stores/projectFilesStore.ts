@@ -1,8 +1,7 @@
 import { create } from 'zustand';
 import { FileNode, buildFileTree } from '@/components/workspace/FileExplorer';
-import { applyPatches, isPathWriteable, type FileCommand, type SearchReplacePatch } from '@/lib/syncEngine';
-import { db } from '@/lib/firebase';
-import { collection, query, where, getDocs, setDoc, addDoc, limit } from 'firebase/firestore';
+import { applyPatches, isPathWriteable, type FileCommand, type PatchSetResult, type SearchReplacePatch } from '@/lib/syncEngine';
+import { writeWorkspaceFile, deleteWorkspaceFile } from '@/lib/workspaceFiles';
 
 interface ProjectFile {
   path: string;
@@ -27,10 +26,12 @@ interface ProjectFilesState {
   
   // Sync Engine actions
   applyCommand: (cmd: import('@/lib/syncEngine').FileCommand) => void;
-  patchFile: (path: string, patches: import('@/lib/syncEngine').SearchReplacePatch[]) => void;
+  /** Null when the file isn't in the store; a failed result leaves the file untouched */
+  patchFile: (path: string, patches: import('@/lib/syncEngine').SearchReplacePatch[]) => PatchSetResult | null;
   
   // Persistence action
   persistFile: (path: string, workspaceId: string) => Promise<void>;
+  unpersistFile: (path: string, workspaceId: string) => Promise<void>;
   
   // Build preview from files
   buildPreview: () => string;
@@ -154,7 +155,11 @@ export const useProjectFilesStore = create<ProjectFilesState>((set, get) => ({
         break;
       case 'PATCH_FILE':
         if (cmd.patches) {
-          store.patchFile(cmd.path, cmd.patches);
+          const outcome = store.patchFile(cmd.path, cmd.patches);
+          // Hunks that don't land fall back to the full content when the command carries it
+          if (outcome?.status !== 'applied' && outcome?.status !== 'fuzzy' && cmd.content) {
+            store.addFile(cmd.path, cmd.content);
+          }
         }
         break;
     }
@@ -162,21 +167,25 @@ export const useProjectFilesStore = create<ProjectFilesState>((set, get) => ({
 
   // Sync Engine: Apply search-and-replace patches to a file
   patchFile: (path: string, patches: SearchReplacePatch[]) => {
-    set((state) => {
-      const existing = state.files.get(path);
-      if (!existing) {
-        console.warn(`[SyncEngine] patchFile: file not found: ${path}`);
-        return state;
-      }
+    const existing = get().files.get(path);
+    if (!existing) {
+      console.warn(`[SyncEngine] patchFile: file not found: ${path}`);
+      return null;
+    }
 
-      const patched = applyPatches(existing.content, patches);
-      if (patched === null) {
-        console.warn(`[SyncEngine] patchFile: patches failed for ${path}, keeping original`);
-        return state;
-      }
+    const outcome = applyPatches(existing.content, patches);
+    if (outcome.content === null) {
+      const failed = outcome.results[outcome.results.length - 1];
+      console.warn(`[SyncEngine] patchFile: patches failed for ${path}, keeping original —`, failed?.status === 'failed' ? failed.message : outcome.status);
+      return outcome;
+    }
+    if (outcome.status === 'fuzzy') {
+      console.info(`[SyncEngine] patchFile: ${path} patched with fuzzy matching (confidence ${outcome.confidence.toFixed(2)})`);
+    }
 
+    set((state) => {
       const newFiles = new Map(state.files);
-      newFiles.set(path, { ...existing, content: patched });
+      newFiles.set(path, { ...existing, content: outcome.content! });
 
       const fileTree = buildFileTree(
         Array.from(newFiles.values()).map(f => ({ path: f.path, content: f.content }))
@@ -184,45 +193,30 @@ export const useProjectFilesStore = create<ProjectFilesState>((set, get) => ({
 
       return { files: newFiles, fileTree };
     });
+    return outcome;
   },
 
-  // Persistence: Write a single file back to workspace_files
+  // Persistence: write a single file back through the workspace file API.
+  // Unconditional — callers that can lose a race (the editor) pass a base revision themselves.
   persistFile: async (path: string, workspaceId: string) => {
     const file = get().files.get(path);
     if (!file) return;
 
     try {
-      const q = query(
-        collection(db, 'workspaceFiles'),
-        where('workspace_id', '==', workspaceId),
-        where('file_path', '==', file.path),
-        limit(1)
-      );
-      const snap = await getDocs(q);
-      const now = new Date().toISOString();
-
-      if (!snap.empty) {
-        await setDoc(snap.docs[0].ref, {
-          content: file.content,
-          file_type: file.path.split('.').pop() || 'txt',
-          is_generated: false,
-          updated_at: now,
-        }, { merge: true });
-      } else {
-        await addDoc(collection(db, 'workspaceFiles'), {
-          workspace_id: workspaceId,
-          file_path: file.path,
-          content: file.content,
-          file_type: file.path.split('.').pop() || 'txt',
-          is_generated: false,
-          updated_at: now,
-        });
-      }
+      await writeWorkspaceFile(workspaceId, file.path, file.content);
     } catch (err) {
       console.error(`[SyncEngine] Failed to persist ${path}:`, err);
     }
   },
 
+  unpersistFile: async (path: string, workspaceId: string) => {
+    try {
+      await deleteWorkspaceFile(workspaceId, path);
+    } catch (err) {
+      console.error(`[SyncEngine] Failed to delete ${path}:`, err);
+    }
+  },
+
   buildPreview: () => {
     const state = get();
     const files = Array.from(state.files.values());
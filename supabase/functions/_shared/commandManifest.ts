@@ -0,0 +1,544 @@
+// =============================================================================
+// COMMAND MANIFEST - Extract bot commands from generated discord.py / discord.js
+// =============================================================================
+// The one extractor for both sides: the pipeline stores its result on the
+// generation session under `metadata.commandManifest`, and the web app imports
+// this same file (src/lib/commandManifest.ts) to re-extract from the live
+// workspace so manual edits show up without a new generation. Keep it free of
+// Deno and browser APIs.
+//
+// Python is parsed decorator-by-decorator (prefix, hybrid, app_commands, cogs,
+// GroupCog, app_commands.Group, context menus, py-cord slash/user/message
+// commands). JavaScript walks SlashCommandBuilder / ContextMenuCommandBuilder
+// method chains and the common `{ name, execute(message) }` prefix handler.
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CommandKind = "prefix" | "slash" | "context_menu";
+
+export type CommandOptionType =
+  | "string" | "integer" | "number" | "boolean"
+  | "user" | "channel" | "role" | "mentionable" | "attachment"
+  | "subcommand" | "subcommand_group";
+
+export interface CommandOption {
+  name: string;
+  type: CommandOptionType;
+  description: string;
+  required: boolean;
+  choices?: string[];
+  /** Only for subcommand / subcommand_group */
+  options?: CommandOption[];
+}
+
+export interface BotCommand {
+  name: string;
+  kind: CommandKind;
+  /** Only for context menu commands */
+  target?: "user" | "message";
+  description: string;
+  options: CommandOption[];
+  /** Member permissions required to run it, as Discord flag names (BAN_MEMBERS, …) */
+  permissions: string[];
+  file: string;
+  line: number;
+}
+
+export interface CommandManifest {
+  version: 1;
+  language: "python" | "javascript" | "mixed" | "none";
+  commands: BotCommand[];
+}
+
+// =============================================================================
+// SHARED HELPERS
+// =============================================================================
+
+function lineAt(src: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < src.length; i++) if (src[i] === "\n") line++;
+  return line;
+}
+
+/** Index just past the bracket that closes the one at `open`, skipping string literals */
+function matchBracket(src: string, open: number): number {
+  const pairs: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+  const stack: string[] = [];
+  for (let i = open; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      const q = ch;
+      for (i++; i < src.length && src[i] !== q; i++) if (src[i] === "\\") i++;
+      continue;
+    }
+    if (pairs[ch]) stack.push(pairs[ch]);
+    else if (ch === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return i + 1;
+    }
+  }
+  return src.length;
+}
+
+/** Split on commas that are not nested in brackets or strings */
+function splitTopLevel(src: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let cur = "";
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'") {
+      const end = src.indexOf(ch, i + 1);
+      const stop = end === -1 ? src.length : end + 1;
+      cur += src.slice(i, stop);
+      i = stop - 1;
+      continue;
+    }
+    if ("([{".includes(ch)) depth++;
+    if (")]}".includes(ch)) depth--;
+    if (ch === "," && depth === 0) { parts.push(cur.trim()); cur = ""; continue; }
+    cur += ch;
+  }
+  if (cur.trim()) parts.push(cur.trim());
+  return parts;
+}
+
+function firstString(src: string): string | undefined {
+  return src.match(/(["'`])((?:\\.|(?!\1).)*)\1/)?.[2];
+}
+
+function kwarg(args: string, name: string): string | undefined {
+  const m = args.match(new RegExp(`\\b${name}\\s*=\\s*(?:[rfu]?)(["'])((?:\\\\.|(?!\\1).)*)\\1`));
+  return m?.[2];
+}
+
+// BanMembers → BAN_MEMBERS
+function pascalToFlag(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+// =============================================================================
+// PYTHON
+// =============================================================================
+
+interface PyDecorator { head: string; args: string }
+interface PyFunction { name: string; params: string[]; decorators: PyDecorator[]; doc: string; line: number; cls: PyClass | null }
+interface PyClass { name: string; groupName: string | null; indent: number }
+
+const PY_SLASH_HEADS = /(^|\.)tree\.command$|^app_commands\.command$|(^|\.)slash_command$|^commands\.hybrid_command$|^commands\.hybrid_group$|(^|\.)hybrid_command$|(^|\.)hybrid_group$/;
+const PY_PREFIX_HEADS = /^(bot|client|self\.bot)\.(command|group)$|^commands\.(command|group)$/;
+const PY_CONTEXT_HEADS = /(^|\.)tree\.context_menu$|(^|\.)(user|message)_command$/;
+
+function pyOptionType(annotation: string): { type: CommandOptionType; optional: boolean; choices?: string[] } {
+  let a = annotation.trim();
+  let optional = false;
+  const opt = a.match(/^(?:typing\.)?Optional\[(.*)\]$/);
+  if (opt) { a = opt[1]; optional = true; }
+  if (/\|\s*None$/.test(a)) { a = a.replace(/\|\s*None$/, "").trim(); optional = true; }
+  const literal = a.match(/^(?:typing\.)?Literal\[(.*)\]$/);
+  if (literal) {
+    const choices = splitTopLevel(literal[1]).map(v => v.replace(/^["']|["']$/g, ""));
+    return { type: /^\d+$/.test(choices[0] ?? "") ? "integer" : "string", optional, choices };
+  }
+  const range = a.match(/Range\[\s*(\w+)/);
+  if (range) a = range[1];
+  if (/Union\[.*(Member|User).*Role|Role.*(Member|User)|Mentionable/.test(a)) return { type: "mentionable", optional };
+  if (/\b(Member|User)\b/.test(a)) return { type: "user", optional };
+  if (/\bRole\b/.test(a)) return { type: "role", optional };
+  if (/Channel\b|\bThread\b/.test(a)) return { type: "channel", optional };
+  if (/\bAttachment\b/.test(a)) return { type: "attachment", optional };
+  if (/^int$/.test(a)) return { type: "integer", optional };
+  if (/^float$/.test(a)) return { type: "number", optional };
+  if (/^bool$/.test(a)) return { type: "boolean", optional };
+  return { type: "string", optional };
+}
+
+/** `name: Annotation = default`, where the annotation itself may contain `=` (py-cord Option kwargs) */
+function splitPyParam(param: string): { name: string; annotation: string; hasDefault: boolean } {
+  let depth = 0;
+  let colon = -1;
+  let equals = -1;
+  for (let i = 0; i < param.length; i++) {
+    const ch = param[i];
+    if ("([{".includes(ch)) depth++;
+    else if (")]}".includes(ch)) depth--;
+    else if (depth === 0 && ch === ":" && colon === -1) colon = i;
+    else if (depth === 0 && ch === "=" && equals === -1) equals = i;
+  }
+  const nameEnd = colon !== -1 ? colon : equals !== -1 ? equals : param.length;
+  return {
+    name: param.slice(0, nameEnd).replace(/^\*/, "").trim(),
+    annotation: colon === -1 ? "" : param.slice(colon + 1, equals === -1 ? param.length : equals).trim(),
+    hasDefault: equals !== -1,
+  };
+}
+
+function pyOptions(fn: PyFunction, descriptions: Record<string, string>, choices: Record<string, string[]>): CommandOption[] {
+  const params = fn.params.filter(p => p && p !== "self" && p !== "*" && !p.startsWith("**"));
+  // First remaining parameter is ctx / interaction
+  return params.slice(1).map(p => {
+    const { name, annotation, hasDefault } = splitPyParam(p);
+    const t = pyOptionType(annotation || "str");
+    const pycordOption = annotation.match(/Option\((.*)\)/);
+    const optionChoices = choices[name] ?? t.choices;
+    return {
+      name,
+      type: pycordOption ? pyOptionType(pycordOption[1].split(",")[0]).type : t.type,
+      description: descriptions[name] ?? (pycordOption ? firstString(pycordOption[1]) ?? "" : ""),
+      required: !t.optional && !hasDefault && !(pycordOption && /required\s*=\s*False/.test(pycordOption[1])),
+      ...(optionChoices ? { choices: optionChoices } : {}),
+    };
+  });
+}
+
+function pyPermissions(decorators: PyDecorator[]): string[] {
+  const perms = new Set<string>();
+  for (const d of decorators) {
+    if (!/(^|\.)(has_permissions|has_guild_permissions|default_permissions)$/.test(d.head)) continue;
+    for (const m of d.args.matchAll(/(\w+)\s*=\s*True/g)) perms.add(m[1].toUpperCase());
+  }
+  return [...perms];
+}
+
+function parsePythonFunctions(path: string, src: string): { fns: PyFunction[]; groups: Map<string, { name: string; description: string; line: number }>; menus: BotCommand[] } {
+  const lines = src.split("\n");
+  const fns: PyFunction[] = [];
+  const groups = new Map<string, { name: string; description: string; line: number }>();
+  const menus: BotCommand[] = [];
+  let pending: PyDecorator[] = [];
+  let pendingLine = 0;
+  let cls: PyClass | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+    const indent = raw.length - raw.trimStart().length;
+    if (cls && indent <= cls.indent && !trimmed.startsWith("@")) cls = null;
+
+    // Collect a full logical line when brackets span several physical lines
+    let logical = trimmed;
+    let j = i;
+    const balance = (s: string) => (s.match(/[([{]/g) || []).length - (s.match(/[)\]}]/g) || []).length;
+    while (balance(logical) > 0 && j + 1 < lines.length) logical += " " + lines[++j].trim();
+
+    const classMatch = logical.match(/^class\s+(\w+)\s*\((.*)\)\s*:/);
+    if (classMatch) {
+      const isGroupCog = /GroupCog/.test(classMatch[2]);
+      const groupName = isGroupCog ? (kwarg(classMatch[2], "group_name") ?? kwarg(classMatch[2], "name") ?? classMatch[1].toLowerCase()) : null;
+      cls = { name: classMatch[1], groupName, indent };
+      if (groupName) groups.set(`__cog__${classMatch[1]}`, { name: groupName, description: kwarg(classMatch[2], "group_description") ?? "", line: i + 1 });
+      pending = [];
+      i = j;
+      continue;
+    }
+
+    const groupMatch = logical.match(/^(\w+)\s*=\s*(?:app_commands|discord\.app_commands)\.Group\((.*)\)/);
+    if (groupMatch) {
+      groups.set(groupMatch[1], { name: kwarg(groupMatch[2], "name") ?? groupMatch[1], description: kwarg(groupMatch[2], "description") ?? "", line: i + 1 });
+      i = j;
+      continue;
+    }
+
+    const menuMatch = logical.match(/app_commands\.ContextMenu\((.*)\)/);
+    if (menuMatch) {
+      const callback = menuMatch[1].match(/callback\s*=\s*(?:self\.)?(\w+)/)?.[1];
+      const callbackDef = callback ? src.match(new RegExp(`def\\s+${callback}\\s*\\(([^)]*)\\)`)) : null;
+      menus.push({
+        name: kwarg(menuMatch[1], "name") ?? callback ?? "context",
+        kind: "context_menu",
+        target: callbackDef && /\bMessage\b/.test(callbackDef[1]) ? "message" : "user",
+        description: "",
+        options: [],
+        permissions: [],
+        file: path,
+        line: i + 1,
+      });
+      i = j;
+      continue;
+    }
+
+    if (logical.startsWith("@")) {
+      if (pending.length === 0) pendingLine = i + 1;
+      const open = logical.indexOf("(");
+      pending.push(open === -1
+        ? { head: logical.slice(1).trim(), args: "" }
+        : { head: logical.slice(1, open).trim(), args: logical.slice(open + 1, matchBracket(logical, open) - 1) });
+      i = j;
+      continue;
+    }
+
+    const defMatch = logical.match(/^(?:async\s+)?def\s+(\w+)\s*\(/);
+    if (defMatch) {
+      const open = logical.indexOf("(");
+      const params = splitTopLevel(logical.slice(open + 1, matchBracket(logical, open) - 1));
+      let doc = "";
+      const next = lines[j + 1]?.trim() ?? "";
+      const docMatch = next.match(/^[rbu]?("""|''')(.*?)(\1)?$/);
+      if (docMatch) doc = docMatch[2].trim() || (lines[j + 2]?.trim() ?? "");
+      if (pending.length > 0) {
+        fns.push({ name: defMatch[1], params, decorators: pending, doc, line: pendingLine, cls });
+      }
+      pending = [];
+      i = j;
+      continue;
+    }
+
+    pending = [];
+  }
+  return { fns, groups, menus };
+}
+
+function extractPython(path: string, src: string): BotCommand[] {
+  const { fns, groups, menus } = parsePythonFunctions(path, src);
+  const out: BotCommand[] = [...menus];
+  // Group commands by the identifier their subcommands decorate with (`@<ident>.command`)
+  const byIdent = new Map<string, BotCommand[]>();
+  const slashGroups = new Map<string, BotCommand>();
+
+  const slashGroup = (key: string): BotCommand | null => {
+    const g = groups.get(key);
+    if (!g) return null;
+    let cmd = slashGroups.get(key);
+    if (!cmd) {
+      cmd = { name: g.name, kind: "slash", description: g.description, options: [], permissions: [], file: path, line: g.line };
+      slashGroups.set(key, cmd);
+      out.push(cmd);
+    }
+    return cmd;
+  };
+
+  for (const fn of fns) {
+    const descriptions: Record<string, string> = {};
+    const choices: Record<string, string[]> = {};
+    for (const d of fn.decorators) {
+      if (/(^|\.)describe$/.test(d.head)) {
+        for (const m of d.args.matchAll(/(\w+)\s*=\s*(["'])((?:\\.|(?!\2).)*)\2/g)) descriptions[m[1]] = m[3];
+      }
+      if (/(^|\.)choices$/.test(d.head)) {
+        for (const part of splitTopLevel(d.args)) {
+          const key = part.match(/^(\w+)\s*=/)?.[1];
+          if (key) choices[key] = [...part.matchAll(/Choice\(\s*name\s*=\s*(["'])(.*?)\1/g)].map(m => m[2]);
+        }
+      }
+    }
+
+    for (const d of fn.decorators) {
+      const name = kwarg(d.args, "name") ?? firstString(d.args.split(",")[0]?.includes("=") ? "" : d.args) ?? fn.name;
+      const description = kwarg(d.args, "description") ?? kwarg(d.args, "help") ?? kwarg(d.args, "brief") ?? fn.doc;
+      const base = { name, description, permissions: pyPermissions(fn.decorators), file: path, line: fn.line };
+
+      if (PY_CONTEXT_HEADS.test(d.head)) {
+        const targetParam = fn.params.filter(p => p !== "self")[1] ?? "";
+        const target = /message_command$/.test(d.head) || /\bMessage\b/.test(targetParam) ? "message" : "user";
+        out.push({ ...base, kind: "context_menu", target, description: "", options: [] });
+        break;
+      }
+
+      const inGroupCog = fn.cls?.groupName && /^app_commands\.command$/.test(d.head);
+      const ident = d.head.match(/^(\w+)\.command$/)?.[1];
+      const parentGroup = inGroupCog ? slashGroup(`__cog__${fn.cls!.name}`) : ident ? slashGroup(ident) : null;
+      if (parentGroup) {
+        parentGroup.options.push({ name, type: "subcommand", description, required: false, options: pyOptions(fn, descriptions, choices) });
+        break;
+      }
+
+      const parents = ident ? byIdent.get(ident) : undefined;
+      if (parents) {
+        for (const parent of parents) {
+          parent.options.push({ name, type: "subcommand", description, required: false, options: pyOptions(fn, descriptions, choices) });
+        }
+        break;
+      }
+
+      const isSlash = PY_SLASH_HEADS.test(d.head);
+      const isPrefix = PY_PREFIX_HEADS.test(d.head) || /hybrid_(command|group)$/.test(d.head);
+      if (!isSlash && !isPrefix) continue;
+
+      // Hybrid commands are both a prefix and a slash command
+      const created: BotCommand[] = [];
+      if (isPrefix) created.push({ ...base, kind: "prefix", options: pyOptions(fn, descriptions, choices) });
+      if (isSlash) created.push({ ...base, kind: "slash", options: pyOptions(fn, descriptions, choices) });
+      out.push(...created);
+      if (/group$/.test(d.head)) byIdent.set(fn.name, created);
+      break;
+    }
+  }
+  return out;
+}
+
+// =============================================================================
+// JAVASCRIPT / TYPESCRIPT
+// =============================================================================
+
+interface ChainCall { method: string; args: string }
+
+/** Read `.method(args)` calls starting at `start` until the chain ends */
+function readChain(src: string, start: number): ChainCall[] {
+  const calls: ChainCall[] = [];
+  let i = start;
+  for (;;) {
+    while (i < src.length && /\s/.test(src[i])) i++;
+    if (src[i] !== ".") break;
+    const m = src.slice(i + 1).match(/^(\w+)\s*\(/);
+    if (!m) break;
+    const open = i + 1 + m[0].length - 1;
+    const close = matchBracket(src, open);
+    calls.push({ method: m[1], args: src.slice(open + 1, close - 1) });
+    i = close;
+  }
+  return calls;
+}
+
+/** `option => option.setName(...)...` or `(o) => { return o.setName(...) }` */
+function callbackChain(args: string): ChainCall[] {
+  const m = args.match(/=>\s*(?:\{\s*return\s+)?(\w+)/);
+  return m ? readChain(args, (m.index ?? 0) + m[0].length) : [];
+}
+
+const JS_OPTION_METHODS: Record<string, CommandOptionType> = {
+  addStringOption: "string",
+  addIntegerOption: "integer",
+  addNumberOption: "number",
+  addBooleanOption: "boolean",
+  addUserOption: "user",
+  addChannelOption: "channel",
+  addRoleOption: "role",
+  addMentionableOption: "mentionable",
+  addAttachmentOption: "attachment",
+};
+
+function jsPermissions(args: string): string[] {
+  return [...args.matchAll(/(?:PermissionFlagsBits|PermissionsBitField\.Flags|Permissions\.FLAGS)\.(\w+)/g)]
+    .map(m => (/^[A-Z0-9_]+$/.test(m[1]) ? m[1] : pascalToFlag(m[1])));
+}
+
+function jsOptions(calls: ChainCall[]): CommandOption[] {
+  const options: CommandOption[] = [];
+  for (const call of calls) {
+    const type = JS_OPTION_METHODS[call.method]
+      ?? (call.method === "addSubcommand" ? "subcommand" : call.method === "addSubcommandGroup" ? "subcommand_group" : null);
+    if (!type) continue;
+    const inner = callbackChain(call.args);
+    const get = (method: string) => inner.find(c => c.method === method)?.args;
+    const choiceArgs = get("addChoices") ?? get("setChoices");
+    options.push({
+      name: firstString(get("setName") ?? "") ?? "",
+      type,
+      description: firstString(get("setDescription") ?? "") ?? "",
+      required: /true/.test(get("setRequired") ?? ""),
+      ...(choiceArgs ? { choices: [...choiceArgs.matchAll(/name\s*:\s*(["'`])(.*?)\1/g)].map(m => m[2]) } : {}),
+      ...(type === "subcommand" || type === "subcommand_group" ? { options: jsOptions(inner) } : {}),
+    });
+  }
+  return options;
+}
+
+function extractJavaScript(path: string, src: string): BotCommand[] {
+  const out: BotCommand[] = [];
+
+  for (const m of src.matchAll(/new\s+SlashCommandBuilder\s*\(\s*\)/g)) {
+    const calls = readChain(src, (m.index ?? 0) + m[0].length);
+    const get = (method: string) => calls.find(c => c.method === method)?.args;
+    const name = firstString(get("setName") ?? "");
+    if (!name) continue;
+    out.push({
+      name,
+      kind: "slash",
+      description: firstString(get("setDescription") ?? "") ?? "",
+      options: jsOptions(calls),
+      permissions: jsPermissions(get("setDefaultMemberPermissions") ?? ""),
+      file: path,
+      line: lineAt(src, m.index ?? 0),
+    });
+  }
+
+  for (const m of src.matchAll(/new\s+ContextMenuCommandBuilder\s*\(\s*\)/g)) {
+    const calls = readChain(src, (m.index ?? 0) + m[0].length);
+    const get = (method: string) => calls.find(c => c.method === method)?.args;
+    const name = firstString(get("setName") ?? "");
+    if (!name) continue;
+    const type = get("setType") ?? "";
+    out.push({
+      name,
+      kind: "context_menu",
+      target: /Message|\b3\b/.test(type) ? "message" : "user",
+      description: "",
+      options: [],
+      permissions: jsPermissions(get("setDefaultMemberPermissions") ?? ""),
+      file: path,
+      line: lineAt(src, m.index ?? 0),
+    });
+  }
+
+  // Command-handler modules: module.exports = { name: 'ping', description, execute(message, args) }
+  if (out.length === 0 && /execute\s*\(\s*message\b|execute:\s*(?:async\s*)?\(\s*message\b/.test(src)) {
+    const m = src.match(/\bname\s*:\s*(["'`])([\w-]+)\1/);
+    if (m) {
+      out.push({
+        name: m[2],
+        kind: "prefix",
+        description: src.match(/\bdescription\s*:\s*(["'`])(.*?)\1/)?.[2] ?? "",
+        options: [],
+        permissions: jsPermissions(src.match(/\bpermissions\s*:\s*\[([^\]]*)\]/)?.[1] ?? ""),
+        file: path,
+        line: lineAt(src, m.index ?? 0),
+      });
+    }
+  }
+
+  // Inline prefix dispatch inside a messageCreate handler
+  if (/messageCreate/.test(src)) {
+    const seen = new Set<string>();
+    const dispatch = /\b(?:command|cmd|commandName)\s*===\s*(["'`])([\w-]+)\1/g;
+    const switchCases = /switch\s*\(\s*(?:command|cmd|commandName)\s*\)/.test(src) ? /\bcase\s+(["'`])([\w-]+)\1\s*:/g : null;
+    for (const re of [dispatch, switchCases]) {
+      if (!re) continue;
+      for (const m of src.matchAll(re)) {
+        if (seen.has(m[2])) continue;
+        seen.add(m[2]);
+        out.push({ name: m[2], kind: "prefix", description: "", options: [], permissions: [], file: path, line: lineAt(src, m.index ?? 0) });
+      }
+    }
+  }
+
+  return out;
+}
+
+// =============================================================================
+// MAIN EXTRACTION
+// =============================================================================
+
+export function extractCommandManifest(files: Array<{ path: string; content: string }>): CommandManifest {
+  const commands: BotCommand[] = [];
+  let sawPython = false;
+  let sawJs = false;
+
+  for (const file of files) {
+    if (file.path.includes("node_modules/") || file.path.includes("site-packages/")) continue;
+    if (file.path.endsWith(".py")) {
+      sawPython = true;
+      commands.push(...extractPython(file.path, file.content));
+    } else if (/\.(js|ts|mjs|cjs)$/.test(file.path)) {
+      sawJs = true;
+      commands.push(...extractJavaScript(file.path, file.content));
+    }
+  }
+
+  // The same command is often declared in a deploy script and in its handler module
+  const seen = new Set<string>();
+  const unique = commands.filter(c => {
+    const key = `${c.kind}:${c.target ?? ""}:${c.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    version: 1,
+    language: sawPython && sawJs ? "mixed" : sawPython ? "python" : sawJs ? "javascript" : "none",
+    commands: unique,
+  };
+}
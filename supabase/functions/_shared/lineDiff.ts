@@ -0,0 +1,45 @@
+// =============================================================================
+// LINE DIFF - Longest-common-subsequence diff of two line arrays
+// =============================================================================
+// Shared by the generation pipeline (recorded repair diffs, pipeline/patch.ts)
+// and the web app (version hunks, src/lib/versionDiff.ts) so a change is split
+// into the same lines on both sides. Keep it free of Deno and browser APIs.
+
+export type DiffOp = { t: " " | "-" | "+"; line: string };
+
+// Above this many cells the middle section is emitted as one replace hunk
+const LCS_CELL_LIMIT = 4_000_000;
+
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) suf++;
+
+  const head: DiffOp[] = a.slice(0, pre).map(line => ({ t: " ", line }));
+  const tail: DiffOp[] = a.slice(a.length - suf).map(line => ({ t: " ", line }));
+  const x = a.slice(pre, a.length - suf);
+  const y = b.slice(pre, b.length - suf);
+
+  if (x.length * y.length > LCS_CELL_LIMIT) {
+    return [...head, ...x.map(line => ({ t: "-" as const, line })), ...y.map(line => ({ t: "+" as const, line })), ...tail];
+  }
+
+  // lcs[i][j] = LCS length of x[i..] and y[j..]
+  const lcs = Array.from({ length: x.length + 1 }, () => new Uint32Array(y.length + 1));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i][j] = x[i] === y[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const mid: DiffOp[] = [];
+  let i = 0, j = 0;
+  while (i < x.length && j < y.length) {
+    if (x[i] === y[j]) { mid.push({ t: " ", line: x[i] }); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) mid.push({ t: "-", line: x[i++] });
+    else mid.push({ t: "+", line: y[j++] });
+  }
+  while (i < x.length) mid.push({ t: "-", line: x[i++] });
+  while (j < y.length) mid.push({ t: "+", line: y[j++] });
+  return [...head, ...mid, ...tail];
+}
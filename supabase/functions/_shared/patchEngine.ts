@@ -0,0 +1,258 @@
+// =============================================================================
+// PATCH ENGINE - Search-and-replace hunks with fuzzy, context-aware matching
+// =============================================================================
+// Shared by the generation pipeline (repair hunks, pipeline/patch.ts) and the
+// web app (PATCH_FILE commands, src/lib/syncEngine.ts) so both apply a hunk
+// the same way. Keep it free of Deno and browser APIs.
+//
+// A hunk lands where its search text matches exactly. Failing that, it is
+// aligned line by line ignoring indentation and whitespace runs, and the
+// replacement is shifted by however much the indentation was off. When the
+// search matches several places, `context` picks the one it surrounds; if it
+// can't, the patch fails as ambiguous rather than guessing. Failures come back
+// as structured results so callers can fall back to a full-file rewrite.
+
+export interface SearchReplacePatch {
+  search: string;
+  replace: string;
+  /** Surrounding text, used to pick between several matches */
+  context?: string;
+}
+
+export type PatchStatus = "applied" | "fuzzy" | "failed";
+
+export type PatchFailureReason = "empty_search" | "not_found" | "ambiguous" | "low_confidence";
+
+export type PatchResult =
+  | {
+      /** applied = exact text match, fuzzy = matched after ignoring whitespace */
+      status: "applied" | "fuzzy";
+      content: string;
+      /** 1 for an exact match, lower the more whitespace had to be ignored */
+      confidence: number;
+      /** 1-based line the hunk landed on */
+      line: number;
+      /** 1-based lines of every place the search matched — more than one means `context` decided */
+      candidates: number[];
+    }
+  | {
+      status: "failed";
+      reason: PatchFailureReason;
+      message: string;
+      /** Of the best match, when there was one */
+      confidence: number;
+      candidates: number[];
+    };
+
+export interface PatchSetResult {
+  /** Patched content, or null if any patch failed (nothing is applied then) */
+  content: string | null;
+  /** failed if any patch failed, fuzzy if any matched fuzzily */
+  status: PatchStatus;
+  /** Lowest confidence across the patches */
+  confidence: number;
+  /** One per patch, up to and including the first failure */
+  results: PatchResult[];
+}
+
+export interface PatchOptions {
+  /** Fuzzy matches scoring below this fail as low_confidence */
+  minConfidence?: number;
+}
+
+// Per-line scores for fuzzy alignment, averaged over the hunk
+const LINE_SCORE = {
+  exact: 1,            // same apart from trailing whitespace
+  reindented: 0.95,    // indentation off by the same amount as the rest of the hunk
+  indentation: 0.85,   // indentation off by a different amount
+  whitespace: 0.6,     // only matches once runs of whitespace are collapsed
+};
+
+const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+interface Candidate {
+  /** 0-based first line of the match */
+  line: number;
+  /** Number of lines the match spans */
+  span: number;
+  confidence: number;
+  apply: () => string;
+}
+
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, " ");
+const indentOf = (line: string) => line.match(/^\s*/)![0];
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
+
+function exactCandidates(content: string, patch: SearchReplacePatch): Candidate[] {
+  const span = patch.search.split("\n").length;
+  const found: Candidate[] = [];
+  for (let i = content.indexOf(patch.search); i !== -1; i = content.indexOf(patch.search, i + 1)) {
+    const at = i;
+    found.push({
+      line: content.slice(0, at).split("\n").length - 1,
+      span,
+      confidence: 1,
+      apply: () => content.slice(0, at) + patch.replace + content.slice(at + patch.search.length),
+    });
+  }
+  return found;
+}
+
+/** Line-aligned matches ignoring indentation, trailing whitespace and whitespace runs */
+function alignedCandidates(content: string, patch: SearchReplacePatch): Candidate[] {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(/\r?\n/);
+  const search = trimBlankLines(patch.search.split(/\r?\n/));
+  if (search.length === 0) return [];
+  const target = search.map(normalizeLine);
+  const first = search.findIndex(l => l.trim());
+
+  const found: Candidate[] = [];
+  for (let i = 0; i + search.length <= lines.length; i++) {
+    if (!target.every((t, k) => normalizeLine(lines[i + k]) === t)) continue;
+
+    const actual = indentOf(lines[i + first]);
+    const given = indentOf(search[first]);
+    const score = search.reduce((sum, l, k) => {
+      const line = lines[i + k];
+      if (line.trimEnd() === l.trimEnd()) return sum + LINE_SCORE.exact;
+      if (line.trim() !== l.trim()) return sum + LINE_SCORE.whitespace;
+      const shifted = indentOf(line).length - indentOf(l).length === actual.length - given.length;
+      return sum + (shifted ? LINE_SCORE.reindented : LINE_SCORE.indentation);
+    }, 0);
+
+    // Shift the replacement by however much the search's indentation was off
+    const reindent = (l: string) => {
+      if (!l.trim()) return l;
+      if (actual.startsWith(given)) return actual.slice(given.length) + l;
+      return l.startsWith(given.slice(actual.length)) ? l.slice(given.length - actual.length) : l;
+    };
+    const at = i;
+    found.push({
+      line: at,
+      span: search.length,
+      // Never quite as sure as an exact match
+      confidence: Math.min(0.99, score / search.length),
+      apply: () => {
+        const replacement = trimBlankLines(patch.replace.split(/\r?\n/)).map(reindent);
+        return [...lines.slice(0, at), ...replacement, ...lines.slice(at + search.length)].join(eol);
+      },
+    });
+  }
+  return found;
+}
+
+/**
+ * Keep the candidates `context` fits best. Each context line found near a
+ * candidate scores 1 / its distance in lines — on the side of the search it
+ * sits on in `context`, when `context` contains the search. Returns every
+ * best-scoring candidate; more than one is a tie.
+ */
+function disambiguate(content: string, candidates: Candidate[], patch: SearchReplacePatch): Candidate[] {
+  if (candidates.length < 2 || !patch.context) return candidates;
+  const lines = content.split(/\r?\n/).map(normalizeLine);
+  const wanted = patch.context.split(/\r?\n/).map(normalizeLine).filter(Boolean);
+  const search = trimBlankLines(patch.search.split(/\r?\n/)).map(normalizeLine);
+  const at = wanted.indexOf(search[0]);
+
+  const scored = candidates.map(c => {
+    const end = c.line + c.span;
+    let score = 0;
+    wanted.forEach((w, k) => {
+      if (at !== -1 && k >= at && k < at + search.length) return;
+      let distance = Infinity;
+      for (let j = 0; j < lines.length; j++) {
+        if (!lines[j].includes(w)) continue;
+        const above = c.line - j;
+        const below = j - end + 1;
+        if (at === -1 || k < at) { if (above > 0) distance = Math.min(distance, above); }
+        if (at === -1 || k >= at) { if (below > 0) distance = Math.min(distance, below); }
+        if (at === -1 && j >= c.line && j < end) distance = Math.min(distance, 1);
+      }
+      score += 1 / distance;
+    });
+    return { c, score };
+  });
+  const best = Math.max(...scored.map(s => s.score));
+  return scored.filter(s => best - s.score < 1e-9).map(s => s.c);
+}
+
+/**
+ * Apply a single search-and-replace patch to file content.
+ * Tries an exact match first, then indentation-insensitive line alignment.
+ */
+export function applyPatch(content: string, patch: SearchReplacePatch, options: PatchOptions = {}): PatchResult {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  if (!patch.search.trim()) {
+    return { status: "failed", reason: "empty_search", message: "Search text is empty", confidence: 0, candidates: [] };
+  }
+
+  const exact = exactCandidates(content, patch);
+  const candidates = exact.length > 0 ? exact : alignedCandidates(content, patch);
+  const lines = candidates.map(c => c.line + 1);
+  if (candidates.length === 0) {
+    return { status: "failed", reason: "not_found", message: "Search text not found in the file", confidence: 0, candidates: [] };
+  }
+
+  const chosen = disambiguate(content, candidates, patch);
+  if (chosen.length > 1) {
+    return {
+      status: "failed",
+      reason: "ambiguous",
+      message: `Search text matches ${chosen.length} places (lines ${chosen.map(c => c.line + 1).join(", ")})${patch.context ? " and the context does not tell them apart" : " — include more surrounding lines"}`,
+      confidence: Math.max(...chosen.map(c => c.confidence)),
+      candidates: lines,
+    };
+  }
+
+  const [match] = chosen;
+  if (match.confidence < minConfidence) {
+    return {
+      status: "failed",
+      reason: "low_confidence",
+      message: `Closest match at line ${match.line + 1} differs too much in whitespace to trust (confidence ${match.confidence.toFixed(2)})`,
+      confidence: match.confidence,
+      candidates: lines,
+    };
+  }
+  return {
+    status: exact.length > 0 ? "applied" : "fuzzy",
+    content: match.apply(),
+    confidence: match.confidence,
+    line: match.line + 1,
+    candidates: lines,
+  };
+}
+
+/**
+ * Apply multiple patches sequentially to file content.
+ * All or nothing: if any patch fails, content is null and the last result says
+ * why (the caller should fall back to a full replacement).
+ */
+export function applyPatches(content: string, patches: SearchReplacePatch[], options: PatchOptions = {}): PatchSetResult {
+  const results: PatchResult[] = [];
+  let current = content;
+
+  for (const patch of patches) {
+    const result = applyPatch(current, patch, options);
+    results.push(result);
+    if (result.status === "failed") {
+      return { content: null, status: "failed", confidence: result.confidence, results };
+    }
+    current = result.content;
+  }
+
+  return {
+    content: current,
+    status: results.some(r => r.status === "fuzzy") ? "fuzzy" : "applied",
+    confidence: Math.min(1, ...results.map(r => r.confidence)),
+    results,
+  };
+}
@@ -15,6 +15,7 @@ import {
   updateSessionStatus 
 } from "./pipeline/index.ts";
 import type { SyncEvent, OnSyncEvent } from "./pipeline/types.ts";
+import { getAvailableProviders } from "./pipeline/routing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -69,16 +70,13 @@ serve(async (req) => {
   }
 
   try {
-    // Check provider availability
-    const hasGrok = !!Deno.env.get("GROK_API_KEY");
-    const hasGemini = !!Deno.env.get("GEMINI_API_KEY");
-    const hasOpenAI = !!Deno.env.get("OPENAI_API_KEY");
-    
-    if (!hasGrok && !hasGemini && !hasOpenAI) {
+    // Check provider availability (built-ins plus AI_PROVIDER_REGISTRY)
+    const providers = getAvailableProviders();
+    if (providers.length === 0) {
       throw new Error("No AI providers configured");
     }
 
-    console.log(`[Pipeline] 🔥 Providers: Grok=${hasGrok}, Gemini=${hasGemini}, OpenAI=${hasOpenAI}`);
+    console.log(`[Pipeline] 🔥 Providers: ${providers.join(", ")}`);
 
     // Auth validation
     const authHeader = req.headers.get("Authorization");
@@ -285,8 +283,10 @@ serve(async (req) => {
             modelsUsed: result.modelsUsed,
             validationPassed: result.validationPassed,
             repairAttempts: result.repairAttempts,
+            quality: result.quality,
+            scenarios: result.scenarios,
             sessionId,
-            providersAvailable: { grok: hasGrok, gemini: hasGemini, openai: hasOpenAI },
+            providersAvailable: Object.fromEntries(providers.map(p => [p, true])),
           });
 
         } catch (error) {
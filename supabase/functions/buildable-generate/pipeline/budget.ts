@@ -0,0 +1,205 @@
+// =============================================================================
+// BUDGET - Per-generation cost accounting against the user's plan
+// =============================================================================
+// Every routed AI call is priced from the provider registry (USD per million
+// input/output tokens) and added to the generation's CostLedger. As spend
+// approaches the plan's budget the router backs off in steps:
+//
+//   50%  → no ensemble, one provider per call
+//   80%  → the cheapest model each provider has
+//   100% → no further calls
+//
+// Budgets can be overridden per plan with AI_BUDGET_USD_<PLAN> (e.g. AI_BUDGET_USD_PRO=2).
+
+import type { AITaskType, BudgetLevel, CostEntry, CostLedger, DB, PlanType, ProviderKey } from "./types.ts";
+import { getProvider, pricingFor } from "./providers.ts";
+
+export const PLAN_BUDGETS_USD: Record<PlanType, number> = {
+  free: 0.10,
+  lite: 0.25,
+  pro: 1.00,
+  max: 2.50,
+};
+
+const NO_ENSEMBLE_AT = 0.5;
+const ECONOMY_AT = 0.8;
+
+// Never squeeze a call below this — a truncated file costs more to repair
+const MIN_OUTPUT_TOKENS = 4000;
+
+const LEVEL_ORDER: BudgetLevel[] = ["normal", "no_ensemble", "economy", "exhausted"];
+
+/** Session columns read by the Costs dashboard */
+export interface CostSummary {
+  cost_usd: number;
+  cost_breakdown: Record<string, {
+    model: string;
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+    calls: number;
+  }>;
+  tokens_total: { input: number; output: number; cache_creation: number; cache_read: number };
+}
+
+// =============================================================================
+// PLAN
+// =============================================================================
+
+export function budgetFor(plan: PlanType): number {
+  const override = Number(Deno.env.get(`AI_BUDGET_USD_${plan.toUpperCase()}`));
+  return Number.isFinite(override) && override > 0 ? override : PLAN_BUDGETS_USD[plan];
+}
+
+/** The user's active plan, or free when there's no subscription */
+export async function loadPlanType(supabase: DB, userId: string): Promise<PlanType> {
+  try {
+    const { data } = await supabase
+      .from("user_subscriptions")
+      .select("plan_type, status")
+      .eq("user_id", userId)
+      .maybeSingle();
+    const plan = data?.plan_type as PlanType | undefined;
+    return data?.status === "active" && plan && plan in PLAN_BUDGETS_USD ? plan : "free";
+  } catch (e) {
+    console.warn("[Budget] Couldn't load the subscription, using the free budget:", e);
+    return "free";
+  }
+}
+
+export function createCostLedger(plan: PlanType): CostLedger {
+  return { plan, budgetUsd: budgetFor(plan), spentUsd: 0, entries: [], level: "normal" };
+}
+
+// =============================================================================
+// LEVELS
+// =============================================================================
+
+export function budgetLevel(ledger: CostLedger): BudgetLevel {
+  const used = ledger.budgetUsd > 0 ? ledger.spentUsd / ledger.budgetUsd : 0;
+  if (used >= 1) return "exhausted";
+  if (used >= ECONOMY_AT) return "economy";
+  if (used >= NO_ENSEMBLE_AT) return "no_ensemble";
+  return "normal";
+}
+
+export function describeSpend(ledger: CostLedger): string {
+  return `$${ledger.spentUsd.toFixed(4)} of $${ledger.budgetUsd.toFixed(2)} (${ledger.plan})`;
+}
+
+// =============================================================================
+// PRICING
+// =============================================================================
+
+// ~4 characters per token is close enough for English prompts and code
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function priceOf(provider: ProviderKey, model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = pricingFor(provider, model);
+  if (!pricing) return 0;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/** The provider's model with the lowest output price (unpriced models count as free) */
+export function cheapestModel(provider: ProviderKey): string {
+  const models = [...new Set(Object.values(getProvider(provider).models))];
+  return models.reduce((best, model) =>
+    (pricingFor(provider, model)?.output ?? 0) < (pricingFor(provider, best)?.output ?? 0) ? model : best
+  );
+}
+
+/** Output price per million tokens, for ordering a chain cheapest-first */
+export function outputPrice(provider: ProviderKey, model: string): number {
+  return pricingFor(provider, model)?.output ?? 0;
+}
+
+/** Lower maxTokens so the worst-case output still fits in what's left of the budget */
+export function affordableMaxTokens(
+  ledger: CostLedger,
+  provider: ProviderKey,
+  model: string,
+  messages: Array<{ content: string }>,
+  maxTokens: number,
+): number {
+  const pricing = pricingFor(provider, model);
+  if (!pricing?.output) return maxTokens;
+  const inputCost = priceOf(provider, model, estimateTokens(messages.map(m => m.content).join("\n")), 0);
+  const remaining = ledger.budgetUsd - ledger.spentUsd - inputCost;
+  const affordable = Math.floor((remaining * 1_000_000) / pricing.output);
+  return Math.max(Math.min(maxTokens, MIN_OUTPUT_TOKENS), Math.min(maxTokens, affordable));
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Price a finished call and add it to the ledger. Providers that only report a
+ * total get the split estimated from the prompt and response lengths.
+ */
+export function recordCost(
+  ledger: CostLedger,
+  task: AITaskType,
+  provider: ProviderKey,
+  model: string,
+  messages: Array<{ content: string }>,
+  response: { content: string; tokensUsed?: number; inputTokens?: number; outputTokens?: number },
+): CostEntry {
+  let inputTokens = response.inputTokens;
+  let outputTokens = response.outputTokens;
+  const estimated = inputTokens === undefined || outputTokens === undefined;
+  if (estimated) {
+    inputTokens = inputTokens ?? estimateTokens(messages.map(m => m.content).join("\n"));
+    outputTokens = outputTokens ?? (response.tokensUsed !== undefined
+      ? Math.max(0, response.tokensUsed - inputTokens)
+      : estimateTokens(response.content));
+  }
+
+  const entry: CostEntry = {
+    task,
+    provider,
+    model,
+    inputTokens: inputTokens!,
+    outputTokens: outputTokens!,
+    costUsd: priceOf(provider, model, inputTokens!, outputTokens!),
+    ...(estimated ? { estimated: true } : {}),
+  };
+  ledger.entries.push(entry);
+  ledger.spentUsd += entry.costUsd;
+
+  const level = budgetLevel(ledger);
+  if (LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(ledger.level)) {
+    console.log(`[Budget] ${describeSpend(ledger)} spent — now ${level}`);
+    ledger.level = level;
+  }
+  return entry;
+}
+
+/** Per-task totals in the shape the Costs dashboard reads */
+export function costSummary(ledger: CostLedger): CostSummary {
+  const breakdown: CostSummary["cost_breakdown"] = {};
+  const models: Record<string, string[]> = {};
+  for (const entry of ledger.entries) {
+    const row = breakdown[entry.task] ??= { model: "", input_tokens: 0, output_tokens: 0, cost_usd: 0, calls: 0 };
+    row.input_tokens += entry.inputTokens;
+    row.output_tokens += entry.outputTokens;
+    row.cost_usd += entry.costUsd;
+    row.calls++;
+    const seen = models[entry.task] ??= [];
+    if (!seen.includes(entry.model)) seen.push(entry.model);
+    row.model = seen.join(", ");
+  }
+
+  return {
+    cost_usd: ledger.spentUsd,
+    cost_breakdown: breakdown,
+    tokens_total: {
+      input: ledger.entries.reduce((sum, e) => sum + e.inputTokens, 0),
+      output: ledger.entries.reduce((sum, e) => sum + e.outputTokens, 0),
+      cache_creation: 0,
+      cache_read: 0,
+    },
+  };
+}
@@ -0,0 +1,6 @@
+// =============================================================================
+// COMMAND MANIFEST - Extract bot commands from generated discord.py / discord.js
+// =============================================================================
+// The extractor lives in _shared/ so the web app runs the exact same code.
+
+export { extractCommandManifest } from "../../_shared/commandManifest.ts";
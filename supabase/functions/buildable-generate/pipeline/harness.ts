@@ -0,0 +1,619 @@
+// =============================================================================
+// HARNESS - Boot scripts that run a generated bot against a mock Discord API
+// =============================================================================
+// Written into the sandbox next to the project files. Each harness starts an
+// in-process mock of Discord's REST API and gateway, points the library's base
+// URLs at it, runs the bot's entry file, replays BUILDABLE_SCRIPT (slash
+// invocations, prefix messages, member joins) and prints what happened as
+//
+//   [buildable:event] {"kind": "handler_error", ...}
+//
+// lines for the interpret stage. Nothing talks to discord.com, so a run needs
+// no real token and works offline (CI only needs the bot's own packages).
+//
+// With BUILDABLE_SIMULATOR_URL set (a discord-simulator session) the harness
+// skips its own mock and points the library there instead; the simulator then
+// drives the scenario and records replies, and the harness only reports what
+// it alone can see: import errors, crashes and handler tracebacks.
+//
+// Kept free of `${` / backticks in the embedded code so the sources can live
+// in template strings; shared values are interpolated from MOCK_IDS.
+
+/** Snowflakes used by the mock guild — scripts reference these as option values */
+export const MOCK_IDS = {
+  application: "100000000000000001",
+  guild: "100000000000000002",
+  channel: "100000000000000003",
+  tester: "100000000000000004",
+} as const;
+
+export const HARNESS_EVENT_PREFIX = "[buildable:event]";
+
+/** Interactions must be answered within this window or Discord shows "did not respond" */
+export const INTERACTION_DEADLINE_MS = 3000;
+
+export const PYTHON_HARNESS_PATH = "buildable_harness.py";
+export const NODE_HARNESS_PATH = "buildable-harness.cjs";
+
+// =============================================================================
+// PYTHON (discord.py 2.x)
+// =============================================================================
+
+export const PYTHON_HARNESS = String.raw`"""Run a discord.py bot against an in-process mock of the Discord API.
+
+Usage: python -u buildable_harness.py <entry.py>
+"""
+import asyncio
+import itertools
+import json
+import logging
+import os
+import runpy
+import sys
+import threading
+import time
+import traceback
+
+EVENT_PREFIX = "${HARNESS_EVENT_PREFIX}"
+SCRIPT = json.loads(os.environ.get("BUILDABLE_SCRIPT") or "[]")
+SIMULATOR_URL = (os.environ.get("BUILDABLE_SIMULATOR_URL") or "").rstrip("/")
+RUN_SECONDS = float(os.environ.get("BUILDABLE_RUN_SECONDS") or "10")
+DEADLINE = ${INTERACTION_DEADLINE_MS} / 1000
+
+APP_ID = "${MOCK_IDS.application}"
+GUILD_ID = "${MOCK_IDS.guild}"
+CHANNEL_ID = "${MOCK_IDS.channel}"
+BOT_USER = {"id": APP_ID, "username": "TestBot", "discriminator": "0", "global_name": None, "avatar": None, "bot": True}
+TESTER = {"id": "${MOCK_IDS.tester}", "username": "tester", "discriminator": "0", "global_name": "Tester", "avatar": None}
+
+_ids = itertools.count(200000000000000000)
+pending = {}
+state = {"ready": False, "sent": 0, "responded": 0}
+
+
+def snowflake():
+    return str(next(_ids))
+
+
+def now():
+    return time.strftime("%Y-%m-%dT%H:%M:%S.000000+00:00", time.gmtime())
+
+
+def emit(kind, **data):
+    sys.stdout.write(EVENT_PREFIX + " " + json.dumps(dict(kind=kind, **data), default=str) + "\n")
+    sys.stdout.flush()
+
+
+def member(user):
+    return {"user": user, "roles": [], "joined_at": now(), "deaf": False, "mute": False, "flags": 0, "nick": None, "permissions": "8"}
+
+
+CHANNEL = {"id": CHANNEL_ID, "type": 0, "name": "general", "position": 0, "guild_id": GUILD_ID, "permission_overwrites": [], "nsfw": False, "parent_id": None, "topic": None}
+EVERYONE = {"id": GUILD_ID, "name": "@everyone", "permissions": "1071698660929", "position": 0, "color": 0, "hoist": False, "managed": False, "mentionable": False, "flags": 0}
+
+
+def guild():
+    return {
+        "id": GUILD_ID, "name": "Test Server", "icon": None, "owner_id": TESTER["id"], "afk_timeout": 300,
+        "verification_level": 0, "default_message_notifications": 0, "explicit_content_filter": 0, "mfa_level": 0,
+        "nsfw_level": 0, "premium_tier": 0, "preferred_locale": "en-US", "features": [], "emojis": [], "stickers": [],
+        "roles": [EVERYONE], "channels": [CHANNEL], "threads": [], "members": [member(BOT_USER), member(TESTER)],
+        "member_count": 2, "large": False, "unavailable": False, "joined_at": now(), "voice_states": [],
+        "presences": [], "stage_instances": [], "guild_scheduled_events": [], "system_channel_id": CHANNEL_ID,
+    }
+
+
+def message(author, content, channel_id=CHANNEL_ID, body=None):
+    body = body or {}
+    return {
+        "id": snowflake(), "channel_id": channel_id, "guild_id": GUILD_ID, "author": author,
+        "member": member(author), "content": content, "timestamp": now(), "edited_timestamp": None,
+        "tts": False, "mention_everyone": False, "mentions": [], "mention_roles": [], "attachments": [],
+        "embeds": body.get("embeds") or [], "components": body.get("components") or [], "pinned": False,
+        "type": 0, "flags": body.get("flags") or 0,
+    }
+
+
+def interaction(iid, step):
+    return {
+        "id": iid, "application_id": APP_ID, "type": 2, "token": "mock-token-" + iid, "version": 1,
+        "guild_id": GUILD_ID, "channel_id": CHANNEL_ID, "channel": CHANNEL, "member": member(TESTER),
+        "locale": "en-US", "guild_locale": "en-US", "app_permissions": "8", "entitlements": [],
+        "authorizing_integration_owners": {"0": GUILD_ID}, "context": 0,
+        "data": {
+            "id": snowflake(), "name": step["name"], "type": 1, "guild_id": GUILD_ID, "options": step.get("options") or [],
+            "resolved": {
+                "users": {TESTER["id"]: TESTER}, "members": {TESTER["id"]: member(TESTER)},
+                "channels": {CHANNEL_ID: dict(CHANNEL, permissions="8")}, "roles": {GUILD_ID: EVERYONE},
+            },
+        },
+    }
+
+
+def reply(via, command, body):
+    body = body or {}
+    data = body.get("data") if via == "interaction" else body
+    data = data or {}
+    emit("reply", via=via, command=command, content=data.get("content") or "", embeds=data.get("embeds") or [],
+         components=len(data.get("components") or []), ephemeral=bool((data.get("flags") or 0) & 64))
+
+
+# ---------------------------------------------------------------------------
+# Mock server (aiohttp, on its own thread and loop)
+# ---------------------------------------------------------------------------
+
+def start_mock():
+    from aiohttp import WSMsgType, web
+
+    box = {}
+    started = threading.Event()
+
+    async def read_body(request):
+        if not request.can_read_body:
+            return None
+        if request.content_type.startswith("multipart/"):
+            form = await request.post()
+            return json.loads(form.get("payload_json") or "{}")
+        try:
+            return await request.json()
+        except Exception:
+            return None
+
+    async def check_response(iid, command):
+        await asyncio.sleep(DEADLINE)
+        if pending.pop(iid, None) is not None:
+            emit("no_response", command=command)
+
+    async def run_script(dispatch):
+        await asyncio.sleep(1.0)
+        for step in SCRIPT:
+            if step["type"] == "slash":
+                iid = snowflake()
+                pending[iid] = step["name"]
+                state["sent"] += 1
+                emit("invoke", command=step["name"], options=step.get("options") or [])
+                await dispatch("INTERACTION_CREATE", interaction(iid, step))
+                asyncio.ensure_future(check_response(iid, step["name"]))
+            elif step["type"] == "prefix":
+                emit("invoke", command=step.get("command"), content=step["content"])
+                await dispatch("MESSAGE_CREATE", message(TESTER, step["content"]))
+            elif step["type"] == "member_join":
+                joiner = dict(TESTER, id=snowflake(), username="newcomer")
+                await dispatch("GUILD_MEMBER_ADD", dict(member(joiner), guild_id=GUILD_ID))
+            await asyncio.sleep(0.6)
+
+    async def gateway(request):
+        ws = web.WebSocketResponse()
+        await ws.prepare(request)
+        seq = itertools.count(1)
+
+        async def dispatch(name, data):
+            await ws.send_str(json.dumps({"op": 0, "t": name, "s": next(seq), "d": data}))
+
+        await ws.send_str(json.dumps({"op": 10, "d": {"heartbeat_interval": 41250}}))
+        async for msg in ws:
+            if msg.type != WSMsgType.TEXT:
+                continue
+            op = json.loads(msg.data).get("op")
+            if op == 1:
+                await ws.send_str(json.dumps({"op": 11}))
+            elif op == 2:
+                await dispatch("READY", {
+                    "v": 10, "user": BOT_USER, "guilds": [{"id": GUILD_ID, "unavailable": True}],
+                    "session_id": "mock-session", "resume_gateway_url": box["ws"],
+                    "application": {"id": APP_ID, "flags": 0}, "private_channels": [],
+                })
+                await dispatch("GUILD_CREATE", guild())
+                state["ready"] = True
+                emit("ready")
+                asyncio.ensure_future(run_script(dispatch))
+            elif op == 6:
+                await dispatch("RESUMED", {})
+        return ws
+
+    async def rest(request):
+        path = "/" + request.match_info["tail"]
+        parts = path.strip("/").split("/")
+        body = await read_body(request)
+        m = request.method
+
+        if path.startswith("/gateway"):
+            return web.json_response({"url": box["ws"], "shards": 1, "session_start_limit": {"total": 1000, "remaining": 1000, "reset_after": 0, "max_concurrency": 1}})
+        if path == "/users/@me":
+            return web.json_response(BOT_USER)
+        if path in ("/oauth2/applications/@me", "/applications/@me"):
+            return web.json_response({"id": APP_ID, "name": "TestBot", "icon": None, "description": "", "bot_public": True,
+                                      "bot_require_code_grant": False, "owner": TESTER, "verify_key": "0" * 64, "flags": 0, "team": None, "summary": ""})
+        if parts[0] == "applications" and parts[-1] == "commands":
+            if m == "PUT":
+                return web.json_response([dict(c, id=snowflake(), application_id=APP_ID, version="1") for c in (body or [])])
+            return web.json_response([])
+        if parts[0] == "interactions" and parts[-1] == "callback":
+            command = pending.pop(parts[1], None)
+            state["responded"] += 1
+            reply("interaction", command, body)
+            if request.query.get("with_response") == "true":
+                msg = message(BOT_USER, ((body or {}).get("data") or {}).get("content") or "", body=(body or {}).get("data"))
+                return web.json_response({
+                    "interaction": {"id": parts[1], "type": 2, "activity_instance_id": None, "response_message_id": msg["id"],
+                                    "response_message_loading": False, "response_message_ephemeral": False},
+                    "resource": {"type": (body or {}).get("type", 4), "message": msg},
+                })
+            return web.Response(status=204)
+        if parts[0] == "webhooks":
+            if m in ("POST", "PATCH"):
+                reply("interaction", None, {"data": body})
+            return web.json_response(message(BOT_USER, (body or {}).get("content") or "", body=body))
+        if parts[0] == "channels" and len(parts) >= 3 and parts[2] == "messages" and m == "POST":
+            reply("message", None, body)
+            return web.json_response(message(BOT_USER, (body or {}).get("content") or "", channel_id=parts[1], body=body))
+        if parts[0] == "channels" and len(parts) == 2:
+            return web.json_response(CHANNEL)
+        if parts[0] == "guilds" and len(parts) == 4 and parts[2] == "members":
+            return web.json_response(member(TESTER))
+        if m == "DELETE" or m == "PUT":
+            if parts[0] == "guilds" and len(parts) >= 3 and parts[2] in ("bans", "members"):
+                emit("moderation", action="ban" if parts[2] == "bans" else "kick", target=parts[3] if len(parts) > 3 else None)
+            return web.Response(status=204)
+        if parts[0] == "guilds" and len(parts) >= 3 and parts[2] == "members" and m == "PATCH":
+            emit("moderation", action="timeout" if (body or {}).get("communication_disabled_until") else "edit_member", target=parts[3] if len(parts) > 3 else None)
+            return web.json_response(member(TESTER))
+        emit("unmocked_route", method=m, path=path)
+        return web.json_response({})
+
+    def serve():
+        loop = asyncio.new_event_loop()
+        asyncio.set_event_loop(loop)
+        app = web.Application()
+        app.router.add_get("/", gateway)
+        app.router.add_route("*", "/api/v10/{tail:.*}", rest)
+        runner = web.AppRunner(app)
+        loop.run_until_complete(runner.setup())
+        site = web.TCPSite(runner, "127.0.0.1", 0)
+        loop.run_until_complete(site.start())
+        port = site._server.sockets[0].getsockname()[1]
+        box["port"] = port
+        box["ws"] = "ws://127.0.0.1:%d/" % port
+        started.set()
+        loop.run_forever()
+
+    threading.Thread(target=serve, daemon=True).start()
+    started.wait(10)
+    return box["port"]
+
+
+# ---------------------------------------------------------------------------
+# discord.py wiring
+# ---------------------------------------------------------------------------
+
+def point_discord_at(base, gateway):
+    import yarl
+    import discord
+    import discord.gateway
+    import discord.http
+    import discord.webhook.async_
+
+    discord.http.Route.BASE = base
+    discord.webhook.async_.Route.BASE = base
+    discord.gateway.DiscordWebSocket.DEFAULT_GATEWAY = yarl.URL(gateway)
+
+
+def watch_ready():
+    """Against the simulator, READY is only visible from inside discord.py"""
+    import discord.state
+
+    original = discord.state.ConnectionState.parse_ready
+
+    def parse_ready(self, data):
+        if not state["ready"]:
+            state["ready"] = True
+            emit("ready")
+        return original(self, data)
+
+    discord.state.ConnectionState.parse_ready = parse_ready
+
+
+class CaptureHandlerErrors(logging.Handler):
+    """discord.py logs every swallowed handler exception with exc_info"""
+
+    def emit(self, record):
+        if not record.exc_info or not record.exc_info[1]:
+            return
+        exc = record.exc_info[1]
+        command = None
+        if record.args and "command" in str(record.msg):
+            command = str(record.args[0]).strip("'")
+        emit("handler_error", command=command, context=record.getMessage(), message=type(exc).__name__ + ": " + str(exc),
+             traceback="".join(traceback.format_exception(*record.exc_info)))
+
+
+def finish():
+    emit("summary", ready=state["ready"], sent=state["sent"], responded=state["responded"])
+    sys.stdout.flush()
+    sys.stderr.flush()
+    os._exit(0)
+
+
+def main():
+    entry = sys.argv[1]
+    try:
+        if SIMULATOR_URL:
+            point_discord_at(SIMULATOR_URL + "/api/v10", "ws" + SIMULATOR_URL[4:] + "/gateway")
+            watch_ready()
+        else:
+            port = start_mock()
+            point_discord_at("http://127.0.0.1:%d/api/v10" % port, "ws://127.0.0.1:%d/" % port)
+    except ImportError as e:
+        emit("import_error", message=type(e).__name__ + ": " + str(e), traceback=traceback.format_exc())
+        finish()
+
+    logging.getLogger("discord").addHandler(CaptureHandlerErrors(level=logging.ERROR))
+    threading.Timer(RUN_SECONDS, finish).start()
+    sys.path.insert(0, os.path.dirname(os.path.abspath(entry)))
+    try:
+        runpy.run_path(entry, run_name="__main__")
+    except SystemExit:
+        pass
+    except ImportError as e:
+        emit("import_error", message=type(e).__name__ + ": " + str(e), traceback=traceback.format_exc())
+    except BaseException as e:
+        emit("startup_error", message=type(e).__name__ + ": " + str(e), traceback=traceback.format_exc())
+    if not state["ready"]:
+        emit("exited", message="The bot's entry file returned before connecting")
+    finish()
+
+
+if __name__ == "__main__":
+    main()
+`;
+
+// =============================================================================
+// NODE (discord.js v14) — preloaded with `node --require`
+// =============================================================================
+
+export const NODE_HARNESS = String.raw`// Run a discord.js bot against an in-process mock of the Discord API.
+// Usage: node --require ./buildable-harness.cjs <entry.js>
+"use strict";
+const http = require("http");
+
+const EVENT_PREFIX = "${HARNESS_EVENT_PREFIX}";
+const SCRIPT = JSON.parse(process.env.BUILDABLE_SCRIPT || "[]");
+const SIMULATOR_URL = (process.env.BUILDABLE_SIMULATOR_URL || "").replace(/\/+$/, "");
+const RUN_SECONDS = Number(process.env.BUILDABLE_RUN_SECONDS || 10);
+const PORT = Number(process.env.BUILDABLE_MOCK_PORT || 47600);
+const DEADLINE = ${INTERACTION_DEADLINE_MS};
+
+const APP_ID = "${MOCK_IDS.application}";
+const GUILD_ID = "${MOCK_IDS.guild}";
+const CHANNEL_ID = "${MOCK_IDS.channel}";
+const BOT_USER = { id: APP_ID, username: "TestBot", discriminator: "0", global_name: null, avatar: null, bot: true };
+const TESTER = { id: "${MOCK_IDS.tester}", username: "tester", discriminator: "0", global_name: "Tester", avatar: null };
+const WS_URL = "ws://127.0.0.1:" + PORT;
+
+let nextId = 200000000000000000n;
+const snowflake = () => String(nextId++);
+const now = () => new Date().toISOString();
+const pending = new Map();
+const state = { ready: false, sent: 0, responded: 0 };
+
+function emit(kind, data) {
+  process.stdout.write(EVENT_PREFIX + " " + JSON.stringify(Object.assign({ kind: kind }, data || {})) + "\n");
+}
+
+const member = (user) => ({ user: user, roles: [], joined_at: now(), deaf: false, mute: false, flags: 0, nick: null, permissions: "8" });
+const CHANNEL = { id: CHANNEL_ID, type: 0, name: "general", position: 0, guild_id: GUILD_ID, permission_overwrites: [], nsfw: false, parent_id: null, topic: null };
+const EVERYONE = { id: GUILD_ID, name: "@everyone", permissions: "1071698660929", position: 0, color: 0, hoist: false, managed: false, mentionable: false, flags: 0 };
+
+const guild = () => ({
+  id: GUILD_ID, name: "Test Server", icon: null, owner_id: TESTER.id, afk_timeout: 300, verification_level: 0,
+  default_message_notifications: 0, explicit_content_filter: 0, mfa_level: 0, nsfw_level: 0, premium_tier: 0,
+  preferred_locale: "en-US", features: [], emojis: [], stickers: [], roles: [EVERYONE], channels: [CHANNEL], threads: [],
+  members: [member(BOT_USER), member(TESTER)], member_count: 2, large: false, unavailable: false, joined_at: now(),
+  voice_states: [], presences: [], stage_instances: [], guild_scheduled_events: [], system_channel_id: CHANNEL_ID,
+});
+
+const message = (author, content, channelId, body) => ({
+  id: snowflake(), channel_id: channelId || CHANNEL_ID, guild_id: GUILD_ID, author: author, member: member(author),
+  content: content || "", timestamp: now(), edited_timestamp: null, tts: false, mention_everyone: false, mentions: [],
+  mention_roles: [], attachments: [], embeds: (body && body.embeds) || [], components: (body && body.components) || [],
+  pinned: false, type: 0, flags: (body && body.flags) || 0,
+});
+
+const interaction = (iid, step) => ({
+  id: iid, application_id: APP_ID, type: 2, token: "mock-token-" + iid, version: 1, guild_id: GUILD_ID,
+  channel_id: CHANNEL_ID, channel: CHANNEL, member: member(TESTER), locale: "en-US", guild_locale: "en-US",
+  app_permissions: "8", entitlements: [], authorizing_integration_owners: { 0: GUILD_ID }, context: 0,
+  data: {
+    id: snowflake(), name: step.name, type: 1, guild_id: GUILD_ID, options: step.options || [],
+    resolved: {
+      users: { [TESTER.id]: TESTER }, members: { [TESTER.id]: member(TESTER) },
+      channels: { [CHANNEL_ID]: Object.assign({ permissions: "8" }, CHANNEL) }, roles: { [GUILD_ID]: EVERYONE },
+    },
+  },
+});
+
+function reply(via, command, body) {
+  const data = (via === "interaction" ? body && body.data : body) || {};
+  emit("reply", { via: via, command: command, content: data.content || "", embeds: data.embeds || [],
+    components: (data.components || []).length, ephemeral: Boolean((data.flags || 0) & 64) });
+}
+
+// ---------------------------------------------------------------------------
+// Mock server
+// ---------------------------------------------------------------------------
+
+let WebSocketServer;
+try {
+  if (!SIMULATOR_URL) WebSocketServer = require("ws").WebSocketServer;
+} catch (e) {
+  emit("import_error", { message: "Cannot find module 'ws' — is discord.js installed? (" + e.message + ")" });
+  finish();
+}
+
+function json(res, status, value) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(value === undefined ? "" : JSON.stringify(value));
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    const chunks = [];
+    req.on("data", (c) => chunks.push(c));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw) return resolve(null);
+      const type = req.headers["content-type"] || "";
+      if (type.startsWith("multipart/")) {
+        const m = raw.match(/name="payload_json"[^\n]*\r?\n(?:[^\n]*\r?\n)?\r?\n([\s\S]*?)\r?\n--/);
+        return resolve(m ? JSON.parse(m[1]) : null);
+      }
+      try { resolve(JSON.parse(raw)); } catch (e) { resolve(null); }
+    });
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, "http://127.0.0.1");
+  const path = url.pathname.replace(/^\/api\/v\d+/, "");
+  const parts = path.split("/").filter(Boolean);
+  const body = await readBody(req);
+  const m = req.method;
+
+  if (path.startsWith("/gateway")) {
+    return json(res, 200, { url: WS_URL, shards: 1, session_start_limit: { total: 1000, remaining: 1000, reset_after: 0, max_concurrency: 1 } });
+  }
+  if (path === "/users/@me") return json(res, 200, BOT_USER);
+  if (path === "/oauth2/applications/@me" || path === "/applications/@me") {
+    return json(res, 200, { id: APP_ID, name: "TestBot", icon: null, description: "", bot_public: true, bot_require_code_grant: false, owner: TESTER, verify_key: "0".repeat(64), flags: 0, team: null, summary: "" });
+  }
+  if (parts[0] === "applications" && parts[parts.length - 1] === "commands") {
+    if (m === "PUT") return json(res, 200, (body || []).map((c) => Object.assign({}, c, { id: snowflake(), application_id: APP_ID, version: "1" })));
+    return json(res, 200, []);
+  }
+  if (parts[0] === "interactions" && parts[parts.length - 1] === "callback") {
+    const command = pending.get(parts[1]) || null;
+    pending.delete(parts[1]);
+    state.responded++;
+    reply("interaction", command, body);
+    if (url.searchParams.get("with_response") === "true") {
+      const data = (body && body.data) || {};
+      const msg = message(BOT_USER, data.content, null, data);
+      return json(res, 200, {
+        interaction: { id: parts[1], type: 2, activity_instance_id: null, response_message_id: msg.id, response_message_loading: false, response_message_ephemeral: false },
+        resource: { type: (body && body.type) || 4, message: msg },
+      });
+    }
+    return json(res, 204);
+  }
+  if (parts[0] === "webhooks") {
+    if (m === "POST" || m === "PATCH") reply("interaction", null, { data: body });
+    return json(res, 200, message(BOT_USER, body && body.content, null, body));
+  }
+  if (parts[0] === "channels" && parts[2] === "messages" && m === "POST") {
+    reply("message", null, body);
+    return json(res, 200, message(BOT_USER, body && body.content, parts[1], body));
+  }
+  if (parts[0] === "channels" && parts.length === 2) return json(res, 200, CHANNEL);
+  if (parts[0] === "guilds" && parts[2] === "members" && parts.length === 4 && m === "GET") return json(res, 200, member(TESTER));
+  if (parts[0] === "guilds" && (parts[2] === "bans" || parts[2] === "members") && (m === "PUT" || m === "DELETE")) {
+    emit("moderation", { action: parts[2] === "bans" ? "ban" : "kick", target: parts[3] || null });
+    return json(res, 204);
+  }
+  if (parts[0] === "guilds" && parts[2] === "members" && m === "PATCH") {
+    emit("moderation", { action: body && body.communication_disabled_until ? "timeout" : "edit_member", target: parts[3] || null });
+    return json(res, 200, member(TESTER));
+  }
+  if (m === "DELETE") return json(res, 204);
+  emit("unmocked_route", { method: m, path: path });
+  return json(res, 200, {});
+});
+
+function runScript(dispatch) {
+  let delay = 1000;
+  for (const step of SCRIPT) {
+    setTimeout(() => {
+      if (step.type === "slash") {
+        const iid = snowflake();
+        pending.set(iid, step.name);
+        state.sent++;
+        emit("invoke", { command: step.name, options: step.options || [] });
+        dispatch("INTERACTION_CREATE", interaction(iid, step));
+        setTimeout(() => {
+          if (pending.has(iid)) { pending.delete(iid); emit("no_response", { command: step.name }); }
+        }, DEADLINE);
+      } else if (step.type === "prefix") {
+        emit("invoke", { command: step.command, content: step.content });
+        dispatch("MESSAGE_CREATE", message(TESTER, step.content));
+      } else if (step.type === "member_join") {
+        const joiner = Object.assign({}, TESTER, { id: snowflake(), username: "newcomer" });
+        dispatch("GUILD_MEMBER_ADD", Object.assign(member(joiner), { guild_id: GUILD_ID }));
+      }
+    }, delay);
+    delay += 600;
+  }
+}
+
+if (WebSocketServer) {
+  const wss = new WebSocketServer({ server: server });
+  wss.on("connection", (ws) => {
+    let seq = 0;
+    const dispatch = (t, d) => ws.send(JSON.stringify({ op: 0, t: t, s: ++seq, d: d }));
+    ws.send(JSON.stringify({ op: 10, d: { heartbeat_interval: 41250 } }));
+    ws.on("message", (raw) => {
+      let payload;
+      try { payload = JSON.parse(raw.toString()); } catch (e) { return; }
+      if (payload.op === 1) ws.send(JSON.stringify({ op: 11 }));
+      else if (payload.op === 2) {
+        dispatch("READY", { v: 10, user: BOT_USER, guilds: [{ id: GUILD_ID, unavailable: true }], session_id: "mock-session", resume_gateway_url: WS_URL, application: { id: APP_ID, flags: 0 }, private_channels: [] });
+        dispatch("GUILD_CREATE", guild());
+        state.ready = true;
+        emit("ready");
+        runScript(dispatch);
+      } else if (payload.op === 6) dispatch("RESUMED", {});
+    });
+  });
+  server.listen(PORT, "127.0.0.1");
+  server.unref();
+}
+
+// ---------------------------------------------------------------------------
+// discord.js wiring
+// ---------------------------------------------------------------------------
+
+try {
+  const rest = require(require.resolve("@discordjs/rest", { paths: [process.cwd()] }));
+  rest.DefaultRestOptions.api = SIMULATOR_URL ? SIMULATOR_URL + "/api" : "http://127.0.0.1:" + PORT + "/api";
+} catch (e) {
+  emit("import_error", { message: "Cannot find module '@discordjs/rest' — is discord.js installed? (" + e.message + ")" });
+}
+
+// Against the simulator, READY is only visible from inside discord.js
+if (SIMULATOR_URL) {
+  try {
+    const discord = require(require.resolve("discord.js", { paths: [process.cwd()] }));
+    const originalEmit = discord.Client.prototype.emit;
+    discord.Client.prototype.emit = function (event) {
+      if ((event === "ready" || event === "clientReady") && !state.ready) {
+        state.ready = true;
+        emit("ready");
+      }
+      return originalEmit.apply(this, arguments);
+    };
+  } catch (e) { /* the @discordjs/rest import error above already says why */ }
+}
+
+function finish() {
+  emit("summary", { ready: state.ready, sent: state.sent, responded: state.responded });
+  process.exit(0);
+}
+
+process.on("uncaughtException", (err) => {
+  const kind = err && err.code === "MODULE_NOT_FOUND" ? "import_error" : state.ready ? "handler_error" : "startup_error";
+  emit(kind, { message: String(err && err.message || err), traceback: String(err && err.stack || err) });
+  if (!state.ready) finish();
+});
+process.on("unhandledRejection", (err) => {
+  emit(state.ready ? "handler_error" : "startup_error", { message: String(err && err.message || err), traceback: String(err && err.stack || err) });
+});
+setTimeout(finish, RUN_SECONDS * 1000);
+`;
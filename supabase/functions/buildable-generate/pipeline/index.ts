@@ -19,13 +19,20 @@ import {
 } from "./context.ts";
 import { validateFiles } from "./validation.ts";
 import { runRepairLoop } from "./repair.ts";
+import { detectProjectType } from "./scoring.ts";
+import { isSandboxConfigured } from "./sandbox.ts";
+import { extractCommandManifest } from "./commands.ts";
 import { hasAnyProvider, getAvailableProviders } from "./routing.ts";
 import { getLibraryCatalog } from "./libraries.ts";
+import { createCostLedger, costSummary, loadPlanType } from "./budget.ts";
 
 // Stage imports
 import { executeIntentStage } from "./stages/intent.ts";
 import { executePlanStage } from "./stages/plan.ts";
 import { executeGenerateStage, getEnhancedDefaults } from "./stages/generate.ts";
+import { executeExecuteStage, projectTree } from "./stages/execute.ts";
+import { executeInterpretStage } from "./stages/interpret.ts";
+import { executeRegressStage } from "./stages/regress.ts";
 
 // =============================================================================
 // PIPELINE INITIALIZATION
@@ -188,6 +195,10 @@ export async function runPipeline(
 
     logger.info("Providers available", { providers: getAvailableProviders() });
 
+    // Every routed AI call below is priced against the plan's per-generation budget
+    context.costs ??= createCostLedger(await loadPlanType(context.supabase, context.userId));
+    logger.info("Generation budget", { plan: context.costs.plan, budgetUsd: context.costs.budgetUsd });
+
     // Update session status
     if (context.sessionId) {
       await context.supabase
@@ -321,7 +332,7 @@ export async function runPipeline(
         .eq("id", context.sessionId);
     }
 
-    let validation = validateFiles(context.generatedFiles, context.plan);
+    let validation = validateFiles(context.generatedFiles, context.plan, context.existingFiles);
     context.validationResults = validation;
 
     // Check completeness against plan
@@ -364,6 +375,76 @@ export async function runPipeline(
       emit({ type: "stage", stage: "repair", status: "complete", data: { attempts: repairResult.repairAttempts, success: repairResult.success } });
     }
 
+    // =======================================================================
+    // STAGE 6-8: EXECUTE → INTERPRET → REPAIR (bot projects, sandbox only)
+    // =======================================================================
+    // Static checks can't see a crashing command handler, so boot the bot
+    // against a mock gateway and repair whatever actually blew up
+    if (validation.valid && isSandboxConfigured() && detectProjectType(projectTree(context)) === "bot") {
+      for (let round = 1; round <= SAFETY_LIMITS.maxExecutionRounds; round++) {
+        emit({ type: "stage", stage: "execute", status: "start", message: round === 1 ? "Running your bot..." : "Re-running your bot..." });
+        const run = await executeExecuteStage(context);
+        emit({ type: "stage", stage: "execute", status: "complete", data: { status: run.data?.status, events: run.data?.events.length ?? 0 } });
+        if (run.data?.status !== "failed") break;
+
+        emit({ type: "stage", stage: "interpret", status: "start", message: "Reading the crash logs..." });
+        const interpreted = await executeInterpretStage(context);
+        const runtimeErrors = (interpreted.data ?? []).map(e => e.original);
+        emit({ type: "stage", stage: "interpret", status: "complete", data: { errors: runtimeErrors.length } });
+        if (runtimeErrors.length === 0 || round === SAFETY_LIMITS.maxExecutionRounds) break;
+
+        emit({ type: "stage", stage: "repair", status: "start", message: "Fixing runtime errors..." });
+        const repairResult = await runRepairLoop(context, validation, runtimeErrors);
+        context.generatedFiles = repairResult.files;
+        context.validationResults = repairResult.validation;
+        validation = repairResult.validation;
+
+        for (const file of context.generatedFiles) {
+          emit({
+            type: "file",
+            command: "UPDATE_FILE",
+            path: file.path,
+            content: file.content,
+          });
+        }
+        emit({ type: "stage", stage: "repair", status: "complete", data: { attempts: repairResult.repairAttempts, success: repairResult.success } });
+        // A repair that broke the static checks isn't worth running again
+        if (!validation.valid) break;
+      }
+    }
+
+    // =======================================================================
+    // COMMAND MANIFEST (bot projects)
+    // =======================================================================
+    // Generated files only cover what changed, so layer them over the existing tree
+    context.commandManifest = extractCommandManifest(projectTree(context));
+    if (context.commandManifest.commands.length > 0) {
+      logger.info("Command manifest extracted", {
+        language: context.commandManifest.language,
+        commands: context.commandManifest.commands.length,
+      });
+    }
+
+    // =======================================================================
+    // STAGE 9: REGRESS (bot projects with a scenario suite)
+    // =======================================================================
+    // Replays tests/scenarios/ so a change that breaks an existing command
+    // shows up in the chat summary instead of after deploy
+    if (validation.valid && detectProjectType(projectTree(context)) === "bot") {
+      emit({ type: "stage", stage: "regress", status: "start", message: "Running your tests..." });
+      const regress = await executeRegressStage(context);
+      emit({
+        type: "stage",
+        stage: "regress",
+        status: "complete",
+        data: {
+          status: regress.data?.status,
+          passed: regress.data?.results.filter(r => r.passed).length ?? 0,
+          total: regress.data?.results.length ?? 0,
+        },
+      });
+    }
+
     // =======================================================================
     // GENERATE PERSONA RESPONSE
     // =======================================================================
@@ -384,7 +465,14 @@ export async function runPipeline(
       modelsUsed: context.modelsUsed,
       validationPassed: validation.valid,
       repairAttempts: context.repairHistory.length,
-      errors: validation.criticalErrors.map(e => e.message),
+      errors: [
+        ...validation.criticalErrors.map(e => e.message),
+        // Whatever the last sandbox run still tripped over
+        ...(context.execution?.status === "failed" ? (context.runtimeErrors ?? []).map(e => e.original.message) : []),
+      ],
+      quality: validation.quality,
+      execution: context.execution,
+      scenarios: context.scenarios,
       aiMessage: personaResult.message,
       routes: personaResult.routes,
       suggestions: personaResult.suggestions,
@@ -396,6 +484,7 @@ export async function runPipeline(
       files: result.files.length,
       validationPassed: result.validationPassed,
       duration: Date.now() - context.startTime,
+      costUsd: context.costs?.spentUsd,
     });
 
     return result;
@@ -489,6 +578,8 @@ export async function updateSessionStatus(
 ): Promise<void> {
   if (!sessionId) return;
 
+  const costs = context.costs ? costSummary(context.costs) : null;
+
   try {
     await supabase.from("generation_sessions").update({
       status: result.success ? "completed" : "failed",
@@ -498,10 +589,26 @@ export async function updateSessionStatus(
       completed_at: new Date().toISOString(),
       duration_ms: Date.now() - context.startTime,
       error_message: result.errors?.join("; ") || null,
+      ...(costs ? {
+        cost_usd: costs.cost_usd,
+        cost_breakdown: costs.cost_breakdown,
+        tokens_total: costs.tokens_total,
+        tokens_used: costs.tokens_total.input + costs.tokens_total.output,
+      } : {}),
       metadata: {
         telemetry: result.telemetry,
         context: context.projectContext,
         repairHistory: context.repairHistory,
+        quality: result.quality ?? null,
+        execution: result.execution
+          ? { ...result.execution, output: result.execution.output.slice(-4000) }
+          : null,
+        runtimeErrors: (context.runtimeErrors ?? []).map(e => ({ file: e.original.file, line: e.original.line, message: e.original.message })),
+        commandManifest: context.commandManifest ?? null,
+        scenarios: context.scenarios ?? null,
+        budget: context.costs
+          ? { plan: context.costs.plan, budgetUsd: context.costs.budgetUsd, spentUsd: context.costs.spentUsd, level: context.costs.level }
+          : null,
       },
     }).eq("id", sessionId);
   } catch (err) {
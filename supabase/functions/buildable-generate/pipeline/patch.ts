@@ -0,0 +1,152 @@
+// =============================================================================
+// PATCH - Search/replace hunks for the repair loop, plus unified diffs
+// =============================================================================
+// The repair model answers with aider-style blocks:
+//
+//   src/components/Hero.tsx
+//   <<<<<<< SEARCH
+//   exact existing lines
+//   =======
+//   replacement lines
+//   >>>>>>> REPLACE
+//
+// A hunk only applies when its SEARCH text matches one place in the current
+// file — exactly, or aligned line by line ignoring indentation — with context
+// breaking ties (the matching itself is _shared/patchEngine.ts, the line diff
+// _shared/lineDiff.ts). Anything else is reported back as unmatched so the
+// loop can ask again instead of guessing.
+
+import { applyPatch } from "../../_shared/patchEngine.ts";
+import { diffLines } from "../../_shared/lineDiff.ts";
+import type { FileOperation, SearchReplacePatch, AppliedPatch } from "./types.ts";
+
+export interface FilePatch extends SearchReplacePatch {
+  file: string;
+}
+
+export interface UnmatchedPatch extends FilePatch {
+  reason: string;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const SEARCH_MARK = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARK = /^={5,9}\s*$/;
+const REPLACE_MARK = /^>{5,9} REPLACE\s*$/;
+
+/** Path named on a line before a block: bare, fenced (```tsx:path) or commented */
+function pathFromLine(line: string): string | null {
+  let s = line.trim();
+  if (s.startsWith("```")) {
+    const colon = s.indexOf(":");
+    if (colon === -1) return null;
+    s = s.slice(colon + 1);
+  }
+  s = s.replace(/^(?:\/\/|#|\*+|File:|Path:)\s*/i, "").replace(/[`*]/g, "").trim().replace(/^\/+/, "");
+  return /^[\w@.\-/]+\.\w+$/.test(s) ? s : null;
+}
+
+export function parsePatches(response: string): FilePatch[] {
+  const lines = response.split("\n");
+  const patches: FilePatch[] = [];
+  let lastPath: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!SEARCH_MARK.test(lines[i])) {
+      lastPath = pathFromLine(lines[i]) ?? lastPath;
+      continue;
+    }
+    const search: string[] = [];
+    const replace: string[] = [];
+    let j = i + 1;
+    while (j < lines.length && !DIVIDER_MARK.test(lines[j])) search.push(lines[j++]);
+    j++;
+    while (j < lines.length && !REPLACE_MARK.test(lines[j])) replace.push(lines[j++]);
+    if (lastPath && j < lines.length) {
+      patches.push({ file: lastPath, search: search.join("\n"), replace: replace.join("\n") });
+    }
+    i = j;
+  }
+  return patches;
+}
+
+// =============================================================================
+// APPLYING
+// =============================================================================
+
+/**
+ * Apply hunks to `files` in place. Each applied hunk is recorded with the diff
+ * it produced; an empty SEARCH on a path that doesn't exist creates the file.
+ * A hunk for a project file this generation didn't change pulls that file in
+ * from `existing` as an update first, so later retries and rewrites see it.
+ */
+export function applyFilePatches(files: FileOperation[], patches: FilePatch[], existing: FileOperation[] = []): { applied: AppliedPatch[]; unmatched: UnmatchedPatch[] } {
+  const applied: AppliedPatch[] = [];
+  const unmatched: UnmatchedPatch[] = [];
+
+  for (const patch of patches) {
+    let idx = files.findIndex(f => f.path === patch.file);
+    const current = idx === -1 ? existing.find(f => f.path === patch.file) : undefined;
+    if (current) idx = files.push({ ...current, operation: "update" }) - 1;
+    if (idx === -1) {
+      if (patch.search.trim()) {
+        unmatched.push({ ...patch, reason: "File does not exist — use an empty SEARCH to create it" });
+        continue;
+      }
+      files.push({ path: patch.file, content: patch.replace, operation: "create" });
+      applied.push({ file: patch.file, strategy: "search_replace", diff: unifiedDiff(patch.file, null, patch.replace) });
+      continue;
+    }
+
+    const before = files[idx].content;
+    const outcome = applyPatch(before, patch);
+    if (outcome.status === "failed") {
+      unmatched.push({ ...patch, reason: outcome.message });
+      continue;
+    }
+    files[idx] = { ...files[idx], content: outcome.content };
+    applied.push({
+      file: patch.file,
+      strategy: "search_replace",
+      diff: unifiedDiff(patch.file, before, outcome.content),
+      ...(outcome.status === "fuzzy" ? { fuzzy: true, confidence: outcome.confidence } : {}),
+    });
+  }
+  return { applied, unmatched };
+}
+
+// =============================================================================
+// UNIFIED DIFF
+// =============================================================================
+
+/** Unified diff of one file; `before = null` means the file is new */
+export function unifiedDiff(path: string, before: string | null, after: string, context = 3): string {
+  const ops = diffLines(before === null ? [] : before.split("\n"), after.split("\n"));
+  const changed = ops.map((op, k) => (op.t === " " ? -1 : k)).filter(k => k !== -1);
+  if (changed.length === 0) return "";
+
+  const out = [`--- ${before === null ? "/dev/null" : `a/${path}`}`, `+++ b/${path}`];
+  let g = 0;
+  while (g < changed.length) {
+    // Group changes whose context windows touch
+    let last = g;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= context * 2) last++;
+    const start = Math.max(0, changed[g] - context);
+    const end = Math.min(ops.length, changed[last] + context + 1);
+
+    let oldLine = 1, newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].t !== "+") oldLine++;
+      if (ops[k].t !== "-") newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldLen = hunk.filter(op => op.t !== "+").length;
+    const newLen = hunk.filter(op => op.t !== "-").length;
+    out.push(`@@ -${oldLen === 0 ? oldLine - 1 : oldLine},${oldLen} +${newLen === 0 ? newLine - 1 : newLine},${newLen} @@`);
+    for (const op of hunk) out.push(op.t + op.line);
+    g = last + 1;
+  }
+  return out.join("\n");
+}
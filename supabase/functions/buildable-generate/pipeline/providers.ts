@@ -0,0 +1,469 @@
+// =============================================================================
+// PROVIDER REGISTRY - Built-in and runtime-configured chat endpoints
+// =============================================================================
+// Grok, Gemini and OpenAI are built in. More providers (or overrides of a
+// built-in, e.g. OpenAI through a proxy) come from AI_PROVIDER_REGISTRY, a JSON
+// array of { key, ...ModelConfig }:
+//
+//   [{ "key": "openrouter", "name": "OpenRouter",
+//      "baseUrl": "https://openrouter.ai/api/v1/chat/completions",
+//      "apiKeyEnv": "OPENROUTER_API_KEY",
+//      "models": { "code": "qwen/qwen3-coder", "fast": "openai/gpt-4o-mini" },
+//      "pricing": { "input": 0.4, "output": 1.6 } },
+//    { "key": "claude", "name": "Anthropic", "adapter": "anthropic",
+//      "baseUrl": "https://api.anthropic.com/v1/messages", "apiKeyEnv": "ANTHROPIC_API_KEY",
+//      "models": { "code": "claude-sonnet-4-5" }, "preferredFor": ["coding", "repair"] },
+//    { "key": "local", "name": "Ollama", "baseUrl": "http://localhost:11434/v1/chat/completions",
+//      "models": { "code": "qwen2.5-coder:14b" }, "contextLimits": { "maxFiles": 4, "maxCharsPerFile": 1500 } }]
+//
+// A provider without apiKeyEnv needs no key and is always available.
+//
+// AI_MOCK_RECORDINGS (a JSON array of MockRecording, or a path to one) swaps
+// every provider for "mock", which replays the recorded responses in order
+// per task — the whole pipeline runs deterministically without network.
+
+import type { AITaskType, ContextLimits, ModelConfig, ProviderKey, ProviderPricing } from "./types.ts";
+
+// =============================================================================
+// BUILT-IN PROVIDERS
+// =============================================================================
+
+export const BUILTIN_PROVIDERS: Record<"grok" | "gemini" | "openai", ModelConfig> = {
+  grok: {
+    name: "Grok (xAI)",
+    baseUrl: "https://api.x.ai/v1/chat/completions",
+    apiKeyEnv: "GROK_API_KEY",
+    models: {
+      fast: "grok-3-mini-fast",
+      code: "grok-3-fast",
+      vision: "grok-2-vision-1212",
+    },
+    maxTokens: 16000,
+    capabilities: ["code", "json", "streaming", "vision"],
+    contextLimits: { maxFiles: 5, maxCharsPerFile: 1000 },
+    pricing: { input: 5, output: 25 },
+    modelPricing: { "grok-3-mini-fast": { input: 0.6, output: 4 } },
+  },
+  gemini: {
+    name: "Gemini (Google)",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta/openai/chat/completions",
+    apiKeyEnv: "GEMINI_API_KEY",
+    models: {
+      pro: "gemini-2.5-pro",
+      flash: "gemini-2.5-flash",
+      planning: "gemini-2.5-flash",
+      code: "gemini-2.5-flash",
+    },
+    maxTokens: 16000,
+    // Gemini 2.5 Pro has a 2M token context window
+    capabilities: ["code", "json", "streaming", "large_context", "vision"],
+    contextLimits: { maxFiles: 15, maxCharsPerFile: 3000 },
+    pricing: { input: 0.3, output: 2.5 },
+    modelPricing: { "gemini-2.5-pro": { input: 1.25, output: 10 } },
+  },
+  openai: {
+    name: "OpenAI",
+    baseUrl: "https://api.openai.com/v1/chat/completions",
+    apiKeyEnv: "OPENAI_API_KEY",
+    models: {
+      gpt4o: "gpt-4o",
+      reasoning: "gpt-4o",
+      mini: "gpt-4o-mini",
+    },
+    maxTokens: 16000,
+    capabilities: ["code", "json", "streaming", "vision"],
+    contextLimits: { maxFiles: 8, maxCharsPerFile: 2000 },
+    pricing: { input: 2.5, output: 10 },
+    modelPricing: { "gpt-4o-mini": { input: 0.15, output: 0.6 } },
+  },
+};
+
+export const MOCK_PROVIDER_KEY = "mock";
+
+const MOCK_PROVIDER: ModelConfig = {
+  name: "Mock (recorded)",
+  baseUrl: "",
+  adapter: "mock",
+  models: { replay: "recorded" },
+  maxTokens: 16000,
+  capabilities: ["code", "json", "streaming", "large_context"],
+  pricing: { input: 0, output: 0 },
+};
+
+/** What a provider without its own limits gets in the prompt */
+export const DEFAULT_CONTEXT_LIMITS: ContextLimits = { maxFiles: 5, maxCharsPerFile: 1000 };
+
+// Custom providers that don't say otherwise are plain OpenAI-compatible chat
+const DEFAULT_CAPABILITIES: ModelConfig["capabilities"] = ["code", "streaming"];
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+let registry: Map<ProviderKey, ModelConfig> | null = null;
+
+function parseDefinitions(raw: string): Array<[ProviderKey, ModelConfig]> {
+  let definitions: unknown;
+  try {
+    definitions = JSON.parse(raw);
+  } catch (e) {
+    console.warn(`[Providers] AI_PROVIDER_REGISTRY isn't valid JSON: ${e instanceof Error ? e.message : e}`);
+    return [];
+  }
+  if (!Array.isArray(definitions)) {
+    console.warn("[Providers] AI_PROVIDER_REGISTRY must be a JSON array");
+    return [];
+  }
+
+  const entries: Array<[ProviderKey, ModelConfig]> = [];
+  for (const def of definitions as Array<Partial<ModelConfig> & { key?: string }>) {
+    const { key, ...config } = def ?? {};
+    if (!key || !config.baseUrl || !config.models || Object.keys(config.models).length === 0) {
+      console.warn(`[Providers] Skipping provider ${key ?? "(no key)"}: key, baseUrl and models are required`);
+      continue;
+    }
+    if (key === MOCK_PROVIDER_KEY) {
+      console.warn(`[Providers] "${MOCK_PROVIDER_KEY}" is reserved for AI_MOCK_RECORDINGS`);
+      continue;
+    }
+    entries.push([key, {
+      ...config,
+      name: config.name ?? key,
+      baseUrl: config.baseUrl,
+      models: config.models,
+      maxTokens: config.maxTokens ?? 8000,
+      capabilities: config.capabilities ?? DEFAULT_CAPABILITIES,
+    }]);
+  }
+  return entries;
+}
+
+function load(): Map<ProviderKey, ModelConfig> {
+  if (registry) return registry;
+  registry = new Map(Object.entries(BUILTIN_PROVIDERS));
+
+  const custom = Deno.env.get("AI_PROVIDER_REGISTRY");
+  if (custom) {
+    for (const [key, config] of parseDefinitions(custom)) registry.set(key, config);
+  }
+
+  const recordings = Deno.env.get("AI_MOCK_RECORDINGS");
+  if (recordings) {
+    const raw = recordings.trimStart().startsWith("[") ? recordings : Deno.readTextFileSync(recordings);
+    loadMockRecordings(JSON.parse(raw) as MockRecording[]);
+  }
+  return registry;
+}
+
+export function registerProvider(key: ProviderKey, config: ModelConfig): void {
+  load().set(key, config);
+}
+
+export function unregisterProvider(key: ProviderKey): void {
+  load().delete(key);
+  if (key === MOCK_PROVIDER_KEY) mockRecordings = null;
+}
+
+/** Drop runtime registrations and re-read the environment on next use */
+export function resetProviderRegistry(): void {
+  registry = null;
+  mockRecordings = null;
+  mockConsumed.clear();
+}
+
+export function getProvider(key: ProviderKey): ModelConfig {
+  const config = load().get(key);
+  if (!config) throw new Error(`Unknown AI provider "${key}"`);
+  return config;
+}
+
+export function listProviders(): ProviderKey[] {
+  return [...load().keys()];
+}
+
+export function providerApiKey(key: ProviderKey): string | undefined {
+  const env = getProvider(key).apiKeyEnv;
+  return env ? Deno.env.get(env) : undefined;
+}
+
+/** Providers that can be called right now; with recordings loaded that's only the mock */
+export function availableProviders(): ProviderKey[] {
+  const providers = load();
+  if (mockRecordings && providers.has(MOCK_PROVIDER_KEY)) return [MOCK_PROVIDER_KEY];
+  return [...providers.entries()]
+    .filter(([key, config]) => key !== MOCK_PROVIDER_KEY && (!config.apiKeyEnv || !!Deno.env.get(config.apiKeyEnv)))
+    .map(([key]) => key);
+}
+
+export function hasCapability(key: ProviderKey, capability: NonNullable<ModelConfig["capabilities"]>[number]): boolean {
+  return getProvider(key).capabilities?.includes(capability) ?? false;
+}
+
+export function contextLimitsFor(key: ProviderKey): ContextLimits {
+  return load().get(key)?.contextLimits ?? DEFAULT_CONTEXT_LIMITS;
+}
+
+export function pricingFor(key: ProviderKey, model: string): ProviderPricing | undefined {
+  const config = load().get(key);
+  return config?.modelPricing?.[model] ?? config?.pricing;
+}
+
+/** A model id by role ("code", "flash" …), falling back to the provider's first model */
+export function resolveModel(key: ProviderKey, ...roles: string[]): string {
+  const { models } = getProvider(key);
+  for (const role of roles) if (models[role]) return models[role];
+  return Object.values(models)[0];
+}
+
+// =============================================================================
+// MOCK PROVIDER
+// =============================================================================
+
+export interface MockRecording {
+  /** Only replay for this task; omitted matches any */
+  task?: AITaskType;
+  /** Only replay when the last user message contains this */
+  match?: string;
+  content: string;
+  tokensUsed?: number;
+}
+
+let mockRecordings: MockRecording[] | null = null;
+const mockConsumed = new Set<number>();
+let capture: MockRecording[] | null = null;
+
+/** Replace every provider with a replay of these responses */
+export function loadMockRecordings(recordings: MockRecording[]): void {
+  mockRecordings = recordings;
+  mockConsumed.clear();
+  load().set(MOCK_PROVIDER_KEY, MOCK_PROVIDER);
+}
+
+/**
+ * Matching recordings are used in order; once they're all used the last one
+ * keeps answering, so a retried stage sees the same response.
+ */
+function replay(task: AITaskType, messages: ChatMessage[]): MockRecording {
+  const lastUser = [...messages].reverse().find(m => m.role === "user")?.content ?? "";
+  const matching = (mockRecordings ?? [])
+    .map((recording, index) => ({ recording, index }))
+    .filter(({ recording }) => (!recording.task || recording.task === task) && (!recording.match || lastUser.includes(recording.match)));
+  const pick = matching.find(m => !mockConsumed.has(m.index)) ?? matching[matching.length - 1];
+  if (!pick) throw new Error(`Mock provider: no recording for ${task}`);
+  mockConsumed.add(pick.index);
+  return pick.recording;
+}
+
+/** Start keeping every successful response so a real run can be saved as recordings */
+export function startCapturingResponses(): void {
+  capture = [];
+}
+
+export function takeCapturedResponses(): MockRecording[] {
+  const captured = capture ?? [];
+  capture = null;
+  return captured;
+}
+
+export function captureResponse(task: AITaskType, content: string, tokensUsed?: number): void {
+  capture?.push({ task, content, ...(tokensUsed !== undefined ? { tokensUsed } : {}) });
+}
+
+// =============================================================================
+// TRANSPORT
+// =============================================================================
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface ChatRequest {
+  task: AITaskType;
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  tokensUsed?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  return fetch(url, { ...init, signal: controller.signal }).finally(() => clearTimeout(timer));
+}
+
+function buildRequest(key: ProviderKey, request: ChatRequest, stream: boolean): { url: string; init: RequestInit } {
+  const config = getProvider(key);
+  const apiKey = providerApiKey(key);
+
+  if (config.adapter === "anthropic") {
+    // Messages API: system prompt is a separate field, roles are user/assistant only
+    const system = request.messages.filter(m => m.role === "system").map(m => m.content).join("\n\n");
+    return {
+      url: config.baseUrl,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "anthropic-version": ANTHROPIC_VERSION,
+          ...(apiKey ? { "x-api-key": apiKey } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          ...(system ? { system } : {}),
+          messages: request.messages.filter(m => m.role !== "system").map(m => ({ role: m.role === "assistant" ? "assistant" : "user", content: m.content })),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream,
+        }),
+      },
+    };
+  }
+
+  return {
+    url: config.baseUrl,
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream,
+      }),
+    },
+  };
+}
+
+/** The fields read from either adapter's JSON response */
+interface RawChatResponse {
+  content?: Array<{ type: string; text?: string }>;
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { input_tokens?: number; output_tokens?: number; prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+function parseResponse(key: ProviderKey, data: RawChatResponse): ChatResponse {
+  if (getProvider(key).adapter === "anthropic") {
+    const inputTokens = data.usage?.input_tokens;
+    const outputTokens = data.usage?.output_tokens;
+    return {
+      content: (data.content ?? []).filter(b => b.type === "text").map(b => b.text ?? "").join(""),
+      inputTokens,
+      outputTokens,
+      tokensUsed: inputTokens !== undefined || outputTokens !== undefined ? (inputTokens ?? 0) + (outputTokens ?? 0) : undefined,
+    };
+  }
+  return {
+    content: data.choices?.[0]?.message?.content || "",
+    tokensUsed: data.usage?.total_tokens,
+    inputTokens: data.usage?.prompt_tokens,
+    outputTokens: data.usage?.completion_tokens,
+  };
+}
+
+async function failure(key: ProviderKey, response: Response): Promise<Error> {
+  const brief = (await response.text().catch(() => "")).slice(0, 400);
+  return new Error(`${getProvider(key).name}: ${response.status}${brief ? ` - ${brief}` : ""}`);
+}
+
+/** One chat completion; non-2xx responses throw with the provider's name and status */
+export async function sendChat(key: ProviderKey, request: ChatRequest, timeoutMs: number): Promise<ChatResponse> {
+  if (getProvider(key).adapter === "mock") {
+    const { content, tokensUsed } = replay(request.task, request.messages);
+    return { content, tokensUsed };
+  }
+
+  const { url, init } = buildRequest(key, request, false);
+  const response = await fetchWithTimeout(url, init, timeoutMs);
+  if (!response.ok) throw await failure(key, response);
+  return parseResponse(key, await response.json());
+}
+
+/** Streamed completion: text deltas go to onChunk as they arrive, the full text is returned */
+export async function streamChat(
+  key: ProviderKey,
+  request: ChatRequest,
+  onChunk: (chunk: string) => void,
+  timeoutMs: number,
+): Promise<ChatResponse> {
+  const { adapter } = getProvider(key);
+  const anthropic = adapter === "anthropic";
+  if (adapter === "mock") {
+    const response = await sendChat(key, request, timeoutMs);
+    onChunk(response.content);
+    return response;
+  }
+
+  const { url, init } = buildRequest(key, request, true);
+  const response = await fetchWithTimeout(url, init, timeoutMs);
+  if (!response.ok) throw await failure(key, response);
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error(`${getProvider(key).name}: empty stream`);
+
+  const decoder = new TextDecoder();
+  let fullContent = "";
+  let buffer = "";
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+      let line = buffer.slice(0, newlineIndex);
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line.endsWith("\r")) line = line.slice(0, -1);
+      if (line.startsWith(":") || line.trim() === "") continue;
+      if (!line.startsWith("data: ")) continue;
+
+      const jsonStr = line.slice(6).trim();
+      if (jsonStr === "[DONE]") continue;
+
+      try {
+        const parsed = JSON.parse(jsonStr);
+        const content = anthropic
+          ? (parsed.type === "content_block_delta" ? parsed.delta?.text : undefined)
+          : parsed.choices?.[0]?.delta?.content;
+        if (anthropic) {
+          inputTokens = parsed.message?.usage?.input_tokens ?? inputTokens;
+          outputTokens = parsed.usage?.output_tokens ?? outputTokens;
+        } else if (parsed.usage) {
+          inputTokens = parsed.usage.prompt_tokens;
+          outputTokens = parsed.usage.completion_tokens;
+        }
+        if (content) {
+          fullContent += content;
+          onChunk(content);
+        }
+      } catch {
+        // Incomplete JSON, continue
+      }
+    }
+  }
+
+  return {
+    content: fullContent,
+    inputTokens,
+    outputTokens,
+    tokensUsed: inputTokens !== undefined || outputTokens !== undefined ? (inputTokens ?? 0) + (outputTokens ?? 0) : undefined,
+  };
+}
@@ -2,25 +2,49 @@
 // REPAIR - Self-repair loop with completeness handling
 // =============================================================================
 
-import type { FileOperation, ValidationResult, RepairAttempt, PipelineContext, ArchitecturePlan } from "./types.ts";
+import type { FileOperation, ValidationResult, ValidationError, PipelineContext, AppliedPatch } from "./types.ts";
 import { SAFETY_LIMITS } from "./types.ts";
 import { validateFiles, canAutoFix, applyAutoFix } from "./validation.ts";
+import { withMissingRequirements } from "./validation-python.ts";
+import { applyFilePatches, parsePatches, unifiedDiff, type UnmatchedPatch } from "./patch.ts";
 import { callAI } from "./routing.ts";
 import { StageTracer } from "./telemetry.ts";
 
-const REPAIR_PROMPT = `You are a code repair AI. Fix the errors and return COMPLETE files.
+const REPAIR_PROMPT = `You are a code repair AI. Fix the errors with minimal SEARCH/REPLACE edits — do NOT rewrite whole files.
 
 RULES:
-1. Fix ALL reported errors
-2. Return COMPLETE files (no placeholders)
-3. Balance all braces and parentheses
-4. Include all imports
+1. Fix ALL reported errors — each one names the file and line
+2. SEARCH must be copied exactly from the current file, including indentation, and match exactly one place
+3. Keep SEARCH short: the lines to change plus enough neighbouring lines to be unique
+4. REPLACE is the literal new code (no placeholders); include any imports you add as their own edit
+5. To create a missing file, use an empty SEARCH
+6. Python: keep 4-space indentation, await every coroutine, and list new packages in requirements.txt
+
+FORMAT (one block per edit, path on the line above each block):
+src/path/File.tsx
+<<<<<<< SEARCH
+exact existing lines
+=======
+replacement lines
+>>>>>>> REPLACE`;
+
+// Last resort when hunks still don't match after retries
+const REWRITE_PROMPT = `You are a code repair AI. Fix the errors and return COMPLETE files.
+
+RULES:
+1. Fix ALL reported errors — each one names the file and line
+2. Return COMPLETE files (no placeholders) and keep all unrelated code unchanged
+3. Include all imports
+4. Python: keep 4-space indentation, await every coroutine, and list new packages in requirements.txt
 
 FORMAT:
 \`\`\`tsx:src/path/File.tsx
 // complete fixed code
 \`\`\``;
 
+/** Follow-up requests for hunks whose SEARCH didn't match */
+const MAX_HUNK_RETRIES = 2;
+
 const COMPLETION_PROMPT = `You are a code generation AI. Generate the MISSING files for an existing project.
 
 RULES:
@@ -43,15 +67,16 @@ function extractFiles(response: string): FileOperation[] {
   let m;
   while ((m = regex.exec(response)) !== null) {
     const path = m[2].trim().replace(/^\/+/, "");
-    if (path && m[3] && path.includes("/")) {
+    // Bot projects keep main.py / index.js / requirements.txt at the root
+    if (path && m[3] && (path.includes("/") || /\.(py|txt|toml|json|js|ts|mjs|cjs)$/.test(path))) {
       files.push({ path, content: m[3].trim(), operation: "update" });
     }
   }
   return files;
 }
 
-function autoFix(files: FileOperation[]): FileOperation[] {
-  return files.map(f => {
+function autoFix(files: FileOperation[], existing: FileOperation[]): FileOperation[] {
+  return withMissingRequirements(files, existing).map(f => {
     if (!f.path.endsWith(".tsx") && !f.path.endsWith(".ts")) return f;
     let c = f.content;
 
@@ -116,7 +141,7 @@ MISSING FILES TO GENERATE:
 ${missingDescriptions}
 
 Generate EACH missing file with COMPLETE code matching the existing style. Use the same design patterns, colors, and animations.` },
-    ]);
+    ], { costs: ctx.costs });
 
     tracer.modelCall(result.provider, result.model, "repair", result.latencyMs, result.tokensUsed);
 
@@ -129,13 +154,51 @@ Generate EACH missing file with COMPLETE code matching the existing style. Use t
   }
 }
 
+// =============================================================================
+// REPAIR HELPERS
+// =============================================================================
+
+function fence(files: FileOperation[]): string {
+  return files.map(f => `\`\`\`${f.path.split(".").pop()}:${f.path}\n${f.content}\n\`\`\``).join("\n\n");
+}
+
+function describeUnmatched(unmatched: UnmatchedPatch[]): string {
+  return unmatched.map(u => `${u.file} — ${u.reason}\n<<<<<<< SEARCH\n${u.search}\n=======\n${u.replace}\n>>>>>>> REPLACE`).join("\n\n");
+}
+
+async function rewriteFiles(
+  ctx: PipelineContext,
+  targets: FileOperation[],
+  errorSummary: string,
+  tracer: StageTracer
+): Promise<{ files: FileOperation[]; latencyMs: number }> {
+  const result = await callAI("repair", [
+    { role: "system", content: REWRITE_PROMPT },
+    { role: "user", content: `ERRORS:\n${errorSummary}\n\nFILES:\n${fence(targets)}\n\nFix all errors.` },
+  ], { costs: ctx.costs });
+  tracer.modelCall(result.provider, result.model, "repair", result.latencyMs, result.tokensUsed);
+
+  const rewritten = extractFiles(result.content).filter(r => {
+    const original = targets.find(t => t.path === r.path);
+    if (!original) return false;
+    // A rewrite that loses most of the file has dropped code, not fixed it
+    if (r.content.split("\n").length < original.content.split("\n").length / 2) {
+      console.warn(`[Repair] Rejected whole-file rewrite of ${r.path}: ${r.content.split("\n").length} of ${original.content.split("\n").length} lines`);
+      return false;
+    }
+    return true;
+  });
+  return { files: rewritten, latencyMs: result.latencyMs };
+}
+
 // =============================================================================
 // MAIN REPAIR LOOP
 // =============================================================================
 
 export async function runRepairLoop(
   ctx: PipelineContext,
-  initial: ValidationResult
+  initial: ValidationResult,
+  runtimeErrors: ValidationError[] = []
 ): Promise<{ files: FileOperation[]; validation: ValidationResult; repairAttempts: number; success: boolean }> {
   const tracer = new StageTracer(ctx);
   let files = [...ctx.generatedFiles];
@@ -153,7 +216,7 @@ export async function runRepairLoop(
       const newFiles = await generateMissingFiles(ctx, validation.missingFiles, tracer);
       if (newFiles.length > 0) {
         files = [...files, ...newFiles];
-        validation = validateFiles(files, ctx.plan);
+        validation = validateFiles(files, ctx.plan, ctx.existingFiles);
         console.log(`[Repair] After completion pass: ${files.length} files, completeness: ${(validation.completenessScore ?? 0).toFixed(2)}`);
       }
     }
@@ -163,50 +226,92 @@ export async function runRepairLoop(
   // STEP 2: Auto-fix pass
   // =========================================================================
   if (!validation.valid) {
-    const fixed = autoFix(files);
-    const v = validateFiles(fixed, ctx.plan);
+    const fixed = autoFix(files, ctx.existingFiles);
+    const v = validateFiles(fixed, ctx.plan, ctx.existingFiles);
     if (v.criticalErrors.length < validation.criticalErrors.length) {
       files = fixed;
       validation = v;
     }
   }
 
+  // Errors from running the bot don't show up in static validation, so they
+  // stay pinned until the first AI attempt; the next sandbox run re-checks them
+  if (runtimeErrors.length > 0) {
+    for (const path of new Set(runtimeErrors.map(e => e.file))) {
+      const existing = ctx.existingFiles.find(f => f.path === path);
+      if (existing && !files.some(f => f.path === path)) files.push({ ...existing, operation: "update" });
+    }
+    validation = { ...validation, valid: false, criticalErrors: [...runtimeErrors, ...validation.criticalErrors] };
+  }
+
   // =========================================================================
-  // STEP 3: AI repair loop for remaining errors
+  // STEP 3: AI repair loop — search/replace hunks, whole files as last resort
   // =========================================================================
   while (!validation.valid && attempts < SAFETY_LIMITS.maxRepairAttempts) {
     attempts++;
     try {
       const errorSummary = validation.criticalErrors.slice(0, 5)
-        .map(e => `${e.file}: ${e.message}`).join("\n");
+        .map(e => `${e.file}${e.line ? `:${e.line}${e.column ? `:${e.column}` : ""}` : ""}: ${e.message} (fix: ${e.fix})`).join("\n");
       
       const filesToFix = files.filter(f => 
         validation.criticalErrors.some(e => e.file === f.path)
       ).slice(0, 3);
 
-      const fileContents = filesToFix.map(f => `\`\`\`tsx:${f.path}\n${f.content}\n\`\`\``).join("\n\n");
-
       const result = await callAI("repair", [
         { role: "system", content: REPAIR_PROMPT },
-        { role: "user", content: `ERRORS:\n${errorSummary}\n\nFILES:\n${fileContents}\n\nFix all errors.` },
-      ]);
-
+        { role: "user", content: `ERRORS:\n${errorSummary}\n\nFILES:\n${fence(filesToFix)}\n\nFix all errors.` },
+      ], { costs: ctx.costs });
       tracer.modelCall(result.provider, result.model, "repair", result.latencyMs, result.tokensUsed);
+      let duration = result.latencyMs;
+
+      const patches = parsePatches(result.content);
+      const round = applyFilePatches(files, patches, ctx.existingFiles);
+      const applied: AppliedPatch[] = [...round.applied];
+      let unmatched = round.unmatched;
+      // The model ignored the format entirely — treat every file as unmatched
+      const rewriteAll = patches.length === 0;
+
+      // Re-ask for hunks that didn't match, showing the file as it is now
+      for (let retry = 0; unmatched.length > 0 && retry < MAX_HUNK_RETRIES; retry++) {
+        const paths = [...new Set(unmatched.map(u => u.file))];
+        const retryResult = await callAI("repair", [
+          { role: "system", content: REPAIR_PROMPT },
+          { role: "user", content: `These edits could not be applied:\n${describeUnmatched(unmatched)}\n\nCURRENT FILES:\n${fence(files.filter(f => paths.includes(f.path)))}\n\nRe-send ONLY corrected SEARCH/REPLACE blocks for these edits, copying SEARCH from the current files above.` },
+        ], { costs: ctx.costs });
+        tracer.modelCall(retryResult.provider, retryResult.model, "repair", retryResult.latencyMs, retryResult.tokensUsed);
+        duration += retryResult.latencyMs;
+
+        const retried = parsePatches(retryResult.content).filter(p => paths.includes(p.file));
+        const retryRound = applyFilePatches(files, retried, ctx.existingFiles);
+        applied.push(...retryRound.applied);
+        // Files the retry didn't touch keep their original unmatched hunks
+        const answered = new Set(retried.map(p => p.file));
+        unmatched = [...retryRound.unmatched, ...unmatched.filter(u => !answered.has(u.file))];
+      }
 
-      const repaired = extractFiles(result.content);
-      for (const r of repaired) {
-        const idx = files.findIndex(f => f.path === r.path);
-        if (idx >= 0) files[idx] = r;
+      // Whole-file replacement only for files whose hunks never matched
+      const rewritePaths = rewriteAll ? filesToFix.map(f => f.path) : [...new Set(unmatched.map(u => u.file))];
+      if (rewritePaths.length > 0) {
+        const rewrite = await rewriteFiles(ctx, files.filter(f => rewritePaths.includes(f.path)), errorSummary, tracer);
+        duration += rewrite.latencyMs;
+        for (const r of rewrite.files) {
+          const idx = files.findIndex(f => f.path === r.path);
+          if (idx === -1) continue;
+          applied.push({ file: r.path, strategy: "whole_file", diff: unifiedDiff(r.path, files[idx].content, r.content) });
+          files[idx] = r;
+        }
       }
 
-      validation = validateFiles(files, ctx.plan);
+      validation = validateFiles(files, ctx.plan, ctx.existingFiles);
       ctx.repairHistory.push({
         attempt: attempts,
         errors: validation.criticalErrors.map(e => ({ type: e.category, file: e.file, message: e.message })),
-        patchesApplied: repaired.map(r => r.path),
+        patchesApplied: applied.filter(p => p.diff),
+        unmatchedHunks: unmatched.length,
         resolved: validation.valid,
-        duration: result.latencyMs,
+        duration,
       });
+      console.log(`[Repair] Attempt ${attempts}: ${applied.length} patches (${applied.filter(p => p.strategy === "whole_file").length} whole-file), ${validation.criticalErrors.length} errors left`);
 
     } catch (e) {
       console.error(`[Repair] Attempt ${attempts} failed:`, e);
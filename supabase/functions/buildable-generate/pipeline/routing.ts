@@ -8,47 +8,24 @@
 import type { 
   ProviderKey, 
   AITaskType, 
-  ModelConfig, 
-  TaskRouting 
+  TaskRouting,
+  CostLedger
 } from "./types.ts";
-
-// =============================================================================
-// PROVIDER CONFIGURATIONS (Upgraded to latest models)
-// =============================================================================
-
-export const AI_PROVIDERS: Record<ProviderKey, ModelConfig> = {
-  grok: {
-    name: "Grok (xAI)",
-    baseUrl: "https://api.x.ai/v1/chat/completions",
-    models: {
-      fast: "grok-3-mini-fast",
-      code: "grok-3-fast",
-      vision: "grok-2-vision-1212",
-    },
-    maxTokens: 16000,
-  },
-  gemini: {
-    name: "Gemini (Google)",
-    baseUrl: "https://generativelanguage.googleapis.com/v1beta/openai/chat/completions",
-    models: {
-      pro: "gemini-2.5-pro",
-      flash: "gemini-2.5-flash",
-      planning: "gemini-2.5-flash",
-      code: "gemini-2.5-flash",
-    },
-    maxTokens: 16000,
-  },
-  openai: {
-    name: "OpenAI",
-    baseUrl: "https://api.openai.com/v1/chat/completions",
-    models: {
-      gpt4o: "gpt-4o",
-      reasoning: "gpt-4o",
-      mini: "gpt-4o-mini",
-    },
-    maxTokens: 16000,
-  },
-};
+import {
+  availableProviders,
+  captureResponse,
+  contextLimitsFor,
+  getProvider,
+  hasCapability,
+  listProviders,
+  providerApiKey,
+  resolveModel,
+  sendChat,
+  streamChat,
+} from "./providers.ts";
+import { affordableMaxTokens, budgetLevel, cheapestModel, describeSpend, outputPrice, recordCost } from "./budget.ts";
+
+// Providers (built-in and runtime-configured) live in the registry — see providers.ts
 
 // =============================================================================
 // TASK ROUTING MATRIX - Optimized for collaboration
@@ -112,16 +89,11 @@ export const TASK_ROUTING: Record<AITaskType, TaskRouting> = {
 // =============================================================================
 
 export function getApiKeys(): Record<ProviderKey, string | undefined> {
-  return {
-    grok: Deno.env.get("GROK_API_KEY"),
-    gemini: Deno.env.get("GEMINI_API_KEY"),
-    openai: Deno.env.get("OPENAI_API_KEY"),
-  };
+  return Object.fromEntries(listProviders().map(key => [key, providerApiKey(key)]));
 }
 
 export function getAvailableProviders(): ProviderKey[] {
-  const keys = getApiKeys();
-  return (Object.keys(keys) as ProviderKey[]).filter(k => !!keys[k]);
+  return availableProviders();
 }
 
 export function hasAnyProvider(): boolean {
@@ -168,19 +140,26 @@ export function selectBestProvider(
   const available = getAvailableProviders();
   if (available.length === 0) throw new Error("No AI providers configured");
 
-  // For planning tasks: always prefer Gemini (2M context window)
+  // A configured provider that asked for this task goes first
+  const preferred = available.find(k => getProvider(k).preferredFor?.includes(task));
+  if (preferred) return preferred;
+
+  // Large context window (Gemini's 2M) wins for planning and big projects
+  const largeContext = available.find(k => hasCapability(k, "large_context"));
+
+  // For planning tasks: always prefer a large-context provider
   if (task === "planning" || task === "decompose") {
-    return available.includes("gemini") ? "gemini" : available[0];
+    return largeContext ?? available[0];
   }
 
-  // For coding tasks with many existing files: prefer Gemini (large context)
+  // For coding tasks with many existing files: prefer large context
   if (task === "coding" && profile.existingFileCount > 5) {
-    return available.includes("gemini") ? "gemini" : TASK_ROUTING[task].provider;
+    return largeContext ?? TASK_ROUTING[task].provider;
   }
 
   // For complex new projects: prefer Gemini Pro
   if (task === "coding" && profile.isNewProject && profile.complexity === "high") {
-    return available.includes("gemini") ? "gemini" : TASK_ROUTING[task].provider;
+    return largeContext ?? TASK_ROUTING[task].provider;
   }
 
   // For validation: OpenAI is fast and precise
@@ -208,63 +187,62 @@ export function buildProviderChain(
   profile?: RequestProfile,
 ): ProviderCandidate[] {
   const routing = TASK_ROUTING[task];
-  const apiKeys = getApiKeys();
+  const available = new Set(getAvailableProviders());
   const candidates: ProviderCandidate[] = [];
   let priority = 0;
+  // Model by role ("code", "flash" …), falling back to the provider's first model
+  const add = (provider: ProviderKey, ...roles: string[]) => {
+    if (available.has(provider) && !candidates.find(c => c.provider === provider)) {
+      candidates.push({ provider, model: resolveModel(provider, ...roles), priority: priority++ });
+    }
+  };
 
   // If we have a request profile, use smart selection for primary
   if (profile) {
-    const bestProvider = selectBestProvider(task, profile);
-    if (apiKeys[bestProvider]) {
-      const config = AI_PROVIDERS[bestProvider];
-      // For coding, use "code" model key if available
-      const modelKey = task === "coding" ? "code" : routing.model;
-      const model = config.models[modelKey as keyof typeof config.models] 
-        || config.models[routing.model as keyof typeof config.models]
-        || Object.values(config.models)[0];
-      candidates.push({ provider: bestProvider, model, priority: priority++ });
-    }
+    // For coding, use "code" model key if available
+    add(selectBestProvider(task, profile), ...(task === "coding" ? ["code"] : []), routing.model);
   }
 
-  // Add primary provider from routing table (if not already added)
-  if (apiKeys[routing.provider] && !candidates.find(c => c.provider === routing.provider)) {
-    const config = AI_PROVIDERS[routing.provider];
-    const modelKey = routing.model as keyof typeof config.models;
-    candidates.push({
-      provider: routing.provider,
-      model: config.models[modelKey] || Object.values(config.models)[0],
-      priority: priority++,
-    });
+  // Providers configured for this task come before the routing table
+  for (const provider of available) {
+    if (getProvider(provider).preferredFor?.includes(task)) add(provider, routing.model, "code");
   }
 
+  // Add primary provider from routing table (if not already added)
+  add(routing.provider, routing.model);
+
   // Add fallback provider (if not already added)
-  if (routing.fallback && apiKeys[routing.fallback.provider] && 
-      !candidates.find(c => c.provider === routing.fallback!.provider)) {
-    const fallbackConfig = AI_PROVIDERS[routing.fallback.provider];
-    const fallbackModelKey = routing.fallback.model as keyof typeof fallbackConfig.models;
-    candidates.push({
-      provider: routing.fallback.provider,
-      model: fallbackConfig.models[fallbackModelKey] || Object.values(fallbackConfig.models)[0],
-      priority: priority++,
-    });
-  }
+  if (routing.fallback) add(routing.fallback.provider, routing.fallback.model);
 
   // Add any remaining available providers as last resort
-  for (const [key, apiKey] of Object.entries(apiKeys)) {
-    const providerKey = key as ProviderKey;
-    if (apiKey && !candidates.find(c => c.provider === providerKey)) {
-      const config = AI_PROVIDERS[providerKey];
-      candidates.push({
-        provider: providerKey,
-        model: Object.values(config.models)[0],
-        priority: priority++,
-      });
-    }
-  }
+  for (const provider of available) add(provider, routing.model, "code");
 
   return candidates.sort((a, b) => a.priority - b.priority);
 }
 
+/** The same providers on their cheapest models, cheapest first — for when the budget runs low */
+function economize(chain: ProviderCandidate[]): ProviderCandidate[] {
+  return chain
+    .map(c => ({ ...c, model: cheapestModel(c.provider) }))
+    .sort((a, b) => outputPrice(a.provider, a.model) - outputPrice(b.provider, b.model) || a.priority - b.priority)
+    .map((c, i) => ({ ...c, priority: i }));
+}
+
+/** The chain for a call under the ledger's budget; throws once the budget is spent */
+function budgetedChain(task: AITaskType, profile: RequestProfile | undefined, costs: CostLedger | undefined): ProviderCandidate[] {
+  const chain = buildProviderChain(task, profile);
+  if (!costs) return chain;
+  const level = budgetLevel(costs);
+  if (level === "exhausted") {
+    throw new Error(`Generation budget exhausted: ${describeSpend(costs)}`);
+  }
+  if (level === "economy") {
+    console.log(`[Router] ${describeSpend(costs)} spent — ${task} on the cheapest models`);
+    return economize(chain);
+  }
+  return chain;
+}
+
 // =============================================================================
 // CONFIDENCE SCORING
 // =============================================================================
@@ -390,16 +368,7 @@ export function meetsConfidenceThreshold(task: AITaskType, confidence: number):
 // =============================================================================
 
 export function getContextLimits(provider: ProviderKey): { maxFiles: number; maxCharsPerFile: number } {
-  switch (provider) {
-    case "gemini":
-      // Gemini 2.5 Pro has 2M token context window
-      return { maxFiles: 15, maxCharsPerFile: 3000 };
-    case "openai":
-      return { maxFiles: 8, maxCharsPerFile: 2000 };
-    case "grok":
-    default:
-      return { maxFiles: 5, maxCharsPerFile: 1000 };
-  }
+  return contextLimitsFor(provider);
 }
 
 // =============================================================================
@@ -409,13 +378,6 @@ export function getContextLimits(provider: ProviderKey): { maxFiles: number; max
 const AI_CALL_TIMEOUT_MS = 25_000; // 25 seconds for non-coding tasks
 const AI_CODING_TIMEOUT_MS = 45_000; // 45 seconds for code generation
 
-function fetchWithTimeout(url: string, init: RequestInit, timeoutMs = AI_CALL_TIMEOUT_MS): Promise<Response> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-
-  return fetch(url, { ...init, signal: controller.signal }).finally(() => clearTimeout(timer));
-}
-
 // =============================================================================
 // AI CALLER WITH ROUTING
 // =============================================================================
@@ -440,9 +402,10 @@ export async function callAI(
     temperature?: number;
     expectedFields?: string[];
     profile?: RequestProfile;
+    costs?: CostLedger;
   } = {}
 ): Promise<AICallResult> {
-  const chain = buildProviderChain(task, options.profile);
+  const chain = budgetedChain(task, options.profile, options.costs);
   const startTime = Date.now();
 
   if (chain.length === 0) {
@@ -454,62 +417,46 @@ export async function callAI(
 
   for (const candidate of chain) {
     const { provider, model } = candidate;
-    const config = AI_PROVIDERS[provider];
-    const apiKey = getApiKeys()[provider]!;
+    const config = getProvider(provider);
 
     // Cap maxTokens for edge function safety (16k is plenty for any single stage)
-    const maxTokens = Math.min(options.maxTokens || config.maxTokens, 16000);
+    let maxTokens = Math.min(options.maxTokens || config.maxTokens, 16000);
+    if (options.costs) maxTokens = affordableMaxTokens(options.costs, provider, model, messages, maxTokens);
 
     console.log(`[Router] ${task} → ${config.name} (${model}) [maxTokens: ${maxTokens}]`);
 
     try {
-      const headers: Record<string, string> = { 
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`,
-      };
-
       // Use longer timeout for coding tasks
       const timeout = task === "coding" ? AI_CODING_TIMEOUT_MS : AI_CALL_TIMEOUT_MS;
-      const response = await fetchWithTimeout(config.baseUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
-          model,
-          messages,
-          max_tokens: maxTokens,
-          temperature: options.temperature ?? 0.5,
-          stream: options.stream ?? false,
-        }),
+      const data = await sendChat(provider, {
+        task,
+        model,
+        messages,
+        maxTokens,
+        temperature: options.temperature ?? 0.5,
       }, timeout);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        const brief = errorText.slice(0, 400);
-        console.log(`[Router] ${config.name} failed: ${response.status} - ${brief}`);
-        lastError = new Error(`${config.name}: ${response.status}${brief ? ` - ${brief}` : ""}`);
-        attemptIndex++;
-        continue;
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content || "";
+      const content = data.content;
       const latencyMs = Date.now() - startTime;
       const quality = scoreResponse(content, task, options.expectedFields);
+      // A response is paid for whether or not we keep it
+      if (options.costs) recordCost(options.costs, task, provider, model, messages, data);
 
       console.log(`[Router] ✓ ${config.name} (confidence: ${quality.confidence.toFixed(2)}, blocks: ${quality.codeBlockCount})`);
 
-      if (!meetsConfidenceThreshold(task, quality.confidence) && attemptIndex < chain.length - 1) {
+      const canAffordFallback = !options.costs || budgetLevel(options.costs) !== "exhausted";
+      if (!meetsConfidenceThreshold(task, quality.confidence) && attemptIndex < chain.length - 1 && canAffordFallback) {
         console.log(`[Router] Low confidence (${quality.confidence.toFixed(2)}), trying fallback...`);
         attemptIndex++;
         continue;
       }
 
+      captureResponse(task, content, data.tokensUsed);
       return {
         success: true,
         content,
         provider,
         model,
-        tokensUsed: data.usage?.total_tokens,
+        tokensUsed: data.tokensUsed,
         latencyMs,
         confidence: quality.confidence,
         usedFallback: attemptIndex > 0,
@@ -538,9 +485,9 @@ export async function callAIEnsemble(
     maxTokens?: number;
     temperature?: number;
     profile?: RequestProfile;
+    costs?: CostLedger;
   } = {}
 ): Promise<AICallResult> {
-  const apiKeys = getApiKeys();
   const available = getAvailableProviders();
   const startTime = Date.now();
 
@@ -553,56 +500,52 @@ export async function callAIEnsemble(
     return callAI("coding", messages, { ...options, stream: false });
   }
 
+  // Two paid calls per request is the first thing to go when the budget runs low
+  if (options.costs && budgetLevel(options.costs) !== "normal") {
+    console.log(`[Ensemble] ${describeSpend(options.costs)} spent — single provider`);
+    return callAI("coding", messages, { ...options, stream: false });
+  }
+
   // Pick top 2 providers for ensemble
   const ensembleProviders: Array<{ provider: ProviderKey; model: string }> = [];
-  
-  // Prefer Gemini Flash for speed in edge functions (Pro is too slow)
-  if (apiKeys.gemini) {
-    ensembleProviders.push({ provider: "gemini", model: AI_PROVIDERS.gemini.models.flash });
+  const pick = (provider: ProviderKey, ...roles: string[]) => {
+    if (ensembleProviders.length < 2 && available.includes(provider) && !ensembleProviders.some(p => p.provider === provider)) {
+      ensembleProviders.push({ provider, model: resolveModel(provider, ...roles) });
+    }
+  };
+
+  // Providers configured for coding take the first slots
+  for (const provider of available) {
+    if (getProvider(provider).preferredFor?.includes("coding")) pick(provider, "code");
   }
+  // Prefer Gemini Flash for speed in edge functions (Pro is too slow)
+  pick("gemini", "flash");
   // Include Grok for code if available (fast)
-  if (apiKeys.grok) {
-    ensembleProviders.push({ provider: "grok", model: AI_PROVIDERS.grok.models.code });
-  }
+  pick("grok", "code");
   // Add OpenAI if we still need more
-  if (ensembleProviders.length < 2 && apiKeys.openai) {
-    ensembleProviders.push({ provider: "openai", model: AI_PROVIDERS.openai.models.gpt4o });
-  }
+  pick("openai", "gpt4o");
+  // Then whatever else is configured
+  for (const provider of available) pick(provider, "code");
 
   console.log(`[Ensemble] Running ${ensembleProviders.length} providers in parallel: ${ensembleProviders.map(p => p.provider).join(", ")}`);
 
   // Call all providers in parallel with timeouts
   const promises = ensembleProviders.map(async ({ provider, model }) => {
-    const config = AI_PROVIDERS[provider];
-    const apiKey = apiKeys[provider]!;
+    const config = getProvider(provider);
     // Cap at 16k tokens for edge function speed
     const maxTokens = Math.min(options.maxTokens || config.maxTokens, 16000);
 
     try {
-      const response = await fetchWithTimeout(config.baseUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          max_tokens: maxTokens,
-          temperature: options.temperature ?? 0.5,
-          stream: false,
-        }),
+      const data = await sendChat(provider, {
+        task: "coding",
+        model,
+        messages,
+        maxTokens,
+        temperature: options.temperature ?? 0.5,
       }, AI_CODING_TIMEOUT_MS); // Use coding timeout (50s) for ensemble
-
-      if (!response.ok) {
-        const errText = await response.text().catch(() => "");
-        console.log(`[Ensemble] ${config.name} failed: ${response.status}`);
-        return null;
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content || "";
+      const content = data.content;
       const quality = scoreResponse(content, "coding");
+      if (options.costs) recordCost(options.costs, "coding", provider, model, messages, data);
 
       console.log(`[Ensemble] ${config.name}: confidence=${quality.confidence.toFixed(2)}, blocks=${quality.codeBlockCount}`);
 
@@ -611,7 +554,7 @@ export async function callAIEnsemble(
         content,
         provider,
         model,
-        tokensUsed: data.usage?.total_tokens,
+        tokensUsed: data.tokensUsed,
         latencyMs: Date.now() - startTime,
         confidence: quality.confidence,
         usedFallback: false,
@@ -644,6 +587,7 @@ export async function callAIEnsemble(
 
   const winner = results[0];
   console.log(`[Ensemble] Winner: ${winner.provider} (confidence: ${winner.confidence.toFixed(2)}, blocks: ${winner.codeBlockCount})`);
+  captureResponse("coding", winner.content, winner.tokensUsed);
   
   return winner;
 }
@@ -660,9 +604,10 @@ export async function callAIStreaming(
     maxTokens?: number;
     temperature?: number;
     profile?: RequestProfile;
+    costs?: CostLedger;
   } = {}
 ): Promise<AICallResult> {
-  const chain = buildProviderChain(task, options.profile);
+  const chain = budgetedChain(task, options.profile, options.costs);
   const startTime = Date.now();
 
   if (chain.length === 0) {
@@ -671,80 +616,33 @@ export async function callAIStreaming(
 
   for (const candidate of chain) {
     const { provider, model } = candidate;
-    const config = AI_PROVIDERS[provider];
-    const apiKey = getApiKeys()[provider]!;
-    const maxTokens = Math.min(options.maxTokens || config.maxTokens, 16000);
+    const config = getProvider(provider);
+    if (!hasCapability(provider, "streaming")) continue;
+    let maxTokens = Math.min(options.maxTokens || config.maxTokens, 16000);
+    if (options.costs) maxTokens = affordableMaxTokens(options.costs, provider, model, messages, maxTokens);
 
     console.log(`[Router:Stream] ${task} → ${config.name} (${model}) [maxTokens: ${maxTokens}]`);
 
     try {
-      const response = await fetchWithTimeout(config.baseUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages,
-          max_tokens: maxTokens,
-          temperature: options.temperature ?? 0.5,
-          stream: true,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.log(`[Router:Stream] ${config.name} failed: ${response.status} - ${errorText.slice(0, 200)}`);
-        continue;
-      }
-
-      const reader = response.body?.getReader();
-      if (!reader) continue;
-
-      const decoder = new TextDecoder();
-      let fullContent = "";
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
-          let line = buffer.slice(0, newlineIndex);
-          buffer = buffer.slice(newlineIndex + 1);
-
-          if (line.endsWith("\r")) line = line.slice(0, -1);
-          if (line.startsWith(":") || line.trim() === "") continue;
-          if (!line.startsWith("data: ")) continue;
-
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === "[DONE]") continue;
-
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              fullContent += content;
-              onChunk(content);
-            }
-          } catch {
-            // Incomplete JSON, continue
-          }
-        }
-      }
+      const data = await streamChat(provider, {
+        task,
+        model,
+        messages,
+        maxTokens,
+        temperature: options.temperature ?? 0.5,
+      }, onChunk, AI_CALL_TIMEOUT_MS);
 
       const latencyMs = Date.now() - startTime;
-      const quality = scoreResponse(fullContent, task);
+      const quality = scoreResponse(data.content, task);
+      if (options.costs) recordCost(options.costs, task, provider, model, messages, data);
+      captureResponse(task, data.content, data.tokensUsed);
 
       return {
         success: true,
-        content: fullContent,
+        content: data.content,
         provider,
         model,
+        tokensUsed: data.tokensUsed,
         latencyMs,
         confidence: quality.confidence,
         usedFallback: false,
@@ -0,0 +1,460 @@
+// =============================================================================
+// SANDBOX - Run a generated bot in an isolated runner against the mock gateway
+// =============================================================================
+// Edge functions can't spawn processes, so runs go to an external runner:
+//
+//   POST ${SANDBOX_RUNNER_URL}/run   (Authorization: Bearer ${SANDBOX_RUNNER_TOKEN})
+//   { image: "python" | "node", files: [{ path, content }], command, env, timeoutMs }
+//   → { exitCode: number | null, timedOut: boolean, stdout, stderr, durationMs }
+//
+// The runner only needs package-registry access: the harness (harness.ts)
+// serves Discord's API in-process, so runs never reach discord.com. When
+// DISCORD_SIMULATOR_URL is set the run gets a discord-simulator session
+// instead, which also enforces intents and Discord's message limits.
+
+import type { BotCommand, CommandManifest, CommandOption, ExecutionReport, FileOperation, HarnessEvent } from "./types.ts";
+import { SAFETY_LIMITS } from "./types.ts";
+import { extractCommandManifest } from "./commands.ts";
+import {
+  HARNESS_EVENT_PREFIX, MOCK_IDS, NODE_HARNESS, NODE_HARNESS_PATH, PYTHON_HARNESS, PYTHON_HARNESS_PATH,
+} from "./harness.ts";
+
+export interface RunRequest {
+  image: "python" | "node";
+  files: Array<{ path: string; content: string }>;
+  command: string;
+  env: Record<string, string>;
+  timeoutMs: number;
+}
+
+interface RunResponse {
+  exitCode: number | null;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+/** One step the harness replays once the bot is READY */
+export type ScriptStep =
+  | { type: "slash"; name: string; options: DiscordOptionValue[] }
+  | { type: "prefix"; command: string; content: string }
+  | { type: "member_join" };
+
+interface DiscordOptionValue {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: DiscordOptionValue[];
+}
+
+const MAX_SCRIPT_STEPS = 15;
+const OUTPUT_TAIL_CHARS = 4000;
+
+export function isSandboxConfigured(): boolean {
+  return !!Deno.env.get("SANDBOX_RUNNER_URL");
+}
+
+export function isSimulatorConfigured(): boolean {
+  return !!Deno.env.get("DISCORD_SIMULATOR_URL");
+}
+
+// =============================================================================
+// ENTRY POINT
+// =============================================================================
+
+const PYTHON_ENTRIES = ["main.py", "bot.py", "app.py", "run.py", "src/main.py", "src/bot.py"];
+const NODE_ENTRIES = ["index.js", "src/index.js", "bot.js", "src/bot.js", "main.js", "src/index.ts", "index.ts", "src/bot.ts"];
+
+export function findEntry(files: FileOperation[]): { language: "python" | "javascript"; entry: string } | null {
+  const paths = new Set(files.map(f => f.path));
+  const isDiscordPy = files.some(f => f.path.endsWith(".py") && /^\s*(?:import|from)\s+discord\b/m.test(f.content));
+
+  if (isDiscordPy) {
+    const entry = PYTHON_ENTRIES.find(p => paths.has(p))
+      ?? files.find(f => f.path.endsWith(".py") && /\b(?:bot|client)\.run\s*\(|asyncio\.run\s*\(/.test(f.content))?.path;
+    return entry ? { language: "python", entry } : null;
+  }
+
+  const pkg = files.find(f => f.path === "package.json");
+  if (pkg) {
+    try {
+      const json = JSON.parse(pkg.content);
+      const fromStart = typeof json.scripts?.start === "string" ? json.scripts.start.match(/\b(?:node|tsx|ts-node)\s+(\S+\.[cm]?[jt]s)\b/)?.[1] : undefined;
+      const entry = [fromStart, json.main].find(p => typeof p === "string" && paths.has(p.replace(/^\.\//, "")));
+      if (entry) return { language: "javascript", entry: entry.replace(/^\.\//, "") };
+    } catch { /* fall through to conventional names */ }
+  }
+  const entry = NODE_ENTRIES.find(p => paths.has(p))
+    ?? files.find(f => /\.[cm]?[jt]s$/.test(f.path) && /\.login\s*\(/.test(f.content))?.path;
+  return entry ? { language: "javascript", entry } : null;
+}
+
+// =============================================================================
+// SCRIPT - exercise every command in the manifest once
+// =============================================================================
+
+const OPTION_TYPE: Record<CommandOption["type"], number> = {
+  subcommand: 1, subcommand_group: 2, string: 3, integer: 4, boolean: 5, user: 6,
+  channel: 7, role: 8, mentionable: 9, number: 10, attachment: 11,
+};
+
+function sampleValue(o: CommandOption): string | number | boolean | undefined {
+  switch (o.type) {
+    case "string": return o.choices?.[0] ?? "test";
+    case "integer": return Number(o.choices?.[0]) || 1;
+    case "number": return Number(o.choices?.[0]) || 1.5;
+    case "boolean": return true;
+    case "user":
+    case "mentionable": return MOCK_IDS.tester;
+    case "channel": return MOCK_IDS.channel;
+    case "role": return MOCK_IDS.guild; // @everyone
+    default: return undefined; // attachments can't be simulated
+  }
+}
+
+/** Required options filled with sample values, or null when one can't be simulated */
+function sampleOptions(options: CommandOption[]): DiscordOptionValue[] | null {
+  const out: DiscordOptionValue[] = [];
+  for (const o of options.filter(o => o.required)) {
+    const value = sampleValue(o);
+    if (value === undefined) return null;
+    out.push({ name: o.name, type: OPTION_TYPE[o.type], value });
+  }
+  return out;
+}
+
+/** One invocation per leaf: `/mod ban`, `/mod kick`, `/config set key` ... */
+function slashSteps(cmd: BotCommand): ScriptStep[] {
+  const subs = cmd.options.filter(o => o.type === "subcommand" || o.type === "subcommand_group");
+  if (subs.length === 0) {
+    const options = sampleOptions(cmd.options);
+    return options ? [{ type: "slash", name: cmd.name, options }] : [];
+  }
+  const steps: ScriptStep[] = [];
+  for (const sub of subs) {
+    const leaves = sub.type === "subcommand_group" ? (sub.options ?? []).map(leaf => ({ group: sub, leaf })) : [{ group: null, leaf: sub }];
+    for (const { group, leaf } of leaves) {
+      const options = sampleOptions(leaf.options ?? []);
+      if (!options) continue;
+      const leafValue: DiscordOptionValue = { name: leaf.name, type: 1, options };
+      steps.push({ type: "slash", name: cmd.name, options: [group ? { name: group.name, type: 2, options: [leafValue] } : leafValue] });
+    }
+  }
+  return steps;
+}
+
+export function detectPrefix(files: FileOperation[]): string {
+  for (const f of files) {
+    const m = f.content.match(/command_prefix\s*=\s*(?:commands\.when_mentioned_or\(\s*)?["']([^"']+)["']/)
+      ?? f.content.match(/(?:const|let|var)\s+(?:PREFIX|prefix)\s*=\s*(?:process\.env\.\w+\s*(?:\?\?|\|\|)\s*)?["']([^"']+)["']/)
+      ?? (f.path.endsWith(".json") ? f.content.match(/"prefix"\s*:\s*"([^"]+)"/) : null);
+    if (m) return m[1];
+  }
+  return "!";
+}
+
+function prefixArgument(o: CommandOption): string | undefined {
+  if (o.type === "user" || o.type === "mentionable") return `<@${MOCK_IDS.tester}>`;
+  if (o.type === "channel") return `<#${MOCK_IDS.channel}>`;
+  if (o.type === "role") return `<@&${MOCK_IDS.guild}>`;
+  const value = sampleValue(o);
+  return value === undefined ? undefined : String(value);
+}
+
+export function buildScript(files: FileOperation[], manifest: CommandManifest = extractCommandManifest(files)): ScriptStep[] {
+  const steps: ScriptStep[] = [];
+  const prefix = detectPrefix(files);
+
+  for (const cmd of manifest.commands) {
+    if (cmd.kind === "slash") steps.push(...slashSteps(cmd));
+    else if (cmd.kind === "prefix") {
+      const args = cmd.options.filter(o => o.required).map(prefixArgument);
+      if (args.includes(undefined)) continue;
+      steps.push({ type: "prefix", command: cmd.name, content: [prefix + cmd.name, ...args].join(" ") });
+    }
+  }
+  if (files.some(f => /on_member_join|GuildMemberAdd|["']guildMemberAdd["']/.test(f.content))) {
+    steps.push({ type: "member_join" });
+  }
+  return steps.slice(0, MAX_SCRIPT_STEPS);
+}
+
+// =============================================================================
+// RUN
+// =============================================================================
+
+// Token-shaped but not a real token; the first segment is the mock app id in base64
+const MOCK_TOKEN = `${btoa(MOCK_IDS.application).replace(/=+$/, "")}.mock00.buildable-sandbox-token-not-real-000000`;
+
+export function buildRunRequest(
+  files: FileOperation[],
+  target: { language: "python" | "javascript"; entry: string },
+  script: ScriptStep[],
+  simulatorUrl?: string,
+  runSeconds: number = SAFETY_LIMITS.botRunSeconds,
+): RunRequest {
+  // Never upload the user's secrets — the bot gets mock credentials instead
+  const projectFiles = files
+    .filter(f => f.operation !== "delete" && !/(^|\/)\.env(\.|$)/.test(f.path))
+    .map(f => ({ path: f.path, content: f.content }));
+
+  const env: Record<string, string> = {
+    BUILDABLE_SCRIPT: JSON.stringify(script),
+    BUILDABLE_RUN_SECONDS: String(runSeconds),
+    DISCORD_TOKEN: MOCK_TOKEN,
+    DISCORD_BOT_TOKEN: MOCK_TOKEN,
+    BOT_TOKEN: MOCK_TOKEN,
+    TOKEN: MOCK_TOKEN,
+    CLIENT_ID: MOCK_IDS.application,
+    APPLICATION_ID: MOCK_IDS.application,
+    GUILD_ID: MOCK_IDS.guild,
+    ...(simulatorUrl ? { BUILDABLE_SIMULATOR_URL: simulatorUrl } : {}),
+  };
+  // Install time is budgeted by executionTimeout; longer runs (the playground) add their extra seconds
+  const timeoutMs = SAFETY_LIMITS.executionTimeout + Math.max(0, runSeconds - SAFETY_LIMITS.botRunSeconds) * 1000;
+
+  if (target.language === "python") {
+    const install = files.some(f => f.path === "requirements.txt")
+      ? "pip install --quiet --disable-pip-version-check -r requirements.txt 2>&1 | tail -n 20; "
+      : "";
+    return {
+      image: "python",
+      files: [...projectFiles, { path: PYTHON_HARNESS_PATH, content: PYTHON_HARNESS }],
+      command: `${install}python -u ${PYTHON_HARNESS_PATH} ${target.entry}`,
+      env: { ...env, PYTHONUNBUFFERED: "1" },
+      timeoutMs,
+    };
+  }
+
+  const runner = /\.ts$/.test(target.entry) ? "npx --yes tsx" : "node";
+  return {
+    image: "node",
+    files: [...projectFiles, { path: NODE_HARNESS_PATH, content: NODE_HARNESS }],
+    command: `npm install --no-audit --no-fund --loglevel=error 2>&1 | tail -n 20; ${runner} --require ./${NODE_HARNESS_PATH} ${target.entry}`,
+    env,
+    timeoutMs,
+  };
+}
+
+export async function runInSandbox(request: RunRequest): Promise<RunResponse> {
+  const res = await fetch(`${Deno.env.get("SANDBOX_RUNNER_URL")}/run`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${Deno.env.get("SANDBOX_RUNNER_TOKEN") ?? ""}` },
+    body: JSON.stringify(request),
+    signal: AbortSignal.timeout(request.timeoutMs + 15_000),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Sandbox runner failed (${res.status})`);
+  }
+  return await res.json() as RunResponse;
+}
+
+export type RunExit = Pick<RunResponse, "exitCode" | "timedOut" | "durationMs">;
+
+/**
+ * Same run, but output arrives line by line while the bot is up. The runner
+ * answers `Accept: application/x-ndjson` with one object per line:
+ *   { stream: "stdout" | "stderr", line }   …then   { exit: { exitCode, timedOut, durationMs } }
+ * Aborting `signal` stops the run.
+ */
+export async function streamInSandbox(
+  request: RunRequest,
+  onLine: (stream: "stdout" | "stderr", line: string) => void,
+  signal?: AbortSignal,
+): Promise<RunExit> {
+  const res = await fetch(`${Deno.env.get("SANDBOX_RUNNER_URL")}/run`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/x-ndjson",
+      Authorization: `Bearer ${Deno.env.get("SANDBOX_RUNNER_TOKEN") ?? ""}`,
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Sandbox runner failed (${res.status})`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let exit: RunExit = { exitCode: null, timedOut: false, durationMs: 0 };
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const raw = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!raw) continue;
+      try {
+        const msg = JSON.parse(raw);
+        if (msg.exit) exit = msg.exit;
+        else if (typeof msg.line === "string") onLine(msg.stream === "stderr" ? "stderr" : "stdout", msg.line);
+      } catch { /* partial or foreign line */ }
+    }
+  }
+  return exit;
+}
+
+// =============================================================================
+// SIMULATOR
+// =============================================================================
+
+type ScenarioOptions = Record<string, string | number | boolean>;
+
+/** `/mod ban user:<id>` as a simulator step — subcommand names become the command path */
+function slashToScenario(step: Extract<ScriptStep, { type: "slash" }>) {
+  const path = [step.name];
+  let options = step.options;
+  while (options.length === 1 && (options[0].type === 1 || options[0].type === 2)) {
+    path.push(options[0].name);
+    options = options[0].options ?? [];
+  }
+  const values: ScenarioOptions = {};
+  for (const o of options) if (o.value !== undefined) values[o.name] = o.value;
+  return { type: "slash", user: "tester", command: path.join(" "), options: values };
+}
+
+/** The harness script in the simulator's scenario format */
+export function scriptToScenario(script: ScriptStep[]) {
+  return {
+    name: "Generated smoke test",
+    steps: script.map((step, i) => {
+      if (step.type === "slash") return slashToScenario(step);
+      if (step.type === "prefix") return { type: "message", user: "tester", content: step.content };
+      return { type: "join", user: `newcomer${i + 1}` };
+    }),
+  };
+}
+
+async function simulatorFetch(path: string, init: RequestInit = {}, timeoutMs = 15_000): Promise<Response> {
+  const res = await fetch(`${Deno.env.get("DISCORD_SIMULATOR_URL")!.replace(/\/+$/, "")}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${Deno.env.get("DISCORD_SIMULATOR_TOKEN") ?? ""}` },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Discord simulator failed (${res.status})`);
+  }
+  return res;
+}
+
+/** A fresh simulated guild that replays `script` as soon as the bot connects */
+export async function openSimulatorSession(script: ScriptStep[]): Promise<{ id: string; url: string }> {
+  const res = await simulatorFetch("/sessions", {
+    method: "POST",
+    body: JSON.stringify({ scenario: scriptToScenario(script), readyTimeoutMs: SAFETY_LIMITS.executionTimeout }),
+  });
+  return await res.json();
+}
+
+const SIMULATOR_KINDS = new Set([
+  "ready", "invoke", "reply", "moderation", "no_response", "unmocked_route", "missing_intent", "api_error", "unknown_command",
+]);
+
+/** What the bot did inside the simulator, as harness events; closes the session */
+export async function closeSimulatorSession(id: string): Promise<HarnessEvent[]> {
+  try {
+    const res = await simulatorFetch(`/sessions/${id}/events`);
+    const { events } = await res.json() as { events: Array<Record<string, unknown>> };
+    return events
+      .filter(e => SIMULATOR_KINDS.has(String(e.kind)))
+      // Replies carry the full message object; the report only needs the text
+      .map(({ seq: _seq, at: _at, message, ...rest }) => ({
+        ...rest,
+        ...(typeof message === "string" ? { message } : {}),
+      }) as HarnessEvent);
+  } finally {
+    await simulatorFetch(`/sessions/${id}`, { method: "DELETE" }).catch(() => {});
+  }
+}
+
+/** One scenario's outcome as the simulator reports it (see SimulatorSession.runSuite) */
+export interface SimulatorScenarioResult {
+  file: string;
+  name?: string;
+  passed: boolean;
+  error?: string;
+  steps: Array<{ index: number; step: Record<string, unknown>; passed: boolean; detail?: string }>;
+  durationMs: number;
+}
+
+// Dependency install + READY, then roughly what a scenario takes to play out
+const SUITE_SCENARIO_BUDGET_MS = 20_000;
+
+/**
+ * Boot the bot once in a fresh simulator session (the simulator launches it
+ * in the sandbox) and play every scenario against it, each on a reset guild.
+ */
+export async function runScenarioSuite(
+  files: FileOperation[],
+  suite: Array<{ file: string; scenario: string }>,
+): Promise<SimulatorScenarioResult[]> {
+  const res = await simulatorFetch("/sessions", { method: "POST", body: "{}" });
+  const { id } = await res.json() as { id: string };
+  try {
+    await simulatorFetch(`/sessions/${id}/run`, {
+      method: "POST",
+      body: JSON.stringify({ files: files.filter(f => f.operation !== "delete").map(f => ({ path: f.path, content: f.content })) }),
+    });
+    const run = await simulatorFetch(`/sessions/${id}/suite`, {
+      method: "POST",
+      body: JSON.stringify({ scenarios: suite, readyTimeoutMs: SAFETY_LIMITS.executionTimeout }),
+    }, SAFETY_LIMITS.executionTimeout + suite.length * SUITE_SCENARIO_BUDGET_MS);
+    const { results } = await run.json() as { results: SimulatorScenarioResult[] };
+    return results;
+  } finally {
+    await simulatorFetch(`/sessions/${id}`, { method: "DELETE" }).catch(() => {});
+  }
+}
+
+// =============================================================================
+// REPORT
+// =============================================================================
+
+const FAILURE_EVENTS = new Set(["import_error", "startup_error", "handler_error", "no_response", "exited", "missing_intent"]);
+
+/** Split harness event lines out of the process output; `simulated` are events recorded by the simulator */
+export function toExecutionReport(
+  run: RunResponse,
+  target: { language: "python" | "javascript"; entry: string },
+  simulated: HarnessEvent[] = [],
+): ExecutionReport {
+  const events: HarnessEvent[] = [];
+  const rest: string[] = [];
+  for (const line of `${run.stdout}\n${run.stderr}`.split("\n")) {
+    if (line.startsWith(HARNESS_EVENT_PREFIX)) {
+      try {
+        events.push(JSON.parse(line.slice(HARNESS_EVENT_PREFIX.length)));
+        continue;
+      } catch { /* not ours after all */ }
+    }
+    if (line.trim()) rest.push(line);
+  }
+  // Both sides report READY when the simulator is in use
+  const harnessReady = events.some(e => e.kind === "ready");
+  events.push(...simulated.filter(e => !(harnessReady && e.kind === "ready")));
+
+  const ready = events.some(e => e.kind === "ready");
+  const failed = !ready || run.exitCode !== 0 || events.some(e => FAILURE_EVENTS.has(e.kind));
+  return {
+    status: failed ? "failed" : "passed",
+    language: target.language,
+    entry: target.entry,
+    exitCode: run.exitCode,
+    timedOut: run.timedOut,
+    durationMs: run.durationMs,
+    events,
+    output: rest.join("\n").slice(-OUTPUT_TAIL_CHARS),
+  };
+}
+
+export function skippedExecution(reason: string): ExecutionReport {
+  return { status: "skipped", reason, exitCode: null, timedOut: false, durationMs: 0, events: [], output: "" };
+}
@@ -0,0 +1,210 @@
+// =============================================================================
+// QUALITY SCORING - Pluggable rubrics keyed by project type
+// =============================================================================
+// Each rubric is a list of weighted criteria. The score is the passed weight
+// over the applicable weight, so a bot without moderation commands isn't
+// penalised for missing permission checks. Failed criteria become warnings.
+
+import type {
+  FileOperation,
+  QualityCriterion,
+  QualityReport,
+  ScoringProjectType,
+  ValidationError,
+} from "./types.ts";
+
+interface ScoringInput {
+  files: FileOperation[];
+  /** All code concatenated — for project-wide signals */
+  all: string;
+}
+
+interface CriterionResult {
+  status: QualityCriterion["status"];
+  detail?: string;
+}
+
+interface Criterion {
+  id: string;
+  label: string;
+  weight: number;
+  /** Shown as the warning's fix when the criterion fails */
+  fix: string;
+  check: (input: ScoringInput) => CriterionResult;
+}
+
+export interface ScoringRubric {
+  projectType: ScoringProjectType;
+  criteria: Criterion[];
+}
+
+const pass = (detail?: string): CriterionResult => ({ status: "pass", detail });
+const fail = (detail?: string): CriterionResult => ({ status: "fail", detail });
+const skip = (detail?: string): CriterionResult => ({ status: "skip", detail });
+
+const has = (pattern: RegExp) => (input: ScoringInput) => pattern.test(input.all);
+
+/** Pass when `pattern` appears anywhere in the project */
+const whenFound = (pattern: RegExp, missing?: string) => (input: ScoringInput) => has(pattern)(input) ? pass() : fail(missing);
+
+const isPython = (f: FileOperation) => f.path.endsWith(".py");
+const isJs = (f: FileOperation) => /\.(m?[jt]sx?|cjs)$/.test(f.path);
+
+/** `file:line` of the first match, for criterion details */
+function locate(files: FileOperation[], pattern: RegExp): string | null {
+  for (const f of files) {
+    const m = pattern.exec(f.content);
+    if (m) return `${f.path}:${f.content.slice(0, m.index).split("\n").length}`;
+  }
+  return null;
+}
+
+// =============================================================================
+// WEB RUBRIC - visual polish (the former POLISH_SCORING section)
+// =============================================================================
+
+const WEB_RUBRIC: ScoringRubric = {
+  projectType: "web",
+  criteria: [
+    { id: "images", label: "Real images", weight: 10, fix: "Add real images", check: whenFound(/unsplash\.com/, "No Unsplash images") },
+    { id: "gradients", label: "Gradient accents", weight: 8, fix: "Add gradient backgrounds or text", check: whenFound(/bg-gradient-to/) },
+    { id: "hover", label: "Hover states", weight: 8, fix: "Add hover styles to interactive elements", check: whenFound(/hover:/) },
+    { id: "transitions", label: "Transitions", weight: 5, fix: "Add hover transitions", check: whenFound(/transition-/, "No transitions/animations") },
+    { id: "glass", label: "Backdrop blur", weight: 5, fix: "Use backdrop-blur on overlays", check: whenFound(/backdrop-blur/) },
+    { id: "hero-type", label: "Large hero text", weight: 5, fix: "Use text-5xl or larger for the hero", check: whenFound(/text-[5-7]xl/) },
+    { id: "spacing", label: "Generous spacing", weight: 5, fix: "Use py-20+ section spacing", check: whenFound(/py-2[0-9]|py-3[0-9]/) },
+    {
+      id: "typography", label: "Typography tuning", weight: 6, fix: "Set tracking- and leading- on headings and body text",
+      check: input => has(/tracking-/)(input) && has(/leading-/)(input) ? pass() : fail(),
+    },
+    {
+      id: "animations", label: "Animations", weight: 11, fix: "Add entrance animations and group-hover effects",
+      check: input => has(/animate-|@keyframes/)(input) && has(/group-hover:|hover:-translate-y/)(input) ? pass() : fail(),
+    },
+    {
+      id: "completeness", label: "Page completeness", weight: 10, fix: "Add more components",
+      check: ({ files }) => files.length >= 8 ? pass(`${files.length} files`) : fail(files.length < 6 ? "Few files generated" : `${files.length} files`),
+    },
+  ],
+};
+
+// =============================================================================
+// BOT RUBRIC - Discord bots (discord.py / discord.js)
+// =============================================================================
+
+const MODERATION_CALL = /(?<!asyncio|AbortSignal)\.(kick|ban|unban|timeout|purge|bulkDelete|add_roles|remove_roles|edit_permissions|set_permissions)\s*\(|\.roles\.(add|remove)\s*\(/;
+const PERMISSION_CHECK = /has_permissions|has_guild_permissions|default_permissions|bot_has_permissions|guild_permissions\.|checks\.has_role|setDefaultMemberPermissions|memberPermissions|permissions\.has\s*\(|PermissionFlagsBits|PermissionsBitField/;
+
+// Discord tokens are three base64url segments; the first decodes to the bot's user id
+const TOKEN_LITERAL = /["'`][MNO][\w-]{23,27}\.[\w-]{6}\.[\w-]{27,40}["'`]/;
+const TOKEN_CALL_LITERAL = /\b(?:bot|client)\.(?:run|login|start)\s*\(\s*["'`][^"'`]{20,}["'`]/;
+const TOKEN_FROM_ENV = /os\.getenv\s*\(|os\.environ|process\.env\.|process\.env\[|dotenv|decouple|Deno\.env/;
+
+const BOT_RUBRIC: ScoringRubric = {
+  projectType: "bot",
+  criteria: [
+    {
+      id: "token-env", label: "Token read from env", weight: 20,
+      fix: "Load the bot token from an environment variable (DISCORD_TOKEN) instead of hardcoding it",
+      check: ({ files }) => {
+        const hardcoded = locate(files, TOKEN_LITERAL) ?? locate(files, TOKEN_CALL_LITERAL);
+        if (hardcoded) return fail(`Hardcoded token at ${hardcoded}`);
+        return files.some(f => TOKEN_FROM_ENV.test(f.content)) ? pass() : fail("Token source not found");
+      },
+    },
+    {
+      id: "error-handler", label: "Command error handlers", weight: 20,
+      fix: "Add on_command_error / tree.on_error (discord.py) or wrap command execute() in try/catch (discord.js)",
+      check: ({ files }) => {
+        const py = files.filter(isPython);
+        const js = files.filter(isJs);
+        const pyOk = /on_(app_)?command_error|tree\.on_error|tree\.error|@\w+\.error\b|async def cog_command_error|async def cog_app_command_error/;
+        const jsOk = /(interactionCreate|InteractionCreate|execute\s*\()[\s\S]*?(\btry\s*\{|\.catch\s*\()/;
+        if (py.some(f => pyOk.test(f.content)) || js.some(f => jsOk.test(f.content))) return pass();
+        return fail("Command exceptions reach the user as 'The application did not respond'");
+      },
+    },
+    {
+      id: "moderation-permissions", label: "Permission checks before moderation", weight: 20,
+      fix: "Guard kick/ban/timeout/purge commands with has_permissions / default_permissions or setDefaultMemberPermissions",
+      check: ({ files }) => {
+        const moderating = files.filter(f => MODERATION_CALL.test(f.content));
+        if (moderating.length === 0) return skip("No moderation actions");
+        const unguarded = moderating.filter(f => !PERMISSION_CHECK.test(f.content));
+        if (unguarded.length === 0) return pass();
+        return fail(`Unchecked moderation at ${unguarded.map(f => locate([f], MODERATION_CALL)).join(", ")}`);
+      },
+    },
+    {
+      id: "rate-limits", label: "Rate-limit handling", weight: 15,
+      fix: "Add command cooldowns and handle HTTP 429 / retry_after instead of retrying immediately",
+      check: whenFound(/commands\.cooldown|checks\.cooldown|CommandOnCooldown|CooldownMapping|retry_after|RateLimited|HTTPException|retryAfter|RESTEvents\.RateLimited|cooldowns?\b/i),
+    },
+    {
+      id: "graceful-shutdown", label: "Graceful shutdown", weight: 15,
+      fix: "Close the client on SIGINT/SIGTERM (await bot.close() / client.destroy())",
+      check: input => {
+        const signals = has(/add_signal_handler|signal\.signal|SIGTERM|SIGINT|KeyboardInterrupt/)(input);
+        const closes = has(/await\s+(bot|client)\.close\(\)|async with (bot|client)\b|\.destroy\(\)/)(input);
+        if (signals && closes) return pass();
+        return fail(signals ? "Signals handled but the client is never closed" : "No signal handling");
+      },
+    },
+    {
+      id: "logging", label: "Logging setup", weight: 10,
+      fix: "Configure logging (logging.basicConfig / discord.utils.setup_logging, or pino/winston) and log client errors",
+      check: whenFound(/logging\.basicConfig|setup_logging|log_handler|logging\.getLogger|dictConfig|\bpino\b|\bwinston\b|\bbunyan\b|unhandledRejection|Events\.Error|on\(\s*["']error["']/),
+    },
+  ],
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+export const SCORING_RUBRICS: Record<ScoringProjectType, ScoringRubric> = {
+  web: WEB_RUBRIC,
+  bot: BOT_RUBRIC,
+};
+
+const DISCORD_PY = /^\s*(?:import|from)\s+(?:discord|nextcord|disnake|interactions)\b/m;
+const DISCORD_JS = /require\(\s*["'](?:discord\.js|eris|oceanic\.js)["']\s*\)|from\s+["'](?:discord\.js|eris|oceanic\.js)["']|"discord\.js"\s*:/;
+
+export function detectProjectType(files: FileOperation[]): ScoringProjectType {
+  return files.some(f => (isPython(f) && DISCORD_PY.test(f.content)) || ((isJs(f) || f.path.endsWith("package.json")) && DISCORD_JS.test(f.content)))
+    ? "bot"
+    : "web";
+}
+
+const CODE_OR_MARKUP = /\.(m?[jt]sx?|cjs|py|css|html)$/;
+
+/**
+ * Score the project with the rubric for its type.
+ * @param files the whole project tree — generated files layered over existing ones
+ */
+export function scoreProject(files: FileOperation[], projectType = detectProjectType(files)): { report: QualityReport; warnings: ValidationError[] } {
+  const rubric = SCORING_RUBRICS[projectType];
+  const live = files.filter(f => f.operation !== "delete" && !f.path.includes("node_modules/"));
+  const input: ScoringInput = {
+    files: live,
+    all: live.filter(f => CODE_OR_MARKUP.test(f.path)).map(f => f.content).join("\n"),
+  };
+
+  const breakdown: QualityCriterion[] = [];
+  const warnings: ValidationError[] = [];
+  for (const c of rubric.criteria) {
+    const result = c.check(input);
+    breakdown.push({ id: c.id, label: c.label, weight: c.weight, status: result.status, ...(result.detail ? { detail: result.detail } : {}) });
+    if (result.status === "fail") {
+      warnings.push({ category: "STRUCTURE", file: "", message: result.detail ? `${c.label}: ${result.detail}` : `Missing: ${c.label}`, fix: c.fix, severity: "warning", autoFixable: false });
+    }
+  }
+
+  const applicable = breakdown.filter(c => c.status !== "skip");
+  const total = applicable.reduce((sum, c) => sum + c.weight, 0);
+  const earned = applicable.filter(c => c.status === "pass").reduce((sum, c) => sum + c.weight, 0);
+  return {
+    report: { projectType, score: total > 0 ? Math.round((earned / total) * 100) : 100, breakdown },
+    warnings,
+  };
+}
@@ -8,6 +8,8 @@ import { StageTracer } from "../telemetry.ts";
 import { CODE_QUALITY_RULES, VISUAL_STANDARDS, FULL_STACK_DIRECTIVE, IMAGE_LIBRARY, FORBIDDEN_PATTERNS } from "../core-directive.ts";
 import { DESIGN_EXCELLENCE } from "../core-directive.ts";
 import { getLibraryCode, findLibraryMatches, getLibraryCatalog } from "../libraries.ts";
+import { detectProjectType } from "../scoring.ts";
+import { SCENARIO_DIR } from "./regress.ts";
 
 // =============================================================================
 // CODER PROMPT — Uses full Core Directive + Design Excellence for max quality
@@ -119,6 +121,33 @@ function buildLibraryContext(ctx: PipelineContext): string {
   return context;
 }
 
+// =============================================================================
+// BUILD SCENARIO SUITE CONTEXT (bot projects)
+// =============================================================================
+
+function buildScenarioContext(ctx: PipelineContext): string {
+  if (detectProjectType(ctx.existingFiles) !== "bot" && !/\bdiscord\b/i.test(ctx.originalPrompt)) return "";
+
+  return `\n\n## BEHAVIOURAL TESTS (${SCENARIO_DIR})
+Files in ${SCENARIO_DIR}*.scenario are the user's tests. They run against the bot in a simulated guild after every change.
+- Never edit or delete an existing scenario unless the user asks you to change that test.
+- When the user asks for a test, write a new ${SCENARIO_DIR}<name>.scenario file in this format:
+\`\`\`
+# ping replies with pong
+tester: /ping
+expect reply contains "pong"
+join alice
+tester: !ban @alice spamming
+expect ban @alice
+expect reply contains "banned" within 5s
+tester: /music queue
+expect no reply
+tester clicks skip_button
+wait 2s
+\`\`\`
+The first comment is the test's name. \`expect\` lines check what the bot did since the previous action.\n`;
+}
+
 // =============================================================================
 // MAIN GENERATE STAGE
 // =============================================================================
@@ -137,7 +166,8 @@ export async function executeGenerateStage(ctx: PipelineContext): Promise<StageR
   // Build context with provider-aware limits
   const fileContext = buildExistingFilesContext(ctx.existingFiles);
   const libraryContext = buildLibraryContext(ctx);
-  const prompt = CODER_SYSTEM_PROMPT + fileContext + libraryContext;
+  const scenarioContext = buildScenarioContext(ctx);
+  const prompt = CODER_SYSTEM_PROMPT + fileContext + libraryContext + scenarioContext;
 
   // Profile the request for smart routing
   const profile = profileRequest(
@@ -162,7 +192,7 @@ export async function executeGenerateStage(ctx: PipelineContext): Promise<StageR
       { role: "system", content: prompt },
       ...ctx.conversationHistory.slice(-2),
       { role: "user", content: `PLAN:\n${planStr}\n\nREQUEST: ${ctx.originalPrompt}\n\nGenerate ALL files. COMPLETE code only. No placeholders.\n\nVISUAL CHECKLIST (verify all are present):\n- Gradient text on 2+ headings\n- Animated hero badge with backdrop-blur\n- Scroll-triggered staggered card animations (IntersectionObserver)\n- Floating background elements (glow orbs, abstract shapes)\n- Layered shadows on cards (shadow-xl + hover:shadow-2xl)\n- @keyframes in index.css: fadeInUp, slideInLeft, scaleIn, shimmer, float, pulseGlow\n- Active states on buttons (active:scale-[0.98])\n- Group hover effects with icon rotation` },
-    ], { temperature: 0.3, profile });
+    ], { temperature: 0.3, profile, costs: ctx.costs });
 
     tracer.modelCall(result.provider, result.model, "coding", result.latencyMs, result.tokensUsed);
     const files = extractFiles(result.content);
@@ -8,6 +8,7 @@ import type {
   IntentResult, 
   IntentType,
   LibraryMatchRef,
+  CostLedger,
 } from "../types.ts";
 import { callAI } from "../routing.ts";
 import { StageTracer } from "../telemetry.ts";
@@ -140,7 +141,8 @@ async function detectIntentWithAI(
   prompt: string,
   existingFiles: string[],
   libraryMatches: LibraryMatchRef[],
-  tracer: StageTracer
+  tracer: StageTracer,
+  costs?: CostLedger
 ): Promise<IntentResult> {
   const libraryContext = libraryMatches.length > 0
     ? `\n\nDetected library references: ${libraryMatches.map(m => `${m.name} (${m.type}, confidence: ${m.confidence})`).join(", ")}`
@@ -159,7 +161,7 @@ Analyze this request and return the intent as JSON.`;
         { role: "system", content: INTENT_SYSTEM_PROMPT },
         { role: "user", content: userMessage },
       ],
-      { expectedFields: ["type", "confidence", "summary"] }
+      { expectedFields: ["type", "confidence", "summary"], costs }
     );
 
     tracer.modelCall(result.provider, result.model, "intent", result.latencyMs, result.tokensUsed);
@@ -247,7 +249,7 @@ export async function executeIntentStage(
 
   // Use AI for more complex intent detection
   try {
-    const intent = await detectIntentWithAI(context.originalPrompt, existingFilePaths, libraryMatches, tracer);
+    const intent = await detectIntentWithAI(context.originalPrompt, existingFilePaths, libraryMatches, tracer, context.costs);
     const duration = Date.now() - startTime;
 
     tracer.stageComplete("intent", true, duration, { 
@@ -0,0 +1,177 @@
+// =============================================================================
+// INTERPRET STAGE - Turn sandbox events and tracebacks into ClassifiedErrors
+// =============================================================================
+
+import type {
+  ClassifiedError, ErrorCategory, ExecutionReport, FileOperation, HarnessEvent, PipelineContext, StageResult,
+} from "../types.ts";
+import { StageTracer } from "../telemetry.ts";
+import { distributionFor } from "../validation-python.ts";
+import { extractCommandManifest } from "../commands.ts";
+import { projectTree } from "./execute.ts";
+
+// =============================================================================
+// TRACEBACK → PROJECT LOCATION
+// =============================================================================
+
+const PY_FRAME = /File "([^"]+)", line (\d+)/g;
+const JS_FRAME = /\(?((?:file:\/\/)?(?:\/|[A-Za-z]:[\\/])[^\s():]+):(\d+):\d+\)?/g;
+
+/** Map a sandbox path (/sandbox/cogs/mod.py) onto a project path (cogs/mod.py) */
+function toProjectPath(raw: string, files: FileOperation[]): string | null {
+  const path = raw.replace(/^file:\/\//, "").replace(/\\/g, "/");
+  let best: string | null = null;
+  for (const f of files) {
+    if ((path === f.path || path.endsWith(`/${f.path}`)) && (!best || f.path.length > best.length)) best = f.path;
+  }
+  return best;
+}
+
+/** Innermost frame that belongs to the project (not the harness or site-packages) */
+function locate(traceback: string | undefined, files: FileOperation[]): { file: string; line: number } | null {
+  if (!traceback) return null;
+  let found: { file: string; line: number } | null = null;
+  for (const pattern of [PY_FRAME, JS_FRAME]) {
+    for (const m of traceback.matchAll(pattern)) {
+      if (/node_modules|site-packages|buildable[_-]harness/.test(m[1])) continue;
+      const file = toProjectPath(m[1], files);
+      if (file) found = { file, line: Number(m[2]) };
+    }
+  }
+  return found;
+}
+
+// =============================================================================
+// CLASSIFICATION
+// =============================================================================
+
+function classified(
+  category: ErrorCategory,
+  where: { file: string; line?: number },
+  message: string,
+  rootCause: string,
+  repairStrategy: string,
+  priority: number,
+): ClassifiedError {
+  return {
+    original: { category, file: where.file, line: where.line, message: `[runtime] ${message}`, fix: repairStrategy, severity: "error", autoFixable: false },
+    rootCause,
+    affectedFiles: [where.file],
+    repairStrategy,
+    priority,
+  };
+}
+
+function classifyImport(e: HarnessEvent, files: FileOperation[], entry: string, language: ExecutionReport["language"]): ClassifiedError {
+  const message = e.message ?? "Import failed";
+  const where = locate(e.traceback, files) ?? { file: entry };
+  const pyModule = message.match(/No module named '([^']+)'/)?.[1];
+  const jsModule = message.match(/Cannot find module '([^']+)'/)?.[1];
+  const module = pyModule ?? jsModule;
+
+  if (module && language === "python") {
+    const top = module.split(".")[0];
+    const isLocal = files.some(f => f.path === `${top}.py` || f.path.startsWith(`${top}/`));
+    return isLocal
+      ? classified("IMPORT", where, message, `'${module}' is a project module but can't be imported from ${where.file}`, `Fix the import path for ${module} (run from the project root; use package-relative imports)`, 1)
+      : classified("DEPENDENCY", { file: "requirements.txt" }, `${where.file}: ${message}`, `Package for '${top}' is not installed`, `Add ${distributionFor(top)} to requirements.txt`, 1);
+  }
+  if (module) {
+    return module.startsWith(".") || module.startsWith("/")
+      ? classified("IMPORT", where, message, `${where.file} requires '${module}', which doesn't exist`, `Fix the require/import path '${module}' or create the missing file`, 1)
+      : classified("DEPENDENCY", { file: "package.json" }, `${where.file}: ${message}`, `'${module}' is not installed`, `Add ${module} to package.json dependencies`, 1);
+  }
+  return classified("IMPORT", where, message, message, "Fix the failing import", 1);
+}
+
+export function interpretExecution(report: ExecutionReport, files: FileOperation[]): ClassifiedError[] {
+  if (report.status !== "failed") return [];
+  const entry = report.entry ?? files[0]?.path ?? "";
+  const errors: ClassifiedError[] = [];
+  const crashedCommands = new Set(report.events.filter(e => e.kind === "handler_error" && e.command).map(e => e.command));
+  const manifest = report.events.some(e => e.kind === "no_response") ? extractCommandManifest(files) : null;
+
+  for (const e of report.events) {
+    const where = locate(e.traceback, files) ?? { file: entry };
+    switch (e.kind) {
+      case "import_error":
+        errors.push(classifyImport(e, files, entry, report.language));
+        break;
+      case "startup_error":
+        errors.push(classified("RUNTIME", where, e.message ?? "Crashed on startup",
+          `The bot crashed before connecting: ${e.message}`,
+          `Fix the exception raised at ${where.file}${where.line ? `:${where.line}` : ""} while the bot starts (setup_hook, cog loading, module top level)`, 2));
+        break;
+      case "handler_error": {
+        const label = e.command ? `'${e.command}'` : "an event handler";
+        errors.push(classified("RUNTIME", where, `${label} crashed: ${e.message}`,
+          `Unhandled exception in ${label} when invoked with sample arguments`,
+          `Fix the crash at ${where.file}${where.line ? `:${where.line}` : ""}; the traceback shows ${e.message}`, 3));
+        break;
+      }
+      case "no_response": {
+        if (crashedCommands.has(e.command)) break;
+        const defined = manifest?.commands.find(c => c.name === e.command);
+        errors.push(classified("RUNTIME", defined ? { file: defined.file, line: defined.line } : where, `/${e.command} never responded`,
+          `/${e.command} didn't answer the interaction within 3 seconds, so Discord shows "The application did not respond"`,
+          `Make /${e.command} call interaction.response.send_message / interaction.reply, or defer first if it does slow work`, 4));
+        break;
+      }
+      case "missing_intent": {
+        const python = report.language === "python";
+        const flag = e.intent === "MESSAGE_CONTENT"
+          ? (python ? "intents.message_content = True" : "GatewayIntentBits.MessageContent")
+          : e.intent === "GUILD_MEMBERS"
+          ? (python ? "intents.members = True" : "GatewayIntentBits.GuildMembers")
+          : (python ? "intents.messages = True" : "GatewayIntentBits.GuildMessages");
+        const setup = files.find(f => /Intents\.|GatewayIntentBits|intents\s*=/.test(f.content))?.path ?? entry;
+        errors.push(classified("RUNTIME", { file: setup }, e.message ?? `Missing ${e.intent} intent`,
+          `The bot connects without the ${e.intent} intent, so Discord never delivers what its handlers wait for`,
+          `Enable ${flag} where the client is created (and in the Developer Portal for privileged intents)`, 2));
+        break;
+      }
+      case "exited":
+        errors.push(classified("RUNTIME", { file: entry }, e.message ?? "Exited before connecting",
+          "The entry file finished without starting the bot",
+          report.language === "python" ? `Call bot.run(os.getenv("DISCORD_TOKEN")) at the end of ${entry}` : `Call client.login(process.env.DISCORD_TOKEN) in ${entry}`, 2));
+        break;
+    }
+  }
+
+  // Died without telling the harness anything — fall back to the raw output
+  if (errors.length === 0) {
+    const tail = report.output.split("\n").slice(-6).join("\n");
+    const where = locate(report.output, files) ?? { file: entry };
+    const never = !report.events.some(e => e.kind === "ready");
+    errors.push(classified("RUNTIME", where,
+      never ? `Bot never connected to the gateway${report.timedOut ? " (timed out)" : ""}` : `Bot exited with code ${report.exitCode}`,
+      tail || "No output",
+      never ? "Make sure the entry file creates the client and logs in with the token from the environment" : "Fix the error shown in the output", 5));
+  }
+
+  // One error per location and message, most fundamental first
+  const seen = new Set<string>();
+  return errors
+    .filter(e => {
+      const key = `${e.original.file}:${e.original.line}:${e.original.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.priority - b.priority);
+}
+
+export async function executeInterpretStage(ctx: PipelineContext): Promise<StageResult<ClassifiedError[]>> {
+  const start = Date.now();
+  const tracer = new StageTracer(ctx);
+  tracer.stageStart("interpret");
+
+  const report = ctx.execution;
+  const errors = report ? interpretExecution(report, projectTree(ctx)) : [];
+  ctx.runtimeErrors = errors;
+
+  tracer.stageComplete("interpret", true, Date.now() - start, {
+    metadata: { errors: errors.length, categories: [...new Set(errors.map(e => e.original.category))] },
+  });
+  return { success: true, data: errors, duration: Date.now() - start, canRetry: false };
+}
@@ -87,7 +87,7 @@ export async function executePlanStage(ctx: PipelineContext): Promise<StageResul
     const result = await callAI("planning", [
       { role: "system", content: PLAN_PROMPT },
       { role: "user", content: `Request: "${ctx.originalPrompt}"\nExisting: ${existingContext}${libraryContext}\n\nCreate plan.` },
-    ], { temperature: 0.3, maxTokens: 4000, profile });
+    ], { temperature: 0.3, maxTokens: 4000, profile, costs: ctx.costs });
 
     tracer.modelCall(result.provider, result.model, "planning", result.latencyMs, result.tokensUsed);
 
@@ -0,0 +1,97 @@
+// =============================================================================
+// REGRESS STAGE - Replay the project's scenario suite against the new code
+// =============================================================================
+// Bot projects keep behavioural tests in tests/scenarios/*.scenario (recorded
+// in the playground or written in chat). Each one runs on a fresh simulated
+// guild; a scenario that passed on the previous generation and fails now is a
+// regression.
+
+import type { PipelineContext, StageResult, ScenarioRunResult, ScenarioSuiteReport, FileOperation } from "../types.ts";
+import { StageTracer } from "../telemetry.ts";
+import { isSandboxConfigured, isSimulatorConfigured, runScenarioSuite, type SimulatorScenarioResult } from "../sandbox.ts";
+import { projectTree } from "./execute.ts";
+
+export const SCENARIO_DIR = "tests/scenarios/";
+
+export function collectSuite(files: FileOperation[]): Array<{ file: string; scenario: string }> {
+  return files
+    .filter(f => f.operation !== "delete" && f.path.startsWith(SCENARIO_DIR) && f.path.endsWith(".scenario"))
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(f => ({ file: f.path, scenario: f.content }));
+}
+
+/** What the first failing step expected versus what the bot did */
+function failureOf(result: SimulatorScenarioResult): string | undefined {
+  if (result.passed) return undefined;
+  const step = result.steps.find(s => !s.passed);
+  if (step) return `Step ${step.index + 1}: ${step.detail ?? "failed"}`;
+  return result.error ?? "Failed";
+}
+
+/** Scenario files that passed on the workspace's last completed generation */
+async function previouslyPassing(ctx: PipelineContext): Promise<Set<string>> {
+  try {
+    let query = ctx.supabase
+      .from("generation_sessions")
+      .select("metadata")
+      .eq("workspace_id", ctx.workspaceId)
+      .eq("status", "completed")
+      .order("created_at", { ascending: false })
+      .limit(1);
+    if (ctx.sessionId) query = query.neq("id", ctx.sessionId);
+    const { data } = await query;
+    const previous = (data?.[0]?.metadata as { scenarios?: ScenarioSuiteReport } | null)?.scenarios;
+    return new Set((previous?.results ?? []).filter(r => r.passed).map(r => r.file));
+  } catch (e) {
+    console.warn("[Regress] Couldn't load the previous suite run:", e);
+    return new Set();
+  }
+}
+
+export async function executeRegressStage(ctx: PipelineContext): Promise<StageResult<ScenarioSuiteReport>> {
+  const start = Date.now();
+  const tracer = new StageTracer(ctx);
+  tracer.stageStart("regress");
+
+  const finish = (report: ScenarioSuiteReport): StageResult<ScenarioSuiteReport> => {
+    ctx.scenarios = report;
+    tracer.stageComplete("regress", report.status !== "failed", Date.now() - start, {
+      metadata: {
+        status: report.status,
+        reason: report.reason,
+        scenarios: report.results.length,
+        failed: report.results.filter(r => !r.passed).length,
+        regressions: report.results.filter(r => r.regression).length,
+      },
+    });
+    return { success: true, data: report, duration: Date.now() - start, canRetry: false };
+  };
+  const skipped = (reason: string) => finish({ status: "skipped", reason, results: [], durationMs: Date.now() - start });
+
+  const files = projectTree(ctx);
+  const suite = collectSuite(files);
+  if (suite.length === 0) return skipped("No scenarios in tests/scenarios/");
+  if (!isSandboxConfigured() || !isSimulatorConfigured()) return skipped("Scenario runs need the sandbox runner and the Discord simulator");
+
+  try {
+    const [raw, baseline] = await Promise.all([runScenarioSuite(files, suite), previouslyPassing(ctx)]);
+    const results: ScenarioRunResult[] = raw.map(r => ({
+      file: r.file,
+      name: r.name ?? r.file,
+      passed: r.passed,
+      regression: !r.passed && baseline.has(r.file),
+      failure: failureOf(r),
+    }));
+    console.log(`[Regress] ${results.filter(r => r.passed).length}/${results.length} scenarios passed`);
+    return finish({
+      status: results.every(r => r.passed) ? "passed" : "failed",
+      results,
+      durationMs: Date.now() - start,
+    });
+  } catch (e) {
+    // Like the execute stage: an unreachable simulator must not fail the build
+    const message = e instanceof Error ? e.message : "Scenario run failed";
+    tracer.stageError("regress", message, Date.now() - start);
+    return skipped(message);
+  }
+}
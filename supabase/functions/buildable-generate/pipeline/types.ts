@@ -3,6 +3,7 @@
 // =============================================================================
 
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SearchReplacePatch } from "../../_shared/patchEngine.ts";
 
 // =============================================================================
 // DATABASE TYPE
@@ -45,7 +46,8 @@ export type StageName =
   | "validate"    // Stage 5: Validation + normalization
   | "execute"     // Stage 6: Preview execution
   | "interpret"   // Stage 7: Log interpretation
-  | "repair";     // Stage 8: Targeted repair
+  | "repair"      // Stage 8: Targeted repair
+  | "regress";    // Stage 9: Project scenario suite
 
 export interface StageResult<T = unknown> {
   success: boolean;
@@ -93,10 +95,24 @@ export interface TelemetryEvent {
   metadata?: Record<string, unknown>;
 }
 
+export interface AppliedPatch {
+  file: string;
+  /** whole_file is the last resort when hunks can't be matched after retries */
+  strategy: "search_replace" | "whole_file";
+  /** Unified diff of the change */
+  diff: string;
+  /** SEARCH only matched after ignoring indentation or whitespace */
+  fuzzy?: boolean;
+  /** Match confidence of a fuzzy hunk, 0–1 */
+  confidence?: number;
+}
+
 export interface RepairAttempt {
   attempt: number;
   errors: Array<{ type: ErrorCategory; file: string; message: string }>;
-  patchesApplied: string[];
+  patchesApplied: AppliedPatch[];
+  /** Hunks still unmatched after retries (their files fell back to whole-file) */
+  unmatchedHunks: number;
   resolved: boolean;
   duration: number;
 }
@@ -142,6 +158,9 @@ export interface PipelineContext {
   generatedFiles: FileOperation[];
   validationResults?: ValidationResult;
   executionLogs: string[];
+  execution?: ExecutionReport;
+  runtimeErrors?: ClassifiedError[];
+  scenarios?: ScenarioSuiteReport;
   repairHistory: RepairAttempt[];
   rollbackPoints: RollbackPoint[];
 
@@ -157,6 +176,12 @@ export interface PipelineContext {
 
   // Models used during execution
   modelsUsed: string[];
+
+  // Commands found in the generated bot source
+  commandManifest?: CommandManifest;
+
+  // Spend on AI calls against the plan's per-generation budget
+  costs?: CostLedger;
 }
 
 // =============================================================================
@@ -259,6 +284,7 @@ export interface ValidationError {
   category: ErrorCategory;
   file: string;
   line?: number;
+  column?: number;
   message: string;
   fix: string;
   severity: "error" | "warning";
@@ -267,7 +293,8 @@ export interface ValidationError {
 
 export interface ValidationResult {
   valid: boolean;
-  score: number;  // 0.0 - 1.0 quality score
+  score: number;  // 0 - 100, same as quality.score
+  quality?: QualityReport;
   completenessScore?: number; // 0.0 - 1.0 how complete vs plan
   criticalErrors: ValidationError[];
   warnings: ValidationError[];
@@ -275,11 +302,106 @@ export interface ValidationResult {
   missingFiles?: string[];
 }
 
+// =============================================================================
+// EXECUTION (sandbox run against the mock gateway)
+// =============================================================================
+
+export type HarnessEventKind =
+  | "ready"          // IDENTIFY received, READY + GUILD_CREATE dispatched
+  | "invoke"         // a scripted slash command / prefix message was sent
+  | "reply"          // the bot answered (interaction callback or channel message)
+  | "moderation"     // ban / kick / timeout REST call
+  | "import_error"
+  | "startup_error"  // exception before the bot connected
+  | "handler_error"  // exception inside an event or command handler
+  | "no_response"    // interaction not answered within 3 seconds
+  | "exited"         // entry file returned without connecting
+  | "unmocked_route"
+  | "missing_intent" // simulator dropped or blanked events the bot didn't ask for
+  | "api_error"      // simulator rejected a REST call (empty message, double ack, ...)
+  | "unknown_command" // simulator invoked a slash command the bot never registered
+  | "summary";
+
+export interface HarnessEvent {
+  kind: HarnessEventKind;
+  command?: string | null;
+  message?: string;
+  traceback?: string;
+  content?: string;
+  [key: string]: unknown;
+}
+
+export interface ExecutionReport {
+  status: "passed" | "failed" | "skipped";
+  /** Why the run was skipped (no runner configured, no entry file, ...) */
+  reason?: string;
+  language?: "python" | "javascript";
+  entry?: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  events: HarnessEvent[];
+  /** Tail of stdout + stderr without the event lines */
+  output: string;
+}
+
+// =============================================================================
+// SCENARIO SUITE
+// =============================================================================
+
+export interface ScenarioRunResult {
+  /** tests/scenarios/… path the scenario was read from */
+  file: string;
+  name: string;
+  passed: boolean;
+  /** Passed on the previous generation and fails now */
+  regression: boolean;
+  /** First failing step, e.g. `expect reply contains "coins"` → "No reply contained coins" */
+  failure?: string;
+}
+
+export interface ScenarioSuiteReport {
+  status: "passed" | "failed" | "skipped";
+  reason?: string;
+  results: ScenarioRunResult[];
+  durationMs: number;
+}
+
+// =============================================================================
+// QUALITY SCORING
+// =============================================================================
+
+export type ScoringProjectType = "web" | "bot";
+
+export interface QualityCriterion {
+  id: string;
+  label: string;
+  weight: number;
+  /** "skip" = not applicable to this project (e.g. no moderation commands) and left out of the score */
+  status: "pass" | "fail" | "skip";
+  detail?: string;
+}
+
+export interface QualityReport {
+  projectType: ScoringProjectType;
+  score: number; // 0 - 100, weighted over applicable criteria
+  breakdown: QualityCriterion[];
+}
+
+// =============================================================================
+// COMMAND MANIFEST
+// =============================================================================
+
+// One definition shared with the web app — see _shared/commandManifest.ts
+export type { CommandKind, CommandOptionType, CommandOption, BotCommand, CommandManifest } from "../../_shared/commandManifest.ts";
+
 // =============================================================================
 // MODEL ROUTING
 // =============================================================================
 
-export type ProviderKey = "grok" | "gemini" | "openai";
+/** Built-in providers; the registry (providers.ts) can add any other key at runtime */
+export type BuiltinProviderKey = "grok" | "gemini" | "openai";
+export type ProviderKey = BuiltinProviderKey | (string & {});
 
 export type AITaskType = 
   | "intent"
@@ -291,11 +413,42 @@ export type AITaskType =
   | "persona"
   | "root_cause";
 
+/** Wire format: OpenAI-compatible chat completions, Anthropic Messages, or recorded replay */
+export type ProviderAdapter = "openai" | "anthropic" | "mock";
+
+export type ProviderCapability =
+  | "code"
+  | "json"
+  | "streaming"
+  | "large_context"  // preferred for planning and big existing projects
+  | "vision";
+
+export interface ContextLimits {
+  maxFiles: number;
+  maxCharsPerFile: number;
+}
+
+/** USD per million tokens */
+export interface ProviderPricing {
+  input: number;
+  output: number;
+}
+
 export interface ModelConfig {
   name: string;
   baseUrl: string;
   models: Record<string, string>;
   maxTokens: number;
+  adapter?: ProviderAdapter;
+  /** Env var holding the API key; omitted for endpoints without auth (local vLLM / Ollama) */
+  apiKeyEnv?: string;
+  capabilities?: ProviderCapability[];
+  contextLimits?: ContextLimits;
+  pricing?: ProviderPricing;
+  /** Per-model prices where they differ from `pricing` (keyed by model id) */
+  modelPricing?: Record<string, ProviderPricing>;
+  /** Tasks this provider should lead the chain for when it's available */
+  preferredFor?: AITaskType[];
 }
 
 export interface TaskRouting {
@@ -308,6 +461,38 @@ export interface TaskRouting {
   };
 }
 
+// =============================================================================
+// COST ACCOUNTING
+// =============================================================================
+
+export type PlanType = "free" | "lite" | "pro" | "max";
+
+/**
+ * How far the router has backed off to stay inside the budget:
+ * no_ensemble → single provider only, economy → cheapest models, exhausted → no more calls
+ */
+export type BudgetLevel = "normal" | "no_ensemble" | "economy" | "exhausted";
+
+export interface CostEntry {
+  task: AITaskType;
+  provider: ProviderKey;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Token split guessed from prompt length (the provider only reported a total) */
+  estimated?: boolean;
+}
+
+export interface CostLedger {
+  plan: PlanType;
+  budgetUsd: number;
+  spentUsd: number;
+  entries: CostEntry[];
+  /** Lowest level reached during the run */
+  level: BudgetLevel;
+}
+
 // =============================================================================
 // PIPELINE RESULT
 // =============================================================================
@@ -319,6 +504,9 @@ export interface PipelineResult {
   validationPassed: boolean;
   repairAttempts: number;
   errors?: string[];
+  quality?: QualityReport;
+  execution?: ExecutionReport;
+  scenarios?: ScenarioSuiteReport;
   
   // Persona response for chat display
   aiMessage: string;
@@ -340,6 +528,9 @@ export interface PipelineResult {
 export const SAFETY_LIMITS = {
   maxRetries: 3,
   maxRepairAttempts: 3,
+  maxExecutionRounds: 2,         // execute → interpret → repair cycles for bots
+  executionTimeout: 90_000,      // sandbox run incl. dependency install
+  botRunSeconds: 12,             // how long the bot runs against the mock gateway
   generationTimeout: 120_000,    // 2 minutes
   stageTimeout: 30_000,          // 30 seconds per stage
   maxFilesPerGeneration: 20,
@@ -372,11 +563,10 @@ export const CIRCUIT_BREAKER_CONFIG = {
 
 export type CommandType = "CREATE_FILE" | "UPDATE_FILE" | "DELETE_FILE" | "PATCH_FILE";
 
-export interface SearchReplacePatch {
-  search: string;
-  replace: string;
-  context?: string;
-}
+// Hunks are applied by the engine shared with the web app — see _shared/patchEngine.ts
+export type {
+  SearchReplacePatch, PatchStatus, PatchFailureReason, PatchResult,
+} from "../../_shared/patchEngine.ts";
 
 export interface FileCommand {
   command: CommandType;
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import type { FileOperation } from "./types.ts";
+import { validatePythonFiles, withMissingRequirements } from "./validation-python.ts";
+
+const file = (path: string, content: string, operation: FileOperation["operation"] = "update"): FileOperation => ({ path, content, operation });
+
+const existing = [
+  file("main.py", [
+    "import discord",
+    "from discord.ext import commands",
+    "",
+    "intents = discord.Intents.default()",
+    "intents.message_content = True",
+    "bot = commands.Bot(command_prefix=\"!\", intents=intents)",
+    "",
+  ].join("\n")),
+  file("utils.py", "def fmt(x):\n    return str(x)\n"),
+  file("requirements.txt", "discord.py==2.3.2\naiohttp>=3.9\npython-dotenv\n"),
+];
+
+const cog = (extraImport = "") => file("cogs/fun.py", [
+  "import aiohttp",
+  ...(extraImport ? [extraImport] : []),
+  "from discord.ext import commands",
+  "from utils import fmt",
+  "",
+  "class Fun(commands.Cog):",
+  "    @commands.command()",
+  "    async def ping(self, ctx):",
+  "        await ctx.send(fmt(1))",
+  "",
+].join("\n"));
+
+describe("validatePythonFiles in edit mode", () => {
+  it("resolves requirements and local modules against the existing project", () => {
+    expect(validatePythonFiles([cog()], existing)).toEqual([]);
+  });
+
+  it("still reports a missing requirements.txt when the project has none", () => {
+    const errors = validatePythonFiles([cog()], existing.filter(f => f.path !== "requirements.txt"));
+    expect(errors.map(e => e.message)).toContain("Python bot has no requirements.txt");
+  });
+
+  it("only reports on the files this generation changed", () => {
+    const broken = file("legacy.py", "def old(:\n    pass\n");
+    expect(validatePythonFiles([cog()], [...existing, broken])).toEqual([]);
+  });
+});
+
+describe("withMissingRequirements", () => {
+  it("appends to the existing requirements.txt as an update", () => {
+    const files = withMissingRequirements([cog("import yaml")], existing);
+    const req = files.find(f => f.path === "requirements.txt");
+    expect(req?.operation).toBe("update");
+    expect(req?.content).toBe("discord.py==2.3.2\naiohttp>=3.9\npython-dotenv\nPyYAML\n");
+  });
+
+  it("leaves the files alone when nothing is missing", () => {
+    const files = [cog()];
+    expect(withMissingRequirements(files, existing)).toBe(files);
+  });
+
+  it("creates requirements.txt only when the project has none", () => {
+    const files = withMissingRequirements([cog()], existing.filter(f => f.path !== "requirements.txt"));
+    expect(files.find(f => f.path === "requirements.txt")).toEqual(file("requirements.txt", "discord.py\naiohttp\n", "create"));
+  });
+});
@@ -0,0 +1,580 @@
+// =============================================================================
+// PYTHON VALIDATION - Syntax, imports and discord.py runtime pitfalls
+// =============================================================================
+// Edge functions have no Python interpreter, so syntax is checked by a
+// tokenizer that follows CPython's rules for strings, brackets, line joining
+// and INDENT/DEDENT, plus a statement pass for block colons and `await`
+// placement. Error messages match CPython's wording where one exists so the
+// repair model recognises them.
+
+import type { FileOperation, ValidationError } from "./types.ts";
+
+// =============================================================================
+// TOKENIZER - logical lines with strings blanked and comments stripped
+// =============================================================================
+
+export interface LogicalLine {
+  /** Code with string bodies removed (quotes kept) and comments stripped */
+  code: string;
+  /** 1-based line the logical line starts on */
+  line: number;
+  indent: number;
+  /** A `:` outside brackets, strings and comments */
+  hasTopLevelColon: boolean;
+}
+
+interface TokenizeResult {
+  lines: LogicalLine[];
+  errors: Array<{ line: number; message: string }>;
+  usesTabs: boolean;
+  usesSpaces: boolean;
+}
+
+const OPEN_BRACKETS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const CLOSE_BRACKETS: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+const BRACKET_NAMES: Record<string, string> = { "(": "parenthesis", ")": "parenthesis", "[": "bracket", "]": "bracket", "{": "brace", "}": "brace" };
+
+function tokenize(src: string): TokenizeResult {
+  const lines: LogicalLine[] = [];
+  const errors: TokenizeResult["errors"] = [];
+  const brackets: Array<{ ch: string; line: number }> = [];
+  let usesTabs = false;
+  let usesSpaces = false;
+
+  let line = 1;
+  let i = 0;
+  let code = "";
+  let startLine = 1;
+  let indent = 0;
+  let atLineStart = true;
+  let topColon = false;
+
+  const endLogical = () => {
+    if (code.trim()) lines.push({ code: code.trimEnd(), line: startLine, indent, hasTopLevelColon: topColon });
+    code = "";
+    topColon = false;
+    atLineStart = true;
+  };
+
+  while (i < src.length) {
+    if (atLineStart && brackets.length === 0) {
+      // Measure indentation of a new logical line
+      let width = 0;
+      let j = i;
+      while (j < src.length && (src[j] === " " || src[j] === "\t")) {
+        if (src[j] === "\t") { usesTabs = true; width = width + 8 - (width % 8); }
+        else { usesSpaces = true; width++; }
+        j++;
+      }
+      // Blank and comment-only lines don't affect indentation
+      if (src[j] === "\n" || src[j] === "#" || src[j] === "\r" || j >= src.length) {
+        while (j < src.length && src[j] !== "\n") j++;
+        i = j + 1;
+        line++;
+        continue;
+      }
+      indent = width;
+      startLine = line;
+      atLineStart = false;
+      i = j;
+      continue;
+    }
+
+    const ch = src[i];
+
+    if (ch === "#") {
+      while (i < src.length && src[i] !== "\n") i++;
+      continue;
+    }
+
+    if (ch === "\\" && (src[i + 1] === "\n" || (src[i + 1] === "\r" && src[i + 2] === "\n"))) {
+      i += src[i + 1] === "\r" ? 3 : 2;
+      line++;
+      code += " ";
+      continue;
+    }
+
+    if (ch === "\n") {
+      line++;
+      i++;
+      if (brackets.length === 0) endLogical();
+      else code += " ";
+      continue;
+    }
+
+    // String literal, with optional r/b/u/f prefix already consumed as identifier chars
+    if (ch === '"' || ch === "'") {
+      const prefix = code.match(/([rRbBuUfF]{1,2})$/)?.[1] ?? "";
+      const raw = /[rR]/.test(prefix);
+      const triple = src.startsWith(ch.repeat(3), i);
+      const quote = triple ? ch.repeat(3) : ch;
+      const openLine = line;
+      let j = i + quote.length;
+      let closed = false;
+      while (j < src.length) {
+        if (src[j] === "\\" && !raw) { if (src[j + 1] === "\n") line++; j += 2; continue; }
+        if (src[j] === "\\" && raw) { j += 2; continue; }
+        if (src.startsWith(quote, j)) { closed = true; j += quote.length; break; }
+        if (src[j] === "\n") {
+          if (!triple) break;
+          line++;
+        }
+        j++;
+      }
+      if (!closed) {
+        errors.push(triple
+          ? { line: openLine, message: `unterminated triple-quoted string literal (detected at line ${line})` }
+          : { line: openLine, message: `unterminated string literal (detected at line ${openLine})` });
+        if (triple) { i = src.length; break; }
+      }
+      code += quote + quote;
+      i = j;
+      continue;
+    }
+
+    if (OPEN_BRACKETS[ch]) {
+      brackets.push({ ch, line });
+    } else if (CLOSE_BRACKETS[ch]) {
+      const top = brackets.pop();
+      if (!top) {
+        errors.push({ line, message: `unmatched '${ch}'` });
+      } else if (top.ch !== CLOSE_BRACKETS[ch]) {
+        errors.push({
+          line,
+          message: `closing ${BRACKET_NAMES[ch]} '${ch}' does not match opening ${BRACKET_NAMES[top.ch]} '${top.ch}'${top.line !== line ? ` on line ${top.line}` : ""}`,
+        });
+      }
+    } else if (ch === ":" && brackets.length === 0) {
+      topColon = true;
+    }
+
+    code += ch;
+    i++;
+  }
+
+  for (const b of brackets) errors.push({ line: b.line, message: `'${b.ch}' was never closed` });
+  endLogical();
+  return { lines, errors, usesTabs, usesSpaces };
+}
+
+// =============================================================================
+// STATEMENT STRUCTURE
+// =============================================================================
+
+const BLOCK_KEYWORD = /^(?:async\s+)?(if|elif|else|for|while|def|class|try|except|finally|with)\b/;
+
+interface Scope {
+  kind: "def" | "async def" | "class" | "block";
+  name: string;
+  indent: number;
+  line: number;
+  decorators: string[];
+}
+
+export interface PythonStructure {
+  lines: LogicalLine[];
+  /** Innermost enclosing function for each logical line (index-aligned), or null at module/class level */
+  functions: Array<Scope | null>;
+  /** Every def / async def with its decorators */
+  defs: Scope[];
+}
+
+function analyzeStructure(file: string, src: string, errors: ValidationError[]): PythonStructure {
+  const tok = tokenize(src);
+  const syntax = (line: number, message: string, fix: string) =>
+    errors.push({ category: "SYNTAX", file, line, message, fix, severity: "error", autoFixable: false });
+
+  for (const e of tok.errors) syntax(e.line, e.message, "Close the string or bracket where it was opened");
+  if (tok.usesTabs && tok.usesSpaces) {
+    syntax(1, "inconsistent use of tabs and spaces in indentation", "Indent with 4 spaces throughout");
+  }
+
+  const indents = [0];
+  const scopes: Scope[] = [];
+  const functions: Array<Scope | null> = [];
+  const defs: Scope[] = [];
+  let pendingDecorators: string[] = [];
+  let prev: LogicalLine | null = null;
+
+  for (const ll of tok.lines) {
+    const opensBlock = prev ? /:\s*$/.test(prev.code) : false;
+    const top = indents[indents.length - 1];
+
+    if (opensBlock && ll.indent > top) {
+      indents.push(ll.indent);
+    } else if (opensBlock) {
+      syntax(ll.line, `expected an indented block after '${prev!.code.trim().split(/[\s(:]/)[0]}' statement on line ${prev!.line}`, "Indent the block body or add `pass`");
+    } else if (ll.indent > top) {
+      syntax(ll.line, "unexpected indent", "Remove the extra indentation");
+      indents.push(ll.indent);
+    }
+    if (ll.indent < top) {
+      while (indents.length > 1 && indents[indents.length - 1] > ll.indent) indents.pop();
+      if (indents[indents.length - 1] !== ll.indent) {
+        syntax(ll.line, "unindent does not match any outer indentation level", "Align the line with an enclosing block");
+        indents.push(ll.indent);
+      }
+    }
+
+    while (scopes.length > 0 && scopes[scopes.length - 1].indent >= ll.indent) scopes.pop();
+
+    const text = ll.code.trim();
+    const kw = text.match(BLOCK_KEYWORD);
+    if (kw && !ll.hasTopLevelColon) {
+      syntax(ll.line, "expected ':'", `End the '${kw[1]}' statement with a colon`);
+    }
+
+    const enclosingFn = [...scopes].reverse().find(s => s.kind === "def" || s.kind === "async def") ?? null;
+    functions.push(enclosingFn);
+
+    if (/\bawait\b/.test(text) && enclosingFn?.kind !== "async def") {
+      syntax(ll.line, enclosingFn ? "'await' outside async function" : "'await' outside function", enclosingFn ? `Declare ${enclosingFn.name}() with \`async def\`` : "Move the call into an async function");
+    }
+    if (/^async\s+(with|for)\b/.test(text) && enclosingFn?.kind !== "async def") {
+      syntax(ll.line, `'async ${text.split(/\s+/)[1]}' outside async function`, "Use it inside an `async def`");
+    }
+
+    if (text.startsWith("@")) {
+      pendingDecorators.push(text);
+    } else {
+      const def = text.match(/^(async\s+)?def\s+(\w+)/);
+      const cls = text.match(/^class\s+(\w+)/);
+      if (def) {
+        const scope: Scope = { kind: def[1] ? "async def" : "def", name: def[2], indent: ll.indent, line: ll.line, decorators: pendingDecorators };
+        scopes.push(scope);
+        defs.push(scope);
+      } else if (cls) {
+        scopes.push({ kind: "class", name: cls[1], indent: ll.indent, line: ll.line, decorators: pendingDecorators });
+      } else if (kw) {
+        scopes.push({ kind: "block", name: kw[1], indent: ll.indent, line: ll.line, decorators: [] });
+      }
+      pendingDecorators = [];
+    }
+    prev = ll;
+  }
+
+  if (prev && /:\s*$/.test(prev.code)) {
+    syntax(prev.line, `expected an indented block after '${prev.code.trim().split(/[\s(:]/)[0]}' statement on line ${prev.line}`, "Add the block body");
+  }
+
+  return { lines: tok.lines, functions, defs };
+}
+
+// =============================================================================
+// IMPORTS vs requirements.txt
+// =============================================================================
+
+const STDLIB = new Set(("abc aifc argparse array ast asynchat asyncio asyncore atexit audioop base64 bdb binascii bisect builtins " +
+  "bz2 cProfile calendar cgi cgitb chunk cmath cmd code codecs codeop collections colorsys compileall concurrent configparser " +
+  "contextlib contextvars copy copyreg crypt csv ctypes curses dataclasses datetime dbm decimal difflib dis distutils doctest " +
+  "email encodings ensurepip enum errno faulthandler fcntl filecmp fileinput fnmatch fractions ftplib functools gc genericpath " +
+  "getopt getpass gettext glob graphlib grp gzip hashlib heapq hmac html http imaplib imghdr imp importlib inspect io ipaddress " +
+  "itertools json keyword lib2to3 linecache locale logging lzma mailbox mailcap marshal math mimetypes mmap modulefinder " +
+  "multiprocessing netrc nntplib ntpath numbers opcode operator optparse os pathlib pdb pickle pickletools pipes pkgutil platform " +
+  "plistlib poplib posix posixpath pprint profile pstats pty pwd py_compile pyclbr pydoc queue quopri random re readline reprlib " +
+  "resource rlcompleter runpy sched secrets select selectors shelve shlex shutil signal site smtpd smtplib sndhdr socket " +
+  "socketserver sqlite3 ssl stat statistics string stringprep struct subprocess sunau symtable sys sysconfig syslog tabnanny " +
+  "tarfile telnetlib tempfile termios textwrap threading time timeit tkinter token tokenize tomllib trace traceback tracemalloc " +
+  "tty turtle types typing typing_extensions unicodedata unittest urllib uu uuid venv warnings wave weakref webbrowser wsgiref " +
+  "xdrlib xml xmlrpc zipapp zipfile zipimport zlib zoneinfo __future__").split(" "));
+
+/** Import name → distributions that provide it (first one is what we suggest) */
+const IMPORT_TO_DIST: Record<string, string[]> = {
+  discord: ["discord.py", "py-cord", "discord-py-interactions", "nextcord"],
+  nextcord: ["nextcord"],
+  disnake: ["disnake"],
+  interactions: ["discord-py-interactions"],
+  dotenv: ["python-dotenv"],
+  yaml: ["PyYAML"],
+  PIL: ["Pillow"],
+  bs4: ["beautifulsoup4"],
+  dateutil: ["python-dateutil"],
+  sklearn: ["scikit-learn"],
+  cv2: ["opencv-python", "opencv-python-headless"],
+  googleapiclient: ["google-api-python-client"],
+  nacl: ["PyNaCl"],
+  jwt: ["PyJWT"],
+  Crypto: ["pycryptodome"],
+  attr: ["attrs"],
+  yt_dlp: ["yt-dlp"],
+  youtube_dl: ["youtube-dl"],
+  psycopg2: ["psycopg2-binary", "psycopg2"],
+  magic: ["python-magic"],
+  gtts: ["gTTS"],
+  dns: ["dnspython"],
+  socketio: ["python-socketio"],
+  telegram: ["python-telegram-bot"],
+  pymongo: ["pymongo"],
+  motor: ["motor"],
+  redis: ["redis"],
+  sqlalchemy: ["SQLAlchemy"],
+  google: ["google-generativeai", "google-api-python-client", "google-cloud-storage"],
+};
+
+/** Packages whose import name is their distribution name */
+const SAME_NAME_PACKAGES = new Set(("aiohttp requests httpx openai anthropic numpy pandas matplotlib asyncpg aiosqlite aiofiles " +
+  "wavelink spotipy lxml pydantic uvloop colorama tabulate emoji pytz humanize tweepy praw wikipedia feedparser " +
+  "cachetools tenacity apscheduler loguru rich orjson ujson cryptography qrcode").split(" "));
+
+const normalizeDist = (name: string) => name.toLowerCase().replace(/[-_.]+/g, "-");
+
+export function parseRequirements(content: string): Set<string> {
+  const dists = new Set<string>();
+  for (const raw of content.split("\n")) {
+    const line = raw.replace(/#.*$/, "").trim();
+    if (!line || line.startsWith("-")) continue;
+    const name = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/)?.[1];
+    if (name) dists.add(normalizeDist(name));
+  }
+  return dists;
+}
+
+/** Top-level Python module names provided by the generated files themselves */
+function localModules(files: FileOperation[]): Set<string> {
+  const mods = new Set<string>();
+  for (const f of files) {
+    if (!f.path.endsWith(".py")) continue;
+    const parts = f.path.replace(/^\.?\//, "").replace(/\.py$/, "").split("/");
+    // Files under src/ or app/ are usually run with that directory on sys.path
+    for (let k = 0; k < parts.length; k++) mods.add(parts[k]);
+  }
+  return mods;
+}
+
+/** The pip distribution that provides an importable module (`PIL` → `Pillow`) */
+export function distributionFor(module: string): string {
+  const top = module.split(".")[0];
+  return IMPORT_TO_DIST[top]?.[0] ?? top;
+}
+
+export interface MissingRequirement {
+  module: string;
+  dist: string;
+  file: string;
+  line: number;
+  /** The import maps to a well-known package, so adding `dist` is safe */
+  known: boolean;
+}
+
+function findRequirementsFile(files: FileOperation[]): FileOperation | undefined {
+  return files.find(f => /(^|\/)requirements\.txt$/.test(f.path));
+}
+
+/** The existing project with this generation's files laid over it */
+function projectTree(files: FileOperation[], existing: FileOperation[]): FileOperation[] {
+  const tree = new Map(existing.map(f => [f.path, f]));
+  for (const f of files) {
+    if (f.operation === "delete") tree.delete(f.path);
+    else tree.set(f.path, f);
+  }
+  return [...tree.values()];
+}
+
+/**
+ * Imported third-party modules with no matching line in requirements.txt.
+ * Only `files` are scanned; requirements.txt and local modules are looked up
+ * in the whole project so an edit to one cog still sees the rest.
+ */
+export function missingRequirements(files: FileOperation[], existing: FileOperation[] = [], structures?: Map<string, PythonStructure>): MissingRequirement[] {
+  const tree = projectTree(files, existing);
+  const req = findRequirementsFile(tree);
+  const dists = req ? parseRequirements(req.content) : new Set<string>();
+  const local = localModules(tree);
+  const missing: MissingRequirement[] = [];
+  const seen = new Set<string>();
+
+  for (const f of files) {
+    if (!f.path.endsWith(".py") || f.operation === "delete") continue;
+    const structure = structures?.get(f.path) ?? analyzeStructure(f.path, f.content, []);
+    for (const ll of structure.lines) {
+      const text = ll.code.trim();
+      const modules: string[] = [];
+      const from = text.match(/^from\s+([\w.]+)\s+import\b/);
+      const imp = text.match(/^import\s+(.+)$/);
+      if (from && !from[1].startsWith(".")) modules.push(from[1]);
+      if (imp) modules.push(...imp[1].split(",").map(s => s.trim().split(/\s+as\s+/)[0]));
+      for (const mod of modules) {
+        const top = mod.split(".")[0];
+        if (!top || STDLIB.has(top) || local.has(top) || seen.has(top)) continue;
+        const candidates = IMPORT_TO_DIST[top] ?? [top];
+        if (candidates.some(d => dists.has(normalizeDist(d)))) continue;
+        seen.add(top);
+        missing.push({ module: top, dist: candidates[0], file: f.path, line: ll.line, known: top in IMPORT_TO_DIST || SAME_NAME_PACKAGES.has(top) });
+      }
+    }
+  }
+  return missing;
+}
+
+/**
+ * Adds the well-known packages the Python sources import to requirements.txt.
+ * An existing requirements.txt that this generation didn't touch is appended
+ * to as an update — never replaced — so the project's other pins survive.
+ */
+export function withMissingRequirements(files: FileOperation[], existing: FileOperation[] = []): FileOperation[] {
+  if (!files.some(f => f.path.endsWith(".py") && f.operation !== "delete")) return files;
+  const missing = [...new Set(missingRequirements(files, existing).filter(m => m.known).map(m => m.dist))];
+  const append = (content: string) => content.trimEnd() + "\n" + missing.join("\n") + "\n";
+
+  const idx = files.findIndex(f => /(^|\/)requirements\.txt$/.test(f.path) && f.operation !== "delete");
+  if (idx !== -1) {
+    if (missing.length === 0) return files;
+    const next = [...files];
+    next[idx] = { ...next[idx], content: append(next[idx].content) };
+    return next;
+  }
+  const current = findRequirementsFile(existing);
+  if (current) {
+    return missing.length === 0 ? files : [...files, { ...current, content: append(current.content), operation: "update" }];
+  }
+  return [...files, { path: "requirements.txt", content: [...new Set(["discord.py", ...missing])].join("\n") + "\n", operation: "create" }];
+}
+
+// =============================================================================
+// discord.py RUNTIME CHECKS
+// =============================================================================
+
+const HANDLER_DECORATOR = /^@(?:\w+\.)*(event|listener\(.*\)|command\(.*\)|command|group\(.*\)|loop\(.*\)|hybrid_command\(.*\)|hybrid_group\(.*\)|slash_command\(.*\)|context_menu\(.*\)|tree\.command\(.*\))\s*$/;
+
+// Coroutine methods on discord.py models that are commonly called without await
+const COROUTINE_CALL = /\b(?:ctx|interaction\.response|interaction\.followup|interaction|channel|message|msg|member|user|author|guild|thread|role|webhook|vc|voice_client)\.(send|reply|send_message|defer|edit|edit_message|edit_original_response|delete|add_roles|remove_roles|ban|unban|kick|timeout|purge|add_reaction|clear_reactions|pin|unpin|connect|disconnect|move_to|create_thread|fetch_message|fetch_member|fetch_user|fetch_channel)\(|\basyncio\.sleep\(/g;
+
+const SCHEDULED = /create_task\(|ensure_future\(|gather\(|run_coroutine_threadsafe\(|wait_for\(|\.loop\.create_task\(/;
+
+const BLOCKING_CALLS: Array<{ re: RegExp; message: string; fix: string; severity: "error" | "warning" }> = [
+  { re: /\btime\.sleep\(/, message: "time.sleep() blocks the event loop inside a coroutine", fix: "Use `await asyncio.sleep(...)`", severity: "error" },
+  { re: /\brequests\.(get|post|put|patch|delete|head|request)\(/, message: "requests blocks the event loop inside a coroutine", fix: "Use an `aiohttp.ClientSession` and `await` the request", severity: "error" },
+  { re: /\burllib\.request\.urlopen\(|\burlopen\(/, message: "urlopen() blocks the event loop inside a coroutine", fix: "Use aiohttp instead", severity: "error" },
+  { re: /(^|[^.\w])input\(/, message: "input() blocks the bot waiting for console input", fix: "Remove the console prompt; read configuration from env vars", severity: "error" },
+  { re: /\bsubprocess\.(run|call|check_output|check_call)\(|\bos\.system\(/, message: "Synchronous subprocess call inside a coroutine", fix: "Use `asyncio.create_subprocess_exec`", severity: "warning" },
+  { re: /\bsqlite3\.connect\(/, message: "sqlite3 is synchronous and blocks the event loop", fix: "Use aiosqlite", severity: "warning" },
+];
+
+const CLIENT_CONSTRUCTOR = /\b(?:commands\.(?:Bot|AutoShardedBot)|discord\.(?:Client|AutoShardedClient|Bot)|(?<![\w.])(?:Bot|Client))\(/;
+
+function runtimeChecks(files: FileOperation[], structures: Map<string, PythonStructure>, errors: ValidationError[]) {
+  const allCode = [...structures.values()].flatMap(s => s.lines.map(l => l.code)).join("\n");
+  const messageContentEnabled = /message_content\s*=\s*True|Intents\.all\(\)/.test(allCode);
+  const membersEnabled = /\bmembers\s*=\s*True|Intents\.all\(\)/.test(allCode);
+  const hasPrefixCommands = /@(?:\w+\.)*(?:command|group)(?:\(|$)/m.test(allCode.replace(/@(?:\w+\.)*(?:tree|app_commands)\.command\(/g, ""))
+    && /command_prefix\s*=\s*(?!commands\.when_mentioned\b\s*[,)])/.test(allCode);
+  let reportedContent = false;
+  let reportedMembers = false;
+
+  const push = (file: string, line: number, message: string, fix: string, severity: "error" | "warning" = "error") =>
+    errors.push({ category: "RUNTIME", file, line, message, fix, severity, autoFixable: false });
+
+  for (const f of files) {
+    const s = structures.get(f.path);
+    if (!s) continue;
+
+    // Handlers registered with discord.py must be coroutines
+    for (const def of s.defs) {
+      if (def.kind !== "def") continue;
+      const handler = def.decorators.find(d => HANDLER_DECORATOR.test(d));
+      if (handler) push(f.path, def.line, `${def.name}() is registered with ${handler.split("(")[0]} but is not a coroutine`, `Declare it with \`async def ${def.name}\``);
+    }
+
+    // on_message override that swallows prefix commands
+    const onMessage = s.defs.find(d => d.name === "on_message" && d.decorators.some(x => /\.event\b/.test(x)));
+    if (onMessage && hasPrefixCommands && !/process_commands\(/.test(f.content)) {
+      push(f.path, onMessage.line, "on_message event overrides command processing — prefix commands will never run", "Call `await bot.process_commands(message)` at the end of on_message, or use `@bot.listen()`", "warning");
+    }
+
+    s.lines.forEach((ll, idx) => {
+      const text = ll.code.trim();
+      const fn = s.functions[idx];
+
+      if (fn?.kind === "async def") {
+        for (const b of BLOCKING_CALLS) {
+          if (b.re.test(text)) push(f.path, ll.line, `${b.message} (${fn.name})`, b.fix, b.severity);
+        }
+        if (!SCHEDULED.test(text)) {
+          for (const m of text.matchAll(COROUTINE_CALL)) {
+            const before = text.slice(0, m.index ?? 0);
+            if (/\bawait\s*\(?\s*[\w.]*$/.test(before)) continue;
+            push(f.path, ll.line, `Coroutine ${m[0].slice(0, -1)}() is never awaited`, `Add \`await\` before ${m[0].slice(0, -1)}()`);
+            break;
+          }
+        }
+      }
+
+      if (CLIENT_CONSTRUCTOR.test(text) && !/\bintents\s*=/.test(text) && !/^(class|def|async\s+def|from|import)\b/.test(text)) {
+        push(f.path, ll.line, "Bot/Client created without intents — discord.py 2.x raises TypeError at startup", "Pass `intents=discord.Intents.default()` (plus any privileged intents the bot needs)");
+      }
+
+      if (!messageContentEnabled && !reportedContent && (/\bmessage\.content\b/.test(text) || (hasPrefixCommands && /command_prefix\s*=/.test(text)))) {
+        reportedContent = true;
+        push(f.path, ll.line, "Reads message content but the message_content intent is not enabled — content will be empty", "Set `intents.message_content = True` and enable it in the Developer Portal");
+      }
+
+      if (!membersEnabled && !reportedMembers && /\bdef\s+on_member_(join|remove|update)\b|\.fetch_members\(|\bguild\.members\b/.test(text)) {
+        reportedMembers = true;
+        push(f.path, ll.line, "Uses member events or the member list without the members intent", "Set `intents.members = True` and enable Server Members Intent in the Developer Portal", "warning");
+      }
+    });
+  }
+}
+
+// =============================================================================
+// MAIN PYTHON VALIDATION
+// =============================================================================
+
+/**
+ * @param files     files produced by this generation — the only ones reported on
+ * @param existing  the rest of the project, for requirements.txt, local modules and intents
+ */
+export function validatePythonFiles(files: FileOperation[], existing: FileOperation[] = []): ValidationError[] {
+  const py = files.filter(f => f.path.endsWith(".py") && f.operation !== "delete");
+  if (py.length === 0) return [];
+
+  const tree = projectTree(files, existing);
+  const treePy = tree.filter(f => f.path.endsWith(".py"));
+  const errors: ValidationError[] = [];
+  const structures = new Map<string, PythonStructure>();
+  for (const f of py) structures.set(f.path, analyzeStructure(f.path, f.content, errors));
+  // Untouched files are parsed for intents and handlers but not reported on
+  for (const f of treePy) if (!structures.has(f.path)) structures.set(f.path, analyzeStructure(f.path, f.content, []));
+
+  // ---- Imports -------------------------------------------------------------
+  const req = findRequirementsFile(tree);
+  if (!req) {
+    errors.push({ category: "DEPENDENCY", file: "requirements.txt", message: "Python bot has no requirements.txt", fix: "Add requirements.txt listing discord.py and every third-party import", severity: "error", autoFixable: true });
+  }
+  for (const m of missingRequirements(files, existing, structures)) {
+    const known = m.known;
+    errors.push({
+      category: known ? "DEPENDENCY" : "IMPORT",
+      file: m.file,
+      line: m.line,
+      message: known
+        ? `Import '${m.module}' is not provided by requirements.txt (needs ${m.dist})`
+        : `Cannot resolve import '${m.module}' — not a generated module, the standard library or a requirements.txt package`,
+      fix: known ? `Add ${m.dist} to requirements.txt` : `Generate ${m.module}.py or add the package that provides it to requirements.txt`,
+      severity: "error",
+      autoFixable: known,
+    });
+  }
+  if (req) {
+    const dists = parseRequirements(req.content);
+    const forks = ["discord-py", "py-cord", "nextcord", "disnake"].filter(d => dists.has(d));
+    if (forks.length > 1) {
+      errors.push({ category: "DEPENDENCY", file: req.path, message: `Conflicting Discord libraries in requirements.txt: ${forks.join(", ")}`, fix: "Keep exactly one of them — they all install the `discord` package", severity: "error", autoFixable: false });
+    }
+  }
+
+  // Extensions loaded by dotted path must exist
+  const local = new Set(treePy.map(f => f.path.replace(/\.py$/, "").replace(/\//g, ".")));
+  for (const f of py) {
+    const s = structures.get(f.path)!;
+    for (const ll of s.lines) {
+      const ext = f.content.split("\n")[ll.line - 1]?.match(/load_extension\(\s*["']([\w.]+)["']/)?.[1];
+      if (ext && !local.has(ext) && ![...local].some(p => p.endsWith(`.${ext}`))) {
+        errors.push({ category: "IMPORT", file: f.path, line: ll.line, message: `Extension '${ext}' does not match any generated file`, fix: `Generate ${ext.replace(/\./g, "/")}.py or fix the extension path`, severity: "error", autoFixable: false });
+      }
+    }
+  }
+
+  runtimeChecks(py, structures, errors);
+  return errors;
+}
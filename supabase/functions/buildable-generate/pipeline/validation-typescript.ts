@@ -0,0 +1,305 @@
+// =============================================================================
+// TYPESCRIPT VALIDATION - Parser diagnostics, import resolution, export shape
+// =============================================================================
+// Parses every TS/JS file with the TypeScript compiler (syntax only — no type
+// checker, so no lib files are needed) and reports:
+//   SYNTAX  real parse diagnostics with line/column (unclosed JSX, stray braces)
+//   IMPORT  relative / `@/` imports that don't resolve to a project file
+//   TYPE    default-vs-named import mismatches against the target's exports
+
+import ts from "https://esm.sh/typescript@5.4.5";
+import type { FileOperation, ValidationError } from "./types.ts";
+
+const CODE_FILE = /\.(tsx?|jsx?|mjs|cjs)$/;
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".d.ts"];
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function scriptKind(path: string): ts.ScriptKind {
+  if (path.endsWith(".tsx")) return ts.ScriptKind.TSX;
+  if (path.endsWith(".ts")) return ts.ScriptKind.TS;
+  if (path.endsWith(".jsx")) return ts.ScriptKind.JSX;
+  return ts.ScriptKind.JS;
+}
+
+function parse(file: FileOperation): ts.SourceFile {
+  return ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true, scriptKind(file.path));
+}
+
+function position(sf: ts.SourceFile, pos: number): { line: number; column: number } {
+  const lc = sf.getLineAndCharacterOfPosition(pos);
+  return { line: lc.line + 1, column: lc.character + 1 };
+}
+
+function syntaxDiagnostics(sf: ts.SourceFile): ts.DiagnosticWithLocation[] {
+  // parseDiagnostics is populated by createSourceFile; it is what `tsc` reports as TS1xxx errors
+  return ((sf as unknown as { parseDiagnostics?: ts.DiagnosticWithLocation[] }).parseDiagnostics) ?? [];
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+interface ModuleExports {
+  hasDefault: boolean;
+  named: Set<string>;
+  /** `export * from` — named exports can't be enumerated without following it */
+  hasStar: boolean;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return !!(ts.canHaveModifiers(node) && ts.getModifiers(node)?.some(m => m.kind === kind));
+}
+
+const isModuleExports = (e: ts.Expression) =>
+  ts.isPropertyAccessExpression(e) && ts.isIdentifier(e.expression) && e.expression.text === "module" && e.name.text === "exports";
+
+/**
+ * Node hands an ESM default import of a CommonJS file its `module.exports`,
+ * and `exports.x = …`, `module.exports.x = …` and the keys of an exported
+ * object literal are importable by name.
+ */
+function collectCommonJsExport(expr: ts.Expression, out: ModuleExports) {
+  if (!ts.isBinaryExpression(expr) || expr.operatorToken.kind !== ts.SyntaxKind.EqualsToken) return;
+  const target = expr.left;
+  if (isModuleExports(target)) {
+    out.hasDefault = true;
+    if (ts.isObjectLiteralExpression(expr.right)) {
+      for (const prop of expr.right.properties) {
+        if ((ts.isPropertyAssignment(prop) || ts.isShorthandPropertyAssignment(prop) || ts.isMethodDeclaration(prop)) && ts.isIdentifier(prop.name)) {
+          out.named.add(prop.name.text);
+        }
+      }
+    }
+  } else if (ts.isPropertyAccessExpression(target) && (isModuleExports(target.expression) || (ts.isIdentifier(target.expression) && target.expression.text === "exports"))) {
+    out.hasDefault = true;
+    out.named.add(target.name.text);
+  }
+  // Chained `module.exports = exports.x = …`
+  collectCommonJsExport(expr.right, out);
+}
+
+function collectExports(sf: ts.SourceFile): ModuleExports {
+  const out: ModuleExports = { hasDefault: false, named: new Set(), hasStar: false };
+  for (const stmt of sf.statements) {
+    if (ts.isExportAssignment(stmt)) { out.hasDefault = true; continue; }
+    if (ts.isExportDeclaration(stmt)) {
+      if (!stmt.exportClause) { out.hasStar = true; continue; }
+      if (ts.isNamedExports(stmt.exportClause)) {
+        for (const el of stmt.exportClause.elements) {
+          if (el.name.text === "default") out.hasDefault = true;
+          else out.named.add(el.name.text);
+        }
+      } else {
+        out.named.add(stmt.exportClause.name.text); // export * as ns from
+      }
+      continue;
+    }
+    if (ts.isExpressionStatement(stmt)) { collectCommonJsExport(stmt.expression, out); continue; }
+    if (!hasModifier(stmt, ts.SyntaxKind.ExportKeyword)) continue;
+    if (hasModifier(stmt, ts.SyntaxKind.DefaultKeyword)) { out.hasDefault = true; continue; }
+    if (ts.isVariableStatement(stmt)) {
+      for (const decl of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name)) out.named.add(decl.name.text);
+        else for (const el of decl.name.elements) if (ts.isBindingElement(el) && ts.isIdentifier(el.name)) out.named.add(el.name.text);
+      }
+    } else if (
+      (ts.isFunctionDeclaration(stmt) || ts.isClassDeclaration(stmt) || ts.isInterfaceDeclaration(stmt) ||
+       ts.isTypeAliasDeclaration(stmt) || ts.isEnumDeclaration(stmt) || ts.isModuleDeclaration(stmt)) && stmt.name
+    ) {
+      out.named.add(stmt.name.text);
+    }
+  }
+  return out;
+}
+
+// =============================================================================
+// IMPORT RESOLUTION
+// =============================================================================
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const seg of path.split("/")) {
+    if (!seg || seg === ".") continue;
+    if (seg === "..") parts.pop();
+    else parts.push(seg);
+  }
+  return parts.join("/");
+}
+
+/** Candidate project paths for a specifier, or null when it is a package import */
+function importCandidates(fromPath: string, specifier: string): string[] | null {
+  let base: string;
+  if (specifier.startsWith("./") || specifier.startsWith("../")) {
+    base = normalizePath(`${fromPath.split("/").slice(0, -1).join("/")}/${specifier}`);
+  } else if (specifier.startsWith("@/")) {
+    base = normalizePath(`src/${specifier.slice(2)}`);
+  } else {
+    return null;
+  }
+  // `./foo.js` in TS source refers to foo.ts
+  const stripped = base.replace(/\.(js|jsx|mjs)$/, "");
+  return [
+    base,
+    ...RESOLVE_EXTENSIONS.map(ext => stripped + ext),
+    ...RESOLVE_EXTENSIONS.map(ext => `${stripped}/index${ext}`),
+  ];
+}
+
+/** The file a missing import most likely meant, in the importer's own language */
+function suggestedPath(fromPath: string, candidates: string[]): string {
+  if (/\.\w+$/.test(candidates[0].split("/").pop()!)) return candidates[0];
+  const ext = fromPath.match(/\.(tsx?|jsx?|mjs|cjs)$/)?.[0] ?? ".ts";
+  return candidates.find(c => c.endsWith(ext) && !c.includes("/index.")) ?? candidates[1];
+}
+
+interface ImportRef {
+  specifier: string;
+  pos: number;
+  defaultName?: string;
+  named: Array<{ name: string; pos: number }>;
+}
+
+function collectImports(sf: ts.SourceFile): ImportRef[] {
+  const refs: ImportRef[] = [];
+  for (const stmt of sf.statements) {
+    if (ts.isImportDeclaration(stmt) && ts.isStringLiteral(stmt.moduleSpecifier)) {
+      const ref: ImportRef = { specifier: stmt.moduleSpecifier.text, pos: stmt.moduleSpecifier.getStart(sf), named: [] };
+      const clause = stmt.importClause;
+      if (clause?.name) ref.defaultName = clause.name.text;
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const el of clause.namedBindings.elements) {
+          const imported = (el.propertyName ?? el.name).text;
+          if (imported === "default") ref.defaultName = el.name.text;
+          else ref.named.push({ name: imported, pos: el.getStart(sf) });
+        }
+      }
+      refs.push(ref);
+    } else if (ts.isExportDeclaration(stmt) && stmt.moduleSpecifier && ts.isStringLiteral(stmt.moduleSpecifier)) {
+      refs.push({ specifier: stmt.moduleSpecifier.text, pos: stmt.moduleSpecifier.getStart(sf), named: [] });
+    }
+  }
+  // CommonJS and dynamic imports: require('./x'), import('./x')
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0])) {
+      const callee = node.expression;
+      if ((ts.isIdentifier(callee) && callee.text === "require") || callee.kind === ts.SyntaxKind.ImportKeyword) {
+        refs.push({ specifier: node.arguments[0].text, pos: node.arguments[0].getStart(sf), named: [] });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sf);
+  return refs;
+}
+
+// =============================================================================
+// MAIN TYPESCRIPT VALIDATION
+// =============================================================================
+
+/**
+ * @param files     files produced by this generation
+ * @param existing  the rest of the project, so imports of untouched files resolve
+ */
+export function validateTypeScriptFiles(files: FileOperation[], existing: FileOperation[] = []): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const project = new Map<string, FileOperation>();
+  for (const f of existing) project.set(f.path, f);
+  for (const f of files) {
+    if (f.operation === "delete") project.delete(f.path);
+    else project.set(f.path, f);
+  }
+
+  const parsed = new Map<string, ts.SourceFile>();
+  const sourceOf = (path: string) => {
+    let sf = parsed.get(path);
+    if (!sf) {
+      sf = parse(project.get(path)!);
+      parsed.set(path, sf);
+    }
+    return sf;
+  };
+  const exportsCache = new Map<string, ModuleExports>();
+  const exportsOf = (path: string) => {
+    let ex = exportsCache.get(path);
+    if (!ex) {
+      ex = collectExports(sourceOf(path));
+      exportsCache.set(path, ex);
+    }
+    return ex;
+  };
+
+  for (const file of files) {
+    if (file.operation === "delete" || !CODE_FILE.test(file.path) || file.path.includes("node_modules/")) continue;
+    const sf = sourceOf(file.path);
+
+    const diagnostics = syntaxDiagnostics(sf);
+    for (const d of diagnostics.slice(0, 5)) {
+      const { line, column } = position(sf, d.start);
+      errors.push({
+        category: "SYNTAX",
+        file: file.path,
+        line,
+        column,
+        message: `${ts.flattenDiagnosticMessageText(d.messageText, " ")} (TS${d.code})`,
+        fix: "Fix the syntax at this position",
+        severity: "error",
+        autoFixable: false,
+      });
+    }
+    // A broken parse makes the import/export pass unreliable
+    if (diagnostics.length > 0) continue;
+
+    for (const ref of collectImports(sf)) {
+      const candidates = importCandidates(file.path, ref.specifier);
+      if (!candidates) continue;
+      const { line, column } = position(sf, ref.pos);
+      const target = candidates.find(c => project.has(c));
+      if (!target) {
+        errors.push({
+          category: "IMPORT",
+          file: file.path,
+          line,
+          column,
+          message: `Cannot resolve '${ref.specifier}' — no such file was generated`,
+          fix: `Generate ${suggestedPath(file.path, candidates)} or fix the import path`,
+          severity: "error",
+          autoFixable: false,
+        });
+        continue;
+      }
+      if (!CODE_FILE.test(target)) continue;
+
+      const ex = exportsOf(target);
+      if (ref.defaultName && !ex.hasDefault) {
+        const named = ex.named.has(ref.defaultName);
+        errors.push({
+          category: "TYPE",
+          file: file.path,
+          line,
+          column,
+          message: `'${ref.specifier}' has no default export${named ? ` — '${ref.defaultName}' is a named export` : ""}`,
+          fix: named ? `Use \`import { ${ref.defaultName} } from '${ref.specifier}'\`` : `Add \`export default\` to ${target} or import a named export`,
+          severity: "error",
+          autoFixable: false,
+        });
+      }
+      if (ex.hasStar) continue;
+      for (const n of ref.named) {
+        if (ex.named.has(n.name)) continue;
+        errors.push({
+          category: "TYPE",
+          file: file.path,
+          ...position(sf, n.pos),
+          message: `'${ref.specifier}' has no exported member '${n.name}'${ex.hasDefault ? " — it only has a default export" : ""}`,
+          fix: ex.hasDefault ? `Use \`import ${n.name} from '${ref.specifier}'\`` : `Export ${n.name} from ${target}`,
+          severity: "error",
+          autoFixable: false,
+        });
+      }
+    }
+  }
+  return errors;
+}
@@ -3,37 +3,25 @@
 // =============================================================================
 
 import type { FileOperation, ValidationResult, ValidationError, ErrorCategory, ArchitecturePlan } from "./types.ts";
+import { validatePythonFiles } from "./validation-python.ts";
+import { validateTypeScriptFiles } from "./validation-typescript.ts";
+import { scoreProject } from "./scoring.ts";
 
 // =============================================================================
 // MAIN VALIDATION
 // =============================================================================
 
-export function validateFiles(files: FileOperation[], plan?: ArchitecturePlan): ValidationResult {
+export function validateFiles(files: FileOperation[], plan?: ArchitecturePlan, existingFiles: FileOperation[] = []): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
-  let polishScore = 50;
+
+  // Parser diagnostics, unresolved imports, default/named export mismatches
+  errors.push(...validateTypeScriptFiles(files, existingFiles));
 
   for (const file of files) {
     if (!file.path.endsWith(".tsx") && !file.path.endsWith(".ts")) continue;
     const c = file.content;
 
-    // Syntax checks
-    const opens = (c.match(/\{/g) || []).length;
-    const closes = (c.match(/\}/g) || []).length;
-    if (opens !== closes) {
-      errors.push({ category: "SYNTAX", file: file.path, message: "Unbalanced braces", fix: "Balance { and }", severity: "error", autoFixable: false });
-    }
-
-    const parens = (c.match(/\(/g) || []).length - (c.match(/\)/g) || []).length;
-    if (parens !== 0) {
-      errors.push({ category: "SYNTAX", file: file.path, message: "Unbalanced parentheses", fix: "Balance ( and )", severity: "error", autoFixable: false });
-    }
-
-    // Incomplete ternary
-    if (/\?\s*:/g.test(c)) {
-      errors.push({ category: "SYNTAX", file: file.path, message: "Incomplete ternary", fix: "Add both branches", severity: "error", autoFixable: false });
-    }
-
     // Placeholder detection
     if (/\/\/\s*\.\.\./.test(c) || /\/\/\s*TODO/i.test(c)) {
       errors.push({ category: "STRUCTURE", file: file.path, message: "Contains placeholder", fix: "Complete the code", severity: "error", autoFixable: false });
@@ -58,43 +46,21 @@ export function validateFiles(files: FileOperation[], plan?: ArchitecturePlan):
   }
 
   // ==========================================================================
-  // POLISH SCORING (enhanced)
+  // PYTHON (discord.py bots)
   // ==========================================================================
-  const allContent = files.map(f => f.content).join("\n");
-
-  // Visual quality
-  if (allContent.includes("unsplash.com")) polishScore += 10;
-  if (allContent.includes("bg-gradient-to")) polishScore += 8;
-  if (allContent.includes("hover:")) polishScore += 8;
-  if (allContent.includes("backdrop-blur")) polishScore += 5;
-  if (allContent.includes("transition-")) polishScore += 5;
-
-  // Typography & spacing
-  if (/text-[5-7]xl/.test(allContent)) polishScore += 5; // Large hero text
-  if (/py-2[0-9]|py-3[0-9]/.test(allContent)) polishScore += 5; // Generous spacing
-  if (allContent.includes("tracking-")) polishScore += 3; // Letter spacing
-  if (allContent.includes("leading-")) polishScore += 3; // Line height
-
-  // Animations
-  if (allContent.includes("animate-") || allContent.includes("@keyframes")) polishScore += 5;
-  if (allContent.includes("group-hover:")) polishScore += 3;
-  if (allContent.includes("hover:-translate-y")) polishScore += 3;
-
-  // Content quality
-  if (files.length >= 8) polishScore += 5;
-  if (files.length >= 10) polishScore += 5;
-
-  // Warnings
-  if (!allContent.includes("unsplash.com")) {
-    warnings.push({ category: "STRUCTURE", file: "", message: "No Unsplash images", fix: "Add real images", severity: "warning", autoFixable: false });
-  }
-  if (files.length < 6) {
-    warnings.push({ category: "STRUCTURE", file: "", message: "Few files generated", fix: "Add more components", severity: "warning", autoFixable: false });
-  }
-  if (!allContent.includes("transition-")) {
-    warnings.push({ category: "STRUCTURE", file: "", message: "No transitions/animations", fix: "Add hover transitions", severity: "warning", autoFixable: false });
+  for (const e of validatePythonFiles(files, existingFiles)) {
+    (e.severity === "error" ? errors : warnings).push(e);
   }
 
+  // ==========================================================================
+  // QUALITY SCORING (rubric by project type)
+  // ==========================================================================
+  // Score the whole tree — in edit mode `files` is only what changed
+  const tree = new Map(existingFiles.map(f => [f.path, f]));
+  for (const file of files) tree.set(file.path, file);
+  const quality = scoreProject([...tree.values()]);
+  warnings.push(...quality.warnings);
+
   // ==========================================================================
   // COMPLETENESS CHECK (compare against plan)
   // ==========================================================================
@@ -133,7 +99,8 @@ export function validateFiles(files: FileOperation[], plan?: ArchitecturePlan):
 
   return {
     valid: errors.length === 0,
-    score: Math.min(100, polishScore),
+    score: quality.report.score,
+    quality: quality.report,
     completenessScore,
     criticalErrors: errors,
     warnings,
@@ -0,0 +1,237 @@
+// =============================================================================
+// DISCORD SIMULATOR - Local gateway + REST API for testing generated bots
+// =============================================================================
+// Each session is an isolated fake guild. Point a bot at it by overriding the
+// library's API base:
+//
+//   discord.py:  discord.http.Route.BASE = "<session>/api/v10"
+//   discord.js:  new Client({ rest: { api: "<session>/api" }, ... })
+//
+// and the gateway URL comes back from /gateway/bot like on discord.com. The
+// pipeline harness does this automatically when BUILDABLE_SIMULATOR_URL is set.
+//
+// Routes (relative to the function URL):
+//   POST   /sessions                     create { scenario?, autoRun? } → { id, url, apiBase, gatewayUrl }
+//   GET    /sessions/:id                 guild snapshot (channels, members, commands, messages)
+//   DELETE /sessions/:id
+//   *      /sessions/:id/api/v10/...     Discord REST API (for the bot)
+//   GET    /sessions/:id/gateway         Discord gateway websocket (for the bot)
+//   POST   /sessions/:id/actions         { step } — join / message / slash / click
+//   POST   /sessions/:id/scenario        { scenario } — run it and return the ScenarioResult
+//   GET    /sessions/:id/events?since=   recorded events; SSE with Accept: text/event-stream
+//   GET    /sessions/:id/result          result of the last scenario run
+//   POST   /sessions/:id/suite           { scenarios: [{ file, scenario }] } — run each on a fresh guild
+//   POST   /sessions/:id/run             { files } — start the bot in the sandbox (playground)
+//   DELETE /sessions/:id/run             stop it
+//
+// Creating a session needs DISCORD_SIMULATOR_TOKEN or a signed-in user; the
+// session id is the capability for everything under it. Sessions live in
+// memory, so run this as a single long-lived instance
+// (deno run --allow-net --allow-env index.ts) or pin the function to one.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SimulatorSession, type ActionStep } from "./simulator.ts";
+import { toScenario } from "./scenario.ts";
+import { startBot, type BotRun } from "./runner.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-audit-log-reason",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+};
+
+const SESSION_IDLE_MS = 15 * 60 * 1000;
+const MAX_SESSIONS = 100;
+const SSE_HEARTBEAT_MS = 15_000;
+
+const sessions = new Map<string, SimulatorSession>();
+const runs = new Map<string, BotRun>();
+
+function closeSession(id: string) {
+  runs.get(id)?.stop();
+  runs.delete(id);
+  sessions.get(id)?.close();
+  sessions.delete(id);
+}
+
+function respond(value: unknown, status = 200): Response {
+  return new Response(JSON.stringify(value), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function sweep() {
+  const cutoff = Date.now() - SESSION_IDLE_MS;
+  for (const [id, session] of sessions) {
+    if (session.lastActivity < cutoff) closeSession(id);
+  }
+}
+
+async function authorized(req: Request): Promise<boolean> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer /, "");
+  if (!token) return false;
+  const serviceToken = Deno.env.get("DISCORD_SIMULATOR_TOKEN");
+  if (serviceToken && token === serviceToken) return true;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceKey) return false;
+  const { data: { user } } = await createClient(supabaseUrl, serviceKey).auth.getUser(token);
+  return !!user;
+}
+
+/** The URL bots and browsers reach this function on, up to (not including) /sessions */
+function publicBase(url: URL): string {
+  const configured = Deno.env.get("DISCORD_SIMULATOR_PUBLIC_URL");
+  if (configured) return configured.replace(/\/+$/, "");
+  return url.origin + url.pathname.slice(0, Math.max(0, url.pathname.indexOf("/sessions")));
+}
+
+function eventStream(session: SimulatorSession, since: number): Response {
+  let unsubscribe = () => {};
+  let heartbeat = 0;
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      for (const event of session.eventsSince(since)) send(event);
+      unsubscribe = session.subscribe(send);
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), SSE_HEARTBEAT_MS);
+    },
+    cancel() {
+      unsubscribe();
+      clearInterval(heartbeat);
+    },
+  });
+  return new Response(stream, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const match = url.pathname.match(/\/sessions(?:\/([^/]+)(\/.*)?)?\/?$/);
+  if (!match) return respond({ error: "Not found" }, 404);
+  const [, sessionId, rest = ""] = match;
+
+  try {
+    sweep();
+
+    // -------------------------------------------------------------------------
+    // Create
+    // -------------------------------------------------------------------------
+    if (!sessionId) {
+      if (req.method !== "POST") return respond({ error: "Method not allowed" }, 405);
+      if (!await authorized(req)) return respond({ error: "Unauthorized" }, 401);
+      if (sessions.size >= MAX_SESSIONS) return respond({ error: "Too many simulator sessions running, try again shortly" }, 429);
+
+      const body = await req.json().catch(() => ({}));
+      const scenario = body.scenario ? toScenario(body.scenario) : null;
+
+      const id = crypto.randomUUID();
+      const sessionUrl = `${publicBase(url)}/sessions/${id}`;
+      const gatewayUrl = `${sessionUrl.replace(/^http/, "ws")}/gateway`;
+      const session = new SimulatorSession(id, gatewayUrl);
+      sessions.set(id, session);
+
+      // Scenario starts on its own once the bot sends IDENTIFY
+      if (scenario && body.autoRun !== false) session.runScenario(scenario, body.readyTimeoutMs ?? 60_000);
+
+      console.log(`[Simulator] Session ${id} created${scenario ? ` with ${scenario.steps.length} steps` : ""}`);
+      return respond({ id, url: sessionUrl, apiBase: `${sessionUrl}/api`, gatewayUrl }, 201);
+    }
+
+    const session = sessions.get(sessionId);
+    if (!session) return respond({ error: "Unknown or expired simulator session" }, 404);
+
+    // -------------------------------------------------------------------------
+    // Bot-facing: REST + gateway
+    // -------------------------------------------------------------------------
+    const api = rest.match(/^\/api(?:\/v\d+)?(\/.*)$/);
+    if (api) {
+      const res = await session.handleRest(req, api[1]);
+      return new Response(res.body, { status: res.status, headers: { ...corsHeaders, ...Object.fromEntries(res.headers) } });
+    }
+
+    if (rest === "/gateway") {
+      if (req.headers.get("upgrade")?.toLowerCase() !== "websocket") return respond({ error: "Expected a websocket upgrade" }, 426);
+      const { socket, response } = Deno.upgradeWebSocket(req);
+      session.acceptGateway(socket);
+      return response;
+    }
+
+    // -------------------------------------------------------------------------
+    // Driver-facing: actions, scenarios, events
+    // -------------------------------------------------------------------------
+    if (rest === "" && req.method === "GET") return respond(session.snapshot());
+    if (rest === "" && req.method === "DELETE") {
+      closeSession(sessionId);
+      return respond({ success: true });
+    }
+
+    if (rest === "/run" && req.method === "POST") {
+      const { files } = await req.json().catch(() => ({}));
+      if (!Array.isArray(files) || files.length === 0) return respond({ error: "files are required" }, 400);
+      runs.get(sessionId)?.stop();
+      let run: BotRun;
+      try {
+        run = startBot(session, `${publicBase(url)}/sessions/${sessionId}`, files);
+      } catch (e) {
+        return respond({ error: e instanceof Error ? e.message : "Could not start the bot" }, 400);
+      }
+      runs.set(sessionId, run);
+      return respond({ id: run.id, language: run.language, entry: run.entry, prefix: run.prefix }, 202);
+    }
+
+    if (rest === "/run" && req.method === "DELETE") {
+      runs.get(sessionId)?.stop();
+      runs.delete(sessionId);
+      return respond({ success: true });
+    }
+
+    if (rest === "/actions" && req.method === "POST") {
+      const { step } = await req.json() as { step: ActionStep };
+      try {
+        await session.perform(step);
+      } catch (e) {
+        return respond({ error: e instanceof Error ? e.message : "Action failed" }, 400);
+      }
+      return respond({ success: true, snapshot: session.snapshot() });
+    }
+
+    if (rest === "/scenario" && req.method === "POST") {
+      const body = await req.json();
+      let scenario;
+      try {
+        scenario = toScenario(body.scenario);
+      } catch (e) {
+        return respond({ error: e instanceof Error ? e.message : "Invalid scenario" }, 400);
+      }
+      return respond(await session.runScenario(scenario, body.readyTimeoutMs ?? 20_000));
+    }
+
+    if (rest === "/suite" && req.method === "POST") {
+      const body = await req.json();
+      if (!Array.isArray(body.scenarios)) return respond({ error: "scenarios must be an array of { file, scenario }" }, 400);
+      return respond(await session.runSuite(body.scenarios, body.readyTimeoutMs ?? 120_000));
+    }
+
+    if (rest === "/events" && req.method === "GET") {
+      const since = Number(url.searchParams.get("since") ?? 0);
+      if (req.headers.get("accept")?.includes("text/event-stream")) return eventStream(session, since);
+      return respond({ events: session.eventsSince(since), ready: session.isReady, result: session.lastResult });
+    }
+
+    if (rest === "/result" && req.method === "GET") return respond({ result: session.lastResult });
+
+    return respond({ error: "Not found" }, 404);
+  } catch (error) {
+    console.error("[Simulator] Error:", error);
+    return respond({ error: error instanceof Error ? error.message : "Simulator error" }, 500);
+  }
+});
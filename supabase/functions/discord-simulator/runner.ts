@@ -0,0 +1,73 @@
+// =============================================================================
+// RUNNER - Launch the workspace's bot in the sandbox against one session
+// =============================================================================
+// Backs the workspace playground: the bot runs with the pipeline harness and
+// mock credentials, pointed at this session instead of discord.com. Output
+// streams back from the runner and is recorded on the session as events:
+//
+//   bot_started  { run, language, entry, prefix }
+//   log          { stream, line }                      plain stdout / stderr
+//   bot_error    { error, message, traceback, command } harness crash reports
+//   bot_stopped  { run, exitCode, timedOut, reason? }
+//
+// Guild activity (replies, moderation, no_response …) is recorded by the
+// session itself, so the playground reads a single event stream.
+
+import type { FileOperation } from "../buildable-generate/pipeline/types.ts";
+import { HARNESS_EVENT_PREFIX } from "../buildable-generate/pipeline/harness.ts";
+import {
+  buildRunRequest, detectPrefix, findEntry, isSandboxConfigured, streamInSandbox,
+} from "../buildable-generate/pipeline/sandbox.ts";
+import type { SimulatorSession } from "./simulator.ts";
+
+/** How long a playground bot stays up before it has to be restarted */
+export const PLAYGROUND_RUN_SECONDS = 10 * 60;
+
+// Harness events that duplicate what the session already records (or the end-of-run summary)
+const GUILD_SIDE = new Set(["ready", "invoke", "reply", "moderation", "no_response", "unmocked_route", "summary"]);
+
+export interface BotRun {
+  /** Tags bot_started / bot_stopped so a restart can tell the old run's exit apart */
+  id: string;
+  language: "python" | "javascript";
+  entry: string;
+  prefix: string;
+  stop: () => void;
+}
+
+export function startBot(session: SimulatorSession, sessionUrl: string, files: Array<{ path: string; content: string }>): BotRun {
+  if (!isSandboxConfigured()) throw new Error("Bot runs need SANDBOX_RUNNER_URL — the sandbox runner isn't configured");
+
+  const operations: FileOperation[] = files
+    .filter(f => typeof f?.path === "string" && typeof f.content === "string")
+    .map(f => ({ path: f.path.replace(/^\/+/, ""), content: f.content, operation: "create" }));
+  const target = findEntry(operations);
+  if (!target) throw new Error("No bot entry file found (main.py, bot.py, index.js, …)");
+
+  const prefix = detectPrefix(operations);
+  const controller = new AbortController();
+  const id = crypto.randomUUID();
+  const request = buildRunRequest(operations, target, [], sessionUrl, PLAYGROUND_RUN_SECONDS);
+
+  session.record("bot_started", { run: id, language: target.language, entry: target.entry, prefix });
+
+  const onLine = (stream: "stdout" | "stderr", line: string) => {
+    if (line.startsWith(HARNESS_EVENT_PREFIX)) {
+      try {
+        const { kind, ...data } = JSON.parse(line.slice(HARNESS_EVENT_PREFIX.length));
+        if (!GUILD_SIDE.has(kind)) session.record("bot_error", { error: kind, ...data });
+        return;
+      } catch { /* not ours after all */ }
+    }
+    if (line.trim()) session.record("log", { stream, line });
+  };
+
+  streamInSandbox(request, onLine, controller.signal)
+    .then(exit => session.record("bot_stopped", { run: id, exitCode: exit.exitCode, timedOut: exit.timedOut }))
+    .catch(e => {
+      const stopped = controller.signal.aborted;
+      session.record("bot_stopped", { run: id, exitCode: null, timedOut: false, reason: stopped ? "Stopped" : (e instanceof Error ? e.message : String(e)) });
+    });
+
+  return { id, ...target, prefix, stop: () => controller.abort() };
+}
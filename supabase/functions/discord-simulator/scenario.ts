@@ -0,0 +1,159 @@
+// =============================================================================
+// SCENARIOS - Scripted guild activity plus assertions on what the bot did
+// =============================================================================
+// Scenarios are JSON ({ steps: [...] }) or a line-based script:
+//
+//   # moderation smoke test
+//   join alice
+//   alice: !ban @bob spamming
+//   expect ban @bob
+//   expect reply contains "banned"
+//   tester: /play query:"lofi beats"
+//   expect reply within 5s
+//   tester: /music queue
+//   expect no reply
+//   tester clicks skip_button
+//   wait 2s
+//
+// `expect` lines look at everything the bot did since the previous action.
+
+export type OptionInput = string | number | boolean;
+
+export type Expectation =
+  | { kind: "reply"; contains?: string; matches?: string; embed?: boolean; ephemeral?: boolean; within?: number }
+  | { kind: "no_reply"; within?: number }
+  | { kind: "moderation"; action: ModerationAction; user?: string; within?: number };
+
+export type ModerationAction = "ban" | "unban" | "kick" | "timeout" | "role_add" | "role_remove";
+
+export type ScenarioStep =
+  | { type: "join"; user: string; role?: string }
+  | { type: "message"; user: string; content: string; channel?: string }
+  | { type: "slash"; user: string; command: string; options?: Record<string, OptionInput>; channel?: string }
+  | { type: "click"; user: string; customId: string }
+  | { type: "wait"; ms: number }
+  | { type: "expect"; expect: Expectation };
+
+export interface Scenario {
+  name?: string;
+  steps: ScenarioStep[];
+}
+
+/** Default time the bot gets to satisfy an expectation (Discord's interaction deadline) */
+export const DEFAULT_EXPECT_WITHIN_MS = 3000;
+
+const MODERATION_ACTIONS: ModerationAction[] = ["ban", "unban", "kick", "timeout", "role_add", "role_remove"];
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function duration(value: string, line: number): number {
+  const m = value.match(/^(\d+(?:\.\d+)?)(ms|s)?$/);
+  if (!m) throw new Error(`Line ${line}: "${value}" is not a duration (use 500ms or 2s)`);
+  return Math.round(Number(m[1]) * (m[2] === "s" ? 1000 : 1));
+}
+
+/** Split on spaces, keeping "quoted strings" and key:"quoted values" together */
+function tokenize(text: string): string[] {
+  return text.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+}
+
+const unquote = (s: string) => s.replace(/^"(.*)"$/, "$1");
+
+function optionValue(raw: string): OptionInput {
+  const value = unquote(raw);
+  if (raw.startsWith('"')) return value;
+  if (value === "true" || value === "false") return value === "true";
+  if (/^-?\d+(?:\.\d+)?$/.test(value) && value.length < 16) return Number(value);
+  return value;
+}
+
+/** `/music play query:"lofi beats" loop:true` → command "music play" + options */
+function parseSlash(text: string): { command: string; options: Record<string, OptionInput> } {
+  const path: string[] = [];
+  const options: Record<string, OptionInput> = {};
+  for (const token of tokenize(text.slice(1))) {
+    const colon = token.indexOf(":");
+    if (colon > 0 && !token.startsWith('"')) options[token.slice(0, colon)] = optionValue(token.slice(colon + 1));
+    else path.push(token);
+  }
+  return { command: path.join(" "), options };
+}
+
+function parseExpect(rest: string, line: number): Expectation {
+  const tokens = tokenize(rest);
+  let within: number | undefined;
+  const w = tokens.indexOf("within");
+  if (w !== -1) {
+    within = duration(tokens[w + 1] ?? "", line);
+    tokens.splice(w, 2);
+  }
+
+  if (tokens[0] === "no" && tokens[1] === "reply") return { kind: "no_reply", within };
+
+  const action = tokens[0]?.replace(/-/g, "_") as ModerationAction;
+  if (MODERATION_ACTIONS.includes(action)) {
+    return { kind: "moderation", action, user: tokens[1]?.replace(/^@/, ""), within };
+  }
+
+  if (tokens[0] === "reply" || tokens[0] === "embed") {
+    const exp: Extract<Expectation, { kind: "reply" }> = { kind: "reply", within };
+    if (tokens[0] === "embed") exp.embed = true;
+    for (let i = 1; i < tokens.length; i++) {
+      const t = tokens[i];
+      if (t === "contains") exp.contains = unquote(tokens[++i] ?? "");
+      else if (t === "matching" || t === "matches") exp.matches = tokens[++i] ?? "";
+      else if (t === "embed" || (t === "with" && tokens[i + 1] === "embed")) { exp.embed = true; if (t === "with") i++; }
+      else if (t === "ephemeral") exp.ephemeral = true;
+      else throw new Error(`Line ${line}: unexpected "${t}" in expect reply`);
+    }
+    return exp;
+  }
+  throw new Error(`Line ${line}: unknown expectation "${rest}" (reply, embed, no reply, ${MODERATION_ACTIONS.join(", ")})`);
+}
+
+export function parseScenario(source: string): Scenario {
+  const steps: ScenarioStep[] = [];
+  let name: string | undefined;
+
+  source.split("\n").forEach((raw, i) => {
+    const line = i + 1;
+    const text = raw.trim();
+    if (!text) return;
+    if (text.startsWith("#")) {
+      if (!name && steps.length === 0) name = text.replace(/^#+\s*/, "") || undefined;
+      return;
+    }
+
+    let m: RegExpMatchArray | null;
+    if ((m = text.match(/^join\s+@?(\S+)(?:\s+as\s+(\S+))?$/i))) {
+      steps.push({ type: "join", user: m[1], ...(m[2] ? { role: m[2] } : {}) });
+    } else if ((m = text.match(/^wait\s+(\S+)$/i))) {
+      steps.push({ type: "wait", ms: duration(m[1], line) });
+    } else if ((m = text.match(/^expect\s+(.+)$/i))) {
+      steps.push({ type: "expect", expect: parseExpect(m[1], line) });
+    } else if ((m = text.match(/^@?(\S+)\s+clicks\s+(\S+)$/i))) {
+      steps.push({ type: "click", user: m[1], customId: unquote(m[2]) });
+    } else if ((m = text.match(/^@?([^\s:]+):\s?(.*)$/))) {
+      const [, user, content] = m;
+      if (content.startsWith("/")) steps.push({ type: "slash", user, ...parseSlash(content) });
+      else steps.push({ type: "message", user, content });
+    } else {
+      throw new Error(`Line ${line}: can't read "${text}" (try "join alice", "alice: !help", "expect reply")`);
+    }
+  });
+
+  return { name, steps };
+}
+
+/** Accept either form; JSON scenarios are checked just enough to fail early */
+export function toScenario(input: unknown): Scenario {
+  if (typeof input === "string") return parseScenario(input);
+  const s = input as Scenario | null;
+  if (!s || !Array.isArray(s.steps)) throw new Error("Scenario needs a steps array");
+  for (const [i, step] of s.steps.entries()) {
+    if (!step || typeof step !== "object" || !("type" in step)) throw new Error(`Step ${i + 1} has no type`);
+  }
+  return s;
+}
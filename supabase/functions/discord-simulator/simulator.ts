@@ -0,0 +1,1242 @@
+// =============================================================================
+// SIMULATOR - One simulated guild: gateway sessions, REST API, user actions
+// =============================================================================
+// Speaks enough of Discord's gateway (HELLO, IDENTIFY, READY, GUILD_CREATE,
+// MESSAGE_CREATE, INTERACTION_CREATE, member events) and REST API for
+// discord.py 2.x and discord.js 14 to run unmodified once their base URLs
+// point here. Everything the bot does is recorded as SimulatorEvents, which
+// scenarios assert on and the workspace streams to the playground.
+//
+// Intents are enforced the way Discord does: no GUILD_MESSAGES means no
+// MESSAGE_CREATE, no MESSAGE_CONTENT means empty content unless the bot is
+// mentioned. Both are reported as `missing_intent` so the cause is visible.
+
+import type { Expectation, OptionInput, Scenario, ScenarioStep } from "./scenario.ts";
+import { DEFAULT_EXPECT_WITHIN_MS, toScenario } from "./scenario.ts";
+
+/** Same snowflakes as the pipeline harness (MOCK_IDS) so scripted option values resolve */
+export const SIM_IDS = {
+  application: "100000000000000001",
+  guild: "100000000000000002",
+  channel: "100000000000000003",
+  tester: "100000000000000004",
+} as const;
+
+export const INTERACTION_DEADLINE_MS = 3000;
+
+const INTENTS = {
+  GUILDS: 1 << 0,
+  GUILD_MEMBERS: 1 << 1,
+  GUILD_MESSAGES: 1 << 9,
+  DIRECT_MESSAGES: 1 << 12,
+  MESSAGE_CONTENT: 1 << 15,
+};
+
+const ALL_PERMISSIONS = "2199023255551";
+const EVERYONE_PERMISSIONS = "1071698660929";
+// everyone + KICK_MEMBERS | BAN_MEMBERS | MANAGE_MESSAGES | MODERATE_MEMBERS
+const MODERATOR_PERMISSIONS = String(BigInt(EVERYONE_PERMISSIONS) | 2n | 4n | 8192n | (1n << 40n));
+
+const EPHEMERAL = 64;
+const STEP_GAP_MS = 600;
+// Bots usually sync slash commands right after READY; give them a moment first
+const READY_SETTLE_MS = 1000;
+const MAX_EVENTS = 2000;
+const MAX_MESSAGES_PER_CHANNEL = 200;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SimUser {
+  id: string;
+  username: string;
+  global_name: string | null;
+  discriminator: "0";
+  avatar: null;
+  bot?: boolean;
+}
+
+interface SimMember {
+  user: SimUser;
+  roles: string[];
+  nick: string | null;
+  joined_at: string;
+  communication_disabled_until: string | null;
+}
+
+interface SimChannel {
+  id: string;
+  type: number;
+  name?: string;
+  recipients?: SimUser[];
+}
+
+export interface SimMessage {
+  id: string;
+  channel_id: string;
+  author: SimUser;
+  content: string;
+  embeds: Array<Record<string, unknown>>;
+  components: Array<Record<string, unknown>>;
+  attachments: Array<{ id: string; filename: string }>;
+  flags: number;
+  type: number;
+  timestamp: string;
+  edited_timestamp: string | null;
+  message_reference?: { message_id: string; channel_id: string };
+}
+
+type InteractionOption = { name: string; type: number; value?: string | number | boolean; options?: InteractionOption[] };
+
+interface RegisteredCommand {
+  id: string;
+  name: string;
+  type?: number;
+  description?: string;
+  options?: Array<{ name: string; type: number; required?: boolean; options?: RegisteredCommand["options"] }>;
+}
+
+interface PendingInteraction {
+  id: string;
+  token: string;
+  label: string;
+  channelId: string;
+  acknowledged: boolean;
+  originalId?: string;
+  sourceMessageId?: string;
+}
+
+export type SimulatorEventKind =
+  | "connected" | "ready" | "disconnected" | "commands_registered"
+  | "member_join" | "user_message" | "invoke"
+  | "deferred" | "reply" | "message_delete" | "reaction" | "modal" | "no_response"
+  | "moderation" | "missing_intent" | "unknown_command" | "api_error" | "unmocked_route"
+  | "assertion" | "scenario"
+  | "bot_started" | "log" | "bot_error" | "bot_stopped";
+
+export interface SimulatorEvent {
+  seq: number;
+  at: number;
+  kind: SimulatorEventKind;
+  [key: string]: unknown;
+}
+
+export interface StepResult {
+  index: number;
+  step: ScenarioStep;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface ScenarioResult {
+  name?: string;
+  passed: boolean;
+  error?: string;
+  steps: StepResult[];
+  durationMs: number;
+}
+
+export interface SuiteResult {
+  passed: boolean;
+  results: Array<ScenarioResult & { file: string }>;
+  durationMs: number;
+}
+
+export type ActionStep = Extract<ScenarioStep, { type: "join" | "message" | "slash" | "click" }>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const now = () => new Date().toISOString();
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+function json(value: unknown, status = 200): Response {
+  return new Response(JSON.stringify(value), { status, headers: { "Content-Type": "application/json" } });
+}
+
+const noContent = () => new Response(null, { status: 204 });
+
+/** Discord-shaped API error, so library exceptions read like the real thing */
+function apiError(status: number, code: number, message: string, errors?: unknown): Response {
+  return json({ message, code, ...(errors ? { errors } : {}) }, status);
+}
+
+async function readBody(req: Request): Promise<{ body: Record<string, unknown> | null; files: string[] }> {
+  const type = req.headers.get("content-type") ?? "";
+  if (type.startsWith("multipart/")) {
+    const form = await req.formData();
+    const files: string[] = [];
+    let body: Record<string, unknown> | null = null;
+    for (const [key, value] of form.entries()) {
+      if (key === "payload_json" && typeof value === "string") body = JSON.parse(value);
+      else if (typeof value !== "string") files.push(value.name || key);
+    }
+    return { body, files };
+  }
+  const text = await req.text();
+  if (!text) return { body: null, files: [] };
+  try {
+    return { body: JSON.parse(text), files: [] };
+  } catch {
+    return { body: null, files: [] };
+  }
+}
+
+/** Plain text of a message, embeds included — what assertions match against */
+export function messageText(m: Pick<SimMessage, "content" | "embeds">): string {
+  const parts = [m.content];
+  for (const e of m.embeds) {
+    parts.push(String(e.title ?? ""), String(e.description ?? ""));
+    for (const f of (e.fields as Array<{ name: string; value: string }> | undefined) ?? []) parts.push(f.name, f.value);
+    if (e.footer) parts.push(String((e.footer as { text?: string }).text ?? ""));
+  }
+  return parts.filter(Boolean).join("\n");
+}
+
+function customIds(components: Array<Record<string, unknown>>): string[] {
+  const ids: string[] = [];
+  for (const c of components) {
+    if (typeof c.custom_id === "string") ids.push(c.custom_id);
+    if (Array.isArray(c.components)) ids.push(...customIds(c.components as Array<Record<string, unknown>>));
+  }
+  return ids;
+}
+
+// =============================================================================
+// SESSION
+// =============================================================================
+
+export class SimulatorSession {
+  readonly id: string;
+  /** Public wss:// URL the bot is told to connect to (returned from /gateway/bot) */
+  readonly gatewayUrl: string;
+  readonly createdAt = Date.now();
+  lastActivity = Date.now();
+  lastResult: ScenarioResult | null = null;
+
+  private nextId = 200000000000000000n;
+  private seq = 0;
+  private events: SimulatorEvent[] = [];
+  private listeners = new Set<(e: SimulatorEvent) => void>();
+  private sockets = new Map<WebSocket, { seq: number; identified: boolean }>();
+  private timers = new Set<number>();
+  private intents = 0;
+  private ready = false;
+  private readyWaiters: Array<() => void> = [];
+  private warned = new Set<string>();
+
+  private readonly bot: SimUser = { id: SIM_IDS.application, username: "TestBot", global_name: null, discriminator: "0", avatar: null, bot: true };
+  private users = new Map<string, SimUser>();
+  private members = new Map<string, SimMember>();
+  private bans = new Set<string>();
+  private channels = new Map<string, SimChannel>();
+  private messages = new Map<string, SimMessage[]>();
+  private roles = [
+    { id: SIM_IDS.guild, name: "@everyone", permissions: EVERYONE_PERMISSIONS, position: 0 },
+    { id: "100000000000000010", name: "Moderator", permissions: MODERATOR_PERMISSIONS, position: 1 },
+  ];
+  private globalCommands: RegisteredCommand[] = [];
+  private guildCommands: RegisteredCommand[] = [];
+  private interactions = new Map<string, PendingInteraction>();
+
+  constructor(id: string, gatewayUrl: string) {
+    this.id = id;
+    this.gatewayUrl = gatewayUrl;
+    this.channels.set(SIM_IDS.channel, { id: SIM_IDS.channel, type: 0, name: "general" });
+    this.channels.set("100000000000000005", { id: "100000000000000005", type: 0, name: "mod-log" });
+    const tester: SimUser = { id: SIM_IDS.tester, username: "tester", global_name: "Tester", discriminator: "0", avatar: null };
+    this.users.set(tester.id, tester);
+    this.users.set(this.bot.id, this.bot);
+    this.addMember(this.bot);
+    this.addMember(tester);
+  }
+
+  // ===========================================================================
+  // EVENTS
+  // ===========================================================================
+
+  private emit(kind: SimulatorEventKind, data: Record<string, unknown> = {}): SimulatorEvent {
+    const event: SimulatorEvent = { seq: ++this.seq, at: Date.now(), kind, ...data };
+    this.events.push(event);
+    if (this.events.length > MAX_EVENTS) this.events.splice(0, this.events.length - MAX_EVENTS);
+    for (const listener of this.listeners) listener(event);
+    return event;
+  }
+
+  /** Events from outside the guild — the playground's bot process (logs, crashes, exit) */
+  record(kind: SimulatorEventKind, data: Record<string, unknown> = {}): SimulatorEvent {
+    this.lastActivity = Date.now();
+    return this.emit(kind, data);
+  }
+
+  private warnOnce(intent: string, detail: string) {
+    if (this.warned.has(intent)) return;
+    this.warned.add(intent);
+    this.emit("missing_intent", { intent, message: detail });
+  }
+
+  eventsSince(seq = 0): SimulatorEvent[] {
+    return this.events.filter(e => e.seq > seq);
+  }
+
+  subscribe(listener: (e: SimulatorEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  waitForReady(timeoutMs: number): Promise<boolean> {
+    if (this.ready) return Promise.resolve(true);
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      this.readyWaiters.push(() => { clearTimeout(timer); resolve(true); });
+    });
+  }
+
+  /** Everything the playground needs to draw the guild */
+  snapshot() {
+    return {
+      id: this.id,
+      ready: this.ready,
+      bot: this.bot,
+      guild: { id: SIM_IDS.guild, name: "Test Server" },
+      channels: [...this.channels.values()].filter(c => c.type === 0),
+      members: [...this.members.values()].map(m => ({ ...m.user, roles: m.roles })),
+      roles: this.roles,
+      commands: [...this.guildCommands, ...this.globalCommands],
+      messages: Object.fromEntries([...this.messages].map(([id, list]) => [id, list.slice(-50)])),
+      lastSeq: this.seq,
+    };
+  }
+
+  close() {
+    for (const t of this.timers) clearTimeout(t);
+    this.timers.clear();
+    for (const socket of this.sockets.keys()) {
+      try { socket.close(1000, "Session closed"); } catch { /* already closed */ }
+    }
+    this.listeners.clear();
+  }
+
+  private later(ms: number, fn: () => void) {
+    const t = setTimeout(() => { this.timers.delete(t); fn(); }, ms);
+    this.timers.add(t);
+  }
+
+  private snowflake(): string {
+    return String(this.nextId++);
+  }
+
+  // ===========================================================================
+  // GUILD MODEL
+  // ===========================================================================
+
+  private addMember(user: SimUser, roles: string[] = []): SimMember {
+    const member: SimMember = { user, roles, nick: null, joined_at: now(), communication_disabled_until: null };
+    this.members.set(user.id, member);
+    return member;
+  }
+
+  /** Look a user up by name, @name or id; unknown names become existing members */
+  private user(ref: string, create = true): SimUser | null {
+    const clean = ref.replace(/^<@!?(\d+)>$/, "$1").replace(/^@/, "");
+    const byId = this.users.get(clean);
+    if (byId) return byId;
+    const lower = clean.toLowerCase();
+    for (const u of this.users.values()) if (u.username.toLowerCase() === lower) return u;
+    if (!create || /^\d{15,}$/.test(clean)) return null;
+    const user: SimUser = { id: this.snowflake(), username: lower, global_name: clean, discriminator: "0", avatar: null };
+    this.users.set(user.id, user);
+    this.addMember(user);
+    return user;
+  }
+
+  private role(ref: string) {
+    const clean = ref.replace(/^<@&(\d+)>$/, "$1").replace(/^@/, "").toLowerCase();
+    return this.roles.find(r => r.id === clean || r.name.toLowerCase() === clean) ?? null;
+  }
+
+  private channel(ref: string): SimChannel | null {
+    const clean = ref.replace(/^<#(\d+)>$/, "$1").replace(/^#/, "").toLowerCase();
+    return this.channels.get(clean) ?? [...this.channels.values()].find(c => c.name === clean) ?? null;
+  }
+
+  private permissionsOf(userId: string): string {
+    if (userId === SIM_IDS.tester || userId === this.bot.id) return ALL_PERMISSIONS;
+    const member = this.members.get(userId);
+    let perms = BigInt(EVERYONE_PERMISSIONS);
+    for (const id of member?.roles ?? []) perms |= BigInt(this.role(id)?.permissions ?? "0");
+    return String(perms);
+  }
+
+  private memberPayload(m: SimMember) {
+    return { ...m, deaf: false, mute: false, flags: 0, avatar: null, premium_since: null, pending: false, permissions: this.permissionsOf(m.user.id) };
+  }
+
+  private channelPayload(c: SimChannel) {
+    return c.type === 1
+      ? { id: c.id, type: 1, recipients: c.recipients, last_message_id: null }
+      : { id: c.id, type: c.type, name: c.name, guild_id: SIM_IDS.guild, position: 0, permission_overwrites: [], nsfw: false, parent_id: null, topic: null, rate_limit_per_user: 0 };
+  }
+
+  private guildPayload() {
+    return {
+      id: SIM_IDS.guild, name: "Test Server", icon: null, splash: null, discovery_splash: null, banner: null, description: null,
+      owner_id: SIM_IDS.tester, afk_channel_id: null, afk_timeout: 300, verification_level: 0, default_message_notifications: 0,
+      explicit_content_filter: 0, mfa_level: 0, nsfw_level: 0, premium_tier: 0, premium_subscription_count: 0,
+      preferred_locale: "en-US", features: [], emojis: [], stickers: [], roles: this.roles.map(r => ({
+        ...r, color: 0, hoist: false, managed: false, mentionable: true, flags: 0, icon: null, unicode_emoji: null,
+      })),
+      system_channel_id: SIM_IDS.channel, system_channel_flags: 0, rules_channel_id: null, public_updates_channel_id: null,
+      vanity_url_code: null, max_members: 500000, application_id: null,
+    };
+  }
+
+  private guildCreatePayload() {
+    return {
+      ...this.guildPayload(),
+      joined_at: now(), large: false, unavailable: false, member_count: this.members.size,
+      members: [...this.members.values()].map(m => this.memberPayload(m)),
+      channels: [...this.channels.values()].filter(c => c.type !== 1).map(c => this.channelPayload(c)),
+      threads: [], presences: [], voice_states: [], stage_instances: [], guild_scheduled_events: [],
+    };
+  }
+
+  private messagePayload(m: SimMessage) {
+    const mentions = [...m.content.matchAll(/<@!?(\d+)>/g)].map(x => this.users.get(x[1])).filter(Boolean);
+    const inGuild = this.channels.get(m.channel_id)?.type !== 1;
+    const member = this.members.get(m.author.id);
+    return {
+      ...m,
+      ...(inGuild ? { guild_id: SIM_IDS.guild } : {}),
+      ...(inGuild && member ? { member: { ...this.memberPayload(member), user: undefined } } : {}),
+      mentions, mention_roles: [...m.content.matchAll(/<@&(\d+)>/g)].map(x => x[1]),
+      mention_everyone: /@everyone|@here/.test(m.content), pinned: false, tts: false,
+    };
+  }
+
+  private store(m: SimMessage) {
+    const list = this.messages.get(m.channel_id) ?? [];
+    list.push(m);
+    if (list.length > MAX_MESSAGES_PER_CHANNEL) list.shift();
+    this.messages.set(m.channel_id, list);
+  }
+
+  private findMessage(channelId: string, messageId: string): SimMessage | null {
+    return this.messages.get(channelId)?.find(m => m.id === messageId) ?? null;
+  }
+
+  // ===========================================================================
+  // GATEWAY
+  // ===========================================================================
+
+  acceptGateway(socket: WebSocket) {
+    this.sockets.set(socket, { seq: 0, identified: false });
+    const send = (payload: Record<string, unknown>) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+    };
+
+    socket.onopen = () => send({ op: 10, d: { heartbeat_interval: 41250 } });
+    socket.onclose = () => {
+      this.sockets.delete(socket);
+      this.emit("disconnected");
+    };
+    socket.onmessage = (e) => {
+      if (typeof e.data !== "string") return; // ETF isn't supported; libraries default to JSON
+      let payload: { op: number; d?: Record<string, unknown> };
+      try { payload = JSON.parse(e.data); } catch { return; }
+      this.lastActivity = Date.now();
+
+      if (payload.op === 1) send({ op: 11 });
+      else if (payload.op === 2) this.identify(socket, payload.d ?? {});
+      else if (payload.op === 6) this.dispatchTo(socket, "RESUMED", {});
+      else if (payload.op === 8) {
+        this.dispatchTo(socket, "GUILD_MEMBERS_CHUNK", {
+          guild_id: SIM_IDS.guild, members: [...this.members.values()].map(m => this.memberPayload(m)),
+          chunk_index: 0, chunk_count: 1, nonce: payload.d?.nonce,
+        });
+      }
+    };
+  }
+
+  private identify(socket: WebSocket, d: Record<string, unknown>) {
+    this.intents = Number(d.intents ?? 0);
+    const state = this.sockets.get(socket);
+    if (state) state.identified = true;
+    this.emit("connected", { intents: this.intents });
+
+    this.dispatchTo(socket, "READY", {
+      v: 10, user: { ...this.bot, verified: true, mfa_enabled: false, flags: 0 },
+      guilds: [{ id: SIM_IDS.guild, unavailable: true }], session_id: `sim-${this.id}`, resume_gateway_url: this.gatewayUrl,
+      application: { id: SIM_IDS.application, flags: 0 }, private_channels: [], relationships: [], user_settings: {},
+      shard: [0, 1],
+    });
+    this.dispatchTo(socket, "GUILD_CREATE", this.guildCreatePayload());
+
+    if (!this.ready) {
+      this.ready = true;
+      this.emit("ready", { intents: this.intents });
+      for (const resolve of this.readyWaiters.splice(0)) resolve();
+    }
+  }
+
+  private dispatchTo(socket: WebSocket, t: string, d: unknown) {
+    const state = this.sockets.get(socket);
+    if (!state || socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ op: 0, t, s: ++state.seq, d }));
+  }
+
+  private dispatch(t: string, d: unknown) {
+    for (const [socket, state] of this.sockets) if (state.identified) this.dispatchTo(socket, t, d);
+  }
+
+  private has(intent: keyof typeof INTENTS): boolean {
+    return (this.intents & INTENTS[intent]) !== 0;
+  }
+
+  // ===========================================================================
+  // USER ACTIONS
+  // ===========================================================================
+
+  async perform(step: ActionStep): Promise<void> {
+    this.lastActivity = Date.now();
+    switch (step.type) {
+      case "join": return this.join(step.user, step.role);
+      case "message": return this.userMessage(step.user, step.content, step.channel);
+      case "slash": return this.slash(step.user, step.command, step.options ?? {}, step.channel);
+      case "click": return this.click(step.user, step.customId);
+    }
+  }
+
+  private join(name: string, roleName?: string) {
+    const existing = this.user(name, false);
+    if (existing && this.members.has(existing.id)) throw new Error(`${name} is already in the server`);
+    const role = roleName ? this.role(roleName) : null;
+    if (roleName && !role) throw new Error(`No role called ${roleName} (try Moderator)`);
+
+    const user = existing ?? this.user(name)!;
+    this.bans.delete(user.id);
+    const member = this.addMember(user, role ? [role.id] : []);
+    this.emit("member_join", { user: user.username, userId: user.id });
+    if (!this.has("GUILD_MEMBERS")) {
+      this.warnOnce("GUILD_MEMBERS", "Member join events aren't delivered without the GUILD_MEMBERS (members) intent");
+      return;
+    }
+    this.dispatch("GUILD_MEMBER_ADD", { ...this.memberPayload(member), guild_id: SIM_IDS.guild });
+  }
+
+  /** `@alice` → `<@id>`, `@Moderator` → `<@&id>`, `#mod-log` → `<#id>` */
+  private resolveMentions(content: string): string {
+    return content
+      .replace(/(^|\s)@([\w.-]+)/g, (all, lead, name) => {
+        if (name === "everyone" || name === "here") return all;
+        const role = this.role(name);
+        if (role && role.name !== "@everyone") return `${lead}<@&${role.id}>`;
+        return `${lead}<@${this.user(name)!.id}>`;
+      })
+      .replace(/(^|\s)#([\w-]+)/g, (all, lead, name) => {
+        const channel = this.channel(name);
+        return channel ? `${lead}<#${channel.id}>` : all;
+      });
+  }
+
+  private userMessage(name: string, text: string, channelRef?: string) {
+    const author = this.user(name)!;
+    if (this.bans.has(author.id)) throw new Error(`${name} is banned`);
+    if (!this.members.has(author.id)) throw new Error(`${name} isn't in the server (join them first)`);
+    const timeout = this.members.get(author.id)!.communication_disabled_until;
+    if (timeout && Date.parse(timeout) > Date.now()) throw new Error(`${name} is timed out`);
+
+    const channel = channelRef ? this.channel(channelRef) : this.channels.get(SIM_IDS.channel)!;
+    if (!channel) throw new Error(`No channel called ${channelRef}`);
+
+    const content = this.resolveMentions(text);
+    const message: SimMessage = {
+      id: this.snowflake(), channel_id: channel.id, author, content, embeds: [], components: [], attachments: [],
+      flags: 0, type: 0, timestamp: now(), edited_timestamp: null,
+    };
+    this.store(message);
+    this.emit("user_message", { user: author.username, content, messageId: message.id, channelId: channel.id });
+
+    if (!this.has("GUILD_MESSAGES")) {
+      this.warnOnce("GUILD_MESSAGES", "Messages aren't delivered without the GUILD_MESSAGES intent, so prefix commands never run");
+      return;
+    }
+    const mentioned = content.includes(`<@${this.bot.id}>`) || content.includes(`<@!${this.bot.id}>`);
+    if (!this.has("MESSAGE_CONTENT") && !mentioned) {
+      this.warnOnce("MESSAGE_CONTENT", "Message content arrives empty without the MESSAGE_CONTENT intent, so prefix commands never match");
+      this.dispatch("MESSAGE_CREATE", this.messagePayload({ ...message, content: "" }));
+      return;
+    }
+    this.dispatch("MESSAGE_CREATE", this.messagePayload(message));
+  }
+
+  private findCommand(name: string): RegisteredCommand | null {
+    return this.guildCommands.find(c => c.name === name && (c.type ?? 1) === 1)
+      ?? this.globalCommands.find(c => c.name === name && (c.type ?? 1) === 1)
+      ?? null;
+  }
+
+  private optionValue(type: number, raw: OptionInput, resolved: Record<string, Record<string, unknown>>): string | number | boolean {
+    switch (type) {
+      case 4: return Math.trunc(Number(raw));
+      case 10: return Number(raw);
+      case 5: return raw === true || raw === "true";
+      case 6:
+      case 9: {
+        const role = type === 9 && typeof raw === "string" ? this.role(raw) : null;
+        if (role) {
+          (resolved.roles ??= {})[role.id] = role;
+          return role.id;
+        }
+        const user = this.user(String(raw));
+        if (!user) throw new Error(`Unknown user ${raw}`);
+        (resolved.users ??= {})[user.id] = user;
+        const member = this.members.get(user.id);
+        if (member) (resolved.members ??= {})[user.id] = { ...this.memberPayload(member), user: undefined };
+        return user.id;
+      }
+      case 7: {
+        const channel = this.channel(String(raw));
+        if (!channel) throw new Error(`Unknown channel ${raw}`);
+        (resolved.channels ??= {})[channel.id] = { ...this.channelPayload(channel), permissions: ALL_PERMISSIONS };
+        return channel.id;
+      }
+      case 8: {
+        const role = this.role(String(raw));
+        if (!role) throw new Error(`Unknown role ${raw}`);
+        (resolved.roles ??= {})[role.id] = role;
+        return role.id;
+      }
+      case 11: throw new Error("Attachment options can't be simulated");
+      default: return String(raw);
+    }
+  }
+
+  /** Typed option tree for `/group sub` with `key: value` inputs, checked against what the bot registered */
+  private buildInvocation(commandLine: string, input: Record<string, OptionInput>) {
+    const [name, ...path] = commandLine.replace(/^\//, "").trim().split(/\s+/);
+    const registered = this.findCommand(name);
+    if (!registered) {
+      this.emit("unknown_command", {
+        command: name,
+        message: this.globalCommands.length + this.guildCommands.length === 0
+          ? "The bot hasn't registered any slash commands"
+          : `/${name} isn't registered, so Discord wouldn't show it`,
+      });
+    }
+
+    let defs = registered?.options ?? [];
+    const chain: Array<{ name: string; type: number }> = [];
+    for (const part of path) {
+      const def = defs.find(o => o.name === part && (o.type === 1 || o.type === 2));
+      if (registered && !def) throw new Error(`/${name} has no subcommand ${part}`);
+      chain.push({ name: part, type: def?.type ?? (chain.length === 0 && path.length > 1 ? 2 : 1) });
+      defs = def?.options ?? [];
+    }
+    if (registered && defs.some(o => o.type === 1 || o.type === 2)) {
+      throw new Error(`/${commandLine.replace(/^\//, "")} needs a subcommand: ${defs.map(o => o.name).join(", ")}`);
+    }
+
+    const resolved: Record<string, Record<string, unknown>> = {};
+    const leaf: InteractionOption[] = [];
+    for (const [key, raw] of Object.entries(input)) {
+      const def = defs.find(o => o.name === key);
+      if (registered && !def) throw new Error(`/${commandLine.replace(/^\//, "")} has no option ${key}`);
+      const type = def?.type ?? (typeof raw === "boolean" ? 5 : typeof raw === "number" ? (Number.isInteger(raw) ? 4 : 10) : /^@/.test(raw) ? 6 : 3);
+      leaf.push({ name: key, type, value: this.optionValue(type, raw, resolved) });
+    }
+    const missing = defs.filter(o => o.required && !(o.name in input)).map(o => o.name);
+    if (missing.length > 0) throw new Error(`Missing required option${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+
+    let options = leaf;
+    for (const link of [...chain].reverse()) options = [{ name: link.name, type: link.type, options }];
+    return { name, commandId: registered?.id ?? this.snowflake(), options, resolved };
+  }
+
+  private openInteraction(label: string, channelId: string, sourceMessageId?: string): PendingInteraction {
+    const id = this.snowflake();
+    // For a component click, @original is the message the component sits on
+    const pending: PendingInteraction = {
+      id, token: `sim-${this.id}-${id}`, label, channelId, acknowledged: false, sourceMessageId, originalId: sourceMessageId,
+    };
+    this.interactions.set(id, pending);
+    this.later(INTERACTION_DEADLINE_MS, () => {
+      if (!pending.acknowledged) this.emit("no_response", { command: label, interactionId: id });
+    });
+    return pending;
+  }
+
+  private interactionBase(pending: PendingInteraction, user: SimUser, type: number) {
+    const member = this.members.get(user.id)!;
+    const channel = this.channels.get(pending.channelId)!;
+    return {
+      id: pending.id, application_id: SIM_IDS.application, type, token: pending.token, version: 1,
+      guild_id: SIM_IDS.guild, guild: { id: SIM_IDS.guild, locale: "en-US", features: [] },
+      channel_id: channel.id, channel: this.channelPayload(channel),
+      member: this.memberPayload(member), locale: "en-US", guild_locale: "en-US",
+      app_permissions: ALL_PERMISSIONS, entitlements: [], authorizing_integration_owners: { 0: SIM_IDS.guild }, context: 0,
+    };
+  }
+
+  private slash(name: string, commandLine: string, input: Record<string, OptionInput>, channelRef?: string) {
+    const user = this.user(name)!;
+    if (!this.members.has(user.id)) throw new Error(`${name} isn't in the server (join them first)`);
+    const channel = channelRef ? this.channel(channelRef) : this.channels.get(SIM_IDS.channel)!;
+    if (!channel) throw new Error(`No channel called ${channelRef}`);
+    const invocation = this.buildInvocation(commandLine, input);
+    const label = commandLine.replace(/^\//, "").trim();
+    const pending = this.openInteraction(label, channel.id);
+
+    this.emit("invoke", { command: label, user: user.username, options: input, interactionId: pending.id });
+    this.dispatch("INTERACTION_CREATE", {
+      ...this.interactionBase(pending, user, 2),
+      data: { id: invocation.commandId, name: invocation.name, type: 1, guild_id: SIM_IDS.guild, options: invocation.options, resolved: invocation.resolved },
+    });
+  }
+
+  private click(name: string, customId: string) {
+    const user = this.user(name)!;
+    const source = [...this.messages.values()].flat()
+      .filter(m => m.author.id === this.bot.id && customIds(m.components).includes(customId))
+      .sort((a, b) => (BigInt(b.id) > BigInt(a.id) ? 1 : -1))[0];
+    if (!source) throw new Error(`No button "${customId}" on the bot's messages`);
+
+    const label = `button:${customId}`;
+    const pending = this.openInteraction(label, source.channel_id, source.id);
+    this.emit("invoke", { command: label, user: user.username, interactionId: pending.id });
+    this.dispatch("INTERACTION_CREATE", {
+      ...this.interactionBase(pending, user, 3),
+      message: this.messagePayload(source),
+      data: { custom_id: customId, component_type: 2 },
+    });
+  }
+
+  // ===========================================================================
+  // BOT MESSAGES
+  // ===========================================================================
+
+  /** The checks Discord applies before accepting a message */
+  private rejectMessage(body: Record<string, unknown> | null, files: string[]): Response | null {
+    const content = typeof body?.content === "string" ? body.content : "";
+    const embeds = (body?.embeds as unknown[] | undefined) ?? (body?.embed ? [body.embed] : []);
+    const components = (body?.components as unknown[] | undefined) ?? [];
+    if (!content && embeds.length === 0 && components.length === 0 && files.length === 0 && !body?.sticker_ids && !body?.poll) {
+      return apiError(400, 50006, "Cannot send an empty message");
+    }
+    if (content.length > 2000) {
+      return apiError(400, 50035, "Invalid Form Body", { content: { _errors: [{ code: "BASE_TYPE_MAX_LENGTH", message: "Must be 2000 or fewer in length." }] } });
+    }
+    if (embeds.length > 10) {
+      return apiError(400, 50035, "Invalid Form Body", { embeds: { _errors: [{ code: "BASE_TYPE_MAX_LENGTH", message: "Must be 10 or fewer in length." }] } });
+    }
+    if (components.length > 5) {
+      return apiError(400, 50035, "Invalid Form Body", { components: { _errors: [{ code: "BASE_TYPE_MAX_LENGTH", message: "Must be 5 or fewer in length." }] } });
+    }
+    return null;
+  }
+
+  private botMessage(channelId: string, body: Record<string, unknown> | null, files: string[], type = 0): SimMessage {
+    const ref = body?.message_reference as { message_id?: string } | undefined;
+    return {
+      id: this.snowflake(), channel_id: channelId, author: this.bot,
+      content: typeof body?.content === "string" ? body.content : "",
+      embeds: (body?.embeds as SimMessage["embeds"] | undefined) ?? (body?.embed ? [body.embed as Record<string, unknown>] : []),
+      components: (body?.components as SimMessage["components"] | undefined) ?? [],
+      attachments: files.map(filename => ({ id: this.snowflake(), filename })),
+      flags: Number(body?.flags ?? 0), type: ref?.message_id ? 19 : type, timestamp: now(), edited_timestamp: null,
+      ...(ref?.message_id ? { message_reference: { message_id: ref.message_id, channel_id: channelId } } : {}),
+    };
+  }
+
+  private postMessage(message: SimMessage, via: string, command: string | null, edited = false) {
+    if (!edited) this.store(message);
+    const channel = this.channels.get(message.channel_id);
+    const dmTo = channel?.type === 1 ? channel.recipients?.[0]?.username : undefined;
+    this.emit("reply", {
+      via: dmTo ? "dm" : via, command, edited, ...(dmTo ? { to: dmTo } : {}),
+      content: message.content, embeds: message.embeds, components: message.components.length,
+      ephemeral: (message.flags & EPHEMERAL) !== 0, message,
+    });
+    if ((message.flags & EPHEMERAL) === 0 && this.has("GUILD_MESSAGES")) {
+      this.dispatch(edited ? "MESSAGE_UPDATE" : "MESSAGE_CREATE", this.messagePayload(message));
+    }
+  }
+
+  private editMessage(target: SimMessage, body: Record<string, unknown> | null, files: string[], via: string, command: string | null) {
+    if (body && "content" in body) target.content = typeof body.content === "string" ? body.content : "";
+    if (body && "embeds" in body) target.embeds = (body.embeds as SimMessage["embeds"]) ?? [];
+    if (body && "components" in body) target.components = (body.components as SimMessage["components"]) ?? [];
+    if (files.length > 0) target.attachments = files.map(filename => ({ id: this.snowflake(), filename }));
+    target.edited_timestamp = now();
+    this.postMessage(target, via, command, true);
+  }
+
+  // ===========================================================================
+  // REST
+  // ===========================================================================
+
+  /** `path` is relative to /api/v10, e.g. `/channels/123/messages` */
+  async handleRest(req: Request, path: string): Promise<Response> {
+    this.lastActivity = Date.now();
+    const method = req.method;
+    const url = new URL(req.url);
+    const parts = path.split("/").filter(Boolean).map(decodeURIComponent);
+    const { body, files } = method === "GET" || method === "DELETE" ? { body: null, files: [] } : await readBody(req);
+    const reason = req.headers.get("x-audit-log-reason");
+    const auditReason = reason ? decodeURIComponent(reason) : undefined;
+
+    const response = this.route(method, parts, url, body, files, auditReason);
+    if (response.status >= 400) {
+      const err = await response.clone().json().catch(() => ({}));
+      this.emit("api_error", { method, path, status: response.status, code: err.code, message: err.message });
+    }
+    return response;
+  }
+
+  private route(
+    method: string, p: string[], url: URL, body: Record<string, unknown> | null, files: string[], reason?: string,
+  ): Response {
+    const [root] = p;
+
+    if (root === "gateway") {
+      return json({ url: this.gatewayUrl, shards: 1, session_start_limit: { total: 1000, remaining: 1000, reset_after: 0, max_concurrency: 1 } });
+    }
+
+    if (root === "users") {
+      if (p[1] === "@me" && p.length === 2) return json({ ...this.bot, verified: true, mfa_enabled: false, flags: 0 });
+      if (p[1] === "@me" && p[2] === "channels" && method === "POST") {
+        const recipient = this.users.get(String(body?.recipient_id));
+        if (!recipient) return apiError(404, 10013, "Unknown User");
+        let dm = [...this.channels.values()].find(c => c.type === 1 && c.recipients?.[0]?.id === recipient.id);
+        if (!dm) {
+          dm = { id: this.snowflake(), type: 1, recipients: [recipient] };
+          this.channels.set(dm.id, dm);
+        }
+        return json(this.channelPayload(dm));
+      }
+      if (p[1] === "@me" && p[2] === "guilds") return json([{ id: SIM_IDS.guild, name: "Test Server", icon: null, owner: false, permissions: ALL_PERMISSIONS, features: [] }]);
+      const user = this.users.get(p[1]);
+      return user ? json(user) : apiError(404, 10013, "Unknown User");
+    }
+
+    if ((root === "oauth2" && p[1] === "applications") || (root === "applications" && p[1] === "@me")) {
+      return json({
+        id: SIM_IDS.application, name: "TestBot", icon: null, description: "", bot_public: true, bot_require_code_grant: false,
+        owner: this.users.get(SIM_IDS.tester), verify_key: "0".repeat(64), flags: 0, team: null, summary: "",
+      });
+    }
+
+    if (root === "applications" && p.includes("commands")) return this.commandsRoute(method, p, body);
+    if (root === "interactions" && p[3] === "callback") return this.callbackRoute(p[1], p[2], body, files, url);
+    if (root === "webhooks") return this.webhookRoute(method, p, body, files);
+    if (root === "channels") return this.channelRoute(method, p, url, body, files);
+    if (root === "guilds") return this.guildRoute(method, p, url, body, reason);
+
+    this.emit("unmocked_route", { method, path: "/" + p.join("/") });
+    return method === "DELETE" ? noContent() : json({});
+  }
+
+  private commandsRoute(method: string, p: string[], body: Record<string, unknown> | null): Response {
+    const guildScoped = p[2] === "guilds";
+    const list = guildScoped ? this.guildCommands : this.globalCommands;
+    const commandId = p[p.indexOf("commands") + 1];
+    const register = (c: Record<string, unknown>): RegisteredCommand => ({
+      ...c, name: String(c.name), id: this.snowflake(), application_id: SIM_IDS.application,
+      ...(guildScoped ? { guild_id: SIM_IDS.guild } : {}), version: this.snowflake(), default_member_permissions: c.default_member_permissions ?? null,
+    } as RegisteredCommand);
+
+    if (method === "GET") return json(commandId ? list.find(c => c.id === commandId) ?? {} : list);
+    if (method === "PUT") {
+      const next = ((body as unknown as Array<Record<string, unknown>>) ?? []).map(register);
+      list.splice(0, list.length, ...next);
+      this.emit("commands_registered", { scope: guildScoped ? "guild" : "global", count: next.length, names: next.map(c => c.name) });
+      return json(next);
+    }
+    if (method === "POST" && body) {
+      const created = register(body);
+      const existing = list.findIndex(c => c.name === created.name);
+      if (existing !== -1) list.splice(existing, 1);
+      list.push(created);
+      this.emit("commands_registered", { scope: guildScoped ? "guild" : "global", count: 1, names: [created.name] });
+      return json(created, 201);
+    }
+    const idx = list.findIndex(c => c.id === commandId);
+    if (idx === -1) return apiError(404, 10063, "Unknown application command");
+    if (method === "DELETE") {
+      list.splice(idx, 1);
+      return noContent();
+    }
+    list[idx] = { ...list[idx], ...(body ?? {}) } as RegisteredCommand;
+    return json(list[idx]);
+  }
+
+  private callbackRoute(id: string, token: string, body: Record<string, unknown> | null, files: string[], url: URL): Response {
+    const pending = this.interactions.get(id);
+    if (!pending || pending.token !== token) return apiError(404, 10062, "Unknown interaction");
+    if (pending.acknowledged) return apiError(400, 40060, "Interaction has already been acknowledged.");
+
+    const type = Number(body?.type);
+    const data = (body?.data as Record<string, unknown> | undefined) ?? null;
+    let message: SimMessage | null = null;
+
+    if (type === 4) {
+      const rejected = this.rejectMessage(data, files);
+      if (rejected) return rejected;
+      message = this.botMessage(pending.channelId, data, files, 20);
+      pending.originalId = message.id;
+      pending.acknowledged = true;
+      this.postMessage(message, "interaction", pending.label);
+    } else if (type === 5 || type === 6) {
+      pending.acknowledged = true;
+      this.emit("deferred", { command: pending.label, ephemeral: (Number(data?.flags ?? 0) & EPHEMERAL) !== 0, update: type === 6 });
+    } else if (type === 7) {
+      const source = pending.sourceMessageId ? this.findMessage(pending.channelId, pending.sourceMessageId) : null;
+      if (!source) return apiError(400, 50035, "Invalid Form Body");
+      pending.acknowledged = true;
+      this.editMessage(source, data, files, "update", pending.label);
+      message = source;
+    } else if (type === 9) {
+      pending.acknowledged = true;
+      this.emit("modal", { command: pending.label, title: data?.title, customId: data?.custom_id, components: data?.components });
+    } else if (type === 8) {
+      pending.acknowledged = true;
+    } else {
+      return apiError(400, 50035, "Invalid Form Body", { type: { _errors: [{ code: "BASE_TYPE_CHOICES", message: `Value must be one of (1, 4, 5, 6, 7, 8, 9, 10, 12).` }] } });
+    }
+
+    if (url.searchParams.get("with_response") !== "true") return noContent();
+    return json({
+      interaction: { id, type: 2, activity_instance_id: null, response_message_id: message?.id ?? null, response_message_loading: type === 5, response_message_ephemeral: false },
+      resource: { type, ...(message ? { message: this.messagePayload(message) } : {}) },
+    });
+  }
+
+  private webhookRoute(method: string, p: string[], body: Record<string, unknown> | null, files: string[]): Response {
+    const token = p[2];
+    const pending = [...this.interactions.values()].find(i => i.token === token);
+    if (!pending) return apiError(404, 10015, "Unknown Webhook");
+    if (!pending.acknowledged) return apiError(404, 10015, "Unknown Webhook");
+
+    // Follow-up message
+    if (p.length === 3 && method === "POST") {
+      const rejected = this.rejectMessage(body, files);
+      if (rejected) return rejected;
+      const message = this.botMessage(pending.channelId, body, files, 20);
+      this.postMessage(message, "followup", pending.label);
+      return json(this.messagePayload(message));
+    }
+
+    const messageId = p[4] === "@original" ? pending.originalId : p[4];
+    let target = messageId ? this.findMessage(pending.channelId, messageId) : null;
+
+    if (method === "PATCH") {
+      // The first edit after a deferral is what creates the visible reply
+      if (!target && p[4] === "@original") {
+        const rejected = this.rejectMessage(body, files);
+        if (rejected) return rejected;
+        target = this.botMessage(pending.channelId, body, files, 20);
+        pending.originalId = target.id;
+        this.postMessage(target, "interaction", pending.label);
+        return json(this.messagePayload(target));
+      }
+      if (!target) return apiError(404, 10008, "Unknown Message");
+      this.editMessage(target, body, files, "interaction", pending.label);
+      return json(this.messagePayload(target));
+    }
+    if (!target) return apiError(404, 10008, "Unknown Message");
+    if (method === "DELETE") {
+      this.deleteMessage(target);
+      return noContent();
+    }
+    return json(this.messagePayload(target));
+  }
+
+  private deleteMessage(target: SimMessage) {
+    const list = this.messages.get(target.channel_id) ?? [];
+    list.splice(list.indexOf(target), 1);
+    this.emit("message_delete", { messageId: target.id, channelId: target.channel_id, byBot: true, author: target.author.username });
+    this.dispatch("MESSAGE_DELETE", { id: target.id, channel_id: target.channel_id, guild_id: SIM_IDS.guild });
+  }
+
+  private channelRoute(method: string, p: string[], url: URL, body: Record<string, unknown> | null, files: string[]): Response {
+    const channel = this.channels.get(p[1]);
+    if (!channel) return apiError(404, 10003, "Unknown Channel");
+    if (p.length === 2) return json(this.channelPayload(channel));
+    if (p[2] === "typing") return noContent();
+    if (p[2] !== "messages") {
+      this.emit("unmocked_route", { method, path: "/" + p.join("/") });
+      return method === "DELETE" ? noContent() : json(method === "GET" ? [] : {});
+    }
+
+    if (p.length === 3 && method === "POST") {
+      const rejected = this.rejectMessage(body, files);
+      if (rejected) return rejected;
+      const message = this.botMessage(channel.id, body, files);
+      this.postMessage(message, "message", null);
+      return json(this.messagePayload(message));
+    }
+    if (p.length === 3 && method === "GET") {
+      const limit = Number(url.searchParams.get("limit") ?? 50);
+      return json((this.messages.get(channel.id) ?? []).slice(-limit).reverse().map(m => this.messagePayload(m)));
+    }
+    if (p[3] === "bulk-delete" && method === "POST") {
+      const ids = new Set((body?.messages as string[] | undefined) ?? []);
+      for (const m of (this.messages.get(channel.id) ?? []).filter(m => ids.has(m.id))) this.deleteMessage(m);
+      return noContent();
+    }
+
+    const target = this.findMessage(channel.id, p[3]);
+    if (!target) return apiError(404, 10008, "Unknown Message");
+    if (p[4] === "reactions") {
+      this.emit("reaction", { messageId: target.id, emoji: p[5], removed: method === "DELETE" });
+      return noContent();
+    }
+    if (method === "GET") return json(this.messagePayload(target));
+    if (method === "DELETE") {
+      this.deleteMessage(target);
+      return noContent();
+    }
+    if (method === "PATCH") {
+      if (target.author.id !== this.bot.id) return apiError(403, 50005, "Cannot edit a message authored by another user");
+      this.editMessage(target, body, files, "message", null);
+      return json(this.messagePayload(target));
+    }
+    return json(this.messagePayload(target));
+  }
+
+  private guildRoute(method: string, p: string[], url: URL, body: Record<string, unknown> | null, reason?: string): Response {
+    if (p[1] !== SIM_IDS.guild) return apiError(404, 10004, "Unknown Guild");
+    const section = p[2];
+    if (!section) return json({ ...this.guildPayload(), approximate_member_count: this.members.size });
+    if (section === "channels") return json([...this.channels.values()].filter(c => c.type !== 1).map(c => this.channelPayload(c)));
+    if (section === "roles") return json(this.guildPayload().roles);
+
+    if (section === "bans") {
+      const user = p[3] ? this.users.get(p[3]) : null;
+      if (!p[3]) return json([...this.bans].map(id => ({ user: this.users.get(id), reason: null })));
+      if (!user) return apiError(404, 10013, "Unknown User");
+      if (method === "PUT") {
+        this.bans.add(user.id);
+        this.members.delete(user.id);
+        this.emit("moderation", { action: "ban", target: user.username, targetId: user.id, reason });
+        this.dispatch("GUILD_BAN_ADD", { guild_id: SIM_IDS.guild, user });
+        this.dispatch("GUILD_MEMBER_REMOVE", { guild_id: SIM_IDS.guild, user });
+        return noContent();
+      }
+      if (method === "DELETE") {
+        if (!this.bans.delete(user.id)) return apiError(404, 10026, "Unknown Ban");
+        this.emit("moderation", { action: "unban", target: user.username, targetId: user.id, reason });
+        this.dispatch("GUILD_BAN_REMOVE", { guild_id: SIM_IDS.guild, user });
+        return noContent();
+      }
+      return this.bans.has(user.id) ? json({ user, reason: null }) : apiError(404, 10026, "Unknown Ban");
+    }
+
+    if (section !== "members") {
+      this.emit("unmocked_route", { method, path: "/" + p.join("/") });
+      return method === "DELETE" ? noContent() : json(method === "GET" ? [] : {});
+    }
+
+    if (!p[3] || p[3] === "search") {
+      const query = (url.searchParams.get("query") ?? "").toLowerCase();
+      const limit = Number(url.searchParams.get("limit") ?? 1000);
+      return json([...this.members.values()]
+        .filter(m => !query || m.user.username.startsWith(query))
+        .slice(0, limit)
+        .map(m => this.memberPayload(m)));
+    }
+
+    const memberId = p[3] === "@me" ? this.bot.id : p[3];
+    const member = this.members.get(memberId);
+    if (!member) return apiError(404, 10007, "Unknown Member");
+    const update = () => this.dispatch("GUILD_MEMBER_UPDATE", { ...this.memberPayload(member), guild_id: SIM_IDS.guild });
+
+    if (p[4] === "roles") {
+      const role = this.role(p[5] ?? "");
+      if (!role) return apiError(404, 10011, "Unknown Role");
+      if (method === "PUT" && !member.roles.includes(role.id)) member.roles.push(role.id);
+      if (method === "DELETE") member.roles = member.roles.filter(r => r !== role.id);
+      this.emit("moderation", { action: method === "PUT" ? "role_add" : "role_remove", target: member.user.username, targetId: member.user.id, role: role.name, reason });
+      update();
+      return noContent();
+    }
+    if (method === "GET") return json(this.memberPayload(member));
+    if (method === "DELETE") {
+      this.members.delete(member.user.id);
+      this.emit("moderation", { action: "kick", target: member.user.username, targetId: member.user.id, reason });
+      this.dispatch("GUILD_MEMBER_REMOVE", { guild_id: SIM_IDS.guild, user: member.user });
+      return noContent();
+    }
+    if (method === "PATCH" && body) {
+      if ("communication_disabled_until" in body) {
+        member.communication_disabled_until = (body.communication_disabled_until as string | null) ?? null;
+        this.emit("moderation", {
+          action: "timeout", target: member.user.username, targetId: member.user.id, until: member.communication_disabled_until, reason,
+        });
+      }
+      if ("nick" in body) member.nick = (body.nick as string | null) ?? null;
+      if (Array.isArray(body.roles)) {
+        const before = new Set(member.roles);
+        member.roles = (body.roles as string[]).filter(id => this.role(id));
+        for (const id of member.roles.filter(id => !before.has(id))) {
+          this.emit("moderation", { action: "role_add", target: member.user.username, targetId: member.user.id, role: this.role(id)?.name, reason });
+        }
+        for (const id of [...before].filter(id => !member.roles.includes(id))) {
+          this.emit("moderation", { action: "role_remove", target: member.user.username, targetId: member.user.id, role: this.role(id)?.name, reason });
+        }
+      }
+      update();
+    }
+    return json(this.memberPayload(member));
+  }
+
+  // ===========================================================================
+  // SCENARIOS
+  // ===========================================================================
+
+  private matches(expect: Expectation, e: SimulatorEvent): boolean {
+    if (expect.kind === "moderation") {
+      if (e.kind !== "moderation" || e.action !== expect.action) return false;
+      if (!expect.user) return true;
+      const wanted = expect.user.toLowerCase();
+      return String(e.target).toLowerCase() === wanted || e.targetId === wanted || e.targetId === this.user(wanted, false)?.id;
+    }
+    if (e.kind !== "reply") return false;
+    if (expect.kind === "no_reply") return true;
+
+    const message = e.message as SimMessage;
+    const text = messageText(message);
+    if (expect.contains && !text.toLowerCase().includes(expect.contains.toLowerCase())) return false;
+    if (expect.matches) {
+      const m = expect.matches.match(/^\/(.*)\/([a-z]*)$/s);
+      const re = m ? new RegExp(m[1], m[2]) : new RegExp(expect.matches, "i");
+      if (!re.test(text)) return false;
+    }
+    if (expect.embed && message.embeds.length === 0) return false;
+    if (expect.ephemeral && (message.flags & EPHEMERAL) === 0) return false;
+    return true;
+  }
+
+  private describe(expect: Expectation): string {
+    if (expect.kind === "no_reply") return "no reply";
+    if (expect.kind === "moderation") return `${expect.action}${expect.user ? ` ${expect.user}` : ""}`;
+    const bits = ["reply"];
+    if (expect.contains) bits.push(`containing "${expect.contains}"`);
+    if (expect.matches) bits.push(`matching ${expect.matches}`);
+    if (expect.embed) bits.push("with an embed");
+    if (expect.ephemeral) bits.push("(ephemeral)");
+    return bits.join(" ");
+  }
+
+  /** Wait up to `within` for the bot to do what's expected after event `mark` */
+  async check(expect: Expectation, mark: number): Promise<{ passed: boolean; detail?: string }> {
+    const deadline = Date.now() + (expect.within ?? DEFAULT_EXPECT_WITHIN_MS);
+    if (expect.kind === "no_reply") {
+      await sleep(Math.max(0, deadline - Date.now()));
+      const reply = this.eventsSince(mark).find(e => e.kind === "reply");
+      return reply ? { passed: false, detail: `Bot replied: ${messageText(reply.message as SimMessage).slice(0, 200)}` } : { passed: true };
+    }
+
+    while (true) {
+      const seen = this.eventsSince(mark);
+      if (seen.some(e => this.matches(expect, e))) return { passed: true };
+      if (Date.now() >= deadline) {
+        const replies = seen.filter(e => e.kind === "reply").map(e => messageText(e.message as SimMessage).slice(0, 120));
+        const failures = seen.filter(e => e.kind === "api_error" || e.kind === "no_response" || e.kind === "missing_intent");
+        const detail = [
+          `Expected ${this.describe(expect)}`,
+          replies.length ? `bot replied: ${replies.map(r => JSON.stringify(r)).join(", ")}` : "bot didn't reply",
+          ...failures.map(f => String(f.message ?? `${f.kind}${f.command ? ` ${f.command}` : ""}`)),
+        ].join("; ");
+        return { passed: false, detail };
+      }
+      await sleep(100);
+    }
+  }
+
+  /**
+   * Back to a fresh guild between suite scenarios: extra members leave, bans
+   * lift, messages and DMs go. The bot stays connected and keeps its commands.
+   */
+  reset() {
+    for (const [id, member] of this.members) {
+      if (id === this.bot.id || id === SIM_IDS.tester) continue;
+      this.members.delete(id);
+      if (this.has("GUILD_MEMBERS")) this.dispatch("GUILD_MEMBER_REMOVE", { guild_id: SIM_IDS.guild, user: member.user });
+    }
+    const tester = this.members.get(SIM_IDS.tester);
+    if (tester) Object.assign(tester, { roles: [], nick: null, communication_disabled_until: null });
+    this.bans.clear();
+    this.messages.clear();
+    for (const [id, channel] of this.channels) if (channel.type === 1) this.channels.delete(id);
+    this.interactions.clear();
+  }
+
+  /** Scenarios in order, each on a reset guild; one that can't be parsed fails without running */
+  async runSuite(entries: Array<{ file: string; scenario: unknown }>, readyTimeoutMs = 60_000): Promise<SuiteResult> {
+    const start = Date.now();
+    const results: SuiteResult["results"] = [];
+    for (const [i, entry] of entries.entries()) {
+      let scenario: Scenario;
+      try {
+        scenario = toScenario(entry.scenario);
+      } catch (e) {
+        results.push({ file: entry.file, passed: false, error: e instanceof Error ? e.message : String(e), steps: [], durationMs: 0 });
+        continue;
+      }
+      if (i > 0) this.reset();
+      const result = await this.runScenario({ ...scenario, name: scenario.name ?? entry.file }, readyTimeoutMs);
+      results.push({ file: entry.file, ...result });
+      // Without a bot there's nothing left to test
+      if (!this.ready) {
+        for (const rest of entries.slice(i + 1)) results.push({ file: rest.file, passed: false, error: "Not run: the bot never connected", steps: [], durationMs: 0 });
+        break;
+      }
+    }
+    return { passed: results.every(r => r.passed), results, durationMs: Date.now() - start };
+  }
+
+  async runScenario(scenario: Scenario, readyTimeoutMs = 20_000): Promise<ScenarioResult> {
+    const start = Date.now();
+    const result: ScenarioResult = { name: scenario.name, passed: true, steps: [], durationMs: 0 };
+
+    if (!await this.waitForReady(readyTimeoutMs)) {
+      result.passed = false;
+      result.error = "The bot never connected to the simulator";
+    } else {
+      await sleep(READY_SETTLE_MS);
+      let mark = this.seq;
+      for (const [index, step] of scenario.steps.entries()) {
+        try {
+          if (step.type === "wait") {
+            await sleep(step.ms);
+            result.steps.push({ index, step, passed: true });
+          } else if (step.type === "expect") {
+            const outcome = await this.check(step.expect, mark);
+            result.steps.push({ index, step, ...outcome });
+            this.emit("assertion", { passed: outcome.passed, expectation: this.describe(step.expect), message: outcome.detail });
+          } else {
+            mark = this.seq;
+            await this.perform(step);
+            result.steps.push({ index, step, passed: true });
+            if (scenario.steps[index + 1]?.type !== "expect") await sleep(STEP_GAP_MS);
+          }
+        } catch (e) {
+          result.steps.push({ index, step, passed: false, detail: e instanceof Error ? e.message : String(e) });
+        }
+      }
+      result.passed = result.steps.every(s => s.passed);
+    }
+
+    result.durationMs = Date.now() - start;
+    this.lastResult = result;
+    this.emit("scenario", { name: scenario.name, passed: result.passed, error: result.error, failed: result.steps.filter(s => !s.passed).length });
+    return result;
+  }
+}
@@ -0,0 +1,5 @@
+-- Per-generation AI spend, priced by the model router (read by the Costs dashboard)
+ALTER TABLE public.generation_sessions
+  ADD COLUMN IF NOT EXISTS cost_usd numeric(10, 6),
+  ADD COLUMN IF NOT EXISTS cost_breakdown jsonb,
+  ADD COLUMN IF NOT EXISTS tokens_total jsonb;